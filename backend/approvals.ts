@@ -17,6 +17,7 @@ import {
 } from './config';
 import { publicClient, walletClient, bundlerClient, pimlicoPaymasterClient } from './clients';
 import { initBackendSmartAccount } from './smart-account';
+import { getRedemptionDelegations } from './delegation-scopes';
 
 // ============ APPROVAL CHECKING ============
 
@@ -65,14 +66,7 @@ export async function executeDelegatedERC20ApprovalViaUserOp(
   try {
     const backendSmartAccount = await initBackendSmartAccount();
 
-    const signedDelegation = typeof delegation.delegation_data === 'string'
-      ? JSON.parse(delegation.delegation_data)
-      : delegation.delegation_data;
-
-    if (!signedDelegation.signature) {
-      console.error('Delegation missing signature');
-      return null;
-    }
+    const signedDelegation = getRedemptionDelegations(delegation).approve;
 
     const approveCalldata = encodeFunctionData({
       abi: erc20Abi,
@@ -138,14 +132,7 @@ export async function executeDelegatedPermit2ApprovalViaUserOp(
   try {
     const backendSmartAccount = await initBackendSmartAccount();
 
-    const signedDelegation = typeof delegation.delegation_data === 'string'
-      ? JSON.parse(delegation.delegation_data)
-      : delegation.delegation_data;
-
-    if (!signedDelegation.signature) {
-      console.error('Delegation missing signature');
-      return null;
-    }
+    const signedDelegation = getRedemptionDelegations(delegation).permit2Approve;
 
     const maxAmount = BigInt('0xffffffffffffffffffffffffffffffffffffffff');
     const expiration = Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60);
@@ -211,14 +198,7 @@ export async function executeDelegatedERC20Approval(
   amount: bigint
 ): Promise<string | null> {
   try {
-    const signedDelegation = typeof delegation.delegation_data === 'string'
-      ? JSON.parse(delegation.delegation_data)
-      : delegation.delegation_data;
-
-    if (!signedDelegation.signature) {
-      console.error('Delegation missing signature');
-      return null;
-    }
+    const signedDelegation = getRedemptionDelegations(delegation).approve;
 
     const approveCalldata = encodeFunctionData({
       abi: erc20Abi,
@@ -272,14 +252,7 @@ export async function executeDelegatedPermit2Approval(
   spenderAddress: Address
 ): Promise<string | null> {
   try {
-    const signedDelegation = typeof delegation.delegation_data === 'string'
-      ? JSON.parse(delegation.delegation_data)
-      : delegation.delegation_data;
-
-    if (!signedDelegation.signature) {
-      console.error('Delegation missing signature');
-      return null;
-    }
+    const signedDelegation = getRedemptionDelegations(delegation).permit2Approve;
 
     const maxAmount = BigInt('0xffffffffffffffffffffffffffffffffffffffff');
     const expiration = Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60);
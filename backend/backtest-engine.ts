@@ -0,0 +1,338 @@
+// ============ BACKTEST ENGINE ============
+// Replays daily Fear & Greed history against a local price series using the same
+// decision, sizing, fee and slippage code as runDCA. Pure and offline: no RPC or API calls.
+
+import { formatUnits, parseUnits } from 'viem';
+import {
+  MIN_DELEGATION_VALUE_USD,
+  MIN_SWAP_AMOUNT,
+  calculateFee,
+  calculateSwapValueUsd,
+  calculateWalletSwapAmount,
+  getSlippageBpsForSwap,
+  BPS_DENOMINATOR,
+  type DCADecision,
+} from './config';
+import { calculateDecision, getStrategy, type StrategyConfig } from '../shared/strategies';
+
+// Matches the F&G history window runDCA passes to strategies
+export const BACKTEST_HISTORY_DAYS = 30;
+
+// Default per-swap cap, same as the /api/delegation default (1000 USDC)
+export const DEFAULT_MAX_AMOUNT_PER_SWAP = parseUnits('1000', 6);
+
+// ============ TYPES ============
+
+export interface FearGreedDay {
+  date: string; // YYYY-MM-DD (UTC)
+  value: number;
+}
+
+export interface BacktestDay {
+  date: string;
+  fgValue: number;
+  price: number; // USD price of the target asset
+}
+
+export interface BacktestOptions {
+  strategyId?: string;
+  strategyConfig?: StrategyConfig | null;
+  initialCapitalUsd: number;
+  maxAmountPerSwap?: bigint; // USDC base units
+}
+
+export interface EquityPoint {
+  date: string;
+  fgValue: number;
+  price: number;
+  action: DCADecision['action'];
+  usdc: number;
+  target: number;
+  equityUsd: number;
+}
+
+export interface BacktestMetrics {
+  finalValueUsd: number;
+  totalReturn: number; // 0.25 = +25%
+  cagr: number;
+  maxDrawdown: number; // 0.30 = -30% peak to trough
+  trades: number;
+  feesUsd: number;
+}
+
+export interface BacktestResult {
+  name: string;
+  equity: EquityPoint[];
+  metrics: BacktestMetrics;
+}
+
+// ============ FIXTURE PARSING ============
+
+/**
+ * Parse an alternative.me /fng/ response (newest first) into ascending daily values
+ */
+export function parseFearGreedHistory(json: any): FearGreedDay[] {
+  if (!json || !Array.isArray(json.data)) {
+    throw new Error('Invalid Fear & Greed history: missing data array');
+  }
+
+  const days = json.data.map((entry: any) => {
+    const value = parseInt(entry.value);
+    const timestamp = parseInt(entry.timestamp);
+    if (isNaN(value) || isNaN(timestamp)) {
+      throw new Error(`Invalid Fear & Greed entry: ${JSON.stringify(entry)}`);
+    }
+    return { date: new Date(timestamp * 1000).toISOString().split('T')[0], value };
+  });
+
+  return days.sort((a: FearGreedDay, b: FearGreedDay) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Parse a daily price CSV with a header row: date,close (date as YYYY-MM-DD)
+ */
+export function parsePriceCsv(csv: string): Map<string, number> {
+  const lines = csv.trim().split(/\r?\n/);
+  const header = lines[0].toLowerCase().split(',').map(h => h.trim());
+  const dateCol = header.indexOf('date');
+  const closeCol = header.indexOf('close');
+  if (dateCol === -1 || closeCol === -1) {
+    throw new Error('Price CSV must have "date" and "close" columns');
+  }
+
+  const prices = new Map<string, number>();
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) continue;
+    const cols = line.split(',');
+    const price = parseFloat(cols[closeCol]);
+    if (isNaN(price) || price <= 0) {
+      throw new Error(`Invalid price row: ${line}`);
+    }
+    prices.set(cols[dateCol].trim(), price);
+  }
+  return prices;
+}
+
+/**
+ * Join F&G history and prices on date, dropping days missing from either series
+ */
+export function joinSeries(fearGreed: FearGreedDay[], prices: Map<string, number>): BacktestDay[] {
+  const days: BacktestDay[] = [];
+  for (const fg of fearGreed) {
+    const price = prices.get(fg.date);
+    if (price !== undefined) {
+      days.push({ date: fg.date, fgValue: fg.value, price });
+    }
+  }
+  return days;
+}
+
+// ============ SIMULATION ============
+
+// Target balances are tracked in 18-decimal units whatever the asset; only the price matters here
+const TARGET_DECIMALS = 18;
+
+/**
+ * Execute one swap the way the engine would: fee taken from the input,
+ * output filled at the slippage limit (worst accepted price)
+ */
+function simulateFill(
+  amountIn: bigint,
+  isBuy: boolean,
+  price: number
+): { amountOut: bigint; fee: bigint } {
+  const fee = calculateFee(amountIn);
+  const amountAfterFee = amountIn - fee;
+  const swapValueUsd = calculateSwapValueUsd(amountAfterFee, isBuy, price);
+  const slippageBps = getSlippageBpsForSwap(swapValueUsd);
+  const fillUsd = swapValueUsd * (BPS_DENOMINATOR - slippageBps) / BPS_DENOMINATOR;
+
+  const amountOut = isBuy
+    ? parseUnits((fillUsd / price).toFixed(TARGET_DECIMALS), TARGET_DECIMALS)
+    : parseUnits(fillUsd.toFixed(6), 6);
+
+  return { amountOut, fee };
+}
+
+function toUsd(usdc: bigint, target: bigint, price: number): number {
+  return Number(formatUnits(usdc, 6)) + Number(formatUnits(target, TARGET_DECIMALS)) * price;
+}
+
+/**
+ * Run a strategy over the series, starting fully in USDC like a freshly funded smart account
+ */
+export function runStrategyBacktest(days: BacktestDay[], options: BacktestOptions): BacktestResult {
+  const maxAmountPerSwap = options.maxAmountPerSwap ?? DEFAULT_MAX_AMOUNT_PER_SWAP;
+  let usdc = parseUnits(options.initialCapitalUsd.toFixed(6), 6);
+  let target = 0n;
+  let trades = 0;
+  let feesUsd = 0;
+  const equity: EquityPoint[] = [];
+
+  for (let i = 0; i < days.length; i++) {
+    const day = days[i];
+    const history = days
+      .slice(Math.max(0, i - BACKTEST_HISTORY_DAYS), i)
+      .map(d => d.fgValue)
+      .reverse();
+
+    const usdcUsd = Number(formatUnits(usdc, 6));
+    const targetUsd = Number(formatUnits(target, TARGET_DECIMALS)) * day.price;
+
+    const decision = calculateDecision(
+      day.fgValue,
+      options.strategyId,
+      { history, price: day.price, balances: { usdcUsd, targetUsd } },
+      options.strategyConfig
+    );
+
+    // Same wallet-level gates as processSwapsParallel
+    if (decision.action !== 'hold' && usdcUsd + targetUsd >= MIN_DELEGATION_VALUE_USD) {
+      const isBuy = decision.action === 'buy';
+      const balance = isBuy ? usdc : target;
+      const swapAmount = balance < MIN_SWAP_AMOUNT
+        ? 0n
+        : calculateWalletSwapAmount(balance, decision, maxAmountPerSwap, day.price);
+
+      if (swapAmount > 0n) {
+        const { amountOut, fee } = simulateFill(swapAmount, isBuy, day.price);
+        if (isBuy) {
+          usdc -= swapAmount;
+          target += amountOut;
+        } else {
+          target -= swapAmount;
+          usdc += amountOut;
+        }
+        trades++;
+        feesUsd += calculateSwapValueUsd(fee, isBuy, day.price);
+      }
+    }
+
+    equity.push({
+      date: day.date,
+      fgValue: day.fgValue,
+      price: day.price,
+      action: decision.action,
+      usdc: Number(formatUnits(usdc, 6)),
+      target: Number(formatUnits(target, TARGET_DECIMALS)),
+      equityUsd: toUsd(usdc, target, day.price),
+    });
+  }
+
+  return {
+    name: getStrategy(options.strategyId).name,
+    equity,
+    metrics: calculateMetrics(equity, options.initialCapitalUsd, trades, feesUsd),
+  };
+}
+
+/**
+ * Benchmark: buy the whole capital on day one and hold
+ */
+export function runLumpSumBacktest(days: BacktestDay[], initialCapitalUsd: number): BacktestResult {
+  const capital = parseUnits(initialCapitalUsd.toFixed(6), 6);
+  const { amountOut: target, fee } = days.length > 0
+    ? simulateFill(capital, true, days[0].price)
+    : { amountOut: 0n, fee: 0n };
+  const usdc = days.length > 0 ? 0n : capital;
+
+  const equity: EquityPoint[] = days.map((day, i) => ({
+    date: day.date,
+    fgValue: day.fgValue,
+    price: day.price,
+    action: i === 0 ? 'buy' : 'hold',
+    usdc: Number(formatUnits(usdc, 6)),
+    target: Number(formatUnits(target, TARGET_DECIMALS)),
+    equityUsd: toUsd(usdc, target, day.price),
+  }));
+
+  return {
+    name: 'Lump Sum',
+    equity,
+    metrics: calculateMetrics(equity, initialCapitalUsd, days.length > 0 ? 1 : 0, Number(formatUnits(fee, 6))),
+  };
+}
+
+/**
+ * Benchmark: plain DCA, buying an equal USDC slice every day regardless of sentiment
+ */
+export function runPlainDcaBacktest(days: BacktestDay[], initialCapitalUsd: number): BacktestResult {
+  let usdc = parseUnits(initialCapitalUsd.toFixed(6), 6);
+  const slice = days.length > 0 ? usdc / BigInt(days.length) : 0n;
+  let target = 0n;
+  let trades = 0;
+  let feesUsd = 0;
+
+  const equity: EquityPoint[] = days.map(day => {
+    let action: DCADecision['action'] = 'hold';
+    if (slice >= MIN_SWAP_AMOUNT) {
+      const { amountOut, fee } = simulateFill(slice, true, day.price);
+      usdc -= slice;
+      target += amountOut;
+      trades++;
+      feesUsd += Number(formatUnits(fee, 6));
+      action = 'buy';
+    }
+    return {
+      date: day.date,
+      fgValue: day.fgValue,
+      price: day.price,
+      action,
+      usdc: Number(formatUnits(usdc, 6)),
+      target: Number(formatUnits(target, TARGET_DECIMALS)),
+      equityUsd: toUsd(usdc, target, day.price),
+    };
+  });
+
+  return {
+    name: 'Plain DCA',
+    equity,
+    metrics: calculateMetrics(equity, initialCapitalUsd, trades, feesUsd),
+  };
+}
+
+// ============ METRICS ============
+
+/**
+ * Largest peak-to-trough decline of the equity curve, as a positive fraction
+ */
+export function calculateMaxDrawdown(values: number[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  for (const value of values) {
+    peak = Math.max(peak, value);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+    }
+  }
+  return maxDrawdown;
+}
+
+/**
+ * Compound annual growth rate between two values over a number of days
+ */
+export function calculateCagr(initialValue: number, finalValue: number, days: number): number {
+  if (initialValue <= 0 || days <= 0) return 0;
+  return Math.pow(finalValue / initialValue, 365 / days) - 1;
+}
+
+function calculateMetrics(
+  equity: EquityPoint[],
+  initialCapitalUsd: number,
+  trades: number,
+  feesUsd: number
+): BacktestMetrics {
+  const finalValueUsd = equity.length > 0 ? equity[equity.length - 1].equityUsd : initialCapitalUsd;
+  const elapsedDays = equity.length > 1
+    ? (Date.parse(equity[equity.length - 1].date) - Date.parse(equity[0].date)) / 86_400_000
+    : 0;
+
+  return {
+    finalValueUsd,
+    totalReturn: finalValueUsd / initialCapitalUsd - 1,
+    cagr: calculateCagr(initialCapitalUsd, finalValueUsd, elapsedDays),
+    maxDrawdown: calculateMaxDrawdown(equity.map(p => p.equityUsd)),
+    trades,
+    feesUsd,
+  };
+}
@@ -0,0 +1,164 @@
+// ============ BACKTEST CLI ============
+// Replay Fear & Greed history through one or all strategies and compare against
+// lump-sum and plain DCA. Runs offline from fixture files.
+//
+// Usage:
+//   npx tsx backtest.ts [--strategy=ladder|all] [--asset=ETH|cbBTC] [--capital=1000]
+//                       [--fg=fixtures/fear-greed-sample.json] [--prices=fixtures/eth-usd-sample.csv]
+//                       [--config='{"buyOnly":true}'] [--from=YYYY-MM-DD] [--to=YYYY-MM-DD]
+//                       [--out=equity.csv] [--fetch-fg]
+//
+// --fetch-fg downloads the full alternative.me history into the --fg file first (the only network call).
+
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  parseFearGreedHistory,
+  parsePriceCsv,
+  joinSeries,
+  runStrategyBacktest,
+  runLumpSumBacktest,
+  runPlainDcaBacktest,
+  type BacktestDay,
+  type BacktestResult,
+  type EquityPoint,
+} from './backtest-engine';
+import { STRATEGIES, isStrategyId, validateStrategyConfig, type StrategyId } from '../shared/strategies';
+
+const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+const DEFAULT_PRICE_FIXTURES: Record<string, string> = {
+  eth: join(FIXTURES_DIR, 'eth-usd-sample.csv'),
+  cbbtc: join(FIXTURES_DIR, 'btc-usd-sample.csv'),
+};
+
+function getArg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+async function fetchFullFearGreedHistory(path: string): Promise<void> {
+  console.log('Fetching full Fear & Greed history from alternative.me...');
+  const response = await fetch('https://api.alternative.me/fng/?limit=0');
+  if (!response.ok) {
+    throw new Error(`F&G API returned ${response.status}`);
+  }
+  const json = await response.json();
+  writeFileSync(path, JSON.stringify(json));
+  console.log(`Saved ${json.data?.length ?? 0} days to ${path}`);
+}
+
+function formatPct(value: number): string {
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+}
+
+function printSummary(results: BacktestResult[]): void {
+  console.log('\nRESULTS:');
+  console.log('--------------------------------------------------------------------------------');
+  console.log('Strategy               | Final USD  | Return    | CAGR      | Max DD   | Trades | Fees USD');
+  console.log('--------------------------------------------------------------------------------');
+  for (const { name, metrics } of results) {
+    console.log(
+      `${name.padEnd(22)} | ${metrics.finalValueUsd.toFixed(2).padStart(10)} | ${formatPct(metrics.totalReturn).padStart(9)} | ` +
+      `${formatPct(metrics.cagr).padStart(9)} | ${(metrics.maxDrawdown * 100).toFixed(2).padStart(7)}% | ` +
+      `${String(metrics.trades).padStart(6)} | ${metrics.feesUsd.toFixed(2)}`
+    );
+  }
+  console.log('--------------------------------------------------------------------------------');
+}
+
+function printEquityCurve(results: BacktestResult[]): void {
+  const points = results[0].equity.length;
+  const step = Math.max(1, Math.floor(points / 12));
+
+  console.log('\nEQUITY CURVE (USD):');
+  console.log(['Date      ', ...results.map(r => r.name.slice(0, 14).padStart(14))].join(' | '));
+  for (let i = 0; i < points; i += step) {
+    console.log([results[0].equity[i].date, ...results.map(r => r.equity[i].equityUsd.toFixed(2).padStart(14))].join(' | '));
+  }
+}
+
+function writeEquityCsv(path: string, results: BacktestResult[]): void {
+  const header = ['date', 'fg', 'price', ...results.map(r => r.name)].join(',');
+  const rows = results[0].equity.map((point: EquityPoint, i: number) =>
+    [point.date, point.fgValue, point.price, ...results.map(r => r.equity[i].equityUsd.toFixed(2))].join(',')
+  );
+  writeFileSync(path, [header, ...rows].join('\n') + '\n');
+  console.log(`\nEquity curve written to ${path}`);
+}
+
+async function main() {
+  const strategyArg = getArg('strategy') || 'all';
+  const asset = (getArg('asset') || 'ETH').toLowerCase();
+  const capital = Number(getArg('capital') || '1000');
+  const fgPath = getArg('fg') || join(FIXTURES_DIR, 'fear-greed-sample.json');
+  const pricePath = getArg('prices') || DEFAULT_PRICE_FIXTURES[asset];
+  const from = getArg('from');
+  const to = getArg('to');
+  const out = getArg('out');
+
+  if (strategyArg !== 'all' && !isStrategyId(strategyArg)) {
+    throw new Error(`Unknown strategy: ${strategyArg} (expected one of: all, ${Object.keys(STRATEGIES).join(', ')})`);
+  }
+  if (!pricePath) {
+    throw new Error(`No default price fixture for asset ${asset} - pass --prices=<csv>`);
+  }
+  if (!Number.isFinite(capital) || capital <= 0) {
+    throw new Error('--capital must be a positive number');
+  }
+
+  const configArg = getArg('config');
+  const configResult = validateStrategyConfig(
+    configArg ? JSON.parse(configArg) : null,
+    strategyArg === 'all' ? null : strategyArg
+  );
+  if (!configResult.valid) {
+    throw new Error(`Invalid --config: ${configResult.error}`);
+  }
+
+  if (process.argv.includes('--fetch-fg')) {
+    await fetchFullFearGreedHistory(fgPath);
+  }
+
+  const fearGreed = parseFearGreedHistory(JSON.parse(readFileSync(fgPath, 'utf8')));
+  const prices = parsePriceCsv(readFileSync(pricePath, 'utf8'));
+  const days = joinSeries(fearGreed, prices).filter((d: BacktestDay) => (!from || d.date >= from) && (!to || d.date <= to));
+
+  if (days.length < 2) {
+    throw new Error('Not enough overlapping F&G and price data to backtest');
+  }
+
+  console.log('========================================');
+  console.log('  Fear & Greed DCA Backtest');
+  console.log('========================================');
+  console.log(`Period: ${days[0].date} → ${days[days.length - 1].date} (${days.length} days)`);
+  console.log(`Asset: ${asset.toUpperCase()} | Capital: $${capital}`);
+  console.log(`F&G: ${fgPath}`);
+  console.log(`Prices: ${pricePath}`);
+
+  const strategyIds: StrategyId[] = strategyArg === 'all'
+    ? (Object.keys(STRATEGIES) as StrategyId[])
+    : [strategyArg as StrategyId];
+
+  const results: BacktestResult[] = [
+    ...strategyIds.map(strategyId => runStrategyBacktest(days, {
+      strategyId,
+      strategyConfig: configResult.config,
+      initialCapitalUsd: capital,
+    })),
+    runLumpSumBacktest(days, capital),
+    runPlainDcaBacktest(days, capital),
+  ];
+
+  printSummary(results);
+  printEquityCurve(results);
+
+  if (out) {
+    writeEquityCsv(out, results);
+  }
+}
+
+main().catch((error) => {
+  console.error('Backtest failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
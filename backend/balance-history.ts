@@ -0,0 +1,154 @@
+// ============ BALANCE HISTORY ============
+// Pure helpers behind balance snapshots: portfolio valuation and reconstruction of
+// past daily balances from logged swaps. Reading chain/DB state lives in balance-snapshots.ts.
+
+export const TOKEN_DECIMALS = { usdc: 6, weth: 18, eth: 18, cbbtc: 8 } as const;
+
+// Human units (not base units)
+export interface WalletBalances {
+  usdc: number;
+  weth: number;
+  eth: number;   // Native ETH
+  cbbtc: number;
+}
+
+export interface SnapshotPrices {
+  ethUsd: number;
+  btcUsd: number | null; // Only needed when the wallet holds cbBTC
+}
+
+export interface HistoryExecution {
+  action: 'buy' | 'sell' | 'rebalance';
+  amountIn: string;          // Base units
+  amountOut: string | null;  // Base units
+  createdAt: string;
+  executionKey: string | null;
+  targetAsset: 'ETH' | 'cbBTC';
+}
+
+export interface DailyBalances {
+  date: string; // YYYY-MM-DD (UTC), balances at end of day
+  balances: WalletBalances;
+  prices: SnapshotPrices;
+  totalUsd: number;
+}
+
+/**
+ * Total USD value, or null when a held asset has no price
+ */
+export function getTotalUsd(balances: WalletBalances, prices: SnapshotPrices): number | null {
+  if (balances.cbbtc > 0 && prices.btcUsd === null) return null;
+  return balances.usdc +
+    (balances.eth + balances.weth) * prices.ethUsd +
+    balances.cbbtc * (prices.btcUsd ?? 0);
+}
+
+function toUnits(amount: string | null, decimals: number): number {
+  return amount ? Number(amount) / 10 ** decimals : 0;
+}
+
+/**
+ * Rebalances are logged with action 'rebalance'; the direction is the last segment
+ * of their execution key (wallet:plan-id:direction).
+ */
+export function getExecutionDirection(execution: HistoryExecution): 'buy' | 'sell' | null {
+  if (execution.action !== 'rebalance') return execution.action;
+  const direction = execution.executionKey?.split(':').pop();
+  return direction === 'buy' || direction === 'sell' ? direction : null;
+}
+
+/**
+ * Balance change caused by a swap (buys spend USDC for the target asset, sells the reverse)
+ */
+export function getExecutionDelta(execution: HistoryExecution): WalletBalances {
+  const delta: WalletBalances = { usdc: 0, weth: 0, eth: 0, cbbtc: 0 };
+  const direction = getExecutionDirection(execution);
+  if (!direction) return delta;
+
+  const assetKey = execution.targetAsset === 'cbBTC' ? 'cbbtc' : 'weth';
+  const assetDecimals = TOKEN_DECIMALS[assetKey];
+  if (direction === 'buy') {
+    delta.usdc = -toUnits(execution.amountIn, TOKEN_DECIMALS.usdc);
+    delta[assetKey] = toUnits(execution.amountOut, assetDecimals);
+  } else {
+    delta[assetKey] = -toUnits(execution.amountIn, assetDecimals);
+    delta.usdc = toUnits(execution.amountOut, TOKEN_DECIMALS.usdc);
+  }
+  return delta;
+}
+
+/**
+ * USD price the swap executed at, used when the price archive has no entry for the day
+ */
+export function getImpliedPrice(execution: HistoryExecution): number | null {
+  const direction = getExecutionDirection(execution);
+  if (!direction || !execution.amountOut) return null;
+  const assetDecimals = execution.targetAsset === 'cbBTC' ? TOKEN_DECIMALS.cbbtc : TOKEN_DECIMALS.weth;
+  const usdc = toUnits(direction === 'buy' ? execution.amountIn : execution.amountOut, TOKEN_DECIMALS.usdc);
+  const asset = toUnits(direction === 'buy' ? execution.amountOut : execution.amountIn, assetDecimals);
+  return asset > 0 ? usdc / asset : null;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Reconstruct end-of-day balances for [from, to] by walking back from `anchor`
+ * (balances at the end of `anchorDate`) and undoing each logged swap.
+ *
+ * Deposits and withdrawals are not in dca_executions, so days before a transfer
+ * carry its effect; days whose reconstruction goes negative are dropped. Days
+ * without a price for a held asset (archive or same-day swap) are dropped too.
+ */
+export function reconstructDailyBalances(
+  anchor: WalletBalances,
+  anchorDate: string,
+  executions: HistoryExecution[],
+  archive: { eth: Map<string, number>; btc: Map<string, number> },
+  from: string,
+  to: string
+): DailyBalances[] {
+  const byDate = new Map<string, HistoryExecution[]>();
+  for (const execution of executions) {
+    const date = execution.createdAt.slice(0, 10);
+    byDate.set(date, [...(byDate.get(date) ?? []), execution]);
+  }
+
+  const days: DailyBalances[] = [];
+  const balances = { ...anchor };
+  for (let date = anchorDate; date >= from; date = addDays(date, -1)) {
+    const dayExecutions = byDate.get(date) ?? [];
+
+    if (date <= to && Object.values(balances).every(value => value >= -1e-9)) {
+      const implied = (asset: 'ETH' | 'cbBTC') => dayExecutions
+        .filter(e => e.targetAsset === asset)
+        .map(getImpliedPrice)
+        .find((price): price is number => price !== null) ?? null;
+      const ethUsd = archive.eth.get(date) ?? implied('ETH');
+      const btcUsd = archive.btc.get(date) ?? implied('cbBTC');
+
+      if (ethUsd !== null) {
+        const prices = { ethUsd, btcUsd };
+        const clean = Object.fromEntries(
+          Object.entries(balances).map(([key, value]) => [key, Math.max(0, value)])
+        ) as unknown as WalletBalances;
+        const totalUsd = getTotalUsd(clean, prices);
+        if (totalUsd !== null) {
+          days.push({ date, balances: clean, prices, totalUsd });
+        }
+      }
+    }
+
+    // Step to the end of the previous day by undoing today's swaps
+    for (const execution of dayExecutions) {
+      const delta = getExecutionDelta(execution);
+      balances.usdc -= delta.usdc;
+      balances.weth -= delta.weth;
+      balances.eth -= delta.eth;
+      balances.cbbtc -= delta.cbbtc;
+    }
+  }
+
+  return days.reverse();
+}
@@ -0,0 +1,240 @@
+// ============ BALANCE SNAPSHOTS ============
+// Records each active smart account's USDC/WETH/ETH/cbBTC balances and the prices used
+// to value them into balance_history, which the dashboard chart reads. Snapshots are
+// taken after every DCA run and by snapshot-balances.ts on its own schedule; the same
+// script backfills earlier days from dca_executions plus archived prices.
+
+import { erc20Abi, formatUnits, type Address } from 'viem';
+import { ADDRESSES, DB_RETRY_CONFIG, type DelegationRecord } from './config';
+import { withRetry } from './error-handler';
+import { publicClient, supabase, getETHBalance, getUSDCBalance, getCBBTCBalance } from './clients';
+import { getActiveDelegations } from './delegation-validator';
+import { getTargetUsdPrice } from './swap-engine';
+import {
+  TOKEN_DECIMALS,
+  getTotalUsd,
+  reconstructDailyBalances,
+  type DailyBalances,
+  type HistoryExecution,
+  type SnapshotPrices,
+  type WalletBalances,
+} from './balance-history';
+
+export type SnapshotSource = 'dca' | 'scheduled' | 'backfill';
+
+const PAGE_SIZE = 1000;
+const UPSERT_BATCH_SIZE = 500;
+
+async function readWalletBalances(wallet: Address): Promise<WalletBalances> {
+  const [usdc, weth, eth, cbbtc] = await Promise.all([
+    getUSDCBalance(wallet),
+    publicClient.readContract({
+      address: ADDRESSES.WETH,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [wallet],
+    }),
+    getETHBalance(wallet),
+    getCBBTCBalance(wallet),
+  ]);
+  return {
+    usdc: Number(formatUnits(usdc, TOKEN_DECIMALS.usdc)),
+    weth: Number(formatUnits(weth, TOKEN_DECIMALS.weth)),
+    eth: Number(formatUnits(eth, TOKEN_DECIMALS.eth)),
+    cbbtc: Number(formatUnits(cbbtc, TOKEN_DECIMALS.cbbtc)),
+  };
+}
+
+/**
+ * ETH price is required; BTC is optional and only blocks wallets that hold cbBTC
+ */
+async function getSnapshotPrices(): Promise<SnapshotPrices> {
+  const ethUsd = await getTargetUsdPrice('ETH');
+  let btcUsd: number | null = null;
+  try {
+    btcUsd = await getTargetUsdPrice('cbBTC');
+  } catch (error: any) {
+    console.warn(`[Snapshots] cbBTC price unavailable: ${error?.message}`);
+  }
+  return { ethUsd, btcUsd };
+}
+
+function toRow(
+  delegation: DelegationRecord,
+  date: string,
+  source: SnapshotSource,
+  balances: WalletBalances,
+  prices: SnapshotPrices,
+  totalUsd: number,
+  recordedAt: string
+) {
+  return {
+    user_address: delegation.user_address.toLowerCase(),
+    smart_account_address: delegation.smart_account_address.toLowerCase(),
+    snapshot_date: date,
+    source,
+    usdc_balance: balances.usdc,
+    weth_balance: balances.weth,
+    eth_balance: balances.eth,
+    cbbtc_balance: balances.cbbtc,
+    eth_price: prices.ethUsd,
+    btc_price: prices.btcUsd,
+    total_usd: totalUsd,
+    recorded_at: recordedAt,
+  };
+}
+
+async function upsertSnapshots(rows: ReturnType<typeof toRow>[]): Promise<number> {
+  let written = 0;
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + UPSERT_BATCH_SIZE);
+    const { error } = await withRetry(
+      async () => {
+        const { error } = await supabase
+          .from('balance_history')
+          .upsert(batch, { onConflict: 'smart_account_address,snapshot_date,source' });
+        if (error) throw error;
+      },
+      { ...DB_RETRY_CONFIG, operation: 'upsertBalanceSnapshots' }
+    );
+    if (error) {
+      console.error(`[Snapshots] Failed to write ${batch.length} snapshots:`, error.message);
+      continue;
+    }
+    written += batch.length;
+  }
+  return written;
+}
+
+function uniqueWallets(delegations: DelegationRecord[]): DelegationRecord[] {
+  const byWallet = new Map<string, DelegationRecord>();
+  for (const delegation of delegations) {
+    if (delegation.smart_account_address) {
+      byWallet.set(delegation.smart_account_address.toLowerCase(), delegation);
+    }
+  }
+  return Array.from(byWallet.values());
+}
+
+// ============ LIVE SNAPSHOT ============
+
+/**
+ * Snapshot every active smart account. Never throws - a failed snapshot must not
+ * fail the DCA run that triggered it. Re-running on the same day overwrites that
+ * day's snapshot for the same source.
+ */
+export async function snapshotBalances(source: 'dca' | 'scheduled', targetWallet?: string): Promise<number> {
+  try {
+    const wallets = uniqueWallets(await getActiveDelegations(targetWallet));
+    if (wallets.length === 0) {
+      console.log('[Snapshots] No active smart accounts');
+      return 0;
+    }
+
+    const prices = await getSnapshotPrices();
+    const now = new Date().toISOString();
+    const rows: ReturnType<typeof toRow>[] = [];
+
+    for (const delegation of wallets) {
+      try {
+        const balances = await readWalletBalances(delegation.smart_account_address as Address);
+        const totalUsd = getTotalUsd(balances, prices);
+        if (totalUsd === null) {
+          console.warn(`[Snapshots] ${delegation.smart_account_address}: holds cbBTC but no BTC price - skipped`);
+          continue;
+        }
+        rows.push(toRow(delegation, now.slice(0, 10), source, balances, prices, totalUsd, now));
+      } catch (error: any) {
+        console.error(`[Snapshots] ${delegation.smart_account_address}: balance read failed: ${error?.message}`);
+      }
+    }
+
+    const written = await upsertSnapshots(rows);
+    console.log(`[Snapshots] Recorded ${written}/${wallets.length} balances (ETH $${prices.ethUsd.toFixed(2)}${prices.btcUsd ? `, BTC $${prices.btcUsd.toFixed(2)}` : ''})`);
+    return written;
+  } catch (error: any) {
+    console.error(`[Snapshots] Snapshot failed: ${error?.message}`);
+    return 0;
+  }
+}
+
+// ============ BACKFILL ============
+
+async function fetchWalletExecutions(delegation: DelegationRecord, from: string): Promise<HistoryExecution[]> {
+  const wallet = delegation.smart_account_address.toLowerCase();
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { result, error } = await withRetry(
+      async () => {
+        // Older rows have no wallet_address; those belong to the delegator's wallet
+        const { data, error } = await supabase
+          .from('dca_executions')
+          .select('action, amount_in, amount_out, target_asset, created_at, execution_key')
+          .eq('status', 'success')
+          .in('action', ['buy', 'sell', 'rebalance'])
+          .or(`wallet_address.eq.${wallet},and(wallet_address.is.null,user_address.eq.${delegation.user_address})`)
+          .gte('created_at', `${from}T00:00:00Z`)
+          .order('created_at', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw error;
+        return data || [];
+      },
+      { ...DB_RETRY_CONFIG, operation: 'fetchWalletExecutions' }
+    );
+    if (!result) {
+      throw new Error(`Failed to fetch executions for ${wallet}: ${error?.message}`);
+    }
+    rows.push(...result);
+    if (result.length < PAGE_SIZE) break;
+  }
+
+  return rows.map(row => ({
+    action: row.action,
+    amountIn: row.amount_in,
+    amountOut: row.amount_out,
+    createdAt: row.created_at,
+    executionKey: row.execution_key,
+    // Rows from before baskets have no target_asset: they swapped the delegation's single target
+    targetAsset: (row.target_asset ?? delegation.target_asset) === 'cbBTC' ? 'cbBTC' : 'ETH',
+  }));
+}
+
+/**
+ * Backfill daily balances for [from, to] (capped at yesterday - today is live).
+ * Balances are walked back from today's on-chain balances through logged swaps and
+ * valued at archived daily closes, falling back to same-day swap prices.
+ */
+export async function backfillBalanceHistory(options: {
+  from: string;
+  to: string;
+  ethPrices: Map<string, number>;
+  btcPrices: Map<string, number>;
+  targetWallet?: string;
+}): Promise<number> {
+  const today = new Date().toISOString().slice(0, 10);
+  const yesterday = new Date(Date.now() - 86400_000).toISOString().slice(0, 10);
+  const to = options.to < yesterday ? options.to : yesterday;
+  const wallets = uniqueWallets(await getActiveDelegations(options.targetWallet));
+
+  let written = 0;
+  for (const delegation of wallets) {
+    const anchor = await readWalletBalances(delegation.smart_account_address as Address);
+    const executions = await fetchWalletExecutions(delegation, options.from);
+    const days = reconstructDailyBalances(
+      anchor,
+      today,
+      executions,
+      { eth: options.ethPrices, btc: options.btcPrices },
+      options.from,
+      to
+    );
+
+    const rows = days.map((day: DailyBalances) => toRow(
+      delegation, day.date, 'backfill', day.balances, day.prices, day.totalUsd, `${day.date}T23:59:59Z`
+    ));
+    const count = await upsertSnapshots(rows);
+    console.log(`[Backfill] ${delegation.smart_account_address}: ${executions.length} swaps → ${count} daily snapshots`);
+    written += count;
+  }
+  return written;
+}
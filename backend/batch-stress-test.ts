@@ -14,6 +14,7 @@ import { base } from 'viem/chains';
 import { createClient } from '@supabase/supabase-js';
 import { createPimlicoClient } from 'permissionless/clients/pimlico';
 import { readFileSync } from 'fs';
+import { getUsdPrice, type PriceFeedSource } from '../shared/prices';
 
 // ============================================
 // LOAD ENV VARS FROM ~/.config/ember-treasury/.keys
@@ -117,15 +118,10 @@ interface ComprehensiveReport {
     batch50: BatchTestResult;
     parallel100: BatchTestResult;
   };
-  coingeckoTest: {
-    totalTime: number;
-    successCount: number;
-    errorCount: number;
-    rateLimitHits: number;
-  };
+  oraclePrice: OraclePriceResult;
   priceComparison: {
-    canEliminateCoinGecko: boolean;
-    coingeckoPrice: number | null;
+    withinTolerance: boolean;
+    oraclePrice: number | null;
     uniswapDerivedPrice: number | null;
     priceDifference: number | null;
     recommendation: string;
@@ -464,69 +460,36 @@ async function fetchSwapQuotesParallel(wallets: WalletData[]): Promise<BatchTest
 }
 
 // ============================================
-// COINGECKO PRICE FETCH (FOR COMPARISON)
+// ORACLE PRICE (FOR COMPARISON)
 // ============================================
 
-async function fetchCoingeckoPrice(): Promise<{ price: number | null; rateLimitHit: boolean }> {
-  try {
-    const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd');
-    
-    if (response.status === 429) {
-      return { price: null, rateLimitHit: true };
-    }
-    
-    if (!response.ok) {
-      return { price: null, rateLimitHit: false };
-    }
-    
-    const data = await response.json();
-    return { price: data.ethereum?.usd || null, rateLimitHit: false };
-  } catch (error) {
-    return { price: null, rateLimitHit: false };
-  }
+interface OraclePriceResult {
+  totalTime: number;
+  price: number | null;
+  source: PriceFeedSource | null;
+  error: string | null;
 }
 
-async function testCoingeckoWithRateLimit(): Promise<{ totalTime: number; successCount: number; errorCount: number; rateLimitHits: number; price: number | null }> {
+/**
+ * ETH price from the shared price service (Chainlink, pool TWAP fallback) - the
+ * reference the quote-derived prices are compared against
+ */
+async function fetchOraclePrice(): Promise<OraclePriceResult> {
   console.log(`\n========================================`);
-  console.log(`  COINGECKO API TEST`);
-  console.log(`  Fetching ETH price 10 times`);
+  console.log(`  ORACLE PRICE`);
+  console.log(`  Chainlink ETH/USD, pool TWAP fallback`);
   console.log(`========================================\n`);
-  
+
   const startTime = Date.now();
-  let successCount = 0;
-  let errorCount = 0;
-  let rateLimitHits = 0;
-  let lastPrice: number | null = null;
-  
-  // Only test 10 calls to not get completely rate limited
-  for (let i = 0; i < 10; i++) {
-    const result = await fetchCoingeckoPrice();
-    
-    if (result.rateLimitHit) {
-      rateLimitHits++;
-      errorCount++;
-      console.log(`  Call ${i + 1}: RATE LIMITED (429)`);
-    } else if (result.price) {
-      successCount++;
-      lastPrice = result.price;
-      console.log(`  Call ${i + 1}: ETH = $${result.price}`);
-    } else {
-      errorCount++;
-      console.log(`  Call ${i + 1}: ERROR`);
-    }
-    
-    // Small delay between calls
-    if (i < 9) await sleep(200);
+  try {
+    const reading = await getUsdPrice(publicClient, 'ETH');
+    const totalTime = Date.now() - startTime;
+    console.log(`  ETH = $${reading.priceUsd.toFixed(2)} (${reading.source}, ${formatDuration(totalTime)})`);
+    return { totalTime, price: reading.priceUsd, source: reading.source, error: null };
+  } catch (error: any) {
+    console.log(`  ERROR: ${error?.message}`);
+    return { totalTime: Date.now() - startTime, price: null, source: null, error: error?.message ?? String(error) };
   }
-  
-  const totalTime = Date.now() - startTime;
-  
-  console.log(`\nCoingecko Summary:`);
-  console.log(`  Total time: ${formatDuration(totalTime)}`);
-  console.log(`  Success: ${successCount}/10`);
-  console.log(`  Rate limit hits: ${rateLimitHits}`);
-  
-  return { totalTime, successCount, errorCount, rateLimitHits, price: lastPrice };
 }
 
 // ============================================
@@ -537,25 +500,25 @@ function generateReport(
   batch25: BatchTestResult,
   batch50: BatchTestResult,
   parallel100: BatchTestResult,
-  coingecko: { totalTime: number; successCount: number; errorCount: number; rateLimitHits: number; price: number | null }
+  oracle: OraclePriceResult
 ): ComprehensiveReport {
-  // Determine if we can eliminate CoinGecko
+  // Compare the quote-derived price with the oracle's
   const uniswapPrice = batch25.ethPriceDerived || batch50.ethPriceDerived;
-  const coingeckoPrice = coingecko.price;
+  const oraclePrice = oracle.price;
   
-  let canEliminateCoinGecko = false;
+  let withinTolerance = false;
   let priceDifference: number | null = null;
   let recommendation = '';
   
-  if (uniswapPrice && coingeckoPrice) {
-    priceDifference = Math.abs(uniswapPrice - coingeckoPrice);
-    const percentDiff = (priceDifference / coingeckoPrice) * 100;
+  if (uniswapPrice && oraclePrice) {
+    priceDifference = Math.abs(uniswapPrice - oraclePrice);
+    const percentDiff = (priceDifference / oraclePrice) * 100;
     
     if (percentDiff < 1) { // Less than 1% difference
-      canEliminateCoinGecko = true;
-      recommendation = `Uniswap quotes can replace CoinGecko. Price difference is only ${percentDiff.toFixed(2)}% (< 1% threshold)`;
+      withinTolerance = true;
+      recommendation = `Quotes track the oracle. Price difference is only ${percentDiff.toFixed(2)}% (< 1% threshold)`;
     } else {
-      recommendation = `Price difference is ${percentDiff.toFixed(2)}%. Consider impact before eliminating CoinGecko.`;
+      recommendation = `Price difference is ${percentDiff.toFixed(2)}%. Quotes this far off are refused by the price guard.`;
     }
   } else {
     recommendation = 'Unable to compare prices. Insufficient data from either source.';
@@ -564,10 +527,10 @@ function generateReport(
   return {
     timestamp: new Date().toISOString(),
     uniswapTests: { batch25, batch50, parallel100 },
-    coingeckoTest: coingecko,
+    oraclePrice: oracle,
     priceComparison: {
-      canEliminateCoinGecko,
-      coingeckoPrice,
+      withinTolerance,
+      oraclePrice,
       uniswapDerivedPrice: uniswapPrice || null,
       priceDifference,
       recommendation,
@@ -576,7 +539,7 @@ function generateReport(
 }
 
 function printFinalReport(report: ComprehensiveReport) {
-  const { uniswapTests, coingeckoTest, priceComparison } = report;
+  const { uniswapTests, oraclePrice, priceComparison } = report;
   
   console.log('\n');
   console.log('╔══════════════════════════════════════════════════════════════════════════════╗');
@@ -635,14 +598,14 @@ function printFinalReport(report: ComprehensiveReport) {
   console.log('└─────────────────────────────────────────────────────────────────────────────┘');
   console.log('');
   
-  // CoinGecko Analysis
+  // Oracle Comparison
   console.log('┌─────────────────────────────────────────────────────────────────────────────┐');
-  console.log('│ COINGECKO ELIMINATION ANALYSIS                                              │');
+  console.log('│ ORACLE PRICE COMPARISON                                                     │');
   console.log('├─────────────────────────────────────────────────────────────────────────────┤');
-  console.log(`│ CoinGecko Price:     $${(priceComparison.coingeckoPrice?.toFixed(2) || 'N/A').padEnd(66)}│`);
+  console.log(`│ Oracle Price:        $${(priceComparison.oraclePrice?.toFixed(2) || 'N/A').padEnd(66)}│`);
   console.log(`│ Uniswap Price:       $${(priceComparison.uniswapDerivedPrice?.toFixed(2) || 'N/A').padEnd(66)}│`);
   console.log(`│ Difference:          $${(priceComparison.priceDifference?.toFixed(2) || 'N/A').padEnd(66)}│`);
-  console.log(`│ Can Eliminate?       ${(priceComparison.canEliminateCoinGecko ? 'YES ✅' : 'NO ❌').padEnd(69)}│`);
+  console.log(`│ Within 1%?           ${(priceComparison.withinTolerance ? 'YES ✅' : 'NO ❌').padEnd(69)}│`);
   console.log('├─────────────────────────────────────────────────────────────────────────────┤');
   console.log(`│ ${priceComparison.recommendation.slice(0, 75).padEnd(75)}│`);
   console.log('└─────────────────────────────────────────────────────────────────────────────┘');
@@ -653,7 +616,7 @@ function printFinalReport(report: ComprehensiveReport) {
   console.log('│ SUMMARY                                                                     │');
   console.log('├─────────────────────────────────────────────────────────────────────────────┤');
   console.log(`│ • Batch processing ${uniswapTests.parallel100.timeout504Count > 0 ? 'REDUCES' : 'does not affect'} 504 timeouts vs parallel          │`);
-  console.log(`│ • CoinGecko rate limits: ${coingeckoTest.rateLimitHits}/10 calls hit 429 errors                      │`);
+  console.log(`│ • Oracle price: ${(oraclePrice.source ? `${oraclePrice.source} in ${formatDuration(oraclePrice.totalTime)}` : 'unavailable').padEnd(60)}│`);
   console.log(`│ • Uniswap API reliability: ${(100 - (uniswapTests.batch25.errorCount / uniswapTests.batch25.totalWallets * 100)).toFixed(0)}% success with batch 25      │`);
   console.log('└─────────────────────────────────────────────────────────────────────────────┘');
   console.log('');
@@ -712,11 +675,11 @@ async function runBatchStressTest() {
   // Cool down
   await sleep(3000);
   
-  // 6. Test CoinGecko
-  const coingeckoResult = await testCoingeckoWithRateLimit();
+  // 6. Read the oracle price
+  const oracleResult = await fetchOraclePrice();
   
   // 7. Generate and print report
-  const report = generateReport(batch25Result, batch50Result, parallelResult, coingeckoResult);
+  const report = generateReport(batch25Result, batch50Result, parallelResult, oracleResult);
   printFinalReport(report);
   
   // 8. Save report to file
@@ -0,0 +1,304 @@
+// ============ CAVEAT DECODER ============
+// Decodes the terms of every caveat enforcer the smart accounts kit deploys (delegation
+// framework v1.3.0 layouts) plus the ones registered in CAVEAT_ENFORCERS, and computes
+// the EIP-712 digest the DelegationManager checks a delegation's signature against.
+// Pure - the on-chain checks that use it live in delegation-validator.ts.
+
+import { decodeAbiParameters, hashTypedData, type Address, type Hex } from 'viem';
+import { getSmartAccountsEnvironment } from '@metamask/smart-accounts-kit';
+import { SIGNABLE_DELEGATION_TYPED_DATA, toDelegationStruct } from '@metamask/smart-accounts-kit/utils';
+import { ADDRESSES, CAVEAT_ENFORCERS, CHAIN_ID } from './config';
+import { FG_ENFORCER_TERMS_ABI } from '../shared/fear-greed-enforcer';
+
+export type DecodedTermValue = string | number | boolean | string[] | Record<string, string>[];
+
+export interface DecodedCaveat {
+  enforcer: string; // Lowercase address
+  name: string; // Enforcer contract name, 'Unknown' if not recognised
+  terms: Record<string, DecodedTermValue>;
+  error?: string; // Terms did not match the enforcer's layout
+}
+
+// The kit's enforcer deployments, by lowercase address
+const KIT_ENFORCERS: Record<string, string> = Object.fromEntries(
+  Object.entries(getSmartAccountsEnvironment(CHAIN_ID).caveatEnforcers)
+    .map(([name, address]) => [(address as string).toLowerCase(), name])
+);
+
+/**
+ * Enforcer contract name for an address: our own registry first, then the kit's
+ * deployments. 'Unknown' if neither has it.
+ */
+export function getEnforcerName(enforcer: string): string {
+  const address = enforcer.toLowerCase();
+  return CAVEAT_ENFORCERS[address] ?? KIT_ENFORCERS[address] ?? 'Unknown';
+}
+
+// ============ TERMS READER ============
+
+class TermsReader {
+  private offset = 0;
+  private readonly hex: string;
+
+  constructor(terms: Hex) {
+    this.hex = terms.slice(2).toLowerCase();
+  }
+
+  private take(bytes: number): string {
+    if (this.offset + bytes * 2 > this.hex.length) {
+      throw new Error(`terms too short: need ${this.offset / 2 + bytes} bytes, have ${this.hex.length / 2}`);
+    }
+    const chunk = this.hex.slice(this.offset, this.offset + bytes * 2);
+    this.offset += bytes * 2;
+    return chunk;
+  }
+
+  address(): string {
+    return `0x${this.take(20)}`;
+  }
+
+  uint(bytes = 32): bigint {
+    return BigInt(`0x${this.take(bytes)}`);
+  }
+
+  bytes(count: number): string {
+    return `0x${this.take(count)}`;
+  }
+
+  rest(): string {
+    const chunk = this.hex.slice(this.offset);
+    this.offset = this.hex.length;
+    return `0x${chunk}`;
+  }
+
+  remaining(): number {
+    return (this.hex.length - this.offset) / 2;
+  }
+
+  // Packed fixed-size items filling the rest of the terms
+  packed(bytes: number): string[] {
+    if (this.remaining() === 0 || this.remaining() % bytes !== 0) {
+      throw new Error(`terms are not a list of ${bytes}-byte items`);
+    }
+    const items: string[] = [];
+    while (this.remaining() > 0) items.push(this.bytes(bytes));
+    return items;
+  }
+
+  end(): void {
+    if (this.remaining() !== 0) {
+      throw new Error(`${this.remaining()} unexpected trailing bytes`);
+    }
+  }
+}
+
+// ============ DECODERS ============
+
+type TermsDecoder = (reader: TermsReader, terms: Hex) => Record<string, DecodedTermValue>;
+
+function balanceChange(reader: TermsReader, withTokenId = false): Record<string, DecodedTermValue> {
+  const decrease = reader.uint(1) !== 0n;
+  const token = reader.address();
+  const recipient = reader.address();
+  const tokenId = withTokenId ? reader.uint().toString() : undefined;
+  const amount = reader.uint().toString();
+  reader.end();
+  return {
+    changeType: decrease ? 'decrease' : 'increase',
+    token,
+    recipient,
+    ...(tokenId !== undefined ? { tokenId } : {}),
+    amount,
+  };
+}
+
+function periodTransfer(reader: TermsReader): Record<string, string> {
+  return {
+    token: reader.address(),
+    periodAmount: reader.uint().toString(),
+    periodDuration: reader.uint().toString(),
+    startDate: reader.uint().toString(),
+  };
+}
+
+function executions(terms: Hex): Record<string, string>[] {
+  const [decoded] = decodeAbiParameters(
+    [{ type: 'tuple[]', components: [{ name: 'target', type: 'address' }, { name: 'value', type: 'uint256' }, { name: 'callData', type: 'bytes' }] }],
+    terms
+  );
+  return decoded.map(e => ({ target: e.target.toLowerCase(), value: e.value.toString(), callData: e.callData }));
+}
+
+const DECODERS: Record<string, TermsDecoder> = {
+  AllowedCalldataEnforcer: r => ({ startIndex: Number(r.uint()), value: r.rest() }),
+  AllowedMethodsEnforcer: r => ({ selectors: r.packed(4) }),
+  AllowedTargetsEnforcer: r => ({ targets: r.packed(20) }),
+  ArgsEqualityCheckEnforcer: r => ({ expectedArgs: r.rest() }),
+  BlockNumberEnforcer: r => {
+    const terms = { afterBlock: Number(r.uint(16)), beforeBlock: Number(r.uint(16)) };
+    r.end();
+    return terms;
+  },
+  DeployedEnforcer: r => ({ contract: r.address(), salt: r.bytes(32), bytecode: r.rest() }),
+  ERC20BalanceChangeEnforcer: r => balanceChange(r),
+  ERC20TransferAmountEnforcer: r => {
+    const terms = { token: r.address(), maxAmount: r.uint().toString() };
+    r.end();
+    return terms;
+  },
+  ERC20StreamingEnforcer: r => {
+    const terms = {
+      token: r.address(),
+      initialAmount: r.uint().toString(),
+      maxAmount: r.uint().toString(),
+      amountPerSecond: r.uint().toString(),
+      startTime: Number(r.uint()),
+    };
+    r.end();
+    return terms;
+  },
+  ERC721BalanceChangeEnforcer: r => balanceChange(r),
+  ERC721TransferEnforcer: r => {
+    const terms = { token: r.address(), tokenId: r.uint().toString() };
+    r.end();
+    return terms;
+  },
+  ERC1155BalanceChangeEnforcer: r => balanceChange(r, true),
+  IdEnforcer: r => {
+    const terms = { id: r.uint().toString() };
+    r.end();
+    return terms;
+  },
+  LimitedCallsEnforcer: r => {
+    const terms = { limit: Number(r.uint()) };
+    r.end();
+    return terms;
+  },
+  NonceEnforcer: r => {
+    const terms = { nonce: r.uint().toString() };
+    r.end();
+    return terms;
+  },
+  TimestampEnforcer: r => {
+    const terms = { afterTimestamp: Number(r.uint(16)), beforeTimestamp: Number(r.uint(16)) };
+    r.end();
+    return terms;
+  },
+  ValueLteEnforcer: r => {
+    const terms = { maxValue: r.uint().toString() };
+    r.end();
+    return terms;
+  },
+  NativeTokenTransferAmountEnforcer: r => {
+    const terms = { allowance: r.uint().toString() };
+    r.end();
+    return terms;
+  },
+  NativeBalanceChangeEnforcer: r => {
+    const decrease = r.uint(1) !== 0n;
+    const terms = { changeType: decrease ? 'decrease' : 'increase', recipient: r.address(), amount: r.uint().toString() };
+    r.end();
+    return terms;
+  },
+  NativeTokenStreamingEnforcer: r => {
+    const terms = {
+      initialAmount: r.uint().toString(),
+      maxAmount: r.uint().toString(),
+      amountPerSecond: r.uint().toString(),
+      startTime: Number(r.uint()),
+    };
+    r.end();
+    return terms;
+  },
+  NativeTokenPaymentEnforcer: r => {
+    const terms = { recipient: r.address(), amount: r.uint().toString() };
+    r.end();
+    return terms;
+  },
+  OwnershipTransferEnforcer: r => {
+    const terms = { contract: r.address() };
+    r.end();
+    return terms;
+  },
+  RedeemerEnforcer: r => ({ redeemers: r.packed(20) }),
+  SpecificActionERC20TransferBatchEnforcer: r => ({
+    token: r.address(),
+    recipient: r.address(),
+    amount: r.uint().toString(),
+    firstTarget: r.address(),
+    firstCalldata: r.rest(),
+  }),
+  ERC20PeriodTransferEnforcer: r => {
+    const terms = periodTransfer(r);
+    r.end();
+    return terms;
+  },
+  NativeTokenPeriodTransferEnforcer: r => {
+    const terms = {
+      periodAmount: r.uint().toString(),
+      periodDuration: r.uint().toString(),
+      startDate: r.uint().toString(),
+    };
+    r.end();
+    return terms;
+  },
+  ExactCalldataBatchEnforcer: (_, terms) => ({ executions: executions(terms) }),
+  ExactCalldataEnforcer: r => ({ callData: r.rest() }),
+  ExactExecutionEnforcer: r => ({ target: r.address(), value: r.uint().toString(), callData: r.rest() }),
+  ExactExecutionBatchEnforcer: (_, terms) => ({ executions: executions(terms) }),
+  MultiTokenPeriodEnforcer: r => {
+    const periods: Record<string, string>[] = [];
+    do periods.push(periodTransfer(r)); while (r.remaining() > 0);
+    return { periods };
+  },
+  FearGreedEnforcer: (_, terms) => {
+    const [oracle, maxAge, tokens, wrappedNative, bandBps] = decodeAbiParameters(FG_ENFORCER_TERMS_ABI, terms);
+    return {
+      oracle: oracle.toLowerCase(),
+      maxAge: Number(maxAge),
+      tokens: tokens.map((token: string) => token.toLowerCase()),
+      wrappedNative: wrappedNative.toLowerCase(),
+      bandBps: bandBps.map(String),
+    };
+  },
+};
+
+/**
+ * Decode one caveat. Unknown enforcers and terms that don't fit their enforcer's layout
+ * come back with `error` set rather than throwing.
+ */
+export function decodeCaveat(caveat: { enforcer?: string; terms?: string }): DecodedCaveat {
+  const enforcer = (caveat.enforcer ?? '').toLowerCase();
+  const name = getEnforcerName(enforcer);
+  const decoder = DECODERS[name];
+  if (!decoder) {
+    return { enforcer, name, terms: { raw: caveat.terms ?? '0x' }, error: `No decoder for enforcer ${enforcer}` };
+  }
+
+  const terms = (caveat.terms ?? '0x') as Hex;
+  try {
+    return { enforcer, name, terms: decoder(new TermsReader(terms), terms) };
+  } catch (error: any) {
+    return { enforcer, name, terms: { raw: terms }, error: `Invalid ${name} terms: ${error?.shortMessage ?? error?.message}` };
+  }
+}
+
+export function decodeCaveats(delegationData: any): DecodedCaveat[] {
+  return (delegationData?.caveats ?? []).map(decodeCaveat);
+}
+
+// ============ SIGNATURE DIGEST ============
+
+/**
+ * EIP-712 digest the DelegationManager verifies the delegator's signature over
+ * (ECDSA for an EOA delegator, ERC-1271 isValidSignature for a smart account)
+ */
+export function getDelegationDigest(delegationData: any, delegationManager: Address = ADDRESSES.DELEGATION_MANAGER): Hex {
+  const { signature: _signature, ...message } = toDelegationStruct({ ...delegationData, signature: '0x' });
+  return hashTypedData({
+    domain: { name: 'DelegationManager', version: '1', chainId: CHAIN_ID, verifyingContract: delegationManager },
+    types: SIGNABLE_DELEGATION_TYPED_DATA,
+    primaryType: 'Delegation',
+    message,
+  });
+}
@@ -2,9 +2,22 @@
 // Constants, types, and environment variable loading
 
 import { type Address } from 'viem';
+import type { DCADecision, StrategyConfig } from '../shared/strategies';
+import type { ExecutionSchedule } from '../shared/schedule';
+import {
+  ODOS_ROUTER_V2,
+  PERMIT2_ADDRESS,
+  TOKEN_REGISTRY,
+  UNISWAP_SWAP_ROUTER_02,
+  UNISWAP_UNIVERSAL_ROUTER,
+  findTokenByAddress,
+  getTargetToken,
+  type TargetBasket,
+} from '../shared/tokens';
 
 export const CHAIN_ID = 8453;
 export const TRADING_API = 'https://trade-api.gateway.uniswap.org/v1';
+export const ODOS_API = 'https://api.odos.xyz';
 
 // Alchemy RPC for reliable read operations (balance checks, quote fetching)
 export const ALCHEMY_RPC = 'https://base-mainnet.g.alchemy.com/v2/NQlmwdn5GImg3XWpPUNp4';
@@ -17,30 +30,45 @@ export const PIMLICO_BUNDLER_URL = `https://api.pimlico.io/v2/base/rpc?apikey=${
 export const PIMLICO_PAYMASTER_URL = `https://api.pimlico.io/v2/8453/rpc?apikey=${PIMLICO_API_KEY}`;
 
 export const ADDRESSES = {
-  // Tokens
+  // Tokens (see the registry in shared/tokens.ts)
   ETH: '0x0000000000000000000000000000000000000000' as Address,
-  WETH: '0x4200000000000000000000000000000000000006' as Address,
-  USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Address,
-  cbBTC: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf' as Address,
+  WETH: TOKEN_REGISTRY.ETH.address as Address,
+  USDC: TOKEN_REGISTRY.USDC.address as Address,
+  cbBTC: TOKEN_REGISTRY.cbBTC.address as Address,
   // Uniswap V4 Universal Router (used by Trading API)
-  UNISWAP_ROUTER: '0x6fF5693b99212Da76ad316178A184AB56D299b43' as Address,
+  UNISWAP_ROUTER: UNISWAP_UNIVERSAL_ROUTER as Address,
   // Permit2 - Universal Router uses this for token transfers
-  PERMIT2: '0x000000000022D473030F116dDEE9F6B43aC78BA3' as Address,
+  PERMIT2: PERMIT2_ADDRESS as Address,
+  // Uniswap V3 SwapRouter02 (direct pool swaps for the uniswap-v3 venue)
+  UNISWAP_SWAP_ROUTER_02: UNISWAP_SWAP_ROUTER_02 as Address,
+  // Uniswap V3 QuoterV2 (read-only price quotes)
+  UNISWAP_QUOTER_V2: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a' as Address,
+  // Aave V3 Pool (USDC borrow rate for the on-chain sentiment index)
+  AAVE_POOL: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5' as Address,
   // MetaMask Delegation
   DELEGATION_MANAGER: '0xdb9B1e94B5b69Df7e401DDbedE43491141047dB3' as Address,
   // EMBER Staking (fee recipient)
   EMBER_STAKING: '0x434B2A0e38FB3E5D2ACFa2a7aE492C2A53E55Ec9' as Address,
 } as const;
 
-// ============ UNISWAP ROUTER WHITELIST (H5 Fix) ============
-// Whitelist of known Uniswap router addresses on Base
-// Prevents executing swaps to malicious contracts if API is compromised
+// ============ ROUTER WHITELISTS (H5 Fix) ============
+// One whitelist per quote provider (see quote-providers.ts): a provider's calldata may
+// only call its own routers. Prevents executing swaps to malicious contracts if an API
+// is compromised.
 export const UNISWAP_ROUTERS = [
   '0x6fF5693b99212Da76ad316178A184AB56D299b43', // Universal Router v1.0
   '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD', // Universal Router v1.2
   '0xEf1c6E67703c7BD7107eed8303Fbe6EC2554BF6B', // Universal Router (older)
 ] as const;
 
+export const UNISWAP_V3_ROUTERS = [
+  UNISWAP_SWAP_ROUTER_02, // SwapRouter02 - calldata built locally from a QuoterV2 quote
+] as const;
+
+export const ODOS_ROUTERS = [
+  ODOS_ROUTER_V2, // Odos Router V2 - calldata from the Odos assemble endpoint
+] as const;
+
 // Fee: 20 basis points = 0.20%
 export const FEE_BPS = 20;
 export const BPS_DENOMINATOR = 10000;
@@ -51,13 +79,13 @@ export const SLIPPAGE_SMALL_BPS = 50;   // 0.5% for swaps < $100
 export const SLIPPAGE_LARGE_BPS = 30;   // 0.3% for swaps >= $100
 export const SLIPPAGE_THRESHOLD_USD = 100; // $100 threshold
 
-// F&G Thresholds
-export const FG_THRESHOLDS = {
-  EXTREME_FEAR_MAX: 25,
-  FEAR_MAX: 45,
-  NEUTRAL_MAX: 54,
-  GREED_MAX: 75,
-};
+// ============ PRICE GUARD ============
+// Every quote's implied price is checked against the asset's Chainlink and pool TWAP prices
+// (price-guard.ts, shared/prices.ts). A quote further than this from any of them is refused.
+export const PRICE_GUARD_MAX_DEVIATION_BPS = Number(process.env.PRICE_GUARD_MAX_DEVIATION_BPS || 200); // 2%
+
+// F&G Thresholds and decision types live with the shared strategy registry
+export { FG_THRESHOLDS, type DCADecision } from '../shared/strategies';
 
 // ============ ECONOMIC AUDIT FIXES ============
 // 1. Minimum Delegation Value ($10) - Griefing protection
@@ -77,12 +105,6 @@ export const BATCH_DELAY_MS = 500;
 
 // ============ TYPES ============
 
-export interface DCADecision {
-  action: 'buy' | 'sell' | 'hold';
-  percentage: number;
-  reason: string;
-}
-
 export interface DelegationRecord {
   id: string;
   user_address: string;
@@ -93,7 +115,25 @@ export interface DelegationRecord {
   max_amount_per_swap: string;
   expires_at: string;
   created_at: string;
-  target_asset?: string; // 'ETH' or 'cbBTC' - the DCA target token
+  target_asset?: string; // 'ETH' or 'cbBTC' - the basket's largest allocation (sole target before baskets)
+  target_basket?: TargetBasket | null; // Per-user target weights (JSONB, see shared/tokens.ts); null = 100% target_asset
+  strategy?: string; // Strategy id from shared/strategies.ts (defaults to 'ladder')
+  strategy_config?: StrategyConfig | null; // Per-user band overrides, caps and buy-only mode (JSONB)
+  schedule?: ExecutionSchedule | null; // Per-user cadence and UTC window (JSONB, see shared/schedule.ts)
+  scoped_delegations?: ScopedDelegations | null; // Approval and fee delegations (JSONB); null = delegation_data covers every call
+  revoked_at?: string | null; // Set once any of the row's delegations is disabled on-chain (revocation-indexer.ts)
+  revoked_delegation_hash?: string | null; // The disabled delegation
+}
+
+/**
+ * Argument-restricted delegations signed alongside the swap delegation in delegation_data
+ * (see delegation-scopes.ts). Each value is a signed delegation.
+ */
+export interface ScopedDelegations {
+  approve: any; // ERC20 approve(), spender Permit2 only
+  permit2Approve: any; // Permit2 approve(), spender Universal Router only
+  feeTransfer: Record<string, any>; // By lowercase token address: transfer() to the fee collector, per-day limit
+  withdraw?: any; // transfer() to the owner's EOA only - redeemed by the frontend's /api/withdraw, never by runs
 }
 
 export interface ExecutionResult {
@@ -107,29 +147,59 @@ export interface ExecutionResult {
   retryCount: number;
   lastError: string | null;
   walletAddress?: string; // Smart account address for explicit result-to-wallet mapping
+  asset?: string; // Basket asset the swap bought or sold - with walletAddress, identifies the swap
   errorDetail?: string | null; // Granular error reason for daily reports (e.g., "[quote_fetch] Quote API returned null after retries | Pair: USDC→ETH")
+  executionKey?: string | null; // Idempotency key claimed for this swap (see execution-keys.ts)
+  keyHeld?: boolean; // Key could not be claimed (earlier submission holds it) - nothing was sent
+  unconfirmed?: boolean; // Submitted without a receipt - the key stays held for reconciliation
+  venue?: SwapVenue | null; // Quote provider the swap was routed through
 }
 
 export interface SimulationResult {
   wallet: string;
+  asset?: string; // Basket asset of this leg
   totalValueUsd: string;
   balance: string;
   amountToSwap: string;
+  swapValueUsd?: number; // USD value of amountToSwap (set for simulated legs)
   status: 'PASS' | 'FAIL' | 'SKIP';
   reason?: string;
 }
 
 export interface WalletData {
   delegation: DelegationRecord;
+  decision: DCADecision; // This wallet's own decision (strategy + strategy config)
   smartAccountAddress: Address;
+  asset: string; // Basket asset this swap buys (with USDC) or sells (for USDC)
   balance: bigint;
   swapAmount: bigint;
   swapAmountAfterFee: bigint;
   fee: bigint;
+  executionKey?: string; // (wallet, schedule slot, asset, action) - unset outside scheduled runs
+  assetPriceUsd: number; // USD price of `asset` when the swap was sized - values sells for slippage
+  wrapAmount?: bigint; // ETH sells: native ETH wrapped into WETH in the same UserOp, before the swap
+  prepareError?: PrepareSwapError; // Why no quote was prepared (swap-engine prepareSwap)
+  buildError?: BuildUserOpError;   // Why no UserOp was built (swap-engine buildUserOpForSwap)
+}
+
+export interface PrepareSwapError {
+  stage: 'quote_fetch' | 'quote_validation' | 'price_guard';
+  reason: string;
+  apiError?: string;
+  tokenPair: string;
+  walletAddress: string;
+}
+
+export interface BuildUserOpError {
+  stage: 'delegation_parse' | 'execution_create' | 'calldata_encode' | 'userop_prepare';
+  reason: string;
+  originalError?: string;
+  tokenPair: string;
+  walletAddress: string;
 }
 
 // Error types for classification
-export type ErrorType = 'network' | 'revert' | 'timeout' | 'rate_limit' | 'quote_expired' | 'unknown';
+export type ErrorType = 'network' | 'revert' | 'timeout' | 'rate_limit' | 'quote_expired' | 'price_guard' | 'unknown';
 
 export interface ClassifiedError {
   type: ErrorType;
@@ -146,10 +216,23 @@ export interface CaveatValidation {
 }
 
 // Quote tracking for expiration check
+// Where a swap is routed (see quote-providers.ts) - recorded as dca_executions.venue
+export type SwapVenue = 'uniswap-api' | 'uniswap-v3' | 'odos' | 'uniswap-onchain';
+
+// ERC20 approval a swap needs first: routers outside Permit2 pull tokens directly
+export interface SwapApproval {
+  token: Address;
+  spender: Address;
+  amount: bigint;
+}
+
 export interface QuoteWithTimestamp {
-  quote: any;
-  swap: any;
+  quote: any; // Raw provider response
+  swap: any; // { to, data, value } - the call the delegation redeems
   timestamp: number; // When quote was fetched
+  venue: SwapVenue;
+  amountOut: string; // Quoted output, in tokenOut's smallest unit
+  approval?: SwapApproval; // Sent in the same redemption, ahead of the swap
 }
 
 export interface ApprovalTask {
@@ -170,7 +253,7 @@ export interface ApprovalResult {
 export interface UserOpBatchItem {
   id: number;
   walletData: WalletData;
-  swapQuote: { swap: any; quote: any };
+  swapQuote: QuoteWithTimestamp;
   userOp: any;
 }
 
@@ -179,12 +262,15 @@ export interface BatchSendResult {
   userOpHash: string | null;
   error: string | null;
   walletAddress: string;
+  asset: string;
+  keyHeld?: boolean; // Execution key not claimed - the op was never sent
 }
 
 export interface PreparedSwap {
   walletData: WalletData;
-  swapQuote: { swap: any; quote: any };
+  swapQuote: QuoteWithTimestamp;
   nonceKey: bigint;
+  minAmountOut: bigint; // Least output the redemption accepts (quote less slippage)
 }
 
 // Retry configuration
@@ -210,6 +296,33 @@ export const DB_RETRY_CONFIG: Partial<RetryConfig> = {
   operation: 'database',
 };
 
+// ============ FEAR & GREED ORACLE ============
+
+// Default max age of a provider reading (providers with a daily cadence override this)
+export const FG_STALENESS_THRESHOLD_SECONDS = 43200; // 12 hours
+
+// Fresh readings required before any swap is made (fail closed below this)
+export const FG_MIN_QUORUM = Number(process.env.FG_MIN_QUORUM || 1);
+
+// Max spread (in F&G points) between fresh readings before every wallet is forced to hold
+export const FG_MAX_DISAGREEMENT = 20;
+
+// On-chain FearGreedOracle / FearGreedEnforcer (contracts/src), once deployed. With an
+// oracle set, each run posts its reading; delegations carrying the enforcer caveat are
+// redeemed with the posted round (see onchain-fear-greed.ts).
+export const FG_ORACLE_ADDRESS = process.env.FG_ORACLE_ADDRESS as Address | undefined;
+export const FG_ENFORCER_ADDRESS = process.env.FG_ENFORCER_ADDRESS as Address | undefined;
+
+// ============ REVOCATION INDEXER ============
+
+// Block the revocation indexer starts from when it has no cursor yet (defaults to
+// REVOCATION_INITIAL_LOOKBACK_BLOCKS before the head - about a week on Base)
+export const REVOCATION_START_BLOCK = process.env.REVOCATION_START_BLOCK
+  ? BigInt(process.env.REVOCATION_START_BLOCK)
+  : undefined;
+export const REVOCATION_INITIAL_LOOKBACK_BLOCKS = 302_400n;
+export const REVOCATION_LOG_CHUNK_BLOCKS = 5_000n; // Max block range per eth_getLogs request
+
 // ============ ERROR SELECTORS & CAVEAT VALIDATION ============
 
 // Known error selectors for better debugging
@@ -224,15 +337,38 @@ export const ERROR_SELECTORS: Record<string, string> = {
 
 // Known caveat enforcers
 export const CAVEAT_ENFORCERS: Record<string, string> = {
-  '0x7f20f61b1f09b08d970938f6fa563634d65c4eeb': 'AllowedTokensEnforcer',
+  '0x7f20f61b1f09b08d970938f6fa563634d65c4eeb': 'AllowedTargetsEnforcer',
   '0x2c21fd0cb9dc8445cb3fb0dc5e7bb0aca01842b5': 'AllowedMethodsEnforcer',
-  '0x92bf12322527caa612fd31a0e810472bbb106a8f': 'IdEnforcer',
+  '0x92bf12322527caa612fd31a0e810472bbb106a8f': 'ValueLteEnforcer',
   '0x1046bb45c8d673d4ea75321280db34899413c069': 'TimestampEnforcer',
   '0x04658b29f6b82ed55274221a06fc97d318e25416': 'LimitedCallsEnforcer',
+  '0xc2b0d624c1c4319760c96503ba27c347f3260f55': 'AllowedCalldataEnforcer',
+  '0x474e3ae7e169e940607cc624da8a15eb120139ab': 'ERC20PeriodTransferEnforcer',
+  '0xe144b0b2618071b4e56f746313528a669c7e65c5': 'RedeemerEnforcer',
+  '0xcdf6ab796408598cea671d79506d7d48e97a5437': 'ERC20BalanceChangeEnforcer',
+  ...(FG_ENFORCER_ADDRESS ? { [FG_ENFORCER_ADDRESS.toLowerCase()]: 'FearGreedEnforcer' } : {}),
 };
 
 // ============ ABIs ============
 
+// Delegation struct, as emitted in DelegationManager events
+const DELEGATION_COMPONENTS = [
+  { name: 'delegate', type: 'address' },
+  { name: 'delegator', type: 'address' },
+  { name: 'authority', type: 'bytes32' },
+  {
+    name: 'caveats',
+    type: 'tuple[]',
+    components: [
+      { name: 'enforcer', type: 'address' },
+      { name: 'terms', type: 'bytes' },
+      { name: 'args', type: 'bytes' },
+    ],
+  },
+  { name: 'salt', type: 'uint256' },
+  { name: 'signature', type: 'bytes' },
+] as const;
+
 export const delegationManagerAbi = [
   {
     name: 'redeemDelegations',
@@ -245,6 +381,60 @@ export const delegationManagerAbi = [
     ],
     outputs: [],
   },
+  {
+    name: 'disabledDelegations',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'delegationHash', type: 'bytes32' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    name: 'DisabledDelegation',
+    type: 'event',
+    inputs: [
+      { name: 'delegationHash', type: 'bytes32', indexed: true },
+      { name: 'delegator', type: 'address', indexed: true },
+      { name: 'delegate', type: 'address', indexed: true },
+      { name: 'delegation', type: 'tuple', indexed: false, components: DELEGATION_COMPONENTS },
+    ],
+  },
+  {
+    name: 'EnabledDelegation',
+    type: 'event',
+    inputs: [
+      { name: 'delegationHash', type: 'bytes32', indexed: true },
+      { name: 'delegator', type: 'address', indexed: true },
+      { name: 'delegate', type: 'address', indexed: true },
+      { name: 'delegation', type: 'tuple', indexed: false, components: DELEGATION_COMPONENTS },
+    ],
+  },
+] as const;
+
+// LimitedCallsEnforcer: calls redeemed so far, per DelegationManager and delegation
+export const limitedCallsEnforcerAbi = [
+  {
+    name: 'callCounts',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'delegationManager', type: 'address' },
+      { name: 'delegationHash', type: 'bytes32' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+] as const;
+
+export const erc1271Abi = [
+  {
+    name: 'isValidSignature',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'hash', type: 'bytes32' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [{ name: '', type: 'bytes4' }],
+  },
 ] as const;
 
 export const emberStakingAbi = [
@@ -260,6 +450,20 @@ export const emberStakingAbi = [
   },
 ] as const;
 
+// WETH deposit() - wraps the call's value. Its selector must be in the delegation's
+// AllowedMethods for the backend to wrap native ETH before a sell.
+export const WETH_DEPOSIT_SELECTOR = '0xd0e30db0';
+
+export const wethAbi = [
+  {
+    name: 'deposit',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [],
+    outputs: [],
+  },
+] as const;
+
 export const permit2Abi = [
   {
     name: 'allowance',
@@ -290,6 +494,105 @@ export const permit2Abi = [
   },
 ] as const;
 
+export const quoterV2Abi = [
+  {
+    name: 'quoteExactInputSingle',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'amountIn', type: 'uint256' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+      },
+    ],
+    outputs: [
+      { name: 'amountOut', type: 'uint256' },
+      { name: 'sqrtPriceX96After', type: 'uint160' },
+      { name: 'initializedTicksCrossed', type: 'uint32' },
+      { name: 'gasEstimate', type: 'uint256' },
+    ],
+  },
+] as const;
+
+// SwapRouter02 exactInputSingle (IV3SwapRouter - no deadline in the params)
+export const swapRouter02Abi = [
+  {
+    name: 'exactInputSingle',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'recipient', type: 'address' },
+          { name: 'amountIn', type: 'uint256' },
+          { name: 'amountOutMinimum', type: 'uint256' },
+          { name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+      },
+    ],
+    outputs: [{ name: 'amountOut', type: 'uint256' }],
+  },
+] as const;
+
+// Universal Router execute - commands are one byte each, with one ABI-encoded input per command
+export const universalRouterAbi = [
+  {
+    name: 'execute',
+    type: 'function',
+    stateMutability: 'payable',
+    inputs: [
+      { name: 'commands', type: 'bytes' },
+      { name: 'inputs', type: 'bytes[]' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+    outputs: [],
+  },
+] as const;
+
+export const aavePoolAbi = [
+  {
+    name: 'getReserveData',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'asset', type: 'address' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'configuration', type: 'uint256' },
+          { name: 'liquidityIndex', type: 'uint128' },
+          { name: 'currentLiquidityRate', type: 'uint128' },
+          { name: 'variableBorrowIndex', type: 'uint128' },
+          { name: 'currentVariableBorrowRate', type: 'uint128' },
+          { name: 'currentStableBorrowRate', type: 'uint128' },
+          { name: 'lastUpdateTimestamp', type: 'uint40' },
+          { name: 'id', type: 'uint16' },
+          { name: 'aTokenAddress', type: 'address' },
+          { name: 'stableDebtTokenAddress', type: 'address' },
+          { name: 'variableDebtTokenAddress', type: 'address' },
+          { name: 'interestRateStrategyAddress', type: 'address' },
+          { name: 'accruedToTreasury', type: 'uint128' },
+          { name: 'unbacked', type: 'uint128' },
+          { name: 'isolationModeTotalDebt', type: 'uint128' },
+        ],
+      },
+    ],
+  },
+] as const;
+
 // ============ SHARED HELPERS ============
 
 // Sleep helper for delays
@@ -301,20 +604,40 @@ export function sleep(ms: number): Promise<void> {
  * Validates that a swap target is a known Uniswap router
  */
 export function isValidUniswapRouter(routerAddress: string): boolean {
+  return isWhitelistedRouter(routerAddress, UNISWAP_ROUTERS);
+}
+
+export function isWhitelistedRouter(routerAddress: string, routers: readonly string[]): boolean {
   const normalizedAddress = routerAddress.toLowerCase();
-  return UNISWAP_ROUTERS.some(r => r.toLowerCase() === normalizedAddress);
+  return routers.some(r => r.toLowerCase() === normalizedAddress);
 }
 
 /**
- * Validates swap quote and rejects if router is not in whitelist
+ * Validates swap quote and rejects if router is not in the quoting provider's whitelist
+ * (the Uniswap routers by default), or is not one of the registry's allowed routers for
+ * either token being swapped
  */
-export function validateSwapQuote(swapQuote: { swap: { to: string } }): void {
+export function validateSwapQuote(
+  swapQuote: { swap: { to: string } },
+  tokens: Address[] = [],
+  routers: readonly string[] = UNISWAP_ROUTERS
+): void {
   const routerAddress = swapQuote.swap.to;
-  if (!isValidUniswapRouter(routerAddress)) {
+  if (!isWhitelistedRouter(routerAddress, routers)) {
     console.error(`[SECURITY] Router whitelist rejection: ${routerAddress}`);
-    console.error(`[SECURITY] Allowed routers: ${UNISWAP_ROUTERS.join(', ')}`);
+    console.error(`[SECURITY] Allowed routers: ${routers.join(', ')}`);
     throw new Error(`Swap rejected: Router ${routerAddress} is not in whitelist. Possible API compromise.`);
   }
+  for (const address of tokens) {
+    const token = findTokenByAddress(address);
+    if (!token) {
+      throw new Error(`Swap rejected: Token ${address} is not in the token registry`);
+    }
+    if (!token.allowedRouters.some((r: string) => r.toLowerCase() === routerAddress.toLowerCase())) {
+      console.error(`[SECURITY] Router ${routerAddress} not allowed for ${token.symbol} (allowed: ${token.allowedRouters.join(', ')})`);
+      throw new Error(`Swap rejected: Router ${routerAddress} is not allowed for ${token.symbol}`);
+    }
+  }
 }
 
 // Fee calculation
@@ -331,13 +654,19 @@ export function calculateAmountAfterFee(amount: bigint): bigint {
 import { formatUnits } from 'viem';
 
 /**
- * Calculate the USD value of a swap amount
+ * Calculate the USD value of a swap amount. Buys spend USDC; sells spend the target
+ * asset, valued at its own price and decimals (18 for ETH, 8 for cbBTC).
  */
-export function calculateSwapValueUsd(amount: bigint, isBuy: boolean, ethPriceUsd: number): number {
+export function calculateSwapValueUsd(
+  amount: bigint,
+  isBuy: boolean,
+  assetPriceUsd: number,
+  assetDecimals: number = 18
+): number {
   if (isBuy) {
     return Number(formatUnits(amount, 6));
   } else {
-    return Number(formatUnits(amount, 18)) * ethPriceUsd;
+    return Number(formatUnits(amount, assetDecimals)) * assetPriceUsd;
   }
 }
 
@@ -359,6 +688,99 @@ export function calculateMinAmountOut(expectedOutput: bigint, slippageBps: numbe
   return (expectedOutput * slippageFactor) / BigInt(BPS_DENOMINATOR);
 }
 
+/**
+ * Size a wallet's swap from its own decision: percentage of the source balance,
+ * clamped to the delegation's max_amount_per_swap and to the band's USD cap (if configured)
+ */
+export function calculateWalletSwapAmount(
+  balance: bigint,
+  decision: DCADecision,
+  maxAmountPerSwap: bigint,
+  assetPriceUsd: number,
+  assetDecimals: number = 18
+): bigint {
+  const percentage = BigInt(Math.round(decision.percentage * 100));
+  let swapAmount = (balance * percentage) / 10000n;
+
+  if (swapAmount > maxAmountPerSwap) {
+    swapAmount = maxAmountPerSwap;
+  }
+
+  if (decision.maxAmountUsd !== undefined) {
+    const swapValueUsd = calculateSwapValueUsd(swapAmount, decision.action === 'buy', assetPriceUsd, assetDecimals);
+    if (swapValueUsd > decision.maxAmountUsd) {
+      // Scale down by cap / value with 6 decimals of precision
+      const ratio = BigInt(Math.floor((decision.maxAmountUsd / swapValueUsd) * 1_000_000));
+      swapAmount = (swapAmount * ratio) / 1_000_000n;
+    }
+  }
+
+  return swapAmount;
+}
+
+/**
+ * max_amount_per_swap is in USDC base units; a sell spends the target asset, so convert
+ * the cap to that asset's base units at its current price
+ */
+export function getMaxSellAmount(maxAmountPerSwap: bigint, assetPriceUsd: number, assetDecimals: number): bigint {
+  // Price in micro-dollars, matching USDC's 6 decimals
+  const priceMicroUsd = BigInt(Math.round(assetPriceUsd * 1_000_000));
+  if (priceMicroUsd <= 0n) {
+    return 0n;
+  }
+  return (maxAmountPerSwap * 10n ** BigInt(assetDecimals)) / priceMicroUsd;
+}
+
+/**
+ * Size a sell across a basket: the decision's percentage of every held asset, so the
+ * basket is drawn down in proportion to its holdings. Each leg is clamped to its
+ * asset's share of max_amount_per_swap (see getMaxSellAmount); the band's USD cap
+ * applies to the combined sell and scales every leg by the same ratio.
+ */
+export function calculateBasketSellAmounts(
+  balances: bigint[],
+  balancesUsd: number[], // USD value of each full balance
+  decision: DCADecision,
+  maxAmountsPerSwap: bigint[] // Per leg, in that asset's base units
+): bigint[] {
+  const percentage = BigInt(Math.round(decision.percentage * 100));
+  const amounts = balances.map((balance, i) => {
+    const amount = (balance * percentage) / 10000n;
+    return amount > maxAmountsPerSwap[i] ? maxAmountsPerSwap[i] : amount;
+  });
+
+  if (decision.maxAmountUsd !== undefined) {
+    const sellValueUsd = amounts.reduce((sum, amount, i) =>
+      balances[i] > 0n ? sum + balancesUsd[i] * (Number(amount) / Number(balances[i])) : sum, 0);
+    if (sellValueUsd > decision.maxAmountUsd) {
+      // Scale down by cap / value with 6 decimals of precision
+      const ratio = BigInt(Math.floor((decision.maxAmountUsd / sellValueUsd) * 1_000_000));
+      return amounts.map(amount => (amount * ratio) / 1_000_000n);
+    }
+  }
+
+  return amounts;
+}
+
+// ============ NATIVE ETH / WETH ============
+// Buys deliver WETH and sells spend it, but deposits usually arrive as native ETH.
+// Both count towards the ETH leg's value; a sell wraps native ETH first, up to the
+// call value the delegation allows (see getMaxWrapAmount in delegation-validator.ts).
+
+/**
+ * ETH a sell can spend: all WETH plus the native ETH the delegation may wrap
+ */
+export function getSellableEthBalance(wethBalance: bigint, nativeBalance: bigint, maxWrapAmount: bigint): bigint {
+  return wethBalance + (nativeBalance < maxWrapAmount ? nativeBalance : maxWrapAmount);
+}
+
+/**
+ * Native ETH to wrap before selling `swapAmount` (fee included) - the WETH shortfall
+ */
+export function calculateWrapAmount(wethBalance: bigint, swapAmount: bigint): bigint {
+  return swapAmount > wethBalance ? swapAmount - wethBalance : 0n;
+}
+
 export function isPermanentFailure(errorMessage: string): boolean {
   const permanentPatterns = [
     'caveatviolated',
@@ -373,6 +795,18 @@ export function isPermanentFailure(errorMessage: string): boolean {
   return permanentPatterns.some(p => lower.includes(p));
 }
 
-export const MIN_SWAP_AMOUNT = parseUnits('0.10', 6);
+export const MIN_SWAP_AMOUNT = parseUnits(TOKEN_REGISTRY.USDC.minSwapAmount, TOKEN_REGISTRY.USDC.decimals);
+
+/**
+ * Smallest amount worth swapping: buys spend USDC, sells spend the target asset
+ * (0.00005 ETH, 0.000002 cbBTC - see shared/tokens.ts)
+ */
+export function getMinSwapAmount(targetAsset: string | undefined, isBuy: boolean): bigint {
+  if (isBuy) {
+    return MIN_SWAP_AMOUNT;
+  }
+  const token = getTargetToken(targetAsset);
+  return parseUnits(token.minSwapAmount, token.decimals);
+}
 
 import { parseUnits } from 'viem';
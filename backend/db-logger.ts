@@ -10,28 +10,66 @@ export async function logExecution(
   fgValue: number,
   decision: DCADecision,
   result: ExecutionResult,
-  isRetry: boolean = false
+  isRetry: boolean = false,
+  fgSource: string | null = null
 ) {
+  // The earlier submission that holds the key owns the row
+  if (result.keyHeld) {
+    console.log(`[DB] Not logging ${result.walletAddress}: ${result.error}`);
+    return;
+  }
+
+  // A swap the price guard refused is marked as such, not as a failure
+  const failedStatus = result.errorType === 'price_guard' ? 'price_guard' : (isRetry ? 'retry_failed' : 'failed');
+  const details = {
+    user_address: userAddress,
+    fear_greed_index: fgValue,
+    fg_source: fgSource, // Oracle provider(s) behind fgValue
+    action: decision.action,
+    target_asset: result.asset ?? null,
+    venue: result.venue ?? null, // Quote provider the swap was routed through
+    amount_in: result.amountIn,
+    amount_out: result.amountOut,
+    fee_collected: result.feeCollected,
+    tx_hash: result.txHash,
+    status: result.success ? 'success' : failedStatus,
+    error_message: isRetry ? `[RETRY] ${result.error || ''}` : result.error,
+    error_type: result.errorType,
+    error_detail: result.errorDetail || result.error, // Store granular error reason for reporting
+    retry_count: result.retryCount,
+    last_error: result.lastError,
+    wallet_address: result.walletAddress,
+  };
+
   const { error, attempts } = await withRetry(
     async () => {
-      const { error } = await supabase.from('dca_executions').insert({
-        user_address: userAddress,
-        fear_greed_index: fgValue,
-        action: decision.action,
-        amount_in: result.amountIn,
-        amount_out: result.amountOut,
-        fee_collected: result.feeCollected,
-        tx_hash: result.txHash,
-        status: result.success ? 'success' : (isRetry ? 'retry_failed' : 'failed'),
-        error_message: isRetry ? `[RETRY] ${result.error || ''}` : result.error,
-        error_type: result.errorType,
-        error_detail: result.errorDetail || result.error, // Store granular error reason for reporting
-        retry_count: result.retryCount,
-        last_error: result.lastError,
-        wallet_address: result.walletAddress,
-        created_at: new Date().toISOString(),
-      });
-      
+      if (!result.executionKey) {
+        const { error } = await supabase.from('dca_executions').insert({
+          ...details,
+          created_at: new Date().toISOString(),
+        });
+        if (error) throw error;
+        return;
+      }
+
+      // Keyed rows were claimed before submission (see execution-keys.ts): finish their lifecycle.
+      // Confirmed and unconfirmed rows keep the key; failed rows release it for a later attempt.
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('dca_executions')
+        .update({
+          ...details,
+          wallet_address: details.wallet_address ?? undefined,
+          target_asset: details.target_asset ?? undefined,
+          venue: details.venue ?? undefined,
+          tx_hash: details.tx_hash ?? undefined, // Keep a submitted legacy tx hash
+          status: result.success ? 'success' : (result.unconfirmed ? 'submitted' : failedStatus),
+          ...(result.success ? { confirmed_at: now } : {}),
+          ...(!result.success && !result.unconfirmed ? { execution_key: null } : {}),
+          updated_at: now,
+        })
+        .eq('execution_key', result.executionKey)
+        .in('status', ['pending', 'submitted']);
       if (error) throw error;
     },
     { ...DB_RETRY_CONFIG, operation: 'logExecution' }
@@ -43,6 +81,7 @@ export async function logExecution(
       delegationId,
       userAddress,
       fgValue,
+      fgSource,
       decision,
       result,
     }, (key, value) => typeof value === 'bigint' ? '0x' + value.toString(16) : value, 2));
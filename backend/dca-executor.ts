@@ -1,96 +1,141 @@
 // DCA Executor Backend Service
-// Runs daily to check F&G and execute swaps for delegated accounts
+// Runs every hour (scheduler tick) to check F&G and execute swaps for delegated accounts
+// whose own execution schedule has a slot due (see shared/schedule.ts)
 // Uses MetaMask Delegation Framework for secure execution
 // Refactored to ERC-4337 architecture with parallel UserOperations
 //
 // Usage:
 //   npx tsx backend/dca-executor.ts           # Normal execution
-//   npx tsx backend/dca-executor.ts --dry-run # Simulation only (pre-flight check)
+//   npx tsx backend/dca-executor.ts --dry-run # Simulation only for every active wallet (pre-flight check)
+//   npx tsx backend/dca-executor.ts --force   # Start a new run even if this tick's run completed
 
 // ============ CLI FLAGS ============
 const DRY_RUN = process.argv.includes('--dry-run');
 const TARGET_WALLET = process.argv.find(a => a.startsWith('--wallet='))?.split('=')[1]?.toLowerCase();
+const FORCE = process.argv.includes('--force');
 
 import { formatUnits, parseUnits, type Address } from 'viem';
 import {
-  FG_THRESHOLDS,
+  calculateSwapValueUsd,
   sleep,
   type DCADecision,
+  type DelegationRecord,
   type WalletData,
 } from './config';
-import { withRetry } from './error-handler';
-import { backendAccount, getETHBalance, supabase } from './clients';
-import { validateDelegationCaveats, getActiveDelegations } from './delegation-validator';
+import { backendAccount, getETHBalance } from './clients';
+import { validateDelegation, recordValidationReports, getActiveDelegations, type DelegationCheck, type DelegationValidationReport } from './delegation-validator';
 import { initBackendSmartAccount, deployUndeployedAccounts } from './smart-account';
+import { syncRevocations } from './revocation-indexer';
 import { processApprovals } from './approvals';
-import { processSwapsParallel, retrySwapWithOriginalAmounts, runDryRunSimulation } from './swap-engine';
+import { getETHPriceUsd, getSwapId, getSwapTokenIn, processSwapsParallel, retrySwapWithOriginalAmounts, runDryRunSimulation } from './swap-engine';
+import { recordFeeCollection, sweepFeesToStaking } from './fee-collector';
 import { logExecution, updateProtocolStats } from './db-logger';
+import { snapshotBalances } from './balance-snapshots';
+import { DEFAULT_PROVIDERS, fetchFearGreedFromProviders, type FearGreedReading } from './fear-greed-oracle';
+import { onchainSentimentProvider } from './onchain-sentiment';
+import { publishFearGreedReading } from './onchain-fear-greed';
+import {
+  findRunForSlot,
+  getRunSlot,
+  getSettledWallets,
+  recordRunItemOutcome,
+  registerRunItems,
+  setRunState,
+  startRun,
+  type DcaRun,
+} from './run-ledger';
 import type { ExecutionResult } from './config';
-
-// ============ IDEMPOTENCY GUARD ============
-
-async function hasAlreadyExecutedToday(): Promise<boolean> {
-  const today = new Date().toISOString().split('T')[0];
-  const { data, error } = await supabase
-    .from('dca_executions')
-    .select('id')
-    .gte('created_at', `${today}T00:00:00`)
-    .limit(1);
-  
-  if (error) {
-    console.error('[Idempotency] Failed to check today\'s executions:', error.message);
-    // Fail CLOSED - if we can't check, don't execute (safer than risking duplicates)
-    return true;
-  }
-  
-  return (data?.length ?? 0) > 0;
-}
+import { calculateDecision, getStrategy, validateStrategyConfig, type StrategyInput } from '../shared/strategies';
+import { DEFAULT_SCHEDULE, getDueSlot, validateSchedule } from '../shared/schedule';
+import { getTargetToken } from '../shared/tokens';
 
 // ============ FEAR & GREED ============
 
-async function fetchFearGreedInternal(): Promise<{ value: number; classification: string }> {
-  const response = await fetch('https://api.alternative.me/fng/');
-  if (!response.ok) {
-    throw new Error(`F&G API returned ${response.status}: ${response.statusText}`);
-  }
-  const data = await response.json();
-  if (!data.data?.[0]) {
-    throw new Error('Invalid F&G API response structure');
+async function fetchFearGreed(): Promise<FearGreedReading> {
+  try {
+    return await fetchFearGreedFromProviders(DEFAULT_PROVIDERS, [onchainSentimentProvider]);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('Failed to fetch Fear & Greed:', message);
+    throw new Error(`Failed to fetch Fear & Greed: ${message}`);
   }
+}
+
+/**
+ * A resumed run reuses the reading it started with, so every wallet sees the same decision
+ */
+function getRunReading(run: DcaRun): FearGreedReading {
   return {
-    value: parseInt(data.data[0].value),
-    classification: data.data[0].value_classification,
+    value: run.fg_value,
+    classification: run.fg_classification,
+    history: run.fg_history ?? [],
+    source: run.fg_source,
+    samples: [],
+    forceHold: false,
   };
 }
 
-async function fetchFearGreed(): Promise<{ value: number; classification: string; source?: string }> {
-  const { result, error, attempts } = await withRetry(
-    fetchFearGreedInternal,
-    { operation: 'fetchFearGreed' }
-  );
-
-  if (!result) {
-    console.error(`Failed to fetch Fear & Greed after ${attempts} attempts:`, error?.message);
-    throw new Error(`Failed to fetch Fear & Greed: ${error?.message}`);
+// ============ SCHEDULING ============
+
+/**
+ * Due schedule slot per delegation id, for delegations whose own schedule has a slot open at `now`
+ */
+function getDueSlots(delegations: DelegationRecord[], now: Date): Map<string, string> {
+  const slots = new Map<string, string>();
+  for (const delegation of delegations) {
+    const scheduleResult = validateSchedule(delegation.schedule);
+    if (!scheduleResult.valid) {
+      console.warn(`Invalid schedule for ${delegation.smart_account_address} (${scheduleResult.error}) - using the default`);
+    }
+    const slot = getDueSlot(scheduleResult.valid ? scheduleResult.schedule : DEFAULT_SCHEDULE, now);
+    if (slot) {
+      slots.set(delegation.id, slot.id);
+    }
   }
+  return slots;
+}
 
-  return result;
+// ============ STRATEGY GROUPING ============
+
+interface DecisionGroup {
+  action: DCADecision['action'];
+  delegations: DelegationRecord[];
+  decisions: Map<string, DCADecision>; // Keyed by delegation id
 }
 
-export function calculateDecision(fgValue: number): DCADecision {
-  if (fgValue <= FG_THRESHOLDS.EXTREME_FEAR_MAX) {
-    return { action: 'buy', percentage: 5, reason: 'Extreme Fear - Buy 5%' };
-  }
-  if (fgValue <= FG_THRESHOLDS.FEAR_MAX) {
-    return { action: 'buy', percentage: 2.5, reason: 'Fear - Buy 2.5%' };
-  }
-  if (fgValue <= FG_THRESHOLDS.NEUTRAL_MAX) {
-    return { action: 'hold', percentage: 0, reason: 'Neutral - Hold' };
-  }
-  if (fgValue <= FG_THRESHOLDS.GREED_MAX) {
-    return { action: 'sell', percentage: 2.5, reason: 'Greed - Sell 2.5%' };
+/**
+ * Run each delegation's own strategy and strategy config, then group delegations by
+ * direction so approvals run once per side. Swap sizes stay per wallet (see decisions).
+ */
+function groupDelegationsByDecision(
+  delegations: DelegationRecord[],
+  fgValue: number,
+  context: Omit<StrategyInput, 'fgValue'>
+): DecisionGroup[] {
+  const groups = new Map<string, DecisionGroup>();
+
+  for (const delegation of delegations) {
+    const configResult = validateStrategyConfig(delegation.strategy_config, delegation.strategy);
+    if (!configResult.valid) {
+      console.warn(`Ignoring invalid strategy config for ${delegation.smart_account_address}: ${configResult.error}`);
+    }
+    const config = configResult.valid ? configResult.config : null;
+
+    const decision = calculateDecision(fgValue, delegation.strategy, context, config);
+    const group = groups.get(decision.action);
+    if (group) {
+      group.delegations.push(delegation);
+      group.decisions.set(delegation.id, decision);
+    } else {
+      groups.set(decision.action, {
+        action: decision.action,
+        delegations: [delegation],
+        decisions: new Map([[delegation.id, decision]]),
+      });
+    }
   }
-  return { action: 'sell', percentage: 5, reason: 'Extreme Greed - Sell 5%' };
+
+  return Array.from(groups.values());
 }
 
 // ============ MAIN EXECUTION ============
@@ -106,21 +151,52 @@ async function runDCA() {
   console.log(`Time: ${new Date().toISOString()}`);
   console.log(`Backend EOA: ${backendAccount.address}`);
 
-  // ============ IDEMPOTENCY CHECK ============
-  // Prevents duplicate executions if cron fires multiple times
+  // ============ RUN LEDGER ============
+  // One run per scheduler tick (UTC hour). A completed run is never repeated; an
+  // interrupted or aborted run is resumed and only wallets without a terminal outcome
+  // for their schedule slot are processed.
+  // Lookup errors throw, so we fail closed rather than risk duplicate swaps.
+  const now = new Date();
+  let existingRun: DcaRun | null = null;
   if (!DRY_RUN) {
-    const alreadyRan = await hasAlreadyExecutedToday();
-    if (alreadyRan) {
-      console.log('\n⚠️  IDEMPOTENCY GUARD: DCA already executed today. Skipping.');
+    existingRun = await findRunForSlot(getRunSlot(now));
+    if (existingRun?.state === 'completed') {
+      console.log('\n⚠️  RUN LEDGER: This tick\'s DCA run already completed. Skipping.');
       console.log('    This prevents duplicate swaps if the cron job fires multiple times.');
-      console.log('    To force execution, use: npx tsx backend/dca-executor.ts --force');
-      if (!process.argv.includes('--force')) {
+      console.log('    To force a new run, use: npx tsx backend/dca-executor.ts --force');
+      if (!FORCE) {
         return;
       }
-      console.log('    --force flag detected, proceeding anyway...');
+      console.log('    --force flag detected, starting a new run...');
+      existingRun = null;
+    } else if (existingRun) {
+      console.log(`\n↻ Resuming run ${existingRun.id} (state: ${existingRun.state})`);
     }
   }
 
+  // ============ REVOCATIONS ============
+  // Mark delegations disabled on-chain since the last sync, so they are never loaded.
+  // On failure the run continues: each run's validation also reads the disabled state.
+  try {
+    await syncRevocations();
+  } catch (error: any) {
+    console.warn(`⚠️ Revocation sync failed: ${error?.message}`);
+  }
+
+  // ============ SCHEDULE ============
+  // Only wallets with a due slot are processed; a dry run simulates every active wallet
+  const activeDelegations = await getActiveDelegations(TARGET_WALLET);
+  const slots = getDueSlots(activeDelegations, now);
+  const dueDelegations = DRY_RUN
+    ? activeDelegations
+    : activeDelegations.filter((d: DelegationRecord) => slots.has(d.id));
+  console.log(`\nActive delegations: ${activeDelegations.length} (${slots.size} due this tick)`);
+
+  if (dueDelegations.length === 0) {
+    console.log('No delegations due this tick');
+    return;
+  }
+
   // Initialize backend smart account
   const backendSmartAccount = await initBackendSmartAccount();
   console.log(`Backend Smart Account: ${backendSmartAccount.address}`);
@@ -138,37 +214,52 @@ async function runDCA() {
   const smartAccountBalance = await getETHBalance(backendSmartAccount.address);
   console.log(`Smart Account ETH: ${formatUnits(smartAccountBalance, 18)} ETH`);
 
-  // 1. Fetch Fear & Greed (C5: With redundancy and staleness check)
-  const fg = await fetchFearGreed();
+  // 1. Fetch Fear & Greed (C5: multi-source quorum with staleness check)
+  const fg = existingRun ? getRunReading(existingRun) : await fetchFearGreed();
 
-  if (fg) {
-    const sourceLabel = (fg as any).source === 'backup' ? ' [BACKUP ORACLE]' : '';
-    console.log(`\nFear & Greed: ${fg.value} (${fg.classification})${sourceLabel}`);
-  } else {
-    console.log('\nFear & Greed: UNAVAILABLE - Both primary and backup sources failed');
-  }
-
-  // 2. Calculate decision
-  const decision = calculateDecision(fg.value);
-  console.log(`Decision: ${decision.reason}`);
+  console.log(`\nFear & Greed: ${fg.value} (${fg.classification}) [${fg.source}]`);
 
-  if (decision.action === 'hold') {
-    console.log('\n✓ Market neutral - No action needed');
+  if (fg.forceHold) {
+    console.log(`\n⚠️ ${fg.holdReason} - holding for every wallet`);
     return;
   }
 
-  // 3. Get active delegations
-  const allDelegations = await getActiveDelegations(TARGET_WALLET);
-  console.log(`\nActive delegations: ${allDelegations.length}`);
+  const run = DRY_RUN ? null : existingRun ?? await startRun(getRunSlot(now), fg);
 
-  if (allDelegations.length === 0) {
-    console.log('No active delegations to process');
-    return;
+  try {
+    // Swaps checked by the FearGreedEnforcer caveat are redeemed against this round
+    if (!DRY_RUN) {
+      await publishFearGreedReading(fg.value);
+    }
+    await executeRun(fg, run, dueDelegations, slots);
+    if (run) {
+      await setRunState(run.id, 'completed');
+      // Chart history: post-run balances for every wallet, including holds
+      await snapshotBalances('dca', TARGET_WALLET);
+    }
+  } catch (error) {
+    if (run) {
+      await setRunState(run.id, 'aborted', error instanceof Error ? error.message : String(error))
+        .catch((err: unknown) => console.error('[RunLedger] Failed to mark run aborted:', err));
+    }
+    throw error;
   }
+}
 
-  // Filter out delegations with outdated delegate addresses or invalid caveats
+/**
+ * Validate due delegations, decide per wallet and execute. `run` is null in dry-run mode.
+ * `slots` maps delegation id to the schedule slot it executes.
+ */
+async function executeRun(
+  fg: FearGreedReading,
+  run: DcaRun | null,
+  allDelegations: DelegationRecord[],
+  slots: Map<string, string>
+) {
+  // 2. Filter out delegations with outdated delegate addresses, then validate the rest
+  // (caveats, signatures, on-chain disabled state and remaining calls)
   const EXPECTED_DELEGATE = '0xc472e866045d2e9ABd2F2459cE3BDB275b72C7e1'.toLowerCase();
-  const delegations = allDelegations.filter(d => {
+  const currentDelegations = allDelegations.filter(d => {
     const signedDelegation = typeof d.delegation_data === 'string'
       ? JSON.parse(d.delegation_data)
       : d.delegation_data;
@@ -187,30 +278,94 @@ async function runDCA() {
       return false;
     }
     
-    const caveatValidation = validateDelegationCaveats(signedDelegation);
-    if (!caveatValidation.valid) {
-      console.log(`  [Skip] Caveat validation failed: ${caveatValidation.reason}`);
-      return false;
-    }
-    
-    console.log(`  ✓ Delegation valid`);
     return true;
   });
 
+  const reports: DelegationValidationReport[] = [];
+  const delegations: DelegationRecord[] = [];
+  for (const d of currentDelegations) {
+    const report = await validateDelegation(d);
+    reports.push(report);
+    for (const warning of report.delegations.flatMap((check: DelegationCheck) => check.warnings)) {
+      console.log(`  ⚠️ ${d.user_address}: ${warning}`);
+    }
+    if (!report.valid) {
+      console.log(`  [Skip] ${d.user_address}: validation failed: ${report.reason}`);
+      continue;
+    }
+    console.log(`  ✓ ${d.user_address}: delegation valid (strategy: ${getStrategy(d.strategy).id})`);
+    delegations.push(d);
+  }
+  if (run) {
+    await recordValidationReports(run.id, reports);
+  }
+
   console.log(`Valid delegations after filtering: ${delegations.length}`);
 
   if (delegations.length === 0) {
-    console.log('No valid delegations to process (all have outdated delegates)');
+    console.log('No valid delegations to process (all outdated or failed validation)');
     return;
   }
 
-  const isBuy = decision.action === 'buy';
+  // Register work items and drop wallets already settled for their slot (by an earlier
+  // attempt of this run or an earlier tick in the same slot). --force reprocesses them;
+  // execution keys still stop a second swap in the same slot.
+  let pendingDelegations = delegations;
+  if (run) {
+    const items = delegations.map((d: DelegationRecord) => ({
+      delegationId: d.id,
+      wallet: d.smart_account_address,
+      scheduleSlot: slots.get(d.id)!,
+    }));
+    await registerRunItems(run.id, items);
+    const settled = FORCE ? new Set<string>() : await getSettledWallets(items);
+    pendingDelegations = delegations.filter((d: DelegationRecord) => !settled.has(d.smart_account_address.toLowerCase()));
+    console.log(`Run ${run.id}: ${pendingDelegations.length} wallets pending (${settled.size} already settled for their slot)`);
+
+    if (pendingDelegations.length === 0) {
+      console.log('Every wallet already has an outcome for its slot');
+      return;
+    }
+  }
+
+  // 3. Calculate decisions with each delegation's strategy. Without an ETH price this
+  // throws and the run is aborted rather than sized on a made-up price.
+  const ethPriceUsd = await getETHPriceUsd();
+  const groups = groupDelegationsByDecision(pendingDelegations, fg.value, {
+    history: fg.history,
+    price: ethPriceUsd,
+  });
+
+  for (const group of groups) {
+    const reasons = new Map<string, number>();
+    for (const decision of group.decisions.values()) {
+      reasons.set(decision.reason, (reasons.get(decision.reason) || 0) + 1);
+    }
+    for (const [reason, count] of reasons) {
+      console.log(`Decision: ${reason} (${count} delegations)`);
+    }
+  }
+
+  if (run) {
+    const holdGroup = groups.find(g => g.action === 'hold');
+    for (const delegation of holdGroup?.delegations ?? []) {
+      await recordRunItemOutcome(run.id, delegation.smart_account_address, 'skipped', holdGroup!.decisions.get(delegation.id)?.reason);
+    }
+  }
+
+  const activeGroups = groups.filter(g => g.action !== 'hold');
+  if (activeGroups.length === 0) {
+    console.log('\n✓ Market neutral for every strategy - No action needed');
+    return;
+  }
 
   // ========================================
   // DRY-RUN MODE: Simulate only, don't execute
   // ========================================
-  if (DRY_RUN) {
-    await runDryRunSimulation(delegations, decision);
+  if (!run) {
+    for (const group of activeGroups) {
+      await runDryRunSimulation(group.delegations, group.decisions);
+    }
     console.log('\n✅ Dry-run complete. No transactions were executed.');
     return;
   }
@@ -218,17 +373,109 @@ async function runDCA() {
   // ========================================
   // PHASE 0: Deploy any undeployed user smart accounts
   // ========================================
-  await deployUndeployedAccounts(delegations);
+  await deployUndeployedAccounts(activeGroups.flatMap(g => g.delegations));
+
+  let totalVolume = 0n;
+  let totalFees = 0n;
+  let successCount = 0;
+  let processedCount = 0;
+
+  for (const group of activeGroups) {
+    console.log(`\n========================================`);
+    console.log(`  ${group.action.toUpperCase()}: ${group.delegations.length} delegations`);
+    console.log(`========================================`);
+
+    const groupTotals = await executeDecisionGroup(group, fg, run, slots);
+    totalVolume += groupTotals.totalVolume;
+    totalFees += groupTotals.totalFees;
+    successCount += groupTotals.successCount;
+    processedCount += group.delegations.length;
+  }
+
+  // Update protocol stats (USDC base units)
+  if (totalVolume > 0n) {
+    await updateProtocolStats(totalVolume, totalFees);
+  }
+
+  // Daily sweep: deposit collected fees to EMBER staking
+  await sweepFeesToStaking();
+
+  // Summary
+  console.log('\n========================================');
+  console.log('  Execution Summary');
+  console.log('========================================');
+  console.log(`Processed: ${processedCount} delegations`);
+  console.log(`Successful: ${successCount}`);
+  console.log(`Total Volume: $${formatUnits(totalVolume, 6)}`);
+  console.log(`Total Fees: $${formatUnits(totalFees, 6)}`);
+  console.log('========================================\n');
+}
+
+/**
+ * A successful swap's volume and fee in USDC base units, so swaps of different tokens
+ * can be summed: buys spend USDC, a sell's asset amounts are valued at the run's price
+ */
+function getSwapUsdcTotals(walletData: WalletData, result: ExecutionResult): { volume: bigint; fee: bigint } {
+  const isBuy = walletData.decision.action === 'buy';
+  const { decimals } = getTargetToken(walletData.asset);
+  const toUsdc = (amount: bigint) =>
+    parseUnits(calculateSwapValueUsd(amount, isBuy, walletData.assetPriceUsd, decimals).toFixed(6), 6);
+  return { volume: toUsdc(BigInt(result.amountIn)), fee: toUsdc(BigInt(result.feeCollected)) };
+}
+
+/**
+ * Ledger entry for the fee that moved inside a confirmed swap
+ */
+async function recordSwapFee(walletData: WalletData, result: ExecutionResult) {
+  if (!result.txHash) return;
+  await recordFeeCollection({
+    walletAddress: walletData.smartAccountAddress,
+    userAddress: walletData.delegation.user_address,
+    executionKey: walletData.executionKey,
+    token: getSwapTokenIn(walletData.asset, walletData.decision.action === 'buy'),
+    accrued: BigInt(result.feeCollected),
+    txHash: result.txHash,
+  });
+}
+
+/**
+ * Approvals, parallel swaps, logging and end-of-run retry for delegations sharing one direction
+ */
+async function executeDecisionGroup(
+  group: DecisionGroup,
+  fg: FearGreedReading,
+  run: DcaRun,
+  slots: Map<string, string>
+): Promise<{ successCount: number; totalVolume: bigint; totalFees: bigint }> {
+  const { delegations, decisions } = group;
+  const fgValue = fg.value;
+  const isBuy = group.action === 'buy';
+  const runId = run.id;
+
+  // A basket wallet swaps once per asset, so outcomes are collected per swap and each
+  // wallet's run item is written once at the end: failed if any swap failed, else
+  // success if any swapped. Execution keys cover a crash before then.
+  const OUTCOME_RANK = { skipped: 0, success: 1, failed: 2 } as const;
+  const outcomes = new Map<string, { wallet: string; status: keyof typeof OUTCOME_RANK; details: string[] }>();
+
+  const recordOutcome = (wallet: string, status: keyof typeof OUTCOME_RANK, detail?: string | null) => {
+    const outcome = outcomes.get(wallet.toLowerCase()) ?? { wallet, status, details: [] };
+    if (OUTCOME_RANK[status] > OUTCOME_RANK[outcome.status]) outcome.status = status;
+    if (detail) outcome.details.push(detail);
+    outcomes.set(wallet.toLowerCase(), outcome);
+  };
 
   // ========================================
   // PHASE 1: Process approvals sequentially (still EOA - rare, one-time)
   // ========================================
+  await setRunState(runId, 'approvals');
   await processApprovals(delegations, isBuy);
 
   // ========================================
   // PHASE 2: Process swaps via PARALLEL UserOps
   // ========================================
-  const { results, walletDataMap } = await processSwapsParallel(delegations, decision, fg?.value ?? 50);
+  await setRunState(runId, 'swaps');
+  const { results, walletDataMap } = await processSwapsParallel(delegations, decisions, fgValue, slots);
 
   // Log results to database
   let totalVolume = 0n;
@@ -238,45 +485,58 @@ async function runDCA() {
 
   for (let i = 0; i < results.length; i++) {
     const result = results[i];
-    const walletData = result.walletAddress ? walletDataMap.get(result.walletAddress) : undefined;
+    const walletData = result.walletAddress && result.asset
+      ? walletDataMap.get(getSwapId(result.walletAddress, result.asset))
+      : undefined;
 
     if (walletData) {
       await logExecution(
         walletData.delegation.id,
         walletData.delegation.user_address,
-        fg?.value ?? 50,
-        decision,
-        result
+        fgValue,
+        walletData.decision,
+        result,
+        false,
+        fg.source
       );
 
       if (result.success) {
         successCount++;
-        totalVolume += BigInt(result.amountIn);
-        totalFees += BigInt(result.feeCollected);
+        const usdc = getSwapUsdcTotals(walletData, result);
+        totalVolume += usdc.volume;
+        totalFees += usdc.fee;
+        await recordSwapFee(walletData, result);
+        recordOutcome(walletData.delegation.smart_account_address, 'success', result.txHash);
+      } else if (result.keyHeld) {
+        recordOutcome(walletData.delegation.smart_account_address, 'skipped', result.error);
       } else if (result.errorType && ['network', 'timeout', 'rate_limit', 'quote_expired'].includes(result.errorType)) {
         failedDelegations.push({ delegation: walletData.delegation, error: result.error || 'Unknown error', originalWalletData: walletData });
+      } else {
+        recordOutcome(walletData.delegation.smart_account_address, 'failed', result.error);
       }
     }
   }
 
-  // End-of-run retry for failed wallets (using legacy EOA method - sequential, safer)
+  // End-of-run retry for failed wallets (one UserOp at a time - sequential, safer)
   const MAX_RETRY_WALLETS = 20;
   if (failedDelegations.length > 0 && failedDelegations.length <= MAX_RETRY_WALLETS) {
     console.log(`\n========================================`);
-    console.log(`  Retrying ${failedDelegations.length} failed wallets (legacy mode)...`);
+    console.log(`  Retrying ${failedDelegations.length} failed wallets...`);
     console.log(`========================================`);
 
+    await setRunState(runId, 'retries');
     console.log('Waiting 30s before retry...');
     await sleep(30000);
 
     for (const { delegation, error, originalWalletData } of failedDelegations) {
-      console.log(`\n[RETRY] ${delegation.smart_account_address} (previous error: ${error})`);
+      console.log(`\n[RETRY] ${delegation.smart_account_address} ${originalWalletData?.asset ?? ''} (previous error: ${error})`);
+      const decision = originalWalletData?.decision ?? decisions.get(delegation.id)!;
 
       try {
         let result: ExecutionResult;
 
         if (originalWalletData) {
-          result = await retrySwapWithOriginalAmounts(originalWalletData, decision, fg?.value ?? 50);
+          result = await retrySwapWithOriginalAmounts(originalWalletData, decision, fgValue);
         } else {
           console.warn(`[RETRY] ⚠️ ${delegation.smart_account_address}: No original wallet data - skipping retry to avoid amount recalculation`);
           result = {
@@ -295,40 +555,51 @@ async function runDCA() {
         result.retryCount = (result.retryCount || 0) + 1;
         result.lastError = result.lastError || `Retry after: ${error}`;
 
-        await logExecution(delegation.id, delegation.user_address, fg?.value ?? 50, decision, result, true);
+        await logExecution(delegation.id, delegation.user_address, fgValue, decision, result, true, fg.source);
 
         if (result.success) {
           successCount++;
-          totalVolume += BigInt(result.amountIn);
-          totalFees += BigInt(result.feeCollected);
           console.log(`[RETRY] ✓ Success!`);
+          if (originalWalletData) {
+            const usdc = getSwapUsdcTotals(originalWalletData, result);
+            totalVolume += usdc.volume;
+            totalFees += usdc.fee;
+            await recordSwapFee(originalWalletData, result);
+          }
+          recordOutcome(delegation.smart_account_address, 'success', result.txHash);
+        } else if (result.keyHeld) {
+          console.log(`[RETRY] Skipped: ${result.error}`);
+          recordOutcome(delegation.smart_account_address, 'skipped', result.error);
         } else {
           console.log(`[RETRY] ✗ Failed again: ${result.error}`);
+          recordOutcome(delegation.smart_account_address, 'failed', result.error);
         }
       } catch (err) {
         console.error(`[RETRY] ✗ Exception:`, err);
+        recordOutcome(delegation.smart_account_address, 'failed', err instanceof Error ? err.message : String(err));
       }
 
       await sleep(2000);
     }
   } else if (failedDelegations.length > MAX_RETRY_WALLETS) {
     console.log(`\n⚠️ ${failedDelegations.length} wallets failed - too many to retry`);
+    for (const { delegation, error } of failedDelegations) {
+      recordOutcome(delegation.smart_account_address, 'failed', error);
+    }
   }
 
-  // Update protocol stats
-  if (totalVolume > 0n) {
-    await updateProtocolStats(totalVolume, totalFees);
+  // Wallets filtered out before swapping (no balance, below minimum, missing allowance)
+  for (const delegation of delegations) {
+    if (!outcomes.has(delegation.smart_account_address.toLowerCase())) {
+      recordOutcome(delegation.smart_account_address, 'skipped', 'No swap prepared');
+    }
   }
 
-  // Summary
-  console.log('\n========================================');
-  console.log('  Execution Summary');
-  console.log('========================================');
-  console.log(`Processed: ${delegations.length} delegations`);
-  console.log(`Successful: ${successCount}`);
-  console.log(`Total Volume: ${formatUnits(totalVolume, 6)} (base units)`);
-  console.log(`Total Fees: ${formatUnits(totalFees, 6)} (base units)`);
-  console.log('========================================\n');
+  for (const { wallet, status, details } of outcomes.values()) {
+    await recordRunItemOutcome(runId, wallet, status, details.join('; ') || null);
+  }
+
+  return { successCount, totalVolume, totalFees };
 }
 
 // Run
@@ -0,0 +1,248 @@
+// ============ SCOPED DELEGATIONS ============
+// Delegations signed with argument-level caveats come as a set. delegation_data holds
+// the swap delegation (router execute() and WETH deposit() only); scoped_delegations
+// holds one delegation per argument restriction, since a caveat applies to every call
+// its delegation redeems: approve() only for Permit2, Permit2 approve() only for the
+// Universal Router, and per token a transfer() only to the fee collector, capped per
+// period (and a transfer() only to the owner, redeemed by the frontend's /api/withdraw).
+// Older delegations have no set, and delegation_data redeems every call.
+// Swaps are redeemed through a per-swap redelegation carrying the minimum output.
+
+import { decodeAbiParameters, encodeAbiParameters, type Address, type Hex } from 'viem';
+import { BalanceChangeType, getSmartAccountsEnvironment, type Delegation } from '@metamask/smart-accounts-kit';
+import { createCaveatBuilder, getDelegationHashOffchain } from '@metamask/smart-accounts-kit/utils';
+import { CAVEAT_ENFORCERS, CHAIN_ID, type DelegationRecord } from './config';
+import { FG_ENFORCER_ARGS_ABI, FG_ENFORCER_TERMS_ABI } from '../shared/fear-greed-enforcer';
+
+export interface RedemptionDelegations {
+  swap: any;
+  approve: any;
+  permit2Approve: any;
+  feeTransfer: Record<string, any> | null; // By lowercase token address; null = fees redeem `swap`
+}
+
+export interface AllowedCalldata {
+  startIndex: number; // Byte offset into the call's calldata
+  value: Hex; // Bytes that must appear there
+}
+
+export interface PeriodTransferLimit {
+  token: Address;
+  periodAmount: bigint; // Most the delegation may transfer per period
+  periodDuration: number; // Seconds
+  startDate: number; // Unix seconds
+}
+
+export interface MinReceived {
+  token: Address;
+  amount: bigint; // Least the delegator's balance must grow by
+}
+
+export interface FearGreedEnforcerTerms {
+  oracle: Address;
+  maxAge: number; // Seconds
+  tokens: Address[]; // tokens[0] is spent by buys, the rest by sells
+  wrappedNative: Address;
+  bandBps: number[]; // Extreme Fear, Fear, Greed, Extreme Greed
+}
+
+function parseSignedDelegation(value: unknown, label: string): any {
+  const signed = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!signed?.signature) {
+    throw new Error(`${label} missing signature`);
+  }
+  return signed;
+}
+
+/**
+ * The delegations a wallet's redemptions use, one per kind of call. A legacy
+ * delegation (no scoped set) is used for all of them.
+ */
+export function getRedemptionDelegations(delegation: DelegationRecord): RedemptionDelegations {
+  const swap = parseSignedDelegation(delegation.delegation_data, 'Delegation');
+  const scoped = delegation.scoped_delegations;
+  if (!scoped) {
+    return { swap, approve: swap, permit2Approve: swap, feeTransfer: null };
+  }
+
+  const feeTransfer: Record<string, any> = {};
+  for (const [token, signed] of Object.entries(scoped.feeTransfer ?? {})) {
+    feeTransfer[token.toLowerCase()] = parseSignedDelegation(signed, `Fee delegation for ${token}`);
+  }
+  return {
+    swap,
+    approve: parseSignedDelegation(scoped.approve, 'Approve delegation'),
+    permit2Approve: parseSignedDelegation(scoped.permit2Approve, 'Permit2 approve delegation'),
+    feeTransfer,
+  };
+}
+
+/**
+ * Lowercase hashes of every delegation the record redeems - disabling any of them
+ * on-chain breaks the wallet's runs
+ */
+export function getDelegationHashes(delegation: DelegationRecord): string[] {
+  const { swap, approve, permit2Approve, feeTransfer } = getRedemptionDelegations(delegation);
+  const signed = [swap, approve, permit2Approve, ...Object.values(feeTransfer ?? {})];
+  return [...new Set(signed.map(d => getDelegationHashOffchain(d).toLowerCase()))];
+}
+
+function findCaveatTerms(delegationData: any, name: string): string[] {
+  const caveats: any[] = delegationData?.caveats || [];
+  return caveats
+    .filter(caveat => CAVEAT_ENFORCERS[caveat.enforcer?.toLowerCase()] === name)
+    .map(caveat => (caveat.terms?.toLowerCase() ?? '0x') as string);
+}
+
+/**
+ * Calldata the delegation pins (AllowedCalldata terms: a 32-byte start index, then the
+ * expected bytes)
+ */
+export function getAllowedCalldata(delegationData: any): AllowedCalldata[] {
+  return findCaveatTerms(delegationData, 'AllowedCalldataEnforcer')
+    .filter(terms => terms.length > 66)
+    .map(terms => ({
+      startIndex: Number(BigInt(terms.slice(0, 66))),
+      value: `0x${terms.slice(66)}` as Hex,
+    }));
+}
+
+/**
+ * The delegation's per-period transfer limit (ERC20PeriodTransfer terms: token, then
+ * period amount, duration and start date as uint256), or null without one
+ */
+export function getPeriodTransferLimit(delegationData: any): PeriodTransferLimit | null {
+  const terms = findCaveatTerms(delegationData, 'ERC20PeriodTransferEnforcer')[0];
+  if (!terms || terms.length < 2 + 40 + 3 * 64) return null;
+  const word = (i: number) => BigInt(`0x${terms.slice(42 + i * 64, 42 + (i + 1) * 64)}`);
+  return {
+    token: `0x${terms.slice(2, 42)}` as Address,
+    periodAmount: word(0),
+    periodDuration: Number(word(1)),
+    startDate: Number(word(2)),
+  };
+}
+
+/**
+ * Addresses allowed to redeem the delegation (Redeemer terms are packed addresses),
+ * or null if anyone the delegation names may
+ */
+export function getAllowedRedeemers(delegationData: any): string[] | null {
+  const terms = findCaveatTerms(delegationData, 'RedeemerEnforcer')[0];
+  if (!terms) return null;
+  return (terms.slice(2).match(/.{40}/g) ?? []).map(address => `0x${address}`);
+}
+
+/**
+ * The delegation that redeems a fee transfer. A scoped one must pin the transfer
+ * recipient (calldata bytes 4-36) to `recipient` and allow `fee.amount` within a period,
+ * or the redemption would revert with the swap - so fail before sending it.
+ */
+export function getFeeTransferDelegation(
+  delegations: RedemptionDelegations,
+  fee: { token: Address; amount: bigint },
+  recipient: Address
+): any {
+  if (!delegations.feeTransfer) return delegations.swap;
+
+  const feeDelegation = delegations.feeTransfer[fee.token.toLowerCase()];
+  if (!feeDelegation) {
+    throw new Error(`No fee transfer delegation for ${fee.token}`);
+  }
+
+  const expectedRecipient = `0x${recipient.slice(2).toLowerCase().padStart(64, '0')}`;
+  const pinned = getAllowedCalldata(feeDelegation).find(c => c.startIndex === 4);
+  if (pinned?.value !== expectedRecipient) {
+    throw new Error(`Fee delegation for ${fee.token} does not pay the fee collector ${recipient}`);
+  }
+
+  const limit = getPeriodTransferLimit(feeDelegation);
+  if (limit && (limit.token.toLowerCase() !== fee.token.toLowerCase() || fee.amount > limit.periodAmount)) {
+    throw new Error(`Fee of ${fee.amount} ${fee.token} exceeds the delegation's period limit`);
+  }
+  return feeDelegation;
+}
+
+// ============ MINIMUM RECEIVED ============
+
+/**
+ * Redelegation of `parent` from its delegate to itself with an ERC20BalanceChange caveat:
+ * the redemption reverts unless the delegator's balance of `minReceived.token` grows by
+ * at least `minReceived.amount`. The delegate signs one per swap, so calldata through a
+ * whitelisted router still cannot send the output elsewhere or short the wallet.
+ */
+export function buildMinReceivedDelegation(parent: any, minReceived: MinReceived): Omit<Delegation, 'signature'> {
+  const caveats = createCaveatBuilder(getSmartAccountsEnvironment(CHAIN_ID))
+    .addCaveat('erc20BalanceChange', {
+      tokenAddress: minReceived.token,
+      recipient: parent.delegator,
+      balance: minReceived.amount,
+      changeType: BalanceChangeType.Increase,
+    })
+    .build();
+  return {
+    delegate: parent.delegate,
+    delegator: parent.delegate,
+    authority: getDelegationHashOffchain(parent),
+    caveats,
+    salt: '0x',
+  };
+}
+
+/**
+ * The balance increase a delegation requires (ERC20BalanceChange terms: change type byte,
+ * token, recipient, then the amount as uint256), or null without one
+ */
+export function getMinReceived(delegationData: any): (MinReceived & { recipient: Address }) | null {
+  const terms = findCaveatTerms(delegationData, 'ERC20BalanceChangeEnforcer')[0];
+  if (!terms || terms.length !== 2 + 2 + 40 + 40 + 64) return null;
+  if (Number.parseInt(terms.slice(2, 4), 16) !== BalanceChangeType.Increase) return null;
+  return {
+    token: `0x${terms.slice(4, 44)}` as Address,
+    recipient: `0x${terms.slice(44, 84)}` as Address,
+    amount: BigInt(`0x${terms.slice(84)}`),
+  };
+}
+
+// ============ FEAR & GREED ENFORCER ============
+
+function isFearGreedEnforcer(caveat: any): boolean {
+  return CAVEAT_ENFORCERS[caveat.enforcer?.toLowerCase()] === 'FearGreedEnforcer';
+}
+
+/**
+ * The delegation's FearGreedEnforcer terms (see shared/fear-greed-enforcer.ts), or null
+ * without the caveat
+ */
+export function getFearGreedEnforcerTerms(delegationData: any): FearGreedEnforcerTerms | null {
+  const terms = findCaveatTerms(delegationData, 'FearGreedEnforcer')[0];
+  if (!terms) return null;
+  const [oracle, maxAge, tokens, wrappedNative, bandBps] = decodeAbiParameters(FG_ENFORCER_TERMS_ABI, terms as Hex);
+  return {
+    oracle,
+    maxAge: Number(maxAge),
+    tokens: [...tokens],
+    wrappedNative,
+    bandBps: [...bandBps],
+  };
+}
+
+/**
+ * The delegation with `round` as the args of its FearGreedEnforcer caveats. Args are not
+ * signed, so the redeemer sets them per redemption. Delegations without the caveat are
+ * returned as they are; with it, a missing round throws rather than sending a
+ * redemption the enforcer would revert.
+ */
+export function withFearGreedRound(delegationData: any, round: bigint | null): any {
+  const caveats: any[] = delegationData?.caveats || [];
+  if (!caveats.some(isFearGreedEnforcer)) return delegationData;
+  if (round === null) {
+    throw new Error('Delegation requires an on-chain Fear & Greed round, but none was posted');
+  }
+
+  const args = encodeAbiParameters(FG_ENFORCER_ARGS_ABI, [round]);
+  return {
+    ...delegationData,
+    caveats: caveats.map(caveat => (isFearGreedEnforcer(caveat) ? { ...caveat, args } : caveat)),
+  };
+}
@@ -1,38 +1,61 @@
 // ============ DELEGATION VALIDATION ============
+// Caveat checks decode every enforcer's terms (caveat-decoder.ts); the on-chain checks
+// verify the delegator's signature (ERC-1271 for smart accounts), whether the delegation
+// was disabled on the DelegationManager, and how many LimitedCalls calls remain. Each
+// run stores one report per wallet in delegation_validations.
 
-import { CAVEAT_ENFORCERS, type CaveatValidation, type DelegationRecord, DB_RETRY_CONFIG } from './config';
+import { type Address, type Hex } from 'viem';
+import { getDelegationHashOffchain } from '@metamask/smart-accounts-kit/utils';
+import {
+  ADDRESSES,
+  CAVEAT_ENFORCERS,
+  FG_ORACLE_ADDRESS,
+  WETH_DEPOSIT_SELECTOR,
+  delegationManagerAbi,
+  erc1271Abi,
+  limitedCallsEnforcerAbi,
+  type CaveatValidation,
+  type DelegationRecord,
+  DB_RETRY_CONFIG,
+} from './config';
 import { withRetry } from './error-handler';
-import { supabase } from './clients';
+import { publicClient, supabase } from './clients';
+import { getAllowedRedeemers, getFearGreedEnforcerTerms, getRedemptionDelegations } from './delegation-scopes';
+import { decodeCaveats, getDelegationDigest, type DecodedCaveat } from './caveat-decoder';
+
+// ERC-1271 isValidSignature magic value
+const ERC1271_MAGIC_VALUE = '0x1626ba7e';
 
 export function validateDelegationCaveats(delegationData: any): CaveatValidation {
   const now = Math.floor(Date.now() / 1000);
-  const caveats = delegationData.caveats || [];
-  
-  for (const caveat of caveats) {
-    const enforcerAddr = caveat.enforcer?.toLowerCase();
-    const enforcerName = CAVEAT_ENFORCERS[enforcerAddr] || 'Unknown';
-    
-    // Check TimestampEnforcer
-    if (enforcerAddr === '0x1046bb45c8d673d4ea75321280db34899413c069') {
-      const terms = caveat.terms?.slice(2) || ''; // remove 0x
-      if (terms.length >= 64) {
-        const validAfter = parseInt(terms.slice(24, 32), 16);
-        const validUntil = parseInt(terms.slice(56, 64), 16);
-        
-        if (now < validAfter) {
-          return { 
-            valid: false, 
-            reason: `Delegation not yet valid (starts ${new Date(validAfter * 1000).toISOString()})` 
-          };
-        }
-        if (now > validUntil) {
-          return { 
-            valid: false, 
-            reason: `Delegation expired (ended ${new Date(validUntil * 1000).toISOString()})`,
-            expiresAt: validUntil
-          };
-        }
-        
+  let expiresAt: number | undefined;
+
+  for (const caveat of decodeCaveats(delegationData)) {
+    // An enforcer we can't read could block every redemption, or need args we don't send
+    if (caveat.error) {
+      return { valid: false, reason: caveat.error };
+    }
+
+    if (caveat.name === 'TimestampEnforcer') {
+      const validAfter = caveat.terms.afterTimestamp as number;
+      const validUntil = caveat.terms.beforeTimestamp as number;
+
+      if (validAfter > 0 && now <= validAfter) {
+        return {
+          valid: false,
+          reason: `Delegation not yet valid (starts ${new Date(validAfter * 1000).toISOString()})`
+        };
+      }
+      if (validUntil > 0 && now >= validUntil) {
+        return {
+          valid: false,
+          reason: `Delegation expired (ended ${new Date(validUntil * 1000).toISOString()})`,
+          expiresAt: validUntil
+        };
+      }
+
+      if (validUntil > 0) {
+        expiresAt = validUntil;
         // Warn if expiring soon (within 7 days)
         const sevenDays = 7 * 24 * 60 * 60;
         if (validUntil - now < sevenDays) {
@@ -40,20 +63,240 @@ export function validateDelegationCaveats(delegationData: any): CaveatValidation
         }
       }
     }
-    
-    // Check LimitedCallsEnforcer
-    if (enforcerAddr === '0x04658b29f6b82ed55274221a06fc97d318e25416') {
-      const terms = caveat.terms?.slice(2) || '';
-      if (terms.length >= 64) {
-        const maxCalls = parseInt(terms.slice(0, 64), 16);
-        if (maxCalls < 1000) {
-          console.log(`  ℹ️ Delegation has ${maxCalls} max calls limit`);
-        }
+
+    if (caveat.name === 'LimitedCallsEnforcer') {
+      const maxCalls = caveat.terms.limit as number;
+      if (maxCalls < 1000) {
+        console.log(`  ℹ️ Delegation has ${maxCalls} max calls limit`);
       }
     }
   }
-  
-  return { valid: true };
+
+  // Check RedeemerEnforcer - a delegate it doesn't list could never redeem
+  const redeemers = getAllowedRedeemers(delegationData);
+  if (redeemers && !redeemers.includes(delegationData.delegate?.toLowerCase())) {
+    return {
+      valid: false,
+      reason: `Delegate ${delegationData.delegate} is not an allowed redeemer (${redeemers.join(', ')})`,
+    };
+  }
+
+  // Check FearGreedEnforcer - it must read the oracle this backend posts rounds to
+  const fgTerms = getFearGreedEnforcerTerms(delegationData);
+  if (fgTerms && fgTerms.oracle.toLowerCase() !== FG_ORACLE_ADDRESS?.toLowerCase()) {
+    return {
+      valid: false,
+      reason: `Fear & Greed enforcer reads oracle ${fgTerms.oracle}, but rounds are posted to ${FG_ORACLE_ADDRESS ?? 'no oracle'}`,
+    };
+  }
+
+  return { valid: true, expiresAt };
+}
+
+// ============ ON-CHAIN CHECKS ============
+
+// undeployed: the delegator has no code yet (its account is deployed before the swaps)
+export type SignatureStatus = 'valid' | 'invalid' | 'undeployed' | 'error';
+
+export interface DelegationCheck {
+  kind: string; // swap, approve, permit2Approve or feeTransfer:<token>
+  hash: Hex;
+  signature: SignatureStatus;
+  disabled: boolean | null; // null if the lookup failed
+  callsRemaining: number | null; // LimitedCalls limit less calls made; null without one or if the lookup failed
+  caveats: DecodedCaveat[];
+  issues: string[]; // Problems that make the delegation unusable
+  warnings: string[];
+}
+
+export interface DelegationValidationReport {
+  delegationId: string;
+  wallet: string;
+  valid: boolean;
+  reason: string | null; // First issue found
+  checkedAt: string;
+  delegations: DelegationCheck[];
+}
+
+async function checkSignature(delegationData: any): Promise<SignatureStatus> {
+  const delegator = delegationData.delegator as Address;
+  const code = await publicClient.getCode({ address: delegator });
+  if (!code || code === '0x') return 'undeployed';
+
+  const result = await publicClient.readContract({
+    address: delegator,
+    abi: erc1271Abi,
+    functionName: 'isValidSignature',
+    args: [getDelegationDigest(delegationData), delegationData.signature as Hex],
+  }).catch(() => null); // A rejected signature may revert instead of returning a failure value
+  return result === ERC1271_MAGIC_VALUE ? 'valid' : 'invalid';
+}
+
+async function getCallsRemaining(caveats: DecodedCaveat[], hash: Hex): Promise<number | null> {
+  const limitedCalls = caveats.find(c => c.name === 'LimitedCallsEnforcer');
+  if (!limitedCalls) return null;
+  const callCount = await publicClient.readContract({
+    address: limitedCalls.enforcer as Address,
+    abi: limitedCallsEnforcerAbi,
+    functionName: 'callCounts',
+    args: [ADDRESSES.DELEGATION_MANAGER, hash],
+  });
+  return Math.max(0, (limitedCalls.terms.limit as number) - Number(callCount));
+}
+
+/**
+ * Caveat, signature, disabled and remaining-call checks for one signed delegation.
+ * Lookup failures are recorded as warnings - the redemption itself still enforces them.
+ */
+export async function checkDelegation(kind: string, delegationData: any): Promise<DelegationCheck> {
+  const hash = getDelegationHashOffchain(delegationData);
+  const caveats = decodeCaveats(delegationData);
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  const caveatValidation = validateDelegationCaveats(delegationData);
+  if (!caveatValidation.valid) issues.push(caveatValidation.reason!);
+
+  let signature: SignatureStatus = 'error';
+  try {
+    signature = await checkSignature(delegationData);
+  } catch (error: any) {
+    warnings.push(`Signature check failed: ${error?.shortMessage ?? error?.message}`);
+  }
+  if (signature === 'invalid') issues.push(`Invalid ${kind} delegation signature`);
+  if (signature === 'undeployed') warnings.push(`Delegator ${delegationData.delegator} not deployed - signature checked once it is`);
+
+  let disabled: boolean | null = null;
+  try {
+    disabled = await publicClient.readContract({
+      address: ADDRESSES.DELEGATION_MANAGER,
+      abi: delegationManagerAbi,
+      functionName: 'disabledDelegations',
+      args: [hash],
+    });
+  } catch (error: any) {
+    warnings.push(`Disabled lookup failed: ${error?.shortMessage ?? error?.message}`);
+  }
+  if (disabled) issues.push(`${kind} delegation was disabled on-chain`);
+
+  let callsRemaining: number | null = null;
+  try {
+    callsRemaining = await getCallsRemaining(caveats, hash);
+  } catch (error: any) {
+    warnings.push(`Call count lookup failed: ${error?.shortMessage ?? error?.message}`);
+  }
+  if (callsRemaining === 0) issues.push(`${kind} delegation has no calls left`);
+
+  return { kind, hash, signature, disabled, callsRemaining, caveats, issues, warnings };
+}
+
+/**
+ * Check every delegation a wallet's redemptions use (the swap delegation and, for scoped
+ * sets, the approval and fee-transfer delegations). Valid only if none has an issue.
+ */
+export async function validateDelegation(record: DelegationRecord): Promise<DelegationValidationReport> {
+  const report = (delegations: DelegationCheck[], reason: string | null): DelegationValidationReport => ({
+    delegationId: record.id,
+    wallet: record.smart_account_address.toLowerCase(),
+    valid: reason === null,
+    reason,
+    checkedAt: new Date().toISOString(),
+    delegations,
+  });
+
+  let signed: [string, any][];
+  try {
+    const delegations = getRedemptionDelegations(record);
+    signed = [['swap', delegations.swap]];
+    if (record.scoped_delegations) {
+      signed.push(['approve', delegations.approve], ['permit2Approve', delegations.permit2Approve]);
+      for (const [token, feeDelegation] of Object.entries(delegations.feeTransfer ?? {})) {
+        signed.push([`feeTransfer:${token}`, feeDelegation]);
+      }
+    }
+  } catch (error: any) {
+    return report([], error?.message ?? 'Unreadable delegation');
+  }
+
+  const checks: DelegationCheck[] = [];
+  for (const [kind, delegationData] of signed) {
+    checks.push(await checkDelegation(kind, delegationData));
+  }
+  return report(checks, checks.flatMap(check => check.issues)[0] ?? null);
+}
+
+/**
+ * Store the run's validation reports, one per wallet (a resumed run overwrites its own)
+ */
+export async function recordValidationReports(runId: string, reports: DelegationValidationReport[]): Promise<void> {
+  if (reports.length === 0) return;
+  const { error, attempts } = await withRetry(
+    async () => {
+      const { error } = await supabase.from('delegation_validations').upsert(
+        reports.map(report => ({
+          run_id: runId,
+          wallet_address: report.wallet,
+          delegation_id: report.delegationId,
+          valid: report.valid,
+          reason: report.reason,
+          report,
+          checked_at: report.checkedAt,
+        })),
+        { onConflict: 'run_id,wallet_address' }
+      );
+      if (error) throw error;
+    },
+    { ...DB_RETRY_CONFIG, operation: 'recordValidationReports' }
+  );
+
+  // Reports are an audit trail - losing one doesn't change what the run executes
+  if (error) {
+    console.error(`[Validate] Failed to store ${reports.length} validation reports after ${attempts} attempts:`, error.message);
+  }
+}
+
+function findCaveatTerms(delegationData: any, name: string): string[] {
+  const caveats: any[] = delegationData?.caveats || [];
+  return caveats
+    .filter(caveat => CAVEAT_ENFORCERS[caveat.enforcer?.toLowerCase()] === name)
+    .map(caveat => (caveat.terms?.toLowerCase() ?? '0x') as string);
+}
+
+/**
+ * Contracts this delegation lets the backend call (AllowedTargets terms are packed
+ * addresses), or null if it has no targets caveat. With several targets caveats a
+ * call must pass all of them.
+ */
+export function getAllowedTargets(delegationData: any): string[] | null {
+  const terms = findCaveatTerms(delegationData, 'AllowedTargetsEnforcer');
+  if (terms.length === 0) return null;
+  const lists = terms.map(t => (t.slice(2).match(/.{40}/g) ?? []).map(address => `0x${address}`));
+  return lists[0].filter(address => lists.every(list => list.includes(address)));
+}
+
+/**
+ * Function selectors this delegation allows (AllowedMethods terms are packed 4-byte
+ * selectors), or null if it has no methods caveat
+ */
+export function getAllowedMethods(delegationData: any): string[] | null {
+  const terms = findCaveatTerms(delegationData, 'AllowedMethodsEnforcer');
+  if (terms.length === 0) return null;
+  const lists = terms.map(t => (t.slice(2).match(/.{8}/g) ?? []).map(selector => `0x${selector}`));
+  return lists[0].filter(selector => lists.every(list => list.includes(selector)));
+}
+
+/**
+ * Most native ETH the backend may wrap per call under this delegation: the ValueLte
+ * limit, if AllowedMethods includes WETH deposit(). Delegations signed before
+ * auto-wrap allow neither (value 0), so their native ETH is never sold.
+ */
+export function getMaxWrapAmount(delegationData: any): bigint {
+  const methods = getAllowedMethods(delegationData);
+  if (methods && !methods.includes(WETH_DEPOSIT_SELECTOR)) {
+    return 0n;
+  }
+  const valueLimit = findCaveatTerms(delegationData, 'ValueLteEnforcer')[0];
+  return valueLimit && valueLimit.length >= 66 ? BigInt(valueLimit.slice(0, 66)) : 0n;
 }
 
 export async function getActiveDelegations(targetWallet?: string): Promise<DelegationRecord[]> {
@@ -62,7 +305,8 @@ export async function getActiveDelegations(targetWallet?: string): Promise<Deleg
       const { data, error } = await supabase
         .from('delegations')
         .select('*')
-        .gt('expires_at', new Date().toISOString());
+        .gt('expires_at', new Date().toISOString())
+        .is('revoked_at', null); // Disabled on-chain (revocation-indexer.ts)
       
       if (error) throw error;
       return data || [];
@@ -0,0 +1,244 @@
+// ============ EXECUTION KEYS ============
+// Per-swap idempotency enforced by a unique dca_executions.execution_key
+// (wallet, schedule slot, basket asset, action). A swap claims its key with a 'pending' row before
+// it is submitted, then moves pending → submitted → success (confirmed on-chain).
+// A failed attempt releases the key (execution_key set to null, row kept as history).
+// A key that is still held is reconciled against the bundler/chain before anything
+// is re-submitted, so the parallel path and the retry path can never both swap.
+
+import {
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type Hex,
+} from 'viem';
+import {
+  UserOperationNotFoundError,
+  UserOperationReceiptNotFoundError,
+} from 'viem/account-abstraction';
+import { DB_RETRY_CONFIG } from './config';
+import { withRetry } from './error-handler';
+import { bundlerClient, publicClient, supabase } from './clients';
+
+// A held key with nothing visible on the bundler or chain for this long is treated as dropped
+// (swap quotes carry a deadline far shorter than this, so a late inclusion would revert)
+const EXECUTION_KEY_DROP_AFTER_MS = 10 * 60 * 1000;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export type ExecutionKeyStatus = 'pending' | 'submitted' | 'success';
+
+export interface ExecutionClaim {
+  userAddress: string;
+  walletAddress: string;
+  action: 'buy' | 'sell';
+  targetAsset: string; // Basket asset bought or sold
+  fgValue: number;
+  amountIn: string;
+  userOpHash?: string | null; // Known before submission for UserOps (hash of the signed op)
+}
+
+export interface ClaimResult {
+  claimed: boolean;
+  reason?: string; // Why the key could not be claimed
+}
+
+interface HeldExecution {
+  status: ExecutionKeyStatus;
+  user_op_hash: string | null;
+  tx_hash: string | null;
+  updated_at: string;
+}
+
+type Observation =
+  | { state: 'confirmed'; txHash: string }
+  | { state: 'reverted' | 'pending' | 'not_found' };
+
+// '<wallet>:<slot>:<asset>:<buy|sell>' - the wallet lowercased, the slot a schedule slot id
+// (formatSlot, e.g. 2026-10-19T12:00Z) or a rebalance plan id, the asset a basket asset, e.g.
+// '0xabc…:2026-10-19T12:00Z:ETH:buy'. The action stays the last segment - balance history
+// reads a rebalance's direction from it
+export function getExecutionKey(wallet: string, slot: string, asset: string, action: 'buy' | 'sell'): string {
+  return `${wallet.toLowerCase()}:${slot}:${asset}:${action}`;
+}
+
+// ============ CHAIN RECONCILIATION ============
+
+async function observeUserOp(hash: Hex): Promise<Observation> {
+  try {
+    const receipt = await bundlerClient.getUserOperationReceipt({ hash });
+    return receipt.success
+      ? { state: 'confirmed', txHash: receipt.receipt.transactionHash }
+      : { state: 'reverted' };
+  } catch (error) {
+    if (!(error instanceof UserOperationReceiptNotFoundError)) throw error;
+  }
+
+  try {
+    await bundlerClient.getUserOperation({ hash });
+    return { state: 'pending' };
+  } catch (error) {
+    if (error instanceof UserOperationNotFoundError) return { state: 'not_found' };
+    throw error;
+  }
+}
+
+async function observeTransaction(hash: Hex): Promise<Observation> {
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash });
+    return receipt.status === 'success'
+      ? { state: 'confirmed', txHash: hash }
+      : { state: 'reverted' };
+  } catch (error) {
+    if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+  }
+
+  try {
+    await publicClient.getTransaction({ hash });
+    return { state: 'pending' };
+  } catch (error) {
+    if (error instanceof TransactionNotFoundError) return { state: 'not_found' };
+    throw error;
+  }
+}
+
+async function updateHeldExecution(
+  key: string,
+  expectedStatus: ExecutionKeyStatus,
+  fields: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from('dca_executions')
+    .update(fields)
+    .eq('execution_key', key)
+    .eq('status', expectedStatus);
+  if (error) throw error;
+}
+
+/**
+ * Settle a held key from what the bundler/chain reports.
+ * Returns true when the key was released and may be claimed again.
+ */
+async function reconcileExecution(key: string, held: HeldExecution): Promise<{ released: boolean; reason: string }> {
+  if (held.status === 'success') {
+    return { released: false, reason: `already confirmed (${held.tx_hash})` };
+  }
+
+  const observation = held.user_op_hash
+    ? await observeUserOp(held.user_op_hash as Hex)
+    : held.tx_hash
+    ? await observeTransaction(held.tx_hash as Hex)
+    : { state: 'not_found' as const };
+
+  console.log(`[ExecKey] Reconciling ${key} (${held.status}): ${observation.state}`);
+
+  if (observation.state === 'confirmed') {
+    await updateHeldExecution(key, held.status, {
+      status: 'success',
+      tx_hash: observation.txHash,
+      confirmed_at: new Date().toISOString(),
+    });
+    return { released: false, reason: `confirmed on reconciliation (${observation.txHash})` };
+  }
+
+  const isDropped = observation.state === 'not_found'
+    && Date.now() - Date.parse(held.updated_at) > EXECUTION_KEY_DROP_AFTER_MS;
+
+  if (observation.state === 'reverted' || isDropped) {
+    await updateHeldExecution(key, held.status, {
+      status: 'failed',
+      execution_key: null,
+      error_message: observation.state === 'reverted' ? 'Reverted on-chain (reconciled)' : 'Dropped before inclusion (reconciled)',
+      updated_at: new Date().toISOString(),
+    });
+    return { released: true, reason: observation.state };
+  }
+
+  return { released: false, reason: `still in flight (${held.status})` };
+}
+
+// ============ LIFECYCLE ============
+
+async function insertClaim(key: string, claim: ExecutionClaim): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { error } = await supabase.from('dca_executions').insert({
+    execution_key: key,
+    status: 'pending',
+    user_address: claim.userAddress,
+    wallet_address: claim.walletAddress,
+    action: claim.action,
+    target_asset: claim.targetAsset,
+    fear_greed_index: claim.fgValue,
+    amount_in: claim.amountIn,
+    user_op_hash: claim.userOpHash ?? null,
+    created_at: now,
+    updated_at: now,
+  });
+  if (error?.code === UNIQUE_VIOLATION) return false;
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * Claim the key before submitting. Fails closed: any DB or RPC error means "not claimed".
+ */
+export async function claimExecutionKey(key: string, claim: ExecutionClaim): Promise<ClaimResult> {
+  const { result, error } = await withRetry(
+    async (): Promise<ClaimResult> => {
+      if (await insertClaim(key, claim)) {
+        return { claimed: true };
+      }
+
+      const { data, error } = await supabase
+        .from('dca_executions')
+        .select('status, user_op_hash, tx_hash, updated_at')
+        .eq('execution_key', key)
+        .maybeSingle();
+      if (error) throw error;
+      // Released between our insert and select - the next attempt inserts again
+      if (!data) throw new Error(`Execution key ${key} released concurrently`);
+
+      const reconciled = await reconcileExecution(key, data as HeldExecution);
+      if (!reconciled.released) {
+        return { claimed: false, reason: reconciled.reason };
+      }
+
+      return (await insertClaim(key, claim))
+        ? { claimed: true }
+        : { claimed: false, reason: 'claimed concurrently' };
+    },
+    { ...DB_RETRY_CONFIG, operation: 'claimExecutionKey' }
+  );
+
+  if (!result) {
+    console.error(`[ExecKey] Could not claim ${key}: ${error?.message}`);
+    return { claimed: false, reason: `claim failed: ${error?.message}` };
+  }
+  if (!result.claimed) {
+    console.warn(`[ExecKey] ${key} not claimed: ${result.reason}`);
+  }
+  return result;
+}
+
+/**
+ * pending → submitted once the bundler (or RPC, for legacy transactions) accepted it
+ */
+export async function markExecutionSubmitted(
+  key: string,
+  hashes: { userOpHash?: string | null; txHash?: string | null }
+): Promise<void> {
+  const { error, attempts } = await withRetry(
+    () => updateHeldExecution(key, 'pending', {
+      status: 'submitted',
+      ...(hashes.userOpHash ? { user_op_hash: hashes.userOpHash } : {}),
+      ...(hashes.txHash ? { tx_hash: hashes.txHash } : {}),
+      updated_at: new Date().toISOString(),
+    }),
+    { ...DB_RETRY_CONFIG, operation: 'markExecutionSubmitted' }
+  );
+
+  // The key stays pending; reconciliation still finds the op through user_op_hash
+  if (error) {
+    console.error(`[ExecKey] Failed to mark ${key} submitted after ${attempts} attempts:`, error.message);
+  }
+}
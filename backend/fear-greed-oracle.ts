@@ -0,0 +1,200 @@
+// ============ FEAR & GREED ORACLE ============
+// Pluggable F&G providers with staleness rejection, median/quorum aggregation
+// and a disagreement threshold that forces every wallet to hold.
+
+import {
+  FG_STALENESS_THRESHOLD_SECONDS,
+  FG_MIN_QUORUM,
+  FG_MAX_DISAGREEMENT,
+} from './config';
+import { withRetry } from './error-handler';
+import { getFearGreedClassification } from '../shared/strategies';
+
+// Days of F&G history passed to strategies alongside today's value
+export const FG_HISTORY_DAYS = 30;
+
+// ============ TYPES ============
+
+export interface FearGreedSample {
+  source: string;
+  value: number;
+  classification: string;
+  timestamp: number; // Provider's own timestamp (unix seconds)
+  history?: number[]; // Previous daily values, most recent first
+}
+
+export interface FearGreedProvider {
+  name: string;
+  maxAgeSeconds?: number; // Defaults to FG_STALENESS_THRESHOLD_SECONDS
+  isEnabled?: () => boolean;
+  fetch: () => Promise<FearGreedSample>;
+}
+
+export interface FearGreedReading {
+  value: number;
+  classification: string;
+  history: number[];
+  source: string; // Provider name, or median(a,b,...) when several agreed
+  samples: FearGreedSample[];
+  forceHold: boolean;
+  holdReason?: string;
+}
+
+export interface AggregationConfig {
+  minQuorum: number;
+  maxDisagreement: number;
+}
+
+// ============ PROVIDERS ============
+
+export const alternativeMeProvider: FearGreedProvider = {
+  name: 'alternative.me',
+  // Daily index stamped at 00:00 UTC: allow one full day plus 2h for late publication
+  maxAgeSeconds: 86400 + 7200,
+  async fetch() {
+    const response = await fetch(`https://api.alternative.me/fng/?limit=${FG_HISTORY_DAYS + 1}`);
+    if (!response.ok) {
+      throw new Error(`F&G API returned ${response.status}: ${response.statusText}`);
+    }
+    const data = await response.json();
+    if (!data.data?.[0]) {
+      throw new Error('Invalid F&G API response structure');
+    }
+    return {
+      source: 'alternative.me',
+      value: parseInt(data.data[0].value),
+      classification: data.data[0].value_classification,
+      timestamp: parseInt(data.data[0].timestamp),
+      history: data.data.slice(1).map((d: { value: string }) => parseInt(d.value)),
+    };
+  },
+};
+
+export const coinMarketCapProvider: FearGreedProvider = {
+  name: 'coinmarketcap',
+  isEnabled: () => !!process.env.CMC_API_KEY,
+  async fetch() {
+    const response = await fetch('https://pro-api.coinmarketcap.com/v3/fear-and-greed/latest', {
+      headers: { 'X-CMC_PRO_API_KEY': process.env.CMC_API_KEY! },
+    });
+    if (!response.ok) {
+      throw new Error(`CoinMarketCap API returned ${response.status}: ${response.statusText}`);
+    }
+    const data = await response.json();
+    if (typeof data.data?.value !== 'number' || !data.data.update_time) {
+      throw new Error('Invalid CoinMarketCap F&G response structure');
+    }
+    return {
+      source: 'coinmarketcap',
+      value: data.data.value,
+      classification: data.data.value_classification,
+      timestamp: Math.floor(Date.parse(data.data.update_time) / 1000),
+    };
+  },
+};
+
+export const DEFAULT_PROVIDERS: FearGreedProvider[] = [
+  alternativeMeProvider,
+  coinMarketCapProvider,
+];
+
+// ============ VALIDATION & AGGREGATION ============
+
+export function isFearGreedStale(
+  sample: Pick<FearGreedSample, 'timestamp'>,
+  maxAgeSeconds: number = FG_STALENESS_THRESHOLD_SECONDS,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): boolean {
+  return nowSeconds - sample.timestamp > maxAgeSeconds;
+}
+
+function isValidSample(sample: FearGreedSample): boolean {
+  return Number.isFinite(sample.value) && sample.value >= 0 && sample.value <= 100 && Number.isFinite(sample.timestamp);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * Combine fresh samples into one reading. Throws below quorum (fail closed);
+ * flags forceHold when the samples disagree by more than maxDisagreement points.
+ */
+export function aggregateFearGreed(
+  samples: FearGreedSample[],
+  config: AggregationConfig = { minQuorum: FG_MIN_QUORUM, maxDisagreement: FG_MAX_DISAGREEMENT }
+): FearGreedReading {
+  if (samples.length < config.minQuorum) {
+    throw new Error(`F&G quorum not met: ${samples.length} fresh source(s), need ${config.minQuorum}`);
+  }
+
+  const values = samples.map(s => s.value);
+  const value = median(values);
+  const spread = Math.max(...values) - Math.min(...values);
+  const forceHold = spread > config.maxDisagreement;
+
+  return {
+    value,
+    classification: samples.length === 1 ? samples[0].classification : getFearGreedClassification(value),
+    history: samples.find(s => s.history && s.history.length > 0)?.history ?? [],
+    source: samples.length === 1 ? samples[0].source : `median(${samples.map(s => s.source).join(',')})`,
+    samples,
+    forceHold,
+    holdReason: forceHold
+      ? `Sources disagree by ${spread} points (max ${config.maxDisagreement}): ${samples.map(s => `${s.source}=${s.value}`).join(', ')}`
+      : undefined,
+  };
+}
+
+/**
+ * Query every enabled provider and keep the valid, fresh samples
+ */
+async function collectFreshSamples(providers: FearGreedProvider[]): Promise<FearGreedSample[]> {
+  const enabled = providers.filter(p => !p.isEnabled || p.isEnabled());
+
+  const samples = await Promise.all(enabled.map(async (provider) => {
+    const { result, error, attempts } = await withRetry(
+      provider.fetch,
+      { operation: `fetchFearGreed:${provider.name}` }
+    );
+
+    if (!result) {
+      console.warn(`[Oracle] ${provider.name} failed after ${attempts} attempts: ${error?.message}`);
+      return null;
+    }
+    if (!isValidSample(result)) {
+      console.warn(`[Oracle] ${provider.name} returned an invalid reading: ${JSON.stringify(result)}`);
+      return null;
+    }
+    if (isFearGreedStale(result, provider.maxAgeSeconds)) {
+      const ageHours = (Date.now() / 1000 - result.timestamp) / 3600;
+      console.warn(`[Oracle] ${provider.name} is stale (${ageHours.toFixed(1)}h old) - ignoring`);
+      return null;
+    }
+
+    console.log(`[Oracle] ${provider.name}: ${result.value} (${result.classification})`);
+    return result;
+  }));
+
+  return samples.filter((s: FearGreedSample | null): s is FearGreedSample => s !== null);
+}
+
+/**
+ * Aggregate fresh samples from the primary providers. Fallback providers (e.g. the
+ * self-computed on-chain index) are only queried when no primary sample is usable.
+ */
+export async function fetchFearGreedFromProviders(
+  providers: FearGreedProvider[] = DEFAULT_PROVIDERS,
+  fallbackProviders: FearGreedProvider[] = []
+): Promise<FearGreedReading> {
+  let samples = await collectFreshSamples(providers);
+
+  if (samples.length === 0 && fallbackProviders.length > 0) {
+    console.warn('[Oracle] No fresh primary F&G source - using fallback providers');
+    samples = await collectFreshSamples(fallbackProviders);
+  }
+
+  return aggregateFearGreed(samples);
+}
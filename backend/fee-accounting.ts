@@ -0,0 +1,146 @@
+// ============ FEE ACCOUNTING ============
+// Pure reconciliation of the fee ledger against logged executions and on-chain transfers.
+// Reading receipts and the database lives in fee-collector.ts / fee-report.ts.
+
+import { decodeEventLog, erc20Abi, type Hex } from 'viem';
+
+export interface FeeLedgerRow {
+  id: string;
+  wallet_address: string;
+  token: string;
+  accrued_amount: string;          // Fee computed for the swap (base units)
+  collected_amount: string | null; // Fee transferred in the swap tx, read from its receipt
+  collect_tx_hash: string;
+  deposit_tx_hash: string | null;  // depositRewards tx that moved it to staking
+}
+
+export interface ExecutionFeeRow {
+  tx_hash: string;
+  wallet_address: string | null;
+  fee_collected: string;
+}
+
+export interface ReceiptLog {
+  address: string;
+  topics: Hex[];
+  data: Hex;
+}
+
+export interface TokenFeeTotals {
+  accrued: bigint;
+  collected: bigint;
+  onchainCollected: bigint;
+  deposited: bigint;
+  onchainDeposited: bigint;
+  undeposited: bigint; // Collected but not yet swept to staking
+}
+
+export interface FeeReconciliation {
+  tokens: Record<string, TokenFeeTotals>;
+  issues: string[];
+}
+
+/**
+ * Sum ERC20 Transfer amounts of `token` from `from` to `to` in a receipt's logs
+ */
+export function sumTokenTransfers(logs: ReceiptLog[], token: string, from: string, to: string): bigint {
+  let total = 0n;
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== token.toLowerCase()) continue;
+    try {
+      const event = decodeEventLog({ abi: erc20Abi, data: log.data, topics: log.topics as [Hex, ...Hex[]] });
+      if (
+        event.eventName === 'Transfer' &&
+        event.args.from.toLowerCase() === from.toLowerCase() &&
+        event.args.to.toLowerCase() === to.toLowerCase()
+      ) {
+        total += event.args.value;
+      }
+    } catch {
+      // Not a Transfer (e.g. Approval) - ignore
+    }
+  }
+  return total;
+}
+
+function emptyTotals(): TokenFeeTotals {
+  return { accrued: 0n, collected: 0n, onchainCollected: 0n, deposited: 0n, onchainDeposited: 0n, undeposited: 0n };
+}
+
+/**
+ * Prove that logged fees were collected on-chain and that deposits match what was collected.
+ *
+ * @param onchainCollected - Fee transfer found in each ledger row's collect tx, by ledger id
+ * @param onchainDeposits - Tokens moved to staking by each deposit tx, by tx hash then token
+ */
+export function reconcileFees(
+  ledger: FeeLedgerRow[],
+  executions: ExecutionFeeRow[],
+  onchainCollected: Map<string, bigint>,
+  onchainDeposits: Map<string, Map<string, bigint>>
+): FeeReconciliation {
+  const tokens: Record<string, TokenFeeTotals> = {};
+  const issues: string[] = [];
+  const ledgerByTx = new Map(ledger.map(row => [row.collect_tx_hash.toLowerCase(), row]));
+  const depositedByTx = new Map<string, Map<string, bigint>>();
+
+  for (const row of ledger) {
+    const token = row.token.toLowerCase();
+    const totals = (tokens[token] ??= emptyTotals());
+    const accrued = BigInt(row.accrued_amount);
+    const collected = BigInt(row.collected_amount ?? '0');
+    const onchain = onchainCollected.get(row.id);
+
+    totals.accrued += accrued;
+    totals.collected += collected;
+    totals.onchainCollected += onchain ?? 0n;
+
+    if (row.collected_amount === null) {
+      issues.push(`${row.wallet_address} ${row.collect_tx_hash}: fee collection never verified`);
+    } else if (collected !== accrued) {
+      issues.push(`${row.wallet_address} ${row.collect_tx_hash}: collected ${collected} != accrued ${accrued}`);
+    }
+    if (onchain === undefined) {
+      issues.push(`${row.wallet_address} ${row.collect_tx_hash}: receipt unavailable`);
+    } else if (onchain !== collected) {
+      issues.push(`${row.wallet_address} ${row.collect_tx_hash}: on-chain transfer ${onchain} != ledger ${collected}`);
+    }
+
+    if (row.deposit_tx_hash) {
+      const depositTx = row.deposit_tx_hash.toLowerCase();
+      const byToken = depositedByTx.get(depositTx) ?? new Map<string, bigint>();
+      byToken.set(token, (byToken.get(token) ?? 0n) + collected);
+      depositedByTx.set(depositTx, byToken);
+      totals.deposited += collected;
+    } else {
+      totals.undeposited += collected;
+    }
+  }
+
+  for (const [depositTx, byToken] of depositedByTx) {
+    const onchain = onchainDeposits.get(depositTx);
+    for (const [token, expected] of byToken) {
+      const actual = onchain?.get(token);
+      if (actual === undefined) {
+        issues.push(`deposit ${depositTx}: no ${token} transfer to staking found`);
+        continue;
+      }
+      (tokens[token] ??= emptyTotals()).onchainDeposited += actual;
+      if (actual !== expected) {
+        issues.push(`deposit ${depositTx}: staking received ${actual} ${token}, ledger attributes ${expected}`);
+      }
+    }
+  }
+
+  for (const execution of executions) {
+    const fee = BigInt(execution.fee_collected || '0');
+    const row = ledgerByTx.get(execution.tx_hash.toLowerCase());
+    if (!row) {
+      if (fee > 0n) issues.push(`${execution.wallet_address} ${execution.tx_hash}: fee ${fee} logged but missing from fee_ledger`);
+    } else if (BigInt(row.accrued_amount) !== fee) {
+      issues.push(`${execution.wallet_address} ${execution.tx_hash}: logged fee ${fee} != ledger accrued ${row.accrued_amount}`);
+    }
+  }
+
+  return { tokens, issues };
+}
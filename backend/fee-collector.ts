@@ -1,113 +1,253 @@
 // ============ FEE COLLECTION ============
+// Fees move inside the swap itself: the redemption carries a second single-call
+// execution that transfers the fee (taken in the swap's input token) to the backend
+// EOA, so swap and fee succeed or revert together. Each confirmed swap records its
+// fee in fee_ledger; sweepFeesToStaking() deposits the collected balance into EMBER
+// staking and stamps the ledger rows with the deposit tx.
 
 import {
   encodeFunctionData,
   erc20Abi,
   formatUnits,
   type Address,
+  type Hex,
 } from 'viem';
 import { createExecution, ExecutionMode } from '@metamask/smart-accounts-kit';
 import { DelegationManager } from '@metamask/smart-accounts-kit/contracts';
-import { ADDRESSES, emberStakingAbi, type DelegationRecord } from './config';
-import { publicClient, walletClient, backendAccount } from './clients';
-
-async function executeDelegatedFeeTransfer(
-  delegation: DelegationRecord,
-  tokenAddress: Address,
-  amount: bigint
-): Promise<string | null> {
-  if (amount === 0n) return null;
+import { ADDRESSES, DB_RETRY_CONFIG, emberStakingAbi, wethAbi, type SwapApproval } from './config';
+import { withRetry } from './error-handler';
+import { publicClient, walletClient, backendAccount, supabase } from './clients';
+import { sumTokenTransfers, type FeeLedgerRow } from './fee-accounting';
+import { getFeeTransferDelegation, withFearGreedRound, type RedemptionDelegations } from './delegation-scopes';
+import { getPostedFearGreedRound } from './onchain-fear-greed';
+import { findTokenByAddress } from '../shared/tokens';
+
+export interface SwapFee {
+  token: Address;
+  amount: bigint;
+}
 
-  try {
-    const signedDelegation = typeof delegation.delegation_data === 'string'
-      ? JSON.parse(delegation.delegation_data)
-      : delegation.delegation_data;
+export interface FeeCollection {
+  walletAddress: string;
+  userAddress: string;
+  executionKey?: string | null;
+  token: Address;
+  accrued: bigint;
+  txHash: string; // Swap tx that carried the fee transfer
+}
 
-    if (!signedDelegation.signature) {
-      console.error('Delegation missing signature for fee transfer');
-      return null;
-    }
+/**
+ * Fees are collected by the backend EOA, which later deposits them to staking
+ */
+export function getFeeRecipient(): Address {
+  return backendAccount.address;
+}
 
-    const transferCalldata = encodeFunctionData({
-      abi: erc20Abi,
-      functionName: 'transfer',
-      args: [backendAccount.address, amount],
+/**
+ * redeemDelegations calldata for a swap, plus the fee transfer as a second redemption.
+ * The swap is redeemed through `minReceivedDelegation`, the backend's redelegation that
+ * reverts unless the wallet receives at least the quoted output less slippage.
+ * Two SingleDefault redemptions (not one batch) because the allowed-targets/methods
+ * enforcers only accept single-call executions. An ETH sell that needs native ETH
+ * wrapped gets a WETH deposit redemption ahead of the swap, and a swap routed to a
+ * router without an allowance gets its approve() redemption just before the swap.
+ * Each redemption uses the wallet's delegation for that kind of call (see
+ * delegation-scopes.ts); a swap delegation with the FearGreedEnforcer caveat carries
+ * this run's oracle round as its args.
+ */
+export function encodeSwapRedemption(
+  delegations: RedemptionDelegations,
+  swap: { target: Address; value: bigint; callData: Hex },
+  minReceivedDelegation: any,
+  fee?: SwapFee,
+  wrapAmount: bigint = 0n,
+  approval?: SwapApproval
+): Hex {
+  const swapDelegation = withFearGreedRound(delegations.swap, getPostedFearGreedRound());
+  // Each redemption's delegation chain, leaf first
+  const redemptions: { delegations: any[]; execution: ReturnType<typeof createExecution> }[] = [];
+  if (wrapAmount > 0n) {
+    redemptions.push({
+      delegations: [swapDelegation],
+      execution: createExecution({
+        target: ADDRESSES.WETH,
+        value: wrapAmount,
+        callData: encodeFunctionData({ abi: wethAbi, functionName: 'deposit' }),
+      }),
     });
-
-    const execution = createExecution({
-      target: tokenAddress,
-      value: 0n,
-      callData: transferCalldata,
+  }
+  if (approval) {
+    redemptions.push({
+      delegations: [delegations.approve],
+      execution: createExecution({
+        target: approval.token,
+        value: 0n,
+        callData: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'approve',
+          args: [approval.spender, approval.amount],
+        }),
+      }),
     });
-
-    const redeemCalldata = DelegationManager.encode.redeemDelegations({
-      delegations: [[signedDelegation]],
-      modes: [ExecutionMode.SingleDefault],
-      executions: [[execution]],
+  }
+  redemptions.push({ delegations: [minReceivedDelegation, swapDelegation], execution: createExecution(swap) });
+  if (fee && fee.amount > 0n) {
+    redemptions.push({
+      delegations: [getFeeTransferDelegation(delegations, fee, getFeeRecipient())],
+      execution: createExecution({
+        target: fee.token,
+        value: 0n,
+        callData: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [getFeeRecipient(), fee.amount],
+        }),
+      }),
     });
+  }
 
-    console.log(`Transferring fee via delegation: ${formatUnits(amount, tokenAddress === ADDRESSES.USDC ? 6 : 18)} ${tokenAddress === ADDRESSES.USDC ? 'USDC' : 'WETH'}...`);
+  return DelegationManager.encode.redeemDelegations({
+    delegations: redemptions.map(r => r.delegations),
+    modes: redemptions.map(() => ExecutionMode.SingleDefault),
+    executions: redemptions.map(r => [r.execution]),
+  });
+}
 
-    const tx = await walletClient.sendTransaction({
-      to: ADDRESSES.DELEGATION_MANAGER,
-      data: redeemCalldata,
-      gas: 300000n,
-    });
+// ============ LEDGER ============
 
-    const receipt = await publicClient.waitForTransactionReceipt({
-      hash: tx,
-      timeout: 60000,
-    });
+/**
+ * Record a confirmed swap's fee. The collected amount is read back from the swap
+ * receipt, so the ledger reflects what actually moved.
+ */
+export async function recordFeeCollection(entry: FeeCollection): Promise<void> {
+  if (entry.accrued === 0n) return;
 
-    if (receipt.status === 'success') {
-      console.log(`Fee transfer successful: ${tx}`);
-      return tx;
-    } else {
-      console.error('Fee transfer transaction reverted');
-      return null;
-    }
-  } catch (error) {
-    console.error('Fee transfer error:', error);
-    return null;
+  let collected: bigint | null = null;
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash: entry.txHash as Hex });
+    collected = sumTokenTransfers(receipt.logs, entry.token, entry.walletAddress, getFeeRecipient());
+  } catch (error: any) {
+    // Left unverified - the reconciliation report flags it
+    console.error(`[Fees] Could not read fee transfer for ${entry.txHash}: ${error?.message}`);
+  }
+
+  const { error, attempts } = await withRetry(
+    async () => {
+      const { error } = await supabase.from('fee_ledger').upsert({
+        wallet_address: entry.walletAddress.toLowerCase(),
+        user_address: entry.userAddress,
+        execution_key: entry.executionKey ?? null,
+        token: entry.token.toLowerCase(),
+        accrued_amount: entry.accrued.toString(),
+        collected_amount: collected?.toString() ?? null,
+        collect_tx_hash: entry.txHash,
+        created_at: new Date().toISOString(),
+      }, { onConflict: 'collect_tx_hash,token', ignoreDuplicates: true });
+      if (error) throw error;
+    },
+    { ...DB_RETRY_CONFIG, operation: 'recordFeeCollection' }
+  );
+
+  if (error) {
+    console.error(`[Fees] Failed to record fee after ${attempts} attempts:`, error.message);
+    console.error('[Fees] Fee details for manual recovery:', JSON.stringify(entry, (key, value) =>
+      typeof value === 'bigint' ? value.toString() : value
+    ));
   }
 }
 
-export async function collectFee(
-  delegation: DelegationRecord,
-  tokenAddress: Address,
-  amount: bigint
-): Promise<string | null> {
-  if (amount === 0n) return null;
+// ============ SWEEP TO STAKING ============
+
+async function depositToStaking(token: Address, amount: bigint): Promise<Hex> {
+  const approveTx = await walletClient.writeContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: 'approve',
+    args: [ADDRESSES.EMBER_STAKING, amount],
+  });
+  await publicClient.waitForTransactionReceipt({ hash: approveTx });
+
+  const depositTx = await walletClient.writeContract({
+    address: ADDRESSES.EMBER_STAKING,
+    abi: emberStakingAbi,
+    functionName: 'depositRewards',
+    args: [token, amount],
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: depositTx });
+  if (receipt.status !== 'success') {
+    throw new Error(`depositRewards reverted: ${depositTx}`);
+  }
+  return depositTx;
+}
 
-  try {
-    const transferTx = await executeDelegatedFeeTransfer(delegation, tokenAddress, amount);
-    if (!transferTx) {
-      console.error('Fee transfer from smart account failed');
-      return null;
-    }
+/**
+ * Deposit every verified, not-yet-deposited fee to EMBER staking, one deposit per token.
+ * Never deposits more than the ledger attributes; a short balance skips the token.
+ */
+export async function sweepFeesToStaking(): Promise<void> {
+  const { result: rows, error } = await withRetry(
+    async () => {
+      const { data, error } = await supabase
+        .from('fee_ledger')
+        .select('id, wallet_address, token, accrued_amount, collected_amount, collect_tx_hash, deposit_tx_hash')
+        .is('deposit_tx_hash', null)
+        .not('collected_amount', 'is', null);
+      if (error) throw error;
+      return (data || []) as FeeLedgerRow[];
+    },
+    { ...DB_RETRY_CONFIG, operation: 'sweepFeesToStaking' }
+  );
+
+  if (!rows) {
+    console.error('[Fees] Failed to read fee ledger:', error?.message);
+    return;
+  }
 
-    const approveTx = await walletClient.writeContract({
-      address: tokenAddress,
-      abi: erc20Abi,
-      functionName: 'approve',
-      args: [ADDRESSES.EMBER_STAKING, amount],
-    });
+  const byToken = new Map<string, FeeLedgerRow[]>();
+  for (const row of rows) {
+    if (BigInt(row.collected_amount!) === 0n) continue;
+    byToken.set(row.token, [...(byToken.get(row.token) ?? []), row]);
+  }
 
-    await publicClient.waitForTransactionReceipt({ hash: approveTx });
+  for (const [token, tokenRows] of byToken) {
+    const total = tokenRows.reduce((sum: bigint, row: FeeLedgerRow) => sum + BigInt(row.collected_amount!), 0n);
+    const tokenInfo = findTokenByAddress(token);
+    if (!tokenInfo) {
+      console.error(`[Fees] ${token} is not in the token registry - skipping sweep`);
+      continue;
+    }
+    const { decimals } = tokenInfo;
 
-    const depositTx = await walletClient.writeContract({
-      address: ADDRESSES.EMBER_STAKING,
-      abi: emberStakingAbi,
-      functionName: 'depositRewards',
-      args: [tokenAddress, amount],
+    const balance = await publicClient.readContract({
+      address: token as Address,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [getFeeRecipient()],
     });
+    if (balance < total) {
+      console.error(`[Fees] ${token}: backend holds ${formatUnits(balance, decimals)}, ledger expects ${formatUnits(total, decimals)} - skipping sweep`);
+      continue;
+    }
 
-    await publicClient.waitForTransactionReceipt({ hash: depositTx });
-
-    console.log(`Fee collected and deposited to stakers: ${formatUnits(amount, tokenAddress === ADDRESSES.USDC ? 6 : 18)} ${tokenAddress === ADDRESSES.USDC ? 'USDC' : 'ETH'}`);
-    return depositTx;
-  } catch (error) {
-    console.error('Fee collection error:', error);
-    return null;
+    try {
+      const depositTx = await depositToStaking(token as Address, total);
+      console.log(`[Fees] Deposited ${formatUnits(total, decimals)} (${tokenRows.length} fees) of ${token} to staking: ${depositTx}`);
+
+      const { error: updateError } = await withRetry(
+        async () => {
+          const { error } = await supabase
+            .from('fee_ledger')
+            .update({ deposit_tx_hash: depositTx, deposited_at: new Date().toISOString() })
+            .in('id', tokenRows.map((row: FeeLedgerRow) => row.id));
+          if (error) throw error;
+        },
+        { ...DB_RETRY_CONFIG, operation: 'markFeesDeposited' }
+      );
+      if (updateError) {
+        console.error(`[Fees] Deposit ${depositTx} succeeded but ledger update failed - mark rows manually:`, tokenRows.map((row: FeeLedgerRow) => row.id));
+      }
+    } catch (error: any) {
+      console.error(`[Fees] Deposit of ${token} failed: ${error?.message}`);
+    }
   }
 }
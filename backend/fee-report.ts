@@ -0,0 +1,160 @@
+// ============ FEE RECONCILIATION REPORT ============
+// Proves logged fees match what moved on-chain: every dca_executions fee has a
+// fee_ledger row, every ledger row's fee transfer is in its swap receipt, and every
+// depositRewards tx moved exactly what the ledger attributes to it into staking.
+//
+// Usage:
+//   npx tsx backend/fee-report.ts [--from=YYYY-MM-DD] [--to=YYYY-MM-DD]
+//
+// Exits 1 when anything does not reconcile.
+
+import { formatUnits, type Hex } from 'viem';
+import { ADDRESSES, DB_RETRY_CONFIG } from './config';
+import { withRetry } from './error-handler';
+import { publicClient, supabase } from './clients';
+import { getFeeRecipient } from './fee-collector';
+import {
+  reconcileFees,
+  sumTokenTransfers,
+  type ExecutionFeeRow,
+  type FeeLedgerRow,
+  type TokenFeeTotals,
+} from './fee-accounting';
+
+const PAGE_SIZE = 1000;
+
+function getArg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+function getTokenLabel(token: string): { symbol: string; decimals: number } {
+  if (token === ADDRESSES.USDC.toLowerCase()) return { symbol: 'USDC', decimals: 6 };
+  if (token === ADDRESSES.cbBTC.toLowerCase()) return { symbol: 'cbBTC', decimals: 8 };
+  if (token === ADDRESSES.WETH.toLowerCase()) return { symbol: 'WETH', decimals: 18 };
+  return { symbol: token, decimals: 18 };
+}
+
+async function fetchAll<T>(
+  operation: string,
+  query: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { result, error } = await withRetry(
+      async () => {
+        const { data, error } = await query(offset, offset + PAGE_SIZE - 1);
+        if (error) throw new Error(error.message);
+        return (data || []) as T[];
+      },
+      { ...DB_RETRY_CONFIG, operation }
+    );
+    if (!result) {
+      throw new Error(`${operation} failed: ${error?.message}`);
+    }
+    rows.push(...result);
+    if (result.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function getReceiptLogs(hash: string) {
+  const receipt = await publicClient.getTransactionReceipt({ hash: hash as Hex });
+  return receipt.logs;
+}
+
+async function runReport() {
+  const from = getArg('from') ? `${getArg('from')}T00:00:00Z` : '1970-01-01T00:00:00Z';
+  const to = getArg('to')
+    ? new Date(Date.parse(`${getArg('to')}T00:00:00Z`) + 86400_000).toISOString()
+    : new Date().toISOString();
+  const feeRecipient = getFeeRecipient();
+
+  console.log('========================================');
+  console.log('  Fee Reconciliation Report');
+  console.log('========================================');
+  console.log(`Window: ${from} → ${to}`);
+  console.log(`Fee recipient: ${feeRecipient}`);
+  console.log(`Staking: ${ADDRESSES.EMBER_STAKING}`);
+
+  const ledger = await fetchAll<FeeLedgerRow>('fetchFeeLedger', (start, end) =>
+    supabase
+      .from('fee_ledger')
+      .select('id, wallet_address, token, accrued_amount, collected_amount, collect_tx_hash, deposit_tx_hash')
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .order('created_at', { ascending: true })
+      .range(start, end)
+  );
+
+  // Swaps that logged a fee; rebalances are free and carry none
+  const executions = await fetchAll<ExecutionFeeRow>('fetchExecutionFees', (start, end) =>
+    supabase
+      .from('dca_executions')
+      .select('tx_hash, wallet_address, fee_collected')
+      .eq('status', 'success')
+      .in('action', ['buy', 'sell'])
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .order('created_at', { ascending: true })
+      .range(start, end)
+  );
+
+  console.log(`Ledger rows: ${ledger.length} | Successful swaps: ${executions.length}`);
+
+  // Fee transfer in each swap receipt
+  const onchainCollected = new Map<string, bigint>();
+  for (const row of ledger) {
+    try {
+      const logs = await getReceiptLogs(row.collect_tx_hash);
+      onchainCollected.set(row.id, sumTokenTransfers(logs, row.token, row.wallet_address, feeRecipient));
+    } catch (error: any) {
+      console.warn(`[Report] Receipt ${row.collect_tx_hash} unavailable: ${error?.message}`);
+    }
+  }
+
+  // Tokens each deposit moved from the fee recipient into staking
+  const onchainDeposits = new Map<string, Map<string, bigint>>();
+  const depositTxs = new Set(ledger.map(row => row.deposit_tx_hash?.toLowerCase()).filter((tx): tx is string => !!tx));
+  const tokens = new Set(ledger.map(row => row.token.toLowerCase()));
+  for (const depositTx of depositTxs) {
+    try {
+      const logs = await getReceiptLogs(depositTx);
+      const byToken = new Map<string, bigint>();
+      for (const token of tokens) {
+        const amount = sumTokenTransfers(logs, token, feeRecipient, ADDRESSES.EMBER_STAKING);
+        if (amount > 0n) byToken.set(token, amount);
+      }
+      onchainDeposits.set(depositTx, byToken);
+    } catch (error: any) {
+      console.warn(`[Report] Deposit receipt ${depositTx} unavailable: ${error?.message}`);
+    }
+  }
+
+  const report = reconcileFees(ledger, executions, onchainCollected, onchainDeposits);
+
+  console.log('\nPER TOKEN:');
+  console.log('--------------------------------------------------------------------------------');
+  console.log('Token  | Accrued        | Collected      | On-chain       | Deposited      | Pending');
+  console.log('--------------------------------------------------------------------------------');
+  for (const [token, totals] of Object.entries(report.tokens) as [string, TokenFeeTotals][]) {
+    const { symbol, decimals } = getTokenLabel(token);
+    const fmt = (value: bigint) => formatUnits(value, decimals).padStart(14);
+    console.log(`${symbol.padEnd(6)} | ${fmt(totals.accrued)} | ${fmt(totals.collected)} | ${fmt(totals.onchainCollected)} | ${fmt(totals.onchainDeposited)} | ${fmt(totals.undeposited)}`);
+  }
+  console.log('--------------------------------------------------------------------------------');
+
+  if (report.issues.length === 0) {
+    console.log('\n✅ Logged fees, on-chain transfers and staking deposits reconcile');
+    return;
+  }
+
+  console.log(`\n❌ ${report.issues.length} issue(s):`);
+  for (const issue of report.issues) {
+    console.log(`  - ${issue}`);
+  }
+  process.exit(1);
+}
+
+runReport().catch((error) => {
+  console.error('Fee report failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+/**
+ * REVOCATION INDEXER JOB
+ *
+ * Indexes DelegationManager DisabledDelegation / EnabledDelegation events and marks the
+ * affected delegations rows revoked (see revocation-indexer.ts). The DCA executor syncs
+ * before each run; this script runs it on its own, once or polling.
+ *
+ * Usage:
+ *   npx tsx backend/index-revocations.ts [--watch[=seconds]]
+ */
+
+import { syncRevocations } from './revocation-indexer';
+
+const DEFAULT_POLL_SECONDS = 60;
+
+function getPollSeconds(): number | null {
+  const flag = process.argv.find(a => a === '--watch' || a.startsWith('--watch='));
+  if (!flag) return null;
+  const seconds = flag.includes('=') ? Number(flag.split('=')[1]) : DEFAULT_POLL_SECONDS;
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`--watch needs a positive number of seconds, got "${flag.split('=')[1]}"`);
+  }
+  return seconds;
+}
+
+async function main() {
+  const pollSeconds = getPollSeconds();
+  await syncRevocations();
+  if (pollSeconds === null) return;
+
+  console.log(`Watching for revocations every ${pollSeconds}s (Ctrl+C to stop)`);
+  while (true) {
+    await new Promise(resolve => setTimeout(resolve, pollSeconds * 1000));
+    try {
+      await syncRevocations();
+    } catch (error: any) {
+      // Keep watching - the cursor only advances past indexed ranges
+      console.error('Revocation sync failed:', error?.message);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error('Revocation indexing failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
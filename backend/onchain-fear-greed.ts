@@ -0,0 +1,79 @@
+// ============ ON-CHAIN FEAR & GREED ============
+// Posts the reading each run decided on to the FearGreedOracle, signed by the backend
+// EOA (the oracle's signer). Swap delegations with the FearGreedEnforcer caveat are
+// redeemed with that round as caveat args (fee-collector.ts), and the enforcer reverts
+// any swap whose direction or size the round's band does not allow.
+
+import { type Hex } from 'viem';
+import { CHAIN_ID, FG_ORACLE_ADDRESS } from './config';
+import { backendAccount, publicClient, walletClient } from './clients';
+import {
+  FG_ORACLE_DOMAIN,
+  FG_ORACLE_REUSE_SECONDS,
+  FG_READING_TYPES,
+  fearGreedOracleAbi,
+} from '../shared/fear-greed-enforcer';
+
+// Round this process posted (or reused) for the current run
+let postedRound: bigint | null = null;
+
+/**
+ * The oracle round swaps are redeemed with, or null if none was posted
+ */
+export function getPostedFearGreedRound(): bigint | null {
+  return postedRound;
+}
+
+/**
+ * Post `value` as the oracle's next round, or reuse the latest round if it already has
+ * this value and is recent. Returns null when no oracle is configured. Throws if the
+ * post fails, so a run never redeems enforcer-checked swaps against an older round.
+ */
+export async function publishFearGreedReading(value: number): Promise<bigint | null> {
+  if (!FG_ORACLE_ADDRESS) return null;
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const latestRound = await publicClient.readContract({
+    address: FG_ORACLE_ADDRESS,
+    abi: fearGreedOracleAbi,
+    functionName: 'latestRound',
+  });
+
+  if (latestRound > 0n) {
+    const reading = await publicClient.readContract({
+      address: FG_ORACLE_ADDRESS,
+      abi: fearGreedOracleAbi,
+      functionName: 'getReading',
+      args: [latestRound],
+    });
+    if (reading.value === value && now - reading.timestamp < BigInt(FG_ORACLE_REUSE_SECONDS)) {
+      console.log(`[FG Oracle] Reusing round ${latestRound} (F&G ${value})`);
+      postedRound = latestRound;
+      return postedRound;
+    }
+  }
+
+  const round = latestRound + 1n;
+  const signature: Hex = await walletClient.signTypedData({
+    account: backendAccount,
+    domain: { ...FG_ORACLE_DOMAIN, chainId: CHAIN_ID, verifyingContract: FG_ORACLE_ADDRESS },
+    types: FG_READING_TYPES,
+    primaryType: 'FearGreedReading',
+    message: { round, value, timestamp: now },
+  });
+
+  const hash = await walletClient.writeContract({
+    address: FG_ORACLE_ADDRESS,
+    abi: fearGreedOracleAbi,
+    functionName: 'post',
+    args: [value, now, signature],
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`FearGreedOracle post reverted: ${hash}`);
+  }
+
+  console.log(`[FG Oracle] Posted round ${round} (F&G ${value}): ${hash}`);
+  postedRound = round;
+  return postedRound;
+}
@@ -0,0 +1,98 @@
+// ============ ON-CHAIN SENTIMENT PROVIDER ============
+// Reads the inputs for sentiment-index.ts from Base and exposes the score as a
+// Fear & Greed provider, used when every external F&G API is unavailable.
+
+import { erc20Abi, formatUnits, parseUnits } from 'viem';
+import { ADDRESSES, aavePoolAbi, quoterV2Abi } from './config';
+import { publicClient } from './clients';
+import {
+  calculateSentimentIndex,
+  FLOW_DAYS,
+  LONG_VOL_DAYS,
+  type SentimentInputs,
+} from './sentiment-index';
+import type { FearGreedProvider } from './fear-greed-oracle';
+import { getFearGreedClassification } from '../shared/strategies';
+
+// Base produces a block every 2 seconds
+const BLOCKS_PER_DAY = 43200n;
+
+// WETH/USDC 0.05% pool - the deepest ETH pool on Base
+const ETH_USDC_FEE_TIER = 500;
+
+// Aave rates are in ray (1e27)
+const RAY = 10n ** 27n;
+
+/**
+ * Block numbers one day apart, oldest first, ending at the latest block
+ */
+function getDailyBlocks(latest: bigint, days: number): bigint[] {
+  return Array.from({ length: days + 1 }, (_, i) => latest - BigInt(days - i) * BLOCKS_PER_DAY);
+}
+
+async function getEthPriceAtBlock(blockNumber: bigint): Promise<number> {
+  const { result } = await publicClient.simulateContract({
+    address: ADDRESSES.UNISWAP_QUOTER_V2,
+    abi: quoterV2Abi,
+    functionName: 'quoteExactInputSingle',
+    args: [{
+      tokenIn: ADDRESSES.WETH,
+      tokenOut: ADDRESSES.USDC,
+      amountIn: parseUnits('1', 18),
+      fee: ETH_USDC_FEE_TIER,
+      sqrtPriceLimitX96: 0n,
+    }],
+    blockNumber,
+  });
+  return Number(formatUnits(result[0], 6));
+}
+
+async function getUsdcSupplyAtBlock(blockNumber: bigint): Promise<number> {
+  const supply = await publicClient.readContract({
+    address: ADDRESSES.USDC,
+    abi: erc20Abi,
+    functionName: 'totalSupply',
+    blockNumber,
+  });
+  return Number(formatUnits(supply, 6));
+}
+
+async function getUsdcBorrowApr(): Promise<number> {
+  const reserve = await publicClient.readContract({
+    address: ADDRESSES.AAVE_POOL,
+    abi: aavePoolAbi,
+    functionName: 'getReserveData',
+    args: [ADDRESSES.USDC],
+  });
+  // Keep 6 decimals of the ray-denominated rate
+  return Number((reserve.currentVariableBorrowRate * 1_000_000n) / RAY) / 1_000_000;
+}
+
+/**
+ * Read every sentiment input from Base (needs an archive-capable RPC for the daily history)
+ */
+export async function readSentimentInputs(): Promise<SentimentInputs> {
+  const latest = await publicClient.getBlockNumber();
+
+  const [ethPrices, usdcSupply, usdcBorrowApr] = await Promise.all([
+    Promise.all(getDailyBlocks(latest, LONG_VOL_DAYS).map(getEthPriceAtBlock)),
+    Promise.all(getDailyBlocks(latest, FLOW_DAYS).map(getUsdcSupplyAtBlock)),
+    getUsdcBorrowApr(),
+  ]);
+
+  return { ethPrices, usdcSupply, usdcBorrowApr };
+}
+
+export const onchainSentimentProvider: FearGreedProvider = {
+  name: 'onchain',
+  async fetch() {
+    const { score, components } = calculateSentimentIndex(await readSentimentInputs());
+    console.log(`[Oracle] onchain components: ${JSON.stringify(components, (_, v) => typeof v === 'number' ? Math.round(v) : v)}`);
+    return {
+      source: 'onchain',
+      value: score,
+      classification: getFearGreedClassification(score),
+      timestamp: Math.floor(Date.now() / 1000),
+    };
+  },
+};
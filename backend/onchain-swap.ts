@@ -0,0 +1,159 @@
+// ============ ON-CHAIN SWAP BUILDER ============
+// Quotes a swap on the Uniswap V3 pools through QuoterV2 and builds its calldata locally,
+// for SwapRouter02 or the Universal Router - no Trading API involved. The client is a
+// parameter (no clients.ts import) so tests can run it against an anvil fork of Base.
+
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  encodePacked,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type Transport,
+} from 'viem';
+import { base } from 'viem/chains';
+import {
+  ADDRESSES,
+  calculateMinAmountOut,
+  quoterV2Abi,
+  swapRouter02Abi,
+  universalRouterAbi,
+} from './config';
+
+// Any public client on Base - clients.ts's or one on a fork
+type BaseClient = PublicClient<Transport, typeof base>;
+
+// V3 pools tried for a pair (0.01%, 0.05%, 0.3%)
+export const V3_FEE_TIERS = [100, 500, 3000] as const;
+
+// Universal Router command: exact-input swap through V3 pools, paid via Permit2
+const V3_SWAP_EXACT_IN = '0x00';
+
+// How long a locally built Universal Router swap stays executable
+const UNIVERSAL_ROUTER_DEADLINE_SECONDS = 600;
+
+export type OnchainRouter = 'swap-router-02' | 'universal-router';
+
+export interface V3PoolQuote {
+  fee: number;
+  amountOut: bigint;
+  gasEstimate: bigint;
+}
+
+export interface OnchainSwapParams {
+  tokenIn: Address;
+  tokenOut: Address;
+  fee: number;
+  recipient: Address;
+  amountIn: bigint;
+  amountOutMinimum: bigint;
+}
+
+export interface OnchainSwap {
+  pool: V3PoolQuote;
+  minAmountOut: bigint;
+  swap: { to: Address; data: Hex; value: string };
+}
+
+/**
+ * Best V3 pool for the pair by QuoterV2 output, or null if no pool can fill the amount
+ */
+export async function quoteV3Pools(
+  client: BaseClient,
+  tokenIn: Address,
+  tokenOut: Address,
+  amountIn: bigint
+): Promise<V3PoolQuote | null> {
+  // Pools that don't exist (or can't fill the amount) revert - skip them
+  const tiers = await Promise.all(V3_FEE_TIERS.map(async (fee) => {
+    try {
+      const { result } = await client.simulateContract({
+        address: ADDRESSES.UNISWAP_QUOTER_V2,
+        abi: quoterV2Abi,
+        functionName: 'quoteExactInputSingle',
+        args: [{ tokenIn, tokenOut, amountIn, fee, sqrtPriceLimitX96: 0n }],
+      });
+      return { fee, amountOut: result[0], gasEstimate: result[3] };
+    } catch {
+      return null;
+    }
+  }));
+
+  let best: V3PoolQuote | null = null;
+  for (const tier of tiers) {
+    if (tier && tier.amountOut > 0n && (!best || tier.amountOut > best.amountOut)) {
+      best = tier;
+    }
+  }
+  return best;
+}
+
+// SwapRouter02 exactInputSingle - pulls tokenIn with a plain ERC20 allowance
+export function encodeSwapRouter02ExactInput(params: OnchainSwapParams): Hex {
+  return encodeFunctionData({
+    abi: swapRouter02Abi,
+    functionName: 'exactInputSingle',
+    args: [{ ...params, sqrtPriceLimitX96: 0n }],
+  });
+}
+
+// Universal Router execute(V3_SWAP_EXACT_IN) - pulls tokenIn through Permit2 (payerIsUser)
+export function encodeUniversalRouterV3ExactIn(params: OnchainSwapParams, deadline: bigint): Hex {
+  const path = encodePacked(['address', 'uint24', 'address'], [params.tokenIn, params.fee, params.tokenOut]);
+  const input = encodeAbiParameters(
+    [
+      { name: 'recipient', type: 'address' },
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'amountOutMin', type: 'uint256' },
+      { name: 'path', type: 'bytes' },
+      { name: 'payerIsUser', type: 'bool' },
+    ],
+    [params.recipient, params.amountIn, params.amountOutMinimum, path, true]
+  );
+  return encodeFunctionData({
+    abi: universalRouterAbi,
+    functionName: 'execute',
+    args: [V3_SWAP_EXACT_IN, [input], deadline],
+  });
+}
+
+/**
+ * Quote the swap on QuoterV2 and build it for `router`, with minOut from
+ * calculateMinAmountOut. The swapper receives the output.
+ */
+export async function buildOnchainSwap(
+  client: BaseClient,
+  request: { swapper: Address; tokenIn: Address; tokenOut: Address; amount: bigint; slippageBps: number },
+  router: OnchainRouter
+): Promise<OnchainSwap> {
+  const pool = await quoteV3Pools(client, request.tokenIn, request.tokenOut, request.amount);
+  if (!pool) {
+    throw new Error('QuoterV2 found no V3 pool for this pair');
+  }
+
+  const minAmountOut = calculateMinAmountOut(pool.amountOut, request.slippageBps);
+  const params: OnchainSwapParams = {
+    tokenIn: request.tokenIn,
+    tokenOut: request.tokenOut,
+    fee: pool.fee,
+    recipient: request.swapper,
+    amountIn: request.amount,
+    amountOutMinimum: minAmountOut,
+  };
+
+  if (router === 'swap-router-02') {
+    return {
+      pool,
+      minAmountOut,
+      swap: { to: ADDRESSES.UNISWAP_SWAP_ROUTER_02, data: encodeSwapRouter02ExactInput(params), value: '0' },
+    };
+  }
+
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + UNIVERSAL_ROUTER_DEADLINE_SECONDS);
+  return {
+    pool,
+    minAmountOut,
+    swap: { to: ADDRESSES.UNISWAP_ROUTER, data: encodeUniversalRouterV3ExactIn(params, deadline), value: '0' },
+  };
+}
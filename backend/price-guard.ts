@@ -0,0 +1,68 @@
+// ============ PRICE GUARD ============
+// Checks the price a quote implies against independent references - the asset's
+// Chainlink feed and USDC pool TWAP, read by the shared price service (shared/prices.ts) -
+// before the swap goes ahead. No clients.ts import, so the checks can be tested offline.
+
+import { formatUnits } from 'viem';
+import type { PriceReading } from '../shared/prices';
+
+const USDC_DECIMALS = 6;
+
+export type PriceReference = Pick<PriceReading, 'source' | 'priceUsd'>;
+
+export interface PriceGuardCheck {
+  passed: boolean;
+  impliedPriceUsd: number;
+  deviations: (PriceReference & { deviationBps: number })[];
+  reason: string | null;
+}
+
+// Thrown by getSwapQuote when the guard refuses every venue's quote: the swap must not be sent
+export class PriceGuardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PriceGuardError';
+  }
+}
+
+// ============ CHECKS ============
+
+/**
+ * USD price of the asset implied by a swap against USDC (USDC per asset, on either side)
+ */
+export function getImpliedPriceUsd(isBuy: boolean, amountIn: bigint, amountOut: bigint, assetDecimals: number): number {
+  const usdc = Number(formatUnits(isBuy ? amountIn : amountOut, USDC_DECIMALS));
+  const asset = Number(formatUnits(isBuy ? amountOut : amountIn, assetDecimals));
+  return asset > 0 ? usdc / asset : 0;
+}
+
+export function getDeviationBps(priceUsd: number, referenceUsd: number): number {
+  return Math.round((Math.abs(priceUsd - referenceUsd) / referenceUsd) * 10000);
+}
+
+/**
+ * Passes if the implied price is within maxDeviationBps of every reference. Fails closed:
+ * without a single usable reference the quote is refused.
+ */
+export function checkPriceDeviation(
+  impliedPriceUsd: number,
+  references: PriceReference[],
+  maxDeviationBps: number
+): PriceGuardCheck {
+  const deviations = references.map(r => ({ ...r, deviationBps: getDeviationBps(impliedPriceUsd, r.priceUsd) }));
+  const fail = (reason: string): PriceGuardCheck => ({ passed: false, impliedPriceUsd, deviations, reason });
+
+  if (!(impliedPriceUsd > 0)) {
+    return fail('quote implies no price');
+  }
+  if (deviations.length === 0) {
+    return fail('no reference price available');
+  }
+  const exceeded = deviations.filter(d => d.deviationBps > maxDeviationBps);
+  if (exceeded.length > 0) {
+    return fail(exceeded
+      .map(d => `$${impliedPriceUsd.toFixed(2)} is ${d.deviationBps} bps from ${d.source} $${d.priceUsd.toFixed(2)}`)
+      .join(', ') + ` (max ${maxDeviationBps} bps)`);
+  }
+  return { passed: true, impliedPriceUsd, deviations, reason: null };
+}
@@ -0,0 +1,327 @@
+// ============ QUOTE PROVIDERS ============
+// Every swap is quoted by each venue the wallet's delegation can reach and routed to
+// the one that delivers the most output after gas: the Uniswap Trading API (Universal
+// Router), a direct Uniswap V3 pool (QuoterV2 quote, SwapRouter02 calldata built here)
+// and the Odos aggregator. Each provider's calldata may only call its own routers
+// (quote-selection.ts). When the Trading API is down or rate limited, the same V3 pools
+// are quoted on-chain and the Universal Router calldata built locally instead.
+
+import { erc20Abi, maxUint256, type Address } from 'viem';
+import {
+  ADDRESSES,
+  CHAIN_ID,
+  MAX_QUOTES_PER_CYCLE,
+  ODOS_API,
+  ODOS_ROUTERS,
+  TRADING_API,
+  type SwapApproval,
+  type SwapVenue,
+} from './config';
+import { type ClassifiedError, withRetry } from './error-handler';
+import { publicClient } from './clients';
+import { buildOnchainSwap } from './onchain-swap';
+import { getAllowedMethods, getAllowedTargets } from './delegation-validator';
+import { getEligibleVenues, validateVenueSwap, type ProviderQuote } from './quote-selection';
+
+// Gas assumed when a provider gives no estimate, and added for an approval sent with the swap
+const DEFAULT_SWAP_GAS = 250000n;
+const APPROVAL_GAS = 50000n;
+
+// ============ TYPES ============
+
+export interface QuoteRequest {
+  swapper: Address; // Smart account that sends tokenIn and receives tokenOut
+  tokenIn: Address;
+  tokenOut: Address;
+  amount: bigint; // Exact input
+  slippageBps: number;
+}
+
+export interface QuoteProvider {
+  venue: SwapVenue;
+  spender: Address | null; // Pulls tokenIn with a plain ERC20 allowance; null = through Permit2 (Phase 1)
+  isEnabled?: () => boolean;
+  fallbackFor?: SwapVenue; // Only quoted when this (eligible) venue returns no quote
+  cooldownMs?: number; // Skipped this long after it fails as unavailable (network, timeout, rate limit, 5xx)
+  getQuote: (request: QuoteRequest) => Promise<Omit<ProviderQuote, 'approval'>>;
+}
+
+export interface QuoteOutcome {
+  venue: SwapVenue;
+  quote: ProviderQuote | null;
+  error: string | null;
+  attempts: number;
+}
+
+// ============ PROVIDERS ============
+
+let _quoteCounter = 0;
+
+export const uniswapApiProvider: QuoteProvider = {
+  venue: 'uniswap-api',
+  spender: null,
+  isEnabled: () => !!process.env.UNISWAP_API_KEY,
+  cooldownMs: 120000,
+  async getQuote({ swapper, tokenIn, tokenOut, amount, slippageBps }) {
+    _quoteCounter++;
+    if (_quoteCounter > MAX_QUOTES_PER_CYCLE) {
+      throw new Error(`Quote API rate limit exceeded: ${_quoteCounter}/${MAX_QUOTES_PER_CYCLE} quotes requested this cycle`);
+    }
+
+    const slippageTolerance = slippageBps / 100;
+
+    console.log(`[Quote API] Calling ${TRADING_API}/quote with ${slippageTolerance}% slippage...`);
+    const quoteRes = await fetch(`${TRADING_API}/quote`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.UNISWAP_API_KEY!,
+      },
+      body: JSON.stringify({
+        swapper,
+        tokenIn,
+        tokenOut,
+        tokenInChainId: CHAIN_ID,
+        tokenOutChainId: CHAIN_ID,
+        amount: amount.toString(),
+        type: 'EXACT_INPUT',
+        slippageTolerance,
+      }),
+    });
+
+    if (!quoteRes.ok) {
+      const error = await quoteRes.json().catch(() => ({ error: 'Unknown error' }));
+      const errorMsg = error.errorCode || error.error || error.message || `HTTP ${quoteRes.status}`;
+      console.error(`[Quote API] FAILED: HTTP ${quoteRes.status} - ${errorMsg}`);
+      console.error(`[Quote API] Full error response:`, JSON.stringify(error, null, 2));
+      throw new Error(`Quote API failed (HTTP ${quoteRes.status}): ${errorMsg}`);
+    }
+
+    const quoteData = await quoteRes.json();
+    const quoteTimestamp = Date.now();
+    console.log(`[Quote API] Quote received successfully at ${quoteTimestamp}`);
+
+    const { permitData, permitTransaction, ...cleanQuote } = quoteData;
+    console.log(`[Quote API] Calling ${TRADING_API}/swap...`);
+    const swapRes = await fetch(`${TRADING_API}/swap`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.UNISWAP_API_KEY!,
+      },
+      body: JSON.stringify(cleanQuote),
+    });
+
+    if (!swapRes.ok) {
+      const error = await swapRes.json().catch(() => ({ error: 'Unknown error' }));
+      const errorMsg = error.errorCode || error.error || error.message || `HTTP ${swapRes.status}`;
+      console.error(`[Quote API] Swap endpoint FAILED: HTTP ${swapRes.status} - ${errorMsg}`);
+      console.error(`[Quote API] Full error response:`, JSON.stringify(error, null, 2));
+      throw new Error(`Swap API failed (HTTP ${swapRes.status}): ${errorMsg}`);
+    }
+
+    const swapData = await swapRes.json();
+    console.log(`[Quote API] Swap data received successfully`);
+
+    return {
+      venue: 'uniswap-api',
+      amountOut: BigInt(quoteData.quote?.output?.amount || '0'),
+      gasEstimate: quoteData.quote?.gasUseEstimate ? BigInt(quoteData.quote.gasUseEstimate) : DEFAULT_SWAP_GAS,
+      swap: swapData.swap,
+      quote: quoteData,
+      timestamp: quoteTimestamp,
+    };
+  },
+};
+
+export const uniswapV3Provider: QuoteProvider = {
+  venue: 'uniswap-v3',
+  spender: ADDRESSES.UNISWAP_SWAP_ROUTER_02,
+  async getQuote(request) {
+    const { pool, swap } = await buildOnchainSwap(publicClient, request, 'swap-router-02');
+    console.log(`[QuoterV2] ${pool.fee / 10000}% pool: ${pool.amountOut.toString()} out`);
+    return {
+      venue: 'uniswap-v3',
+      amountOut: pool.amountOut,
+      gasEstimate: pool.gasEstimate,
+      swap,
+      quote: { fee: pool.fee },
+      timestamp: Date.now(),
+    };
+  },
+};
+
+// Trading API outage fallback: the V3 pools quoted on-chain, sent through the Universal
+// Router (Permit2 payment, as approved in Phase 1) - reachable by every delegation
+export const uniswapOnchainProvider: QuoteProvider = {
+  venue: 'uniswap-onchain',
+  spender: null,
+  fallbackFor: 'uniswap-api',
+  async getQuote(request) {
+    const { pool, minAmountOut, swap } = await buildOnchainSwap(publicClient, request, 'universal-router');
+    console.log(`[QuoterV2] Trading API fallback, ${pool.fee / 10000}% pool: ${pool.amountOut.toString()} out (min ${minAmountOut.toString()})`);
+    return {
+      venue: 'uniswap-onchain',
+      amountOut: pool.amountOut,
+      gasEstimate: pool.gasEstimate,
+      swap,
+      quote: { fee: pool.fee, minAmountOut: minAmountOut.toString() },
+      timestamp: Date.now(),
+    };
+  },
+};
+
+export const odosProvider: QuoteProvider = {
+  venue: 'odos',
+  spender: ODOS_ROUTERS[0],
+  async getQuote({ swapper, tokenIn, tokenOut, amount, slippageBps }) {
+    const quoteRes = await fetch(`${ODOS_API}/sor/quote/v2`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chainId: CHAIN_ID,
+        inputTokens: [{ tokenAddress: tokenIn, amount: amount.toString() }],
+        outputTokens: [{ tokenAddress: tokenOut, proportion: 1 }],
+        userAddr: swapper,
+        slippageLimitPercent: slippageBps / 100,
+        compact: true,
+      }),
+    });
+    if (!quoteRes.ok) {
+      throw new Error(`Odos quote failed: HTTP ${quoteRes.status}`);
+    }
+    const quoteData = await quoteRes.json();
+    if (!quoteData.pathId) {
+      throw new Error('Odos quote returned no path');
+    }
+
+    const assembleRes = await fetch(`${ODOS_API}/sor/assemble`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userAddr: swapper, pathId: quoteData.pathId, simulate: false }),
+    });
+    if (!assembleRes.ok) {
+      throw new Error(`Odos assemble failed: HTTP ${assembleRes.status}`);
+    }
+    const assembled = await assembleRes.json();
+
+    return {
+      venue: 'odos',
+      amountOut: BigInt(assembled.outputTokens?.[0]?.amount ?? quoteData.outAmounts?.[0] ?? '0'),
+      gasEstimate: quoteData.gasEstimate ? BigInt(Math.ceil(quoteData.gasEstimate)) : DEFAULT_SWAP_GAS,
+      swap: {
+        to: assembled.transaction?.to,
+        data: assembled.transaction?.data,
+        value: String(assembled.transaction?.value ?? '0'),
+      },
+      quote: quoteData,
+      timestamp: Date.now(),
+    };
+  },
+};
+
+export const DEFAULT_QUOTE_PROVIDERS: QuoteProvider[] = [
+  uniswapApiProvider,
+  uniswapV3Provider,
+  odosProvider,
+  uniswapOnchainProvider,
+];
+
+// ============ VENUE ELIGIBILITY ============
+
+/**
+ * Venues this delegation's AllowedTargets / AllowedMethods caveats let swaps go through
+ */
+export function getDelegationVenues(delegationData: any): SwapVenue[] {
+  return getEligibleVenues(getAllowedTargets(delegationData), getAllowedMethods(delegationData));
+}
+
+// ============ COLLECTION ============
+
+/**
+ * ERC20 approval the swap needs first, if the venue's router pulls tokenIn directly and
+ * the current allowance doesn't cover it. Approves the maximum, like Phase 1 does for
+ * Permit2, so each router is approved once per token.
+ */
+async function getRequiredApproval(provider: QuoteProvider, request: QuoteRequest): Promise<SwapApproval | undefined> {
+  if (!provider.spender) return undefined;
+  const allowance = await publicClient.readContract({
+    address: request.tokenIn,
+    abi: erc20Abi,
+    functionName: 'allowance',
+    args: [request.swapper, provider.spender],
+  });
+  return allowance < request.amount
+    ? { token: request.tokenIn, spender: provider.spender, amount: maxUint256 }
+    : undefined;
+}
+
+// Venue → time it may be quoted again, after failing as unavailable
+const _unavailableUntil = new Map<SwapVenue, number>();
+
+function isUnavailable(error: ClassifiedError | null): boolean {
+  return !!error && (
+    error.type === 'network' || error.type === 'timeout' || error.type === 'rate_limit' ||
+    /\(HTTP 5\d\d\)/.test(error.message)
+  );
+}
+
+function isCoolingDown(provider: QuoteProvider): boolean {
+  return (_unavailableUntil.get(provider.venue) ?? 0) > Date.now();
+}
+
+async function quoteProvider(provider: QuoteProvider, request: QuoteRequest): Promise<QuoteOutcome> {
+  const { result, error, attempts } = await withRetry(
+    async () => {
+      const quote = await provider.getQuote(request);
+      validateVenueSwap(provider.venue, quote.swap, [request.tokenIn, request.tokenOut]);
+      const approval = await getRequiredApproval(provider, request);
+      return approval
+        ? { ...quote, approval, gasEstimate: quote.gasEstimate + APPROVAL_GAS }
+        : quote;
+    },
+    { operation: `getSwapQuote:${provider.venue}` }
+  );
+
+  if (!result) {
+    console.warn(`[Quote] ${provider.venue} failed after ${attempts} attempts: ${error?.message}`);
+    if (provider.cooldownMs && isUnavailable(error)) {
+      console.warn(`[Quote] ${provider.venue} unavailable - skipping it for ${provider.cooldownMs / 1000}s`);
+      _unavailableUntil.set(provider.venue, Date.now() + provider.cooldownMs);
+    }
+    return { venue: provider.venue, quote: null, error: error?.message ?? 'Unknown error', attempts };
+  }
+  if (result.amountOut === 0n) {
+    return { venue: provider.venue, quote: null, error: 'Quote returned zero output amount', attempts };
+  }
+  return { venue: provider.venue, quote: result, error: null, attempts };
+}
+
+/**
+ * Quote the swap on every enabled provider among `venues`, keeping only quotes whose
+ * calldata passes that provider's whitelist. A fallback provider is quoted when the
+ * venue it stands in for is eligible but gave no quote (failed, disabled or cooling down).
+ */
+export async function collectQuotes(
+  request: QuoteRequest,
+  venues: readonly SwapVenue[],
+  providers: QuoteProvider[] = DEFAULT_QUOTE_PROVIDERS
+): Promise<QuoteOutcome[]> {
+  const eligible = providers.filter(p => venues.includes(p.venue));
+  const isEnabled = (p: QuoteProvider) => (!p.isEnabled || p.isEnabled()) && !isCoolingDown(p);
+
+  const outcomes = await Promise.all(
+    eligible.filter(p => !p.fallbackFor && isEnabled(p)).map(p => quoteProvider(p, request))
+  );
+
+  const fallbacks = eligible.filter(p =>
+    p.fallbackFor && venues.includes(p.fallbackFor) && isEnabled(p) &&
+    !outcomes.some((o: QuoteOutcome) => o.venue === p.fallbackFor && o.quote)
+  );
+  for (const fallback of fallbacks) {
+    console.warn(`[Quote] No ${fallback.fallbackFor} quote - falling back to ${fallback.venue}`);
+    outcomes.push(await quoteProvider(fallback, request));
+  }
+
+  return outcomes;
+}
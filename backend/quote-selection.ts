@@ -0,0 +1,119 @@
+// ============ QUOTE SELECTION ============
+// Which venues a delegation can reach, whitelist checks on each venue's calldata and
+// picking the quote with the most output after gas. Pure - fetching quotes lives in
+// quote-providers.ts.
+
+import { formatEther, parseUnits, toFunctionSelector, type Address, type Hex } from 'viem';
+import {
+  ODOS_ROUTERS,
+  UNISWAP_ROUTERS,
+  UNISWAP_V3_ROUTERS,
+  validateSwapQuote,
+  type SwapApproval,
+  type SwapVenue,
+} from './config';
+
+export interface ProviderQuote {
+  venue: SwapVenue;
+  amountOut: bigint;
+  gasEstimate: bigint; // Gas units of the swap call (plus its approval, if any)
+  swap: { to: Address; data: Hex; value: string };
+  quote: any; // Raw provider response
+  timestamp: number;
+  approval?: SwapApproval;
+}
+
+// Converts gas units into tokenOut so quotes of different venues compare net of gas
+export interface GasPricing {
+  gasPriceWei: bigint;
+  ethPriceUsd: number;
+  outPriceUsd: number; // USD price of tokenOut
+  outDecimals: number;
+}
+
+// Routers each venue's calldata may call (its own whitelist) and the swap methods it uses
+export const VENUE_ROUTES: Record<SwapVenue, { routers: readonly string[]; selectors: readonly Hex[] }> = {
+  'uniswap-api': {
+    routers: UNISWAP_ROUTERS,
+    selectors: [toFunctionSelector('execute(bytes,bytes[],uint256)')],
+  },
+  'uniswap-v3': {
+    routers: UNISWAP_V3_ROUTERS,
+    selectors: [toFunctionSelector('exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))')],
+  },
+  odos: {
+    routers: ODOS_ROUTERS,
+    selectors: [toFunctionSelector('swapCompact()')],
+  },
+  // Trading API fallback: Universal Router calldata built locally (onchain-swap.ts)
+  'uniswap-onchain': {
+    routers: UNISWAP_ROUTERS,
+    selectors: [toFunctionSelector('execute(bytes,bytes[],uint256)')],
+  },
+};
+
+export const SWAP_VENUES = Object.keys(VENUE_ROUTES) as SwapVenue[];
+
+// ============ ELIGIBILITY & VALIDATION ============
+
+/**
+ * Venues a delegation can redeem swaps through, given its decoded AllowedTargets and
+ * AllowedMethods (null = no such caveat): one of the venue's routers must be an allowed
+ * target and its swap method an allowed method. Delegations signed before the V3 and
+ * Odos routers joined the registry only reach the Universal Router venues.
+ */
+export function getEligibleVenues(targets: string[] | null, methods: string[] | null): SwapVenue[] {
+  const allowedTargets = targets?.map(t => t.toLowerCase()) ?? null;
+  const allowedMethods = methods?.map(m => m.toLowerCase()) ?? null;
+  return SWAP_VENUES.filter(venue => {
+    const { routers, selectors } = VENUE_ROUTES[venue];
+    return (!allowedTargets || routers.some(r => allowedTargets.includes(r.toLowerCase())))
+      && (!allowedMethods || selectors.some(s => allowedMethods.includes(s.toLowerCase())));
+  });
+}
+
+/**
+ * Rejects a venue's swap unless it calls one of that venue's own routers (which the
+ * registry must allow for both tokens) with one of its swap methods
+ */
+export function validateVenueSwap(venue: SwapVenue, swap: { to: string; data?: string }, tokens: Address[]): void {
+  const { routers, selectors } = VENUE_ROUTES[venue];
+  validateSwapQuote({ swap }, tokens, routers);
+  const selector = swap.data?.slice(0, 10).toLowerCase();
+  if (!selectors.some(s => s.toLowerCase() === selector)) {
+    throw new Error(`Swap rejected: ${venue} calldata uses unexpected method ${selector}`);
+  }
+}
+
+// ============ SELECTION ============
+
+/**
+ * Gas cost of a quote in tokenOut units (0 without usable prices)
+ */
+export function getGasCostInTokenOut(gasEstimate: bigint, pricing: GasPricing): bigint {
+  if (!(pricing.outPriceUsd > 0) || !(pricing.ethPriceUsd > 0)) return 0n;
+  const gasCostUsd = Number(formatEther(gasEstimate * pricing.gasPriceWei)) * pricing.ethPriceUsd;
+  return parseUnits((gasCostUsd / pricing.outPriceUsd).toFixed(pricing.outDecimals), pricing.outDecimals);
+}
+
+export function getNetAmountOut(quote: ProviderQuote, pricing: GasPricing): bigint {
+  return quote.amountOut - getGasCostInTokenOut(quote.gasEstimate, pricing);
+}
+
+/**
+ * Quote with the most output after gas, or null if none quoted anything.
+ * Ties go to the earlier quote (provider order).
+ */
+export function selectBestQuote(quotes: ProviderQuote[], pricing: GasPricing): ProviderQuote | null {
+  let best: ProviderQuote | null = null;
+  let bestNet = 0n;
+  for (const quote of quotes) {
+    if (quote.amountOut === 0n) continue;
+    const net = getNetAmountOut(quote, pricing);
+    if (best === null || net > bestNet) {
+      best = quote;
+      bestNet = net;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,153 @@
+// ============ REBALANCE PLANNER ============
+// Detects over-execution in dca_executions and turns the excess into a reviewable
+// rebalance plan. Pure - querying and executing live in rebalance.ts.
+//
+// Every strategy runs once per schedule slot, so a wallet may have at most
+// MAX_SWAPS_PER_SLOT successful buy/sell executions per slot. Anything beyond the first
+// is excess (e.g. the Feb 14 2026 duplicate-cron incident). The slot is the one in the
+// row's execution key - interval schedules run up to 24 a day - or, for rows written
+// before execution keys, the UTC day. A basket wallet swaps each
+// asset separately, so the allowance and netting apply per (wallet, asset): each asset's
+// excess is netted across buys and sells and reversed with a single opposite swap.
+
+export const MAX_SWAPS_PER_SLOT = 1;
+
+export interface ExecutionRow {
+  id: string;
+  wallet: string; // Smart account (resolved from user_address for rows without wallet_address)
+  userAddress: string;
+  action: 'buy' | 'sell';
+  amountIn: string;  // USDC for buys, target asset for sells (base units)
+  amountOut: string; // Target asset for buys, USDC for sells (base units)
+  targetAsset?: string; // Basket asset swapped (dca_executions.target_asset); unset on older rows
+  executionKey?: string; // dca_executions.execution_key; unset on older rows
+  createdAt: string;
+}
+
+export interface OverExecution {
+  wallet: string;
+  userAddress: string;
+  targetAsset?: string;
+  slot: string; // Schedule slot id (formatSlot), or UTC date for un-keyed rows
+  allowed: ExecutionRow[];
+  excess: ExecutionRow[];
+}
+
+export interface RebalancePlanItem {
+  wallet: string;
+  userAddress: string;
+  targetAsset: string; // Asset the excess was swapped into/out of when the plan was made
+  direction: 'buy' | 'sell'; // Reversing swap: sell excess asset, or buy back sold asset
+  amountIn: string; // USDC (buy) or target asset (sell), base units
+  excessSwapCount: number;
+  excessExecutionIds: string[];
+  slots: string[];
+}
+
+export interface RebalancePlan {
+  id: string;
+  generatedAt: string;
+  window: { from: string; to: string };
+  rule: string;
+  items: RebalancePlanItem[];
+}
+
+export function getExecutionSlot(createdAt: string): string {
+  return new Date(createdAt).toISOString().split('T')[0];
+}
+
+/**
+ * The slot a row ran in: the slot segment of its execution key ('<wallet>:<slot>:<asset>:
+ * <action>', the slot itself containing colons), else its UTC day
+ */
+export function getRowSlot(row: ExecutionRow): string {
+  const parts = row.executionKey?.split(':') ?? [];
+  return parts.length >= 4 ? parts.slice(1, -2).join(':') : getExecutionSlot(row.createdAt);
+}
+
+/**
+ * Group successful swaps by (wallet, asset, slot) and split off everything beyond the allowance
+ */
+export function detectOverExecutions(rows: ExecutionRow[], maxPerSlot: number = MAX_SWAPS_PER_SLOT): OverExecution[] {
+  const bySlot = new Map<string, ExecutionRow[]>();
+  for (const row of rows) {
+    const key = `${row.wallet.toLowerCase()}|${row.targetAsset ?? ''}|${getRowSlot(row)}`;
+    bySlot.set(key, [...(bySlot.get(key) ?? []), row]);
+  }
+
+  const overExecutions: OverExecution[] = [];
+  for (const [key, slotRows] of bySlot) {
+    if (slotRows.length <= maxPerSlot) continue;
+    const [wallet, targetAsset, slot] = key.split('|');
+    const sorted = [...slotRows].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+    overExecutions.push({
+      wallet,
+      userAddress: sorted[0].userAddress,
+      ...(targetAsset ? { targetAsset } : {}),
+      slot,
+      allowed: sorted.slice(0, maxPerSlot),
+      excess: sorted.slice(maxPerSlot),
+    });
+  }
+
+  return overExecutions.sort((a, b) => a.wallet.localeCompare(b.wallet) || a.slot.localeCompare(b.slot));
+}
+
+/**
+ * Net each wallet's excess swaps into one reversing swap per asset.
+ * Excess buys added target asset (sell it back); excess sells removed it (buy it back
+ * with the USDC they produced). Excess that nets to zero needs no rebalance.
+ * Rows without a recorded asset use the wallet's current target from `targetAssets`.
+ */
+export function buildRebalancePlan(
+  overExecutions: OverExecution[],
+  window: { from: string; to: string },
+  targetAssets: Map<string, string>,
+  now: Date = new Date()
+): RebalancePlan {
+  const byWalletAsset = new Map<string, OverExecution[]>();
+  for (const over of overExecutions) {
+    const key = `${over.wallet}|${over.targetAsset ?? targetAssets.get(over.wallet) ?? 'ETH'}`;
+    byWalletAsset.set(key, [...(byWalletAsset.get(key) ?? []), over]);
+  }
+
+  const items: RebalancePlanItem[] = [];
+  for (const [key, overs] of byWalletAsset) {
+    const [wallet, targetAsset] = key.split('|');
+    const excess = overs.flatMap(o => o.excess);
+    let assetDelta = 0n;
+    let usdcDelta = 0n;
+    for (const row of excess) {
+      if (row.action === 'buy') {
+        assetDelta += BigInt(row.amountOut);
+        usdcDelta -= BigInt(row.amountIn);
+      } else {
+        assetDelta -= BigInt(row.amountIn);
+        usdcDelta += BigInt(row.amountOut);
+      }
+    }
+
+    const direction = assetDelta > 0n ? 'sell' : usdcDelta > 0n ? 'buy' : null;
+    if (!direction) continue;
+
+    items.push({
+      wallet,
+      userAddress: overs[0].userAddress,
+      targetAsset,
+      direction,
+      amountIn: (direction === 'sell' ? assetDelta : usdcDelta).toString(),
+      excessSwapCount: excess.length,
+      excessExecutionIds: excess.map(row => row.id),
+      slots: overs.map(o => o.slot),
+    });
+  }
+
+  const generatedAt = now.toISOString();
+  return {
+    id: `rebalance-${generatedAt.replace(/[-:]/g, '').split('.')[0]}`,
+    generatedAt,
+    window,
+    rule: `At most ${MAX_SWAPS_PER_SLOT} successful buy/sell per wallet and asset per schedule slot (UTC day for un-keyed rows)`,
+    items,
+  };
+}
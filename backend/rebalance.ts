@@ -1,157 +1,84 @@
 /**
- * REBALANCE SCRIPT
- * 
- * Swaps excess ETH (WETH) back to USDC for wallets that were over-swapped
- * due to the cron duplicate execution bug on Feb 14, 2026.
- * 
+ * REBALANCE TOOL
+ *
+ * Finds wallets whose executed swaps exceeded what their strategy allowed (more than
+ * one buy/sell per schedule slot - e.g. the cron duplicate execution bug on Feb 14, 2026),
+ * writes a reviewable plan file, and reverses the excess through the swap engine.
+ *
  * Usage:
- *   npx tsx backend/rebalance.ts --dry-run    # Preview only
- *   npx tsx backend/rebalance.ts              # Execute rebalance
+ *   npx tsx backend/rebalance.ts plan --from=2026-02-14 --to=2026-02-14 [--wallet=0x...] [--out=plan.json]
+ *   npx tsx backend/rebalance.ts execute --plan=plan.json --dry-run    # Preview only
+ *   npx tsx backend/rebalance.ts execute --plan=plan.json              # Execute rebalance
  */
 
-import { formatUnits, parseUnits, erc20Abi, type Address, type Hex } from 'viem';
-import { createExecution, ExecutionMode } from '@metamask/smart-accounts-kit';
-import { DelegationManager } from '@metamask/smart-accounts-kit/contracts';
-import { encodeNonce } from 'permissionless/utils';
+import { readFileSync, writeFileSync } from 'fs';
+import { formatUnits, parseUnits, erc20Abi, type Address } from 'viem';
 import {
   ADDRESSES,
-  SLIPPAGE_LARGE_BPS,
-  OPTIMAL_BATCH_SIZE,
-  BATCH_DELAY_MS,
-  sleep,
-  validateSwapQuote,
+  DB_RETRY_CONFIG,
   permit2Abi,
   type DelegationRecord,
+  type WalletData,
 } from './config';
 import { withRetry } from './error-handler';
 import {
   publicClient,
   backendAccount,
-  bundlerClient,
-  pimlicoPaymasterClient,
   supabase,
   getETHBalance,
-  getUSDCBalance,
 } from './clients';
 import { validateDelegationCaveats, getActiveDelegations } from './delegation-validator';
 import { initBackendSmartAccount } from './smart-account';
-import { getSwapQuote, getETHPriceFromUniswap } from './swap-engine';
+import {
+  executeWalletSwaps,
+  getDelegationBasket,
+  getETHPriceUsd,
+  getSwapId,
+  getSwapTokenIn,
+  getTargetTokenAddress,
+  getTargetTokenDecimals,
+  getTargetTokenSymbol,
+  getTargetUsdPrice,
+} from './swap-engine';
 import {
   executeDelegatedERC20ApprovalViaUserOp,
   executeDelegatedPermit2ApprovalViaUserOp,
 } from './approvals';
-
+import { logExecution } from './db-logger';
+import { getExecutionKey } from './execution-keys';
+import {
+  buildRebalancePlan,
+  detectOverExecutions,
+  type ExecutionRow,
+  type RebalancePlan,
+  type RebalancePlanItem,
+} from './rebalance-planner';
+import type { BasketAllocation } from '../shared/tokens';
+
+const COMMAND = process.argv[2];
 const DRY_RUN = process.argv.includes('--dry-run');
+const EXPECTED_DELEGATE = '0xc472e866045d2e9ABd2F2459cE3BDB275b72C7e1'.toLowerCase();
+const PAGE_SIZE = 1000;
 
-// ============ WETH BALANCE ============
-
-async function getWETHBalance(address: Address): Promise<bigint> {
-  return publicClient.readContract({
-    address: ADDRESSES.WETH,
-    abi: erc20Abi,
-    functionName: 'balanceOf',
-    args: [address],
-  });
-}
-
-// ============ REBALANCE DATA ============
-
-// Excess ETH per wallet from the Feb 14 duplicate execution bug
-// Source: Supabase dca_executions query - sum of all executions beyond the first one per wallet
-interface RebalanceTarget {
-  excessEth: bigint;
-  excessUsdcSwapped: number;
-  excessSwapCount: number;
+function getArg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
 }
 
-const REBALANCE_TARGETS: Record<string, RebalanceTarget> = {
-  '0x4f38dde0be7d92abde9f3d4ba29a92e02bd71bd7': {
-    excessEth: parseUnits('0.15256059', 18),
-    excessUsdcSwapped: 317.52,
-    excessSwapCount: 49,
-  },
-  '0xaba389bb9d865152886d70d274d1225c42502e1f': {
-    excessEth: parseUnits('0.31275504', 18),
-    excessUsdcSwapped: 650.94,
-    excessSwapCount: 49,
-  },
-  '0x80557e2aee6feca4b16dc1a6219eadc9e83b616f': {
-    excessEth: parseUnits('0.05568377', 18),
-    excessUsdcSwapped: 115.90,
-    excessSwapCount: 49,
-  },
-  '0xcc481198c131738b59c36bc51858ba87bd7254ea': {
-    excessEth: parseUnits('0.02930284', 18),
-    excessUsdcSwapped: 60.99,
-    excessSwapCount: 49,
-  },
-  '0x55768509c571f241625351b49ac84d820fa3d2f0': {
-    excessEth: parseUnits('0.01465102', 18),
-    excessUsdcSwapped: 30.50,
-    excessSwapCount: 49,
-  },
-  '0xc0e447631a09d9918cbbb270b69adfbc78444d3d': {
-    excessEth: parseUnits('0.00389068', 18),
-    excessUsdcSwapped: 8.10,
-    excessSwapCount: 49,
-  },
-  '0xc90208db726057da170e30add18ef08dcdcb2498': {
-    excessEth: parseUnits('0.00307159', 18),
-    excessUsdcSwapped: 6.39,
-    excessSwapCount: 49,
-  },
-  '0x059e6d7885147f26e60ae885773b267e412f5e63': {
-    excessEth: parseUnits('0.00024464', 18),
-    excessUsdcSwapped: 0.51,
-    excessSwapCount: 1,
-  },
-  '0xba72f8c922e9b56b52f8a71ec79b8565a16d548f': {
-    excessEth: parseUnits('0.00024944', 18),
-    excessUsdcSwapped: 0.52,
-    excessSwapCount: 1,
-  },
-};
-
-// ============ MAIN ============
+// ============ DELEGATIONS ============
 
-async function runRebalance() {
-  console.log('========================================');
-  console.log('  REBALANCE: Excess ETH → USDC');
-  console.log('  Fixing Feb 14 duplicate execution bug');
-  if (DRY_RUN) {
-    console.log('  🔍 DRY-RUN MODE (preview only)');
-  }
-  console.log('========================================');
-  console.log(`Time: ${new Date().toISOString()}`);
-  console.log(`Backend EOA: ${backendAccount.address}`);
-  console.log(`Wallets to rebalance: ${Object.keys(REBALANCE_TARGETS).length}`);
-  console.log('');
-
-  const backendSmartAccount = await initBackendSmartAccount();
-  console.log(`Backend Smart Account: ${backendSmartAccount.address}`);
-
-  // Check backend has gas
-  const backendBalance = await getETHBalance(backendAccount.address);
-  console.log(`Backend ETH: ${formatUnits(backendBalance, 18)} ETH`);
-  if (backendBalance < parseUnits('0.001', 18)) {
-    console.error('Backend wallet needs more ETH for gas!');
-    return;
-  }
-
-  const ethPrice = await getETHPriceFromUniswap();
-  console.log(`ETH Price: $${ethPrice.toFixed(2)}`);
-
-  // Get delegations
-  const EXPECTED_DELEGATE = '0xc472e866045d2e9ABd2F2459cE3BDB275b72C7e1'.toLowerCase();
+/**
+ * Active delegations with the current delegate and valid caveats, keyed by smart account
+ */
+async function getValidDelegationsByWallet(): Promise<Map<string, DelegationRecord>> {
   const allDelegations = await getActiveDelegations(undefined);
   const delegationsByWallet = new Map<string, DelegationRecord>();
-  
+
   for (const d of allDelegations) {
     const signedDelegation = typeof d.delegation_data === 'string'
       ? JSON.parse(d.delegation_data)
       : d.delegation_data;
     const delegate = signedDelegation?.delegate;
-    
+
     if (delegate?.toLowerCase() === EXPECTED_DELEGATE) {
       const caveatValidation = validateDelegationCaveats(signedDelegation);
       if (caveatValidation.valid) {
@@ -160,109 +87,197 @@ async function runRebalance() {
     }
   }
 
-  console.log(`\nValid delegations found: ${delegationsByWallet.size}`);
+  return delegationsByWallet;
+}
 
-  // ============ PHASE 1: ASSESS ============
-  console.log('\n--- PHASE 1: ASSESS WALLETS ---');
+// ============ PLAN ============
+
+interface ExecutionDbRow {
+  id: string;
+  wallet_address: string | null;
+  user_address: string;
+  action: 'buy' | 'sell';
+  amount_in: string;
+  amount_out: string | null;
+  target_asset: string | null;
+  execution_key: string | null;
+  created_at: string;
+}
 
-  interface RebalanceItem {
-    wallet: Address;
-    delegation: DelegationRecord;
-    wethBalance: bigint;
-    swapAmount: bigint; // min(excessEth, wethBalance) 
-    excessUsdcSwapped: number;
-    excessSwapCount: number;
+/**
+ * Successful buy/sell executions in [from, to] (inclusive UTC dates), paged past the 1000-row limit
+ */
+async function fetchSuccessfulSwaps(from: string, to: string): Promise<ExecutionDbRow[]> {
+  const toExclusive = new Date(Date.parse(`${to}T00:00:00Z`) + 86400_000).toISOString();
+  const rows: ExecutionDbRow[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { result, error } = await withRetry(
+      async () => {
+        const { data, error } = await supabase
+          .from('dca_executions')
+          .select('id, wallet_address, user_address, action, amount_in, amount_out, target_asset, execution_key, created_at')
+          .eq('status', 'success')
+          .in('action', ['buy', 'sell'])
+          .gte('created_at', `${from}T00:00:00Z`)
+          .lt('created_at', toExclusive)
+          .order('created_at', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw error;
+        return (data || []) as ExecutionDbRow[];
+      },
+      { ...DB_RETRY_CONFIG, operation: 'fetchSuccessfulSwaps' }
+    );
+    if (!result) {
+      throw new Error(`Failed to fetch executions: ${error?.message}`);
+    }
+    rows.push(...result);
+    if (result.length < PAGE_SIZE) return rows;
   }
+}
 
-  const items: RebalanceItem[] = [];
+async function runPlan() {
+  const from = getArg('from');
+  const to = getArg('to') || from;
+  const walletFilter = getArg('wallet')?.toLowerCase();
+  if (!from || !to || !/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    throw new Error('plan needs --from=YYYY-MM-DD (and optionally --to=YYYY-MM-DD)');
+  }
+  const out = getArg('out') || `rebalance-plan-${from}-${to}.json`;
 
-  for (const [wallet, target] of Object.entries(REBALANCE_TARGETS)) {
-    const walletLower = wallet.toLowerCase();
-    const delegation = delegationsByWallet.get(walletLower);
-    
-    if (!delegation) {
-      console.log(`❌ ${wallet}: No valid delegation found - SKIPPING`);
-      continue;
-    }
+  console.log('========================================');
+  console.log('  REBALANCE PLAN: Detect over-execution');
+  console.log('========================================');
+  console.log(`Window: ${from} → ${to} (UTC)`);
 
-    const wethBalance = await getWETHBalance(wallet as Address);
-    const nativeEthBalance = await getETHBalance(wallet as Address);
-    const usdcBalance = await getUSDCBalance(wallet as Address);
+  const delegationsByWallet = await getValidDelegationsByWallet();
+  const walletByUser = new Map<string, string>();
+  for (const [wallet, delegation] of delegationsByWallet) {
+    walletByUser.set(delegation.user_address.toLowerCase(), wallet);
+  }
 
-    // Swap the minimum of excess ETH and actual WETH balance
-    const swapAmount = wethBalance < target.excessEth ? wethBalance : target.excessEth;
+  const dbRows = await fetchSuccessfulSwaps(from, to);
+  console.log(`Successful swaps in window: ${dbRows.length}`);
 
-    console.log(`\n${wallet}:`);
-    console.log(`  WETH balance:  ${formatUnits(wethBalance, 18)} ($${(Number(formatUnits(wethBalance, 18)) * ethPrice).toFixed(2)})`);
-    console.log(`  Native ETH:   ${formatUnits(nativeEthBalance, 18)}`);
-    console.log(`  USDC balance:  ${formatUnits(usdcBalance, 6)}`);
-    console.log(`  Excess to fix: ${formatUnits(target.excessEth, 18)} ETH (~$${target.excessUsdcSwapped.toFixed(2)})`);
-    console.log(`  Will swap:     ${formatUnits(swapAmount, 18)} WETH → USDC`);
+  const rows: ExecutionRow[] = [];
+  let unresolved = 0;
+  for (const row of dbRows) {
+    // Rows written by an earlier rebalance are corrections, not strategy swaps
+    if (row.execution_key?.includes(':rebalance-')) continue;
 
-    if (swapAmount === 0n) {
-      console.log(`  ⚠️ No WETH to swap back - wallet may have unwrapped`);
+    // Older retry rows have no wallet_address - resolve through the owner's delegation
+    const wallet = row.wallet_address?.toLowerCase() ?? walletByUser.get(row.user_address.toLowerCase());
+    if (!wallet) {
+      unresolved++;
       continue;
     }
-
-    items.push({
-      wallet: wallet as Address,
-      delegation,
-      wethBalance,
-      swapAmount,
-      excessUsdcSwapped: target.excessUsdcSwapped,
-      excessSwapCount: target.excessSwapCount,
+    if (walletFilter && wallet !== walletFilter) continue;
+
+    rows.push({
+      id: row.id,
+      wallet,
+      userAddress: row.user_address,
+      action: row.action,
+      amountIn: row.amount_in,
+      amountOut: row.amount_out ?? '0',
+      ...(row.target_asset ? { targetAsset: row.target_asset } : {}),
+      ...(row.execution_key ? { executionKey: row.execution_key } : {}),
+      createdAt: row.created_at,
     });
   }
+  if (unresolved > 0) {
+    console.warn(`⚠️ ${unresolved} executions have no wallet_address and no active delegation - not checked`);
+  }
 
-  console.log(`\n--- SUMMARY ---`);
-  console.log(`Wallets to rebalance: ${items.length}`);
-  const totalSwapEth = items.reduce((s, i) => s + i.swapAmount, 0n);
-  console.log(`Total WETH to swap: ${formatUnits(totalSwapEth, 18)} (~$${(Number(formatUnits(totalSwapEth, 18)) * ethPrice).toFixed(2)})`);
+  const overExecutions = detectOverExecutions(rows);
+  console.log(`\nOver-executed wallet-slots: ${overExecutions.length}`);
+  for (const over of overExecutions) {
+    console.log(`  ${over.wallet} ${over.targetAsset ?? ''} ${over.slot}: ${over.allowed.length + over.excess.length} swaps (${over.excess.length} excess)`);
+  }
 
-  if (items.length === 0) {
-    console.log('No wallets to rebalance.');
-    return;
+  const targetAssets = new Map<string, string>();
+  for (const [wallet, delegation] of delegationsByWallet) {
+    targetAssets.set(wallet, delegation.target_asset ?? 'ETH');
   }
 
-  if (DRY_RUN) {
-    console.log('\n🔍 DRY-RUN: Would execute the above swaps. Run without --dry-run to execute.');
-    return;
+  const plan = buildRebalancePlan(overExecutions, { from, to }, targetAssets);
+  printPlan(plan);
+
+  writeFileSync(out, JSON.stringify(plan, null, 2) + '\n');
+  console.log(`\nPlan written to ${out} - review it, then run:`);
+  console.log(`  npx tsx backend/rebalance.ts execute --plan=${out} --dry-run`);
+}
+
+function printPlan(plan: RebalancePlan) {
+  console.log(`\n--- PLAN ${plan.id} ---`);
+  for (const item of plan.items) {
+    const decimals = item.direction === 'sell' ? getTargetTokenDecimals(item.targetAsset) : 6;
+    const symbol = item.direction === 'sell' ? getTargetTokenSymbol(item.targetAsset) : 'USDC';
+    console.log(`  ${item.wallet}: ${item.direction.toUpperCase()} back ${formatUnits(BigInt(item.amountIn), decimals)} ${symbol} (${item.excessSwapCount} excess swaps on ${item.slots.join(', ')})`);
   }
+  console.log(`Wallets to rebalance: ${plan.items.length}`);
+}
 
-  // ============ PHASE 1.5: APPROVALS (WETH → Permit2 → Router) ============
-  console.log('\n--- PHASE 1.5: CHECK & FIX APPROVALS ---');
+// ============ EXECUTE ============
+
+function readPlan(path: string): RebalancePlan {
+  const plan = JSON.parse(readFileSync(path, 'utf8')) as RebalancePlan;
+  if (!plan.id || !Array.isArray(plan.items)) {
+    throw new Error(`${path} is not a rebalance plan`);
+  }
+  for (const item of plan.items) {
+    if (!/^0x[0-9a-f]{40}$/.test(item.wallet) || !['buy', 'sell'].includes(item.direction) || !/^\d+$/.test(item.amountIn)) {
+      throw new Error(`Invalid plan item: ${JSON.stringify(item)}`);
+    }
+  }
+  return plan;
+}
 
+function getTokenIn(item: RebalancePlanItem): Address {
+  return item.direction === 'sell' ? getTargetTokenAddress(item.targetAsset) : ADDRESSES.USDC;
+}
+
+function getItemSwapId(item: RebalancePlanItem): string {
+  return getSwapId(item.wallet, getTargetTokenSymbol(item.targetAsset));
+}
+
+async function getTokenBalance(token: Address, owner: Address): Promise<bigint> {
+  return publicClient.readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [owner],
+  });
+}
+
+/**
+ * Token → Permit2 → Router approvals for the token each swap sells
+ */
+async function ensureApprovals(walletDataList: WalletData[]) {
   const APPROVAL_TIMESTAMP = BigInt(Date.now());
 
-  for (let idx = 0; idx < items.length; idx++) {
-    const item = items[idx];
-    const wallet = item.wallet;
+  for (let idx = 0; idx < walletDataList.length; idx++) {
+    const { delegation, smartAccountAddress: wallet, asset, decision } = walletDataList[idx];
+    const tokenIn = getSwapTokenIn(asset, decision.action === 'buy');
 
-    // Check ERC20 approval: WETH → Permit2
-    const wethAllowance = await publicClient.readContract({
-      address: ADDRESSES.WETH,
+    const erc20Allowance = await publicClient.readContract({
+      address: tokenIn,
       abi: erc20Abi,
       functionName: 'allowance',
       args: [wallet, ADDRESSES.PERMIT2],
     });
-    const needsERC20 = wethAllowance === 0n;
+    const needsERC20 = erc20Allowance === 0n;
 
-    // Check Permit2 allowance: WETH via Permit2 → Router (with expiry)
     let needsPermit2 = false;
     try {
       const result = await publicClient.readContract({
         address: ADDRESSES.PERMIT2,
         abi: permit2Abi,
         functionName: 'allowance',
-        args: [wallet, ADDRESSES.WETH, ADDRESSES.UNISWAP_ROUTER],
+        args: [wallet, tokenIn, ADDRESSES.UNISWAP_ROUTER],
       });
-      const amount = BigInt(result[0]);
-      const expiration = Number(result[1]);
       const now = Math.floor(Date.now() / 1000);
-      needsPermit2 = amount === 0n || expiration <= now;
-      if (needsPermit2) {
-        console.log(`  [${wallet.slice(0, 10)}] Permit2 expired (exp: ${expiration}, now: ${now})`);
-      }
+      needsPermit2 = BigInt(result[0]) === 0n || Number(result[1]) <= now;
     } catch {
       needsPermit2 = true;
     }
@@ -272,174 +287,179 @@ async function runRebalance() {
       continue;
     }
 
-    if (DRY_RUN) {
-      console.log(`  [${wallet.slice(0, 10)}] Would fix: ERC20=${needsERC20}, Permit2=${needsPermit2}`);
-      continue;
-    }
-
     const nonceKeyBase = APPROVAL_TIMESTAMP * 1000000n + BigInt(idx * 2);
 
     if (needsERC20) {
-      console.log(`  [${wallet.slice(0, 10)}] Submitting WETH→Permit2 ERC20 approval...`);
       const maxApproval = BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff');
-      const txHash = await executeDelegatedERC20ApprovalViaUserOp(
-        item.delegation,
-        ADDRESSES.WETH,
-        ADDRESSES.PERMIT2,
-        maxApproval,
-        nonceKeyBase,
-      );
-      if (txHash) {
-        console.log(`  [${wallet.slice(0, 10)}] ✅ ERC20 approval: ${txHash}`);
-      } else {
-        console.error(`  [${wallet.slice(0, 10)}] ❌ ERC20 approval failed — wallet will likely fail swap`);
-      }
+      const txHash = await executeDelegatedERC20ApprovalViaUserOp(delegation, tokenIn, ADDRESSES.PERMIT2, maxApproval, nonceKeyBase);
+      console.log(txHash
+        ? `  [${wallet.slice(0, 10)}] ✅ ERC20 approval: ${txHash}`
+        : `  [${wallet.slice(0, 10)}] ❌ ERC20 approval failed — wallet will likely fail swap`);
     }
 
     if (needsPermit2) {
-      console.log(`  [${wallet.slice(0, 10)}] Submitting Permit2 WETH→Router approval...`);
-      const txHash = await executeDelegatedPermit2ApprovalViaUserOp(
-        item.delegation,
-        ADDRESSES.WETH,
-        ADDRESSES.UNISWAP_ROUTER,
-        nonceKeyBase + 1n,
-      );
-      if (txHash) {
-        console.log(`  [${wallet.slice(0, 10)}] ✅ Permit2 approval: ${txHash}`);
-      } else {
-        console.error(`  [${wallet.slice(0, 10)}] ❌ Permit2 approval failed — wallet will likely fail swap`);
-      }
+      const txHash = await executeDelegatedPermit2ApprovalViaUserOp(delegation, tokenIn, ADDRESSES.UNISWAP_ROUTER, nonceKeyBase + 1n);
+      console.log(txHash
+        ? `  [${wallet.slice(0, 10)}] ✅ Permit2 approval: ${txHash}`
+        : `  [${wallet.slice(0, 10)}] ❌ Permit2 approval failed — wallet will likely fail swap`);
     }
   }
+}
 
-  console.log('[Phase 1.5] Approvals complete\n');
+/**
+ * Relabel a confirmed correction so it shows as a rebalance and is never counted as a strategy swap
+ */
+async function markAsRebalance(executionKey: string, item: RebalancePlanItem, planId: string) {
+  const { error } = await withRetry(
+    async () => {
+      const { error } = await supabase
+        .from('dca_executions')
+        .update({
+          action: 'rebalance',
+          fee_collected: '0',
+          error_message: `Manual correction (${planId}): ${item.excessSwapCount} excess swap${item.excessSwapCount > 1 ? 's' : ''} reversed. No fee charged.`,
+        })
+        .eq('execution_key', executionKey)
+        .eq('status', 'success');
+      if (error) throw error;
+    },
+    { ...DB_RETRY_CONFIG, operation: 'markAsRebalance' }
+  );
+  if (error) {
+    console.error(`[DB] Failed to mark ${executionKey} as rebalance:`, error.message);
+  }
+}
 
-  // ============ PHASE 2: EXECUTE ============
-  console.log('\n--- PHASE 2: EXECUTE REBALANCE ---');
+async function runExecute() {
+  const planPath = getArg('plan');
+  if (!planPath) {
+    throw new Error('execute needs --plan=<file> from `rebalance.ts plan`');
+  }
+  const plan = readPlan(planPath);
 
-  const TIMESTAMP = BigInt(Date.now());
-  let successCount = 0;
-  let failCount = 0;
-
-  for (let i = 0; i < items.length; i += OPTIMAL_BATCH_SIZE) {
-    const batch = items.slice(i, i + OPTIMAL_BATCH_SIZE);
-    const batchNum = Math.floor(i / OPTIMAL_BATCH_SIZE) + 1;
-    const totalBatches = Math.ceil(items.length / OPTIMAL_BATCH_SIZE);
-
-    console.log(`\n[Batch ${batchNum}/${totalBatches}] Processing ${batch.length} wallets...`);
-
-    // Get quotes for each wallet
-    const quotedItems: Array<{
-      item: RebalanceItem;
-      swapQuote: any;
-      nonceKey: bigint;
-    }> = [];
-
-    for (let j = 0; j < batch.length; j++) {
-      const item = batch[j];
-      const nonceKey = TIMESTAMP * 1000000n + BigInt(i + j);
-
-      console.log(`[Quote] ${item.wallet}: ${formatUnits(item.swapAmount, 18)} WETH → USDC`);
-
-      const swapQuote = await getSwapQuote(
-        item.wallet,
-        ADDRESSES.WETH,    // tokenIn: WETH
-        ADDRESSES.USDC,    // tokenOut: USDC
-        item.swapAmount.toString(),
-        SLIPPAGE_LARGE_BPS
-      );
-
-      if (!swapQuote) {
-        console.error(`[Quote] ❌ ${item.wallet}: Failed to get quote - SKIPPING`);
-        failCount++;
-        continue;
-      }
+  console.log('========================================');
+  console.log('  REBALANCE: Reverse excess swaps');
+  if (DRY_RUN) {
+    console.log('  🔍 DRY-RUN MODE (preview only)');
+  }
+  console.log('========================================');
+  console.log(`Time: ${new Date().toISOString()}`);
+  console.log(`Plan: ${plan.id} (window ${plan.window.from} → ${plan.window.to})`);
+  console.log(`Backend EOA: ${backendAccount.address}`);
+  printPlan(plan);
+
+  if (!DRY_RUN) {
+    const backendBalance = await getETHBalance(backendAccount.address);
+    console.log(`Backend ETH: ${formatUnits(backendBalance, 18)} ETH`);
+    if (backendBalance < parseUnits('0.001', 18)) {
+      console.error('Backend wallet needs more ETH for gas!');
+      return;
+    }
+  }
 
-      const expectedUsdc = BigInt(swapQuote.quote.quote?.output?.amount || '0');
-      console.log(`[Quote] ✅ ${item.wallet}: Expected ~${formatUnits(expectedUsdc, 6)} USDC`);
+  const ethPrice = await getETHPriceUsd();
+  console.log(`ETH Price: $${ethPrice.toFixed(2)}`);
+  const assetPricesUsd = new Map<string, number>([['ETH', ethPrice]]);
 
-      quotedItems.push({ item, swapQuote, nonceKey });
-    }
+  const delegationsByWallet = await getValidDelegationsByWallet();
+  console.log(`\nValid delegations found: ${delegationsByWallet.size}`);
+
+  // ============ PHASE 1: ASSESS ============
+  console.log('\n--- PHASE 1: ASSESS WALLETS ---');
 
-    if (quotedItems.length === 0) {
-      console.log(`[Batch ${batchNum}] No valid quotes - skipping batch`);
+  const walletDataList: WalletData[] = [];
+  const itemsBySwap = new Map<string, RebalancePlanItem>();
+
+  for (const item of plan.items) {
+    const delegation = delegationsByWallet.get(item.wallet);
+    if (!delegation) {
+      console.log(`❌ ${item.wallet}: No valid delegation found - SKIPPING`);
+      continue;
+    }
+    const asset = getTargetTokenSymbol(item.targetAsset);
+    if (!getDelegationBasket(delegation).some((a: BasketAllocation) => a.asset === asset)) {
+      console.log(`❌ ${item.wallet}: ${asset} is no longer in the wallet's basket - SKIPPING`);
       continue;
     }
 
-    // Submit UserOperations (send directly — handles signing internally)
-    console.log(`[Submit] Sending ${quotedItems.length} swaps to bundler...`);
+    const wallet = delegation.smart_account_address as Address;
+    const tokenIn = getTokenIn(item);
+    const decimals = item.direction === 'sell' ? getTargetTokenDecimals(item.targetAsset) : 6;
+    const symbol = item.direction === 'sell' ? getTargetTokenSymbol(item.targetAsset) : 'USDC';
+    const planned = BigInt(item.amountIn);
+    const balance = await getTokenBalance(tokenIn, wallet);
 
-    for (const { item, swapQuote, nonceKey } of quotedItems) {
+    // Never swap more than the wallet holds now
+    const swapAmount = balance < planned ? balance : planned;
+
+    console.log(`\n${wallet} [${asset}]:`);
+    console.log(`  ${symbol} balance: ${formatUnits(balance, decimals)}`);
+    console.log(`  Planned:      ${formatUnits(planned, decimals)} ${symbol}`);
+    console.log(`  Will swap:    ${formatUnits(swapAmount, decimals)} ${symbol} (${item.direction})`);
+
+    if (swapAmount === 0n) {
+      console.log(`  ⚠️ No ${symbol} to swap back - SKIPPING`);
+      continue;
+    }
+
+    if (!assetPricesUsd.has(asset)) {
       try {
-        const signedDelegation = typeof item.delegation.delegation_data === 'string'
-          ? JSON.parse(item.delegation.delegation_data)
-          : item.delegation.delegation_data;
-
-        const execution = createExecution({
-          target: swapQuote.swap.to as Address,
-          value: BigInt(swapQuote.swap.value || '0'),
-          callData: swapQuote.swap.data as Hex,
-        });
-
-        const redeemCalldata = DelegationManager.encode.redeemDelegations({
-          delegations: [[signedDelegation]],
-          modes: [ExecutionMode.SingleDefault],
-          executions: [[execution]],
-        });
-
-        const nonce = encodeNonce({ key: nonceKey, sequence: 0n });
-
-        const hash = await bundlerClient.sendUserOperation({
-          account: backendSmartAccount,
-          nonce,
-          calls: [{
-            to: ADDRESSES.DELEGATION_MANAGER as Address,
-            data: redeemCalldata,
-            value: 0n,
-          }],
-          paymaster: pimlicoPaymasterClient,
-        });
-        console.log(`[Submit] ✅ ${item.wallet}: UserOp hash ${hash}`);
-
-        // Wait for receipt
-        const receipt = await bundlerClient.waitForUserOperationReceipt({
-          hash,
-          timeout: 120_000,
-        });
-
-        if (receipt.success) {
-          console.log(`[Receipt] ✅ ${item.wallet}: Tx ${receipt.receipt.transactionHash}`);
-          successCount++;
-
-          // Log to database
-          await supabase.from('dca_executions').insert({
-            user_address: item.delegation.user_address,
-            fear_greed_index: 0,
-            action: 'rebalance',
-            amount_in: item.swapAmount.toString(),
-            amount_out: (swapQuote.quote.quote?.output?.amount || '0'),
-            tx_hash: receipt.receipt.transactionHash,
-            status: 'success',
-            fee_collected: '0',
-            wallet_address: item.wallet,
-            error_message: `Manual correction: ${item.excessSwapCount} duplicate swap${item.excessSwapCount > 1 ? 's' : ''} reversed. No fee charged.`,
-          });
-        } else {
-          console.error(`[Receipt] ❌ ${item.wallet}: UserOp reverted`);
-          failCount++;
-        }
+        assetPricesUsd.set(asset, await getTargetUsdPrice(asset));
       } catch (error: any) {
-        console.error(`[Submit] ❌ ${item.wallet}: ${error.message}`);
-        failCount++;
+        console.log(`  ❌ No ${asset} price (${error?.message}) - SKIPPING`);
+        continue;
       }
-
-      // Small delay between submissions
-      await sleep(500);
     }
 
-    if (i + OPTIMAL_BATCH_SIZE < items.length) {
-      console.log(`[Batch] Waiting ${BATCH_DELAY_MS}ms before next batch...`);
-      await sleep(BATCH_DELAY_MS);
+    walletDataList.push({
+      delegation,
+      decision: { action: item.direction, percentage: 0, reason: `Rebalance ${plan.id}` },
+      smartAccountAddress: wallet,
+      asset,
+      balance,
+      swapAmount,
+      swapAmountAfterFee: swapAmount, // Corrections are free
+      fee: 0n,
+      // One correction per wallet and asset per plan, even if execute is re-run
+      executionKey: getExecutionKey(wallet, plan.id, asset, item.direction),
+      assetPriceUsd: assetPricesUsd.get(asset)!,
+    });
+    itemsBySwap.set(getItemSwapId(item), item);
+  }
+
+  console.log(`\nWallets to rebalance: ${walletDataList.length}`);
+
+  if (walletDataList.length === 0) {
+    console.log('No wallets to rebalance.');
+    return;
+  }
+
+  if (DRY_RUN) {
+    console.log('\n🔍 DRY-RUN: Would execute the above swaps. Run without --dry-run to execute.');
+    return;
+  }
+
+  await initBackendSmartAccount();
+
+  // ============ PHASE 1.5: APPROVALS ============
+  console.log('\n--- PHASE 1.5: CHECK & FIX APPROVALS ---');
+  await ensureApprovals(walletDataList);
+
+  // ============ PHASE 2: EXECUTE ============
+  console.log('\n--- PHASE 2: EXECUTE REBALANCE ---');
+
+  const results = await executeWalletSwaps(walletDataList, 0);
+  let successCount = 0;
+
+  for (const result of results) {
+    const walletData = walletDataList.find(w => w.smartAccountAddress === result.walletAddress && w.asset === result.asset);
+    if (!walletData) continue;
+
+    await logExecution(walletData.delegation.id, walletData.delegation.user_address, 0, walletData.decision, result);
+
+    if (result.success && walletData.executionKey) {
+      successCount++;
+      await markAsRebalance(walletData.executionKey, itemsBySwap.get(getSwapId(walletData.smartAccountAddress, walletData.asset))!, plan.id);
     }
   }
 
@@ -447,13 +467,22 @@ async function runRebalance() {
   console.log('\n========================================');
   console.log('  REBALANCE COMPLETE');
   console.log('========================================');
-  console.log(`Success: ${successCount}/${items.length}`);
-  console.log(`Failed:  ${failCount}/${items.length}`);
-  console.log(`Total WETH swapped back: ${formatUnits(totalSwapEth, 18)}`);
+  console.log(`Success: ${successCount}/${walletDataList.length}`);
+  console.log(`Failed:  ${walletDataList.length - successCount}/${walletDataList.length}`);
   console.log('');
 }
 
-runRebalance().catch(error => {
+const commands: Record<string, () => Promise<void>> = {
+  plan: runPlan,
+  execute: runExecute,
+};
+
+if (!commands[COMMAND]) {
+  console.error('Usage: npx tsx backend/rebalance.ts <plan|execute> [options] (see header)');
+  process.exit(1);
+}
+
+commands[COMMAND]().catch(error => {
   console.error('Rebalance failed:', error);
   process.exit(1);
 });
@@ -0,0 +1,28 @@
+// Record live on-chain sentiment inputs as a fixture for test-sentiment-index.ts
+// Run with: npx tsx record-sentiment-fixture.ts <name> ["description"]
+
+import { writeFileSync } from 'fs';
+import { readSentimentInputs } from './onchain-sentiment';
+import { calculateSentimentIndex } from './sentiment-index';
+
+const name = process.argv[2];
+if (!name) {
+  console.error('Usage: npx tsx record-sentiment-fixture.ts <name> ["description"]');
+  process.exit(1);
+}
+
+const inputs = await readSentimentInputs();
+const { score, components } = calculateSentimentIndex(inputs);
+const path = new URL(`./fixtures/sentiment/${name}.json`, import.meta.url);
+
+writeFileSync(path, JSON.stringify({
+  description: process.argv[3] || `Recorded ${new Date().toISOString()}`,
+  source: `Base mainnet, recorded ${new Date().toISOString()}`,
+  inputs,
+  expected: {
+    score,
+    components: Object.fromEntries(Object.entries(components as Record<string, number>).map(([k, v]) => [k, Math.round(v * 100) / 100])),
+  },
+}, null, 2) + '\n');
+
+console.log(`Recorded ${name}: score ${score}`, components);
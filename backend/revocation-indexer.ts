@@ -0,0 +1,175 @@
+// ============ REVOCATION INDEXER ============
+// Follows the DelegationManager's DisabledDelegation / EnabledDelegation events and
+// marks delegations rows revoked (revoked_at) while any delegation they redeem is
+// disabled, so getActiveDelegations never hands them to a run. The last indexed block is
+// kept in indexer_cursors; a re-run resumes after it.
+
+import { type Hex } from 'viem';
+import {
+  ADDRESSES,
+  DB_RETRY_CONFIG,
+  REVOCATION_INITIAL_LOOKBACK_BLOCKS,
+  REVOCATION_LOG_CHUNK_BLOCKS,
+  REVOCATION_START_BLOCK,
+  delegationManagerAbi,
+  type DelegationRecord,
+} from './config';
+import { withRetry } from './error-handler';
+import { publicClient, supabase } from './clients';
+import { getDelegationHashes } from './delegation-scopes';
+
+const CURSOR_NAME = 'delegation_revocations';
+
+export interface RevocationEvent {
+  kind: 'DisabledDelegation' | 'EnabledDelegation';
+  delegationHash: string; // Lowercase
+  delegator: string; // Lowercase smart account
+  blockNumber: bigint;
+  transactionHash: string;
+}
+
+async function dbQuery<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+  const { result, error, attempts } = await withRetry(fn, { ...DB_RETRY_CONFIG, operation });
+  if (error) {
+    throw new Error(`[Revocations] ${operation} failed after ${attempts} attempts: ${error.message}`);
+  }
+  return result as T;
+}
+
+async function getCursor(): Promise<bigint | null> {
+  return dbQuery('getCursor', async () => {
+    const { data, error } = await supabase
+      .from('indexer_cursors')
+      .select('last_block')
+      .eq('name', CURSOR_NAME)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? BigInt(data.last_block) : null;
+  });
+}
+
+async function saveCursor(block: bigint): Promise<void> {
+  await dbQuery('saveCursor', async () => {
+    const { error } = await supabase
+      .from('indexer_cursors')
+      .upsert({ name: CURSOR_NAME, last_block: block.toString(), updated_at: new Date().toISOString() });
+    if (error) throw error;
+  });
+}
+
+/**
+ * DisabledDelegation / EnabledDelegation events in [fromBlock, toBlock], oldest first
+ */
+export async function fetchRevocationEvents(fromBlock: bigint, toBlock: bigint): Promise<RevocationEvent[]> {
+  const logs: {
+    eventName: string;
+    args: { delegationHash?: Hex; delegator?: Hex };
+    blockNumber: bigint;
+    logIndex: number;
+    transactionHash: Hex;
+  }[] = await publicClient.getContractEvents({
+    address: ADDRESSES.DELEGATION_MANAGER,
+    abi: delegationManagerAbi,
+    fromBlock,
+    toBlock,
+  });
+  return logs
+    .filter(log => log.eventName === 'DisabledDelegation' || log.eventName === 'EnabledDelegation')
+    .sort((a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex)
+    .map(log => ({
+      kind: log.eventName as RevocationEvent['kind'],
+      delegationHash: log.args.delegationHash!.toLowerCase(),
+      delegator: log.args.delegator!.toLowerCase(),
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    }));
+}
+
+/**
+ * First of the hashes the DelegationManager has disabled, or null if none is
+ */
+async function findDisabledHash(hashes: string[]): Promise<string | null> {
+  for (const hash of hashes) {
+    const disabled = await publicClient.readContract({
+      address: ADDRESSES.DELEGATION_MANAGER,
+      abi: delegationManagerAbi,
+      functionName: 'disabledDelegations',
+      args: [hash as Hex],
+    });
+    if (disabled) return hash;
+  }
+  return null;
+}
+
+/**
+ * Re-derive a row's revoked state from the DelegationManager, for rows that redeem the
+ * event's delegation. Reading the current state (rather than applying the event) keeps a
+ * row revoked while another of its delegations is still disabled. Returns rows changed.
+ */
+async function applyRevocationEvent(event: RevocationEvent): Promise<number> {
+  const rows: DelegationRecord[] = await dbQuery('findDelegator', async () => {
+    const { data, error } = await supabase
+      .from('delegations')
+      .select('*')
+      .ilike('smart_account_address', event.delegator);
+    if (error) throw error;
+    return data || [];
+  });
+
+  let changed = 0;
+  for (const row of rows) {
+    let hashes: string[];
+    try {
+      hashes = getDelegationHashes(row);
+    } catch (error: any) {
+      console.warn(`[Revocations] Skipping ${row.user_address}: ${error?.message}`);
+      continue;
+    }
+    if (!hashes.includes(event.delegationHash)) continue;
+
+    const disabledHash = await findDisabledHash(hashes);
+    if (disabledHash === (row.revoked_delegation_hash ?? null)) continue;
+
+    await dbQuery('markRevocation', async () => {
+      const { error } = await supabase
+        .from('delegations')
+        .update(disabledHash
+          ? { revoked_at: new Date().toISOString(), revoked_delegation_hash: disabledHash, revoked_tx_hash: event.transactionHash }
+          : { revoked_at: null, revoked_delegation_hash: null, revoked_tx_hash: null })
+        .eq('id', row.id);
+      if (error) throw error;
+    });
+    console.log(`[Revocations] ${row.user_address}: ${disabledHash ? `revoked (${disabledHash.slice(0, 10)}…)` : 're-enabled'} in ${event.transactionHash}`);
+    changed++;
+  }
+  return changed;
+}
+
+/**
+ * Index events from the cursor (or REVOCATION_START_BLOCK / a week back on first run) to
+ * the chain head, in REVOCATION_LOG_CHUNK_BLOCKS ranges, saving the cursor after each.
+ * Returns the number of delegations rows whose revoked state changed.
+ */
+export async function syncRevocations(): Promise<number> {
+  const head = await publicClient.getBlockNumber();
+  const cursor = await getCursor();
+  let fromBlock = cursor !== null
+    ? cursor + 1n
+    : REVOCATION_START_BLOCK ?? (head > REVOCATION_INITIAL_LOOKBACK_BLOCKS ? head - REVOCATION_INITIAL_LOOKBACK_BLOCKS : 0n);
+
+  let changed = 0;
+  let events = 0;
+  while (fromBlock <= head) {
+    const chunkEnd = fromBlock + REVOCATION_LOG_CHUNK_BLOCKS - 1n;
+    const toBlock = chunkEnd < head ? chunkEnd : head;
+    for (const event of await fetchRevocationEvents(fromBlock, toBlock)) {
+      events++;
+      changed += await applyRevocationEvent(event);
+    }
+    await saveCursor(toBlock);
+    fromBlock = toBlock + 1n;
+  }
+
+  console.log(`[Revocations] Indexed to block ${head}: ${events} events, ${changed} delegations updated`);
+  return changed;
+}
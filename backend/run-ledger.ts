@@ -0,0 +1,182 @@
+// ============ RUN LEDGER ============
+// Durable record of each scheduler tick (dca_runs, one per UTC hour) and its per-wallet
+// work items (dca_run_items, keyed by run_id + wallet, tagged with the wallet's own
+// schedule slot). A re-invoked run resumes and only processes wallets that have no
+// terminal outcome yet; a wallet settled for a slot is skipped by later ticks in that slot.
+
+import { DB_RETRY_CONFIG } from './config';
+import { withRetry } from './error-handler';
+import { supabase } from './clients';
+
+// started → approvals → swaps → retries → completed, or aborted on a fatal error
+export type RunState = 'started' | 'approvals' | 'swaps' | 'retries' | 'completed' | 'aborted';
+
+// pending = not yet settled; the others are terminal for the run
+export type RunItemStatus = 'pending' | 'success' | 'failed' | 'skipped';
+
+export interface DcaRun {
+  id: string;
+  run_date: string; // UTC date of the tick
+  run_slot: string; // Scheduler tick (UTC hour, ISO timestamp)
+  state: RunState;
+  fg_value: number;
+  fg_classification: string;
+  fg_source: string;
+  fg_history: number[];
+}
+
+export interface RunItem {
+  delegationId: string;
+  wallet: string;
+  scheduleSlot: string; // The wallet's due slot (shared/schedule.ts formatSlot)
+}
+
+/**
+ * The run's slot: one run per scheduler tick (UTC hour)
+ */
+export function getRunSlot(date: Date = new Date()): string {
+  const tick = new Date(date);
+  tick.setUTCMinutes(0, 0, 0);
+  return tick.toISOString();
+}
+
+async function runQuery<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+  const { result, error, attempts } = await withRetry(fn, { ...DB_RETRY_CONFIG, operation });
+  if (error) {
+    throw new Error(`[RunLedger] ${operation} failed after ${attempts} attempts: ${error.message}`);
+  }
+  return result as T;
+}
+
+/**
+ * Most recent run for a slot, or null if none has started
+ */
+export async function findRunForSlot(slot: string): Promise<DcaRun | null> {
+  return runQuery('findRunForSlot', async () => {
+    const { data, error } = await supabase
+      .from('dca_runs')
+      .select('*')
+      .eq('run_slot', slot)
+      .order('started_at', { ascending: false })
+      .limit(1);
+    if (error) throw error;
+    return (data?.[0] as DcaRun) ?? null;
+  });
+}
+
+export async function startRun(
+  slot: string,
+  fg: { value: number; classification: string; source: string; history: number[] }
+): Promise<DcaRun> {
+  return runQuery('startRun', async () => {
+    const { data, error } = await supabase
+      .from('dca_runs')
+      .insert({
+        run_date: slot.split('T')[0],
+        run_slot: slot,
+        state: 'started',
+        fg_value: fg.value,
+        fg_classification: fg.classification,
+        fg_source: fg.source,
+        fg_history: fg.history,
+        started_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+    if (error) throw error;
+    return data as DcaRun;
+  });
+}
+
+export async function setRunState(runId: string, state: RunState, errorMessage?: string): Promise<void> {
+  console.log(`[RunLedger] Run ${runId} → ${state}`);
+  await runQuery('setRunState', async () => {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('dca_runs')
+      .update({
+        state,
+        updated_at: now,
+        ...(state === 'completed' || state === 'aborted' ? { finished_at: now } : {}),
+        ...(errorMessage ? { error: errorMessage } : {}),
+      })
+      .eq('id', runId);
+    if (error) throw error;
+  });
+}
+
+/**
+ * Create pending work items for the run; existing items (from an earlier attempt) are kept as-is
+ */
+export async function registerRunItems(runId: string, items: RunItem[]): Promise<void> {
+  if (items.length === 0) return;
+  await runQuery('registerRunItems', async () => {
+    const { error } = await supabase
+      .from('dca_run_items')
+      .upsert(
+        items.map(item => ({
+          run_id: runId,
+          wallet_address: item.wallet.toLowerCase(),
+          delegation_id: item.delegationId,
+          schedule_slot: item.scheduleSlot,
+          status: 'pending',
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'run_id,wallet_address', ignoreDuplicates: true }
+      );
+    if (error) throw error;
+  });
+}
+
+/**
+ * Wallets that already reached a terminal outcome for their schedule slot, in this run
+ * or an earlier tick of the same slot
+ */
+export async function getSettledWallets(items: RunItem[]): Promise<Set<string>> {
+  if (items.length === 0) return new Set();
+  const wanted = new Set(items.map(item => `${item.wallet.toLowerCase()}:${item.scheduleSlot}`));
+
+  return runQuery('getSettledWallets', async () => {
+    const { data, error } = await supabase
+      .from('dca_run_items')
+      .select('wallet_address, schedule_slot')
+      .in('wallet_address', items.map(item => item.wallet.toLowerCase()))
+      .in('schedule_slot', Array.from(new Set(items.map(item => item.scheduleSlot))))
+      .neq('status', 'pending');
+    if (error) throw error;
+    return new Set(
+      (data || [])
+        .filter((row: { wallet_address: string; schedule_slot: string }) => wanted.has(`${row.wallet_address}:${row.schedule_slot}`))
+        .map((row: { wallet_address: string }) => row.wallet_address)
+    );
+  });
+}
+
+export async function recordRunItemOutcome(
+  runId: string,
+  wallet: string,
+  status: Exclude<RunItemStatus, 'pending'>,
+  detail?: string | null
+): Promise<void> {
+  const { error, attempts } = await withRetry(
+    async () => {
+      const { error } = await supabase
+        .from('dca_run_items')
+        .update({
+          status,
+          detail: detail ?? null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('run_id', runId)
+        .eq('wallet_address', wallet.toLowerCase());
+      if (error) throw error;
+    },
+    { ...DB_RETRY_CONFIG, operation: 'recordRunItemOutcome' }
+  );
+
+  // Not fatal for this run, but the item stays pending and would be picked up again on resume
+  if (error) {
+    console.error(`[RunLedger] Failed to record ${status} for ${wallet} after ${attempts} attempts:`, error.message);
+  }
+}
@@ -0,0 +1,32 @@
+// Runs every self-contained test-*.ts script in turn (npm test); exits 1 if any fails
+// Run with: npx tsx run-tests.ts
+
+import { spawnSync } from 'node:child_process';
+import { readdirSync } from 'node:fs';
+
+// Scripts that need keys, a database or live RPC/API access - run them by hand
+const INTEGRATION_TESTS = new Set([
+  'test-brian-delegation.ts',
+  'test-fee-transfer.ts',
+  'test-swap.ts',
+]);
+
+const tests = readdirSync(new URL('.', import.meta.url))
+  .filter(file => /^test-.*\.ts$/.test(file) && file !== 'test-utils.ts' && !INTEGRATION_TESTS.has(file))
+  .sort();
+
+const failed: string[] = [];
+for (const test of tests) {
+  console.log(`\n▶ ${test}\n`);
+  const { status } = spawnSync(process.execPath, ['--import', 'tsx', test], {
+    cwd: new URL('.', import.meta.url),
+    stdio: 'inherit',
+  });
+  if (status !== 0) failed.push(test);
+}
+
+console.log(`\n${tests.length - failed.length}/${tests.length} test scripts passed${failed.length ? ` - failed: ${failed.join(', ')}` : ''}`);
+
+if (failed.length > 0) {
+  process.exit(1);
+}
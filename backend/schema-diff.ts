@@ -0,0 +1,104 @@
+// ============ SCHEMA DIFF ============
+// Pure comparison of two schema_snapshot() results (see the schema snapshot migration).
+// Fetching the snapshots lives in schema-drift.ts.
+
+export interface SchemaColumn {
+  table: string;
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+}
+
+export interface SchemaObject {
+  table?: string;
+  name: string;
+  definition: string;
+}
+
+export interface SchemaSnapshot {
+  columns: SchemaColumn[];
+  indexes: SchemaObject[];
+  constraints: SchemaObject[];
+  policies: SchemaObject[];
+  rls: { table: string; enabled: boolean }[];
+  functions: SchemaObject[];
+}
+
+export interface SchemaDrift {
+  kind: 'table' | 'column' | 'index' | 'constraint' | 'policy' | 'rls' | 'function';
+  name: string;
+  issue: 'missing' | 'unexpected' | 'changed';
+  expected?: string;
+  actual?: string;
+}
+
+function describeColumn(column: SchemaColumn): string {
+  return `${column.type}${column.nullable ? '' : ' NOT NULL'}${column.default !== null ? ` DEFAULT ${column.default}` : ''}`;
+}
+
+function compare(
+  kind: SchemaDrift['kind'],
+  expected: Map<string, string>,
+  actual: Map<string, string>,
+  drift: SchemaDrift[]
+) {
+  for (const [name, definition] of expected) {
+    const live = actual.get(name);
+    if (live === undefined) {
+      drift.push({ kind, name, issue: 'missing', expected: definition });
+    } else if (live !== definition) {
+      drift.push({ kind, name, issue: 'changed', expected: definition, actual: live });
+    }
+  }
+  for (const [name, definition] of actual) {
+    if (!expected.has(name)) {
+      drift.push({ kind, name, issue: 'unexpected', actual: definition });
+    }
+  }
+}
+
+function keyed(objects: SchemaObject[]): Map<string, string> {
+  return new Map(objects.map(o => [o.table ? `${o.table}.${o.name}` : o.name, o.definition]));
+}
+
+/**
+ * Everything in `expected` (a database built from the migrations) that the `actual`
+ * database lacks or defines differently, plus what `actual` has that the migrations don't.
+ * Columns of missing or unexpected tables are reported once, as the table.
+ */
+export function diffSchemas(expected: SchemaSnapshot, actual: SchemaSnapshot): SchemaDrift[] {
+  const drift: SchemaDrift[] = [];
+
+  const expectedTables = new Set(expected.columns.map(c => c.table));
+  const actualTables = new Set(actual.columns.map(c => c.table));
+  for (const table of expectedTables) {
+    if (!actualTables.has(table)) drift.push({ kind: 'table', name: table, issue: 'missing' });
+  }
+  for (const table of actualTables) {
+    if (!expectedTables.has(table)) drift.push({ kind: 'table', name: table, issue: 'unexpected' });
+  }
+
+  const sharedColumns = (columns: SchemaColumn[]) => new Map(
+    columns
+      .filter(c => expectedTables.has(c.table) && actualTables.has(c.table))
+      .map(c => [`${c.table}.${c.name}`, describeColumn(c)])
+  );
+  compare('column', sharedColumns(expected.columns), sharedColumns(actual.columns), drift);
+
+  const sharedObjects = (objects: SchemaObject[]) =>
+    objects.filter(o => !o.table || (expectedTables.has(o.table) && actualTables.has(o.table)));
+  compare('index', keyed(sharedObjects(expected.indexes)), keyed(sharedObjects(actual.indexes)), drift);
+  compare('constraint', keyed(sharedObjects(expected.constraints)), keyed(sharedObjects(actual.constraints)), drift);
+  compare('policy', keyed(sharedObjects(expected.policies)), keyed(sharedObjects(actual.policies)), drift);
+  compare('function', keyed(expected.functions), keyed(actual.functions), drift);
+
+  const rls = (entries: SchemaSnapshot['rls']) => new Map(
+    entries
+      .filter(r => expectedTables.has(r.table) && actualTables.has(r.table))
+      .map(r => [r.table, r.enabled ? 'enabled' : 'disabled'])
+  );
+  compare('rls', rls(expected.rls), rls(actual.rls), drift);
+
+  return drift;
+}
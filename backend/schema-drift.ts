@@ -0,0 +1,63 @@
+/**
+ * SCHEMA DRIFT CHECK
+ *
+ * Compares the live database against a reference database built from supabase/migrations
+ * (tables, columns, indexes, constraints, RLS, policies, functions). Any difference means
+ * either a migration was never applied or someone changed the live schema by hand.
+ *
+ * Usage:
+ *   # Reference: a local stack built from the migrations
+ *   npx supabase start && npx supabase db reset
+ *   REFERENCE_SUPABASE_URL=http://127.0.0.1:54321 REFERENCE_SUPABASE_SERVICE_KEY=<local service_role key> \
+ *     npx tsx backend/schema-drift.ts
+ *
+ * Live credentials come from SUPABASE_URL / SUPABASE_SERVICE_KEY. Exits 1 on drift.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { diffSchemas, type SchemaColumn, type SchemaDrift, type SchemaSnapshot } from './schema-diff';
+
+async function fetchSnapshot(label: string, url: string | undefined, key: string | undefined): Promise<SchemaSnapshot> {
+  if (!url || !key) {
+    throw new Error(`Missing ${label} Supabase URL or service key`);
+  }
+  const client = createClient(url, key);
+  const { data, error } = await client.rpc('schema_snapshot');
+  if (error) {
+    throw new Error(`${label} schema_snapshot() failed: ${error.message} - is the schema snapshot migration applied?`);
+  }
+  return data as SchemaSnapshot;
+}
+
+async function main() {
+  console.log('========================================');
+  console.log('  Schema Drift Check');
+  console.log('========================================');
+
+  const reference = await fetchSnapshot('reference', process.env.REFERENCE_SUPABASE_URL, process.env.REFERENCE_SUPABASE_SERVICE_KEY);
+  const live = await fetchSnapshot('live', process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
+
+  const tables = new Set(reference.columns.map((c: SchemaColumn) => c.table));
+  console.log(`Reference: ${tables.size} tables, ${reference.columns.length} columns, ${reference.policies.length} policies`);
+
+  const drift = diffSchemas(reference, live);
+  if (drift.length === 0) {
+    console.log('\n✅ Live schema matches the migrations');
+    return;
+  }
+
+  console.log(`\n❌ ${drift.length} difference(s):`);
+  for (const item of drift as SchemaDrift[]) {
+    const detail = item.issue === 'changed'
+      ? `\n      expected: ${item.expected}\n      live:     ${item.actual}`
+      : '';
+    const label = item.issue === 'missing' ? 'missing in live' : item.issue === 'unexpected' ? 'not in migrations' : 'changed';
+    console.log(`  - ${item.kind} ${item.name}: ${label}${detail}`);
+  }
+  process.exit(1);
+}
+
+main().catch((error) => {
+  console.error('Schema drift check failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
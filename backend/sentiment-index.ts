@@ -0,0 +1,121 @@
+// ============ ON-CHAIN SENTIMENT INDEX ============
+// Self-computed 0-100 Fear & Greed score from data we can read on Base ourselves.
+// Pure scoring only - reading the inputs lives in onchain-sentiment.ts.
+//
+// Components (each scored 0 = fear ... 100 = greed, then weighted):
+//   momentum    35%  14-day ETH return: -20% → 0, +20% → 100
+//   volatility  25%  7-day vs 30-day realized vol ratio: 2.0× → 0, 0.5× → 100 (calm = greed)
+//   usdcFlows   20%  7-day change in Base USDC supply: -5% → 0, +5% → 100 (new buying power)
+//   leverage    20%  Aave USDC variable borrow APR: 2% → 0, 12% → 100 (funding-rate proxy:
+//                    borrowing stables to go long pushes the rate up)
+
+export const SENTIMENT_WEIGHTS = {
+  momentum: 0.35,
+  volatility: 0.25,
+  usdcFlows: 0.20,
+  leverage: 0.20,
+};
+
+export const MOMENTUM_DAYS = 14;
+export const SHORT_VOL_DAYS = 7;
+export const LONG_VOL_DAYS = 30;
+export const FLOW_DAYS = 7;
+
+const MOMENTUM_RANGE = { fear: -0.20, greed: 0.20 };
+const VOL_RATIO_RANGE = { fear: 2.0, greed: 0.5 };
+const USDC_FLOW_RANGE = { fear: -0.05, greed: 0.05 };
+const BORROW_APR_RANGE = { fear: 0.02, greed: 0.12 };
+
+export interface SentimentInputs {
+  ethPrices: number[];   // Daily ETH/USD, oldest first (at least LONG_VOL_DAYS + 1 values)
+  usdcSupply: number[];  // Daily Base USDC total supply, oldest first (at least FLOW_DAYS + 1 values)
+  usdcBorrowApr: number; // Current Aave USDC variable borrow rate (0.05 = 5%)
+}
+
+export interface SentimentComponents {
+  momentum: number;
+  volatility: number;
+  usdcFlows: number;
+  leverage: number;
+}
+
+export interface SentimentResult {
+  score: number; // 0-100, rounded
+  components: SentimentComponents;
+}
+
+/**
+ * Map a raw value onto 0-100 where `fear` scores 0 and `greed` scores 100 (clamped)
+ */
+function scale(value: number, range: { fear: number; greed: number }): number {
+  const score = (value - range.fear) / (range.greed - range.fear) * 100;
+  return Math.max(0, Math.min(100, score));
+}
+
+function logReturns(prices: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    returns.push(Math.log(prices[i] / prices[i - 1]));
+  }
+  return returns;
+}
+
+function stdDev(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+export function calculateMomentumScore(ethPrices: number[]): number {
+  const latest = ethPrices[ethPrices.length - 1];
+  const past = ethPrices[ethPrices.length - 1 - MOMENTUM_DAYS];
+  return scale(latest / past - 1, MOMENTUM_RANGE);
+}
+
+export function calculateVolatilityScore(ethPrices: number[]): number {
+  const returns = logReturns(ethPrices);
+  const shortVol = stdDev(returns.slice(-SHORT_VOL_DAYS));
+  const longVol = stdDev(returns.slice(-LONG_VOL_DAYS));
+  if (longVol === 0) return 50;
+  return scale(shortVol / longVol, VOL_RATIO_RANGE);
+}
+
+export function calculateUsdcFlowScore(usdcSupply: number[]): number {
+  const latest = usdcSupply[usdcSupply.length - 1];
+  const past = usdcSupply[usdcSupply.length - 1 - FLOW_DAYS];
+  return scale(latest / past - 1, USDC_FLOW_RANGE);
+}
+
+export function calculateLeverageScore(usdcBorrowApr: number): number {
+  return scale(usdcBorrowApr, BORROW_APR_RANGE);
+}
+
+/**
+ * Weighted 0-100 sentiment score. Throws if the series are too short to score.
+ */
+export function calculateSentimentIndex(inputs: SentimentInputs): SentimentResult {
+  if (inputs.ethPrices.length < LONG_VOL_DAYS + 1) {
+    throw new Error(`Need ${LONG_VOL_DAYS + 1} daily ETH prices, got ${inputs.ethPrices.length}`);
+  }
+  if (inputs.usdcSupply.length < FLOW_DAYS + 1) {
+    throw new Error(`Need ${FLOW_DAYS + 1} daily USDC supply values, got ${inputs.usdcSupply.length}`);
+  }
+  if ([...inputs.ethPrices, ...inputs.usdcSupply].some(v => !Number.isFinite(v) || v <= 0)) {
+    throw new Error('Sentiment inputs must be positive numbers');
+  }
+
+  const components: SentimentComponents = {
+    momentum: calculateMomentumScore(inputs.ethPrices),
+    volatility: calculateVolatilityScore(inputs.ethPrices),
+    usdcFlows: calculateUsdcFlowScore(inputs.usdcSupply),
+    leverage: calculateLeverageScore(inputs.usdcBorrowApr),
+  };
+
+  const score =
+    components.momentum * SENTIMENT_WEIGHTS.momentum +
+    components.volatility * SENTIMENT_WEIGHTS.volatility +
+    components.usdcFlows * SENTIMENT_WEIGHTS.usdcFlows +
+    components.leverage * SENTIMENT_WEIGHTS.leverage;
+
+  return { score: Math.round(score), components };
+}
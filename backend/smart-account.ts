@@ -1,11 +1,12 @@
 // ============ SMART ACCOUNT SETUP & DEPLOYMENT ============
 
 import { type Address, type Hex } from 'viem';
-import { toMetaMaskSmartAccount, Implementation } from '@metamask/smart-accounts-kit';
+import { toMetaMaskSmartAccount, Implementation, type Delegation } from '@metamask/smart-accounts-kit';
 import { getCounterfactualAccountData } from '@metamask/smart-accounts-kit/utils';
 import { DELEGATOR_CONTRACTS } from '@metamask/delegation-deployments';
 import { sleep } from './config';
 import type { DelegationRecord } from './config';
+import { buildMinReceivedDelegation, type MinReceived } from './delegation-scopes';
 import { publicClient, walletClient, backendAccount } from './clients';
 
 // Get Base v1.3.0 contracts
@@ -47,6 +48,17 @@ export async function initBackendSmartAccount() {
   return _backendSmartAccount;
 }
 
+/**
+ * The backend smart account's signed minimum-received redelegation of a wallet's swap
+ * delegation (see buildMinReceivedDelegation), redeemed ahead of it for one swap
+ */
+export async function signMinReceivedDelegation(swapDelegation: any, minReceived: MinReceived): Promise<Delegation> {
+  const backendSmartAccount = await initBackendSmartAccount();
+  const delegation = buildMinReceivedDelegation(swapDelegation, minReceived);
+  const signature = await backendSmartAccount.signDelegation({ delegation });
+  return { ...delegation, signature };
+}
+
 export async function ensureUserSmartAccountDeployed(
   smartAccountAddress: Address,
   userEOA: Address
@@ -0,0 +1,67 @@
+/**
+ * BALANCE SNAPSHOT JOB
+ *
+ * Records every active smart account's balances into balance_history. The DCA executor
+ * snapshots after each run; this script is the standalone schedule and the backfill.
+ *
+ * Usage:
+ *   npx tsx backend/snapshot-balances.ts [--wallet=0x...]
+ *   npx tsx backend/snapshot-balances.ts backfill --from=2026-01-01 [--to=2026-10-18] \
+ *       [--eth-prices=fixtures/eth-usd.csv] [--btc-prices=fixtures/btc-usd.csv] [--wallet=0x...]
+ *
+ * Price archives are daily `date,close` CSVs (same format as backtest.ts). Days missing
+ * from the archive are valued at that day's swap price, or skipped if there was none.
+ */
+
+import { readFileSync } from 'fs';
+import { parsePriceCsv } from './backtest-engine';
+import { backfillBalanceHistory, snapshotBalances } from './balance-snapshots';
+
+const COMMAND = process.argv[2]?.startsWith('--') ? undefined : process.argv[2];
+
+function getArg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+}
+
+function readPrices(path: string | undefined): Map<string, number> {
+  return path ? parsePriceCsv(readFileSync(path, 'utf8')) : new Map();
+}
+
+async function main() {
+  const wallet = getArg('wallet')?.toLowerCase();
+
+  if (!COMMAND) {
+    const written = await snapshotBalances('scheduled', wallet);
+    if (written === 0) process.exit(1);
+    return;
+  }
+
+  if (COMMAND !== 'backfill') {
+    throw new Error(`Unknown command "${COMMAND}" - expected no command or "backfill"`);
+  }
+
+  const from = getArg('from');
+  if (!from || !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+    throw new Error('backfill needs --from=YYYY-MM-DD');
+  }
+  const to = getArg('to') ?? new Date().toISOString().slice(0, 10);
+
+  console.log('========================================');
+  console.log('  Balance History Backfill');
+  console.log('========================================');
+  console.log(`Window: ${from} → ${to}`);
+
+  const written = await backfillBalanceHistory({
+    from,
+    to,
+    ethPrices: readPrices(getArg('eth-prices')),
+    btcPrices: readPrices(getArg('btc-prices')),
+    targetWallet: wallet,
+  });
+  console.log(`\n✅ Wrote ${written} daily snapshots`);
+}
+
+main().catch((error) => {
+  console.error('Balance snapshot failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
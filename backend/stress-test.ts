@@ -4,7 +4,7 @@
  *
  * Tests:
  * - Alchemy RPC (balance checks)
- * - CoinGecko API (price fetch)
+ * - Chainlink ETH/USD feed (price reads over the RPC)
  * - Pimlico bundler (UserOp gas estimation - no submission)
  * - Uniswap Trading API (quote fetching - no execution)
  *
@@ -18,6 +18,7 @@ import { base } from 'viem/chains';
 import { createClient } from '@supabase/supabase-js';
 import { createBundlerClient, type UserOperation } from 'viem/account-abstraction';
 import { createPimlicoClient } from 'permissionless/clients/pimlico';
+import { readChainlinkPrice } from '../shared/prices';
 import { readFileSync } from 'fs';
 import { createExecution, ExecutionMode } from '@metamask/smart-accounts-kit';
 import { DelegationManager } from '@metamask/smart-accounts-kit/contracts';
@@ -391,13 +392,13 @@ async function checkBalancesBatched(wallets: WalletData[]): Promise<PhaseResult>
 }
 
 // ============================================
-// PHASE 2: COINGECKO API PRICE FETCH (BATCHED)
+// PHASE 2: CHAINLINK PRICE READ (BATCHED)
 // ============================================
 
 async function fetchPricesBatched(wallets: WalletData[]): Promise<PhaseResult> {
   console.log('\n========================================');
-  console.log(`  PHASE 2: CoinGecko API Price Fetch`);
-  console.log(`  Fetching ETH price ${wallets.length} times with batching...`);
+  console.log(`  PHASE 2: Chainlink Price Read`);
+  console.log(`  Reading the ETH/USD feed ${wallets.length} times with batching...`);
   console.log('========================================\n');
 
   const startTime = Date.now();
@@ -411,21 +412,10 @@ async function fetchPricesBatched(wallets: WalletData[]): Promise<PhaseResult> {
     const promises = batch.map(async (wallet) => {
       const callStart = Date.now();
       try {
-        const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd');
+        // Uncached read, so every call hits the RPC like a run's price reads
+        const { priceUsd: price } = await readChainlinkPrice(publicClient, 'ETH');
         const duration = Date.now() - callStart;
 
-        if (response.status === 429) {
-          rateLimitHits++;
-          throw new Error(`Rate limited (429)`);
-        }
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const data = await response.json();
-        const price = data.ethereum?.usd || 0;
-
         return {
           wallet: wallet.smartAccountAddress,
           iteration: wallet.iteration,
@@ -492,7 +482,7 @@ async function fetchPricesBatched(wallets: WalletData[]): Promise<PhaseResult> {
     if (r.error) {
       console.log(`  ${r.wallet.slice(0, 10)}... (iter ${r.iteration}): ERROR - ${r.error.slice(0, 50)}`);
     } else {
-      console.log(`  ${r.wallet.slice(0, 10)}... (iter ${r.iteration}): ETH=$${r.price} (${r.duration}ms)`);
+      console.log(`  ${r.wallet.slice(0, 10)}... (iter ${r.iteration}): ETH=$${r.price.toFixed(2)} (${r.duration}ms)`);
     }
   });
 
@@ -504,7 +494,7 @@ async function fetchPricesBatched(wallets: WalletData[]): Promise<PhaseResult> {
   console.log(`  Avg time/call: ${avgTimePerCall.toFixed(0)}ms`);
 
   return {
-    phase: 'CoinGecko API Price Fetch',
+    phase: 'Chainlink Price Read',
     totalTime,
     successCount,
     errorCount,
@@ -983,7 +973,7 @@ async function runStressTest() {
   // Small delay between phases
   await sleep(2000);
 
-  // Phase 2: CoinGecko API Price Fetch
+  // Phase 2: Chainlink Price Read
   phases.push(await fetchPricesBatched(simulatedWallets));
 
   // Small delay between phases
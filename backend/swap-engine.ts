@@ -9,27 +9,29 @@ import {
   type Hex,
 } from 'viem';
 import { base } from 'viem/chains';
-import { createExecution, ExecutionMode } from '@metamask/smart-accounts-kit';
-import { DelegationManager } from '@metamask/smart-accounts-kit/contracts';
+import { getUserOperationHash } from 'viem/account-abstraction';
 import { encodeNonce } from 'permissionless/utils';
 import {
-  CHAIN_ID,
-  TRADING_API,
   ADDRESSES,
   SLIPPAGE_LARGE_BPS,
   MIN_DELEGATION_VALUE_USD,
   MIN_WALLET_VALUE_USD,
   QUOTE_VALIDITY_MS,
-  MAX_QUOTES_PER_CYCLE,
   OPTIMAL_BATCH_SIZE,
   BATCH_DELAY_MS,
   MIN_SWAP_AMOUNT,
+  PRICE_GUARD_MAX_DEVIATION_BPS,
   sleep,
-  validateSwapQuote,
   calculateFee,
   calculateSwapValueUsd,
   getSlippageBpsForSwap,
   calculateMinAmountOut,
+  calculateWalletSwapAmount,
+  calculateBasketSellAmounts,
+  getMaxSellAmount,
+  getMinSwapAmount,
+  getSellableEthBalance,
+  calculateWrapAmount,
   isPermanentFailure,
   type DelegationRecord,
   type DCADecision,
@@ -37,120 +39,115 @@ import {
   type SimulationResult,
   type WalletData,
   type QuoteWithTimestamp,
+  type SwapApproval,
+  type SwapVenue,
   type UserOpBatchItem,
   type BatchSendResult,
   type PreparedSwap,
+  type PrepareSwapError,
+  type BuildUserOpError,
   type ErrorType,
 } from './config';
-import { classifyError, type ClassifiedError, withRetry, decodeErrorSelector } from './error-handler';
-import { publicClient, walletClient, bundlerClient, pimlicoPaymasterClient, getETHBalance, getUSDCBalance, getCBBTCBalance } from './clients';
-import { initBackendSmartAccount } from './smart-account';
+import { type ClassifiedError, withRetry, decodeErrorSelector } from './error-handler';
+import { publicClient, bundlerClient, pimlicoPaymasterClient, getETHBalance, getUSDCBalance, getWETHBalance } from './clients';
+import { getMaxWrapAmount } from './delegation-validator';
+import { initBackendSmartAccount, signMinReceivedDelegation } from './smart-account';
+import { claimExecutionKey, getExecutionKey, markExecutionSubmitted } from './execution-keys';
+import { encodeSwapRedemption, type SwapFee } from './fee-collector';
+import { getRedemptionDelegations, type MinReceived } from './delegation-scopes';
+import { collectQuotes, getDelegationVenues, type QuoteOutcome } from './quote-providers';
+import { getNetAmountOut, selectBestQuote, type GasPricing, type ProviderQuote } from './quote-selection';
+import { PriceGuardError, checkPriceDeviation, getImpliedPriceUsd } from './price-guard';
+import { getReferencePrices, getUsdPrice, type PriceReading } from '../shared/prices';
+import { findTokenByAddress, getBasket, getTargetToken, splitByWeight, type BasketAllocation, type TargetBasket } from '../shared/tokens';
 
 // ============ TARGET TOKEN HELPERS ============
+// Registry lookups (shared/tokens.ts). Unknown or missing assets resolve to ETH (WETH)
+// for backward compatibility.
 
 /**
- * Get the target token address based on user's preference
- * cbBTC uses 8 decimals (not 18 like WETH/ETH)
+ * Get the target token address for a basket asset
  */
 export function getTargetTokenAddress(targetAsset?: string): Address {
-  if (targetAsset?.toLowerCase() === 'cbbtc') {
-    return ADDRESSES.cbBTC;
-  }
-  // Default to WETH for backward compatibility
-  return ADDRESSES.WETH;
+  return getTargetToken(targetAsset).address as Address;
 }
 
 /**
- * Get token decimals for the target asset
- * cbBTC uses 8 decimals, everything else uses 18
+ * Get token decimals for a basket asset (cbBTC uses 8, not 18 like WETH/ETH)
  */
 export function getTargetTokenDecimals(targetAsset?: string): number {
-  if (targetAsset?.toLowerCase() === 'cbbtc') {
-    return 8;
-  }
-  return 18;
+  return getTargetToken(targetAsset).decimals;
 }
 
 /**
  * Get the token symbol for display
  */
 export function getTargetTokenSymbol(targetAsset?: string): string {
-  if (targetAsset?.toLowerCase() === 'cbbtc') {
-    return 'cbBTC';
-  }
-  return 'ETH';
+  return getTargetToken(targetAsset).symbol;
 }
 
-// ============ ETH PRICE CACHE ============
-
-// Cached ETH price derived from Uniswap quote
-let _cachedEthPriceUsd: number | null = null;
-let _ethPriceCacheTimestamp: number | null = null;
-const ETH_PRICE_CACHE_TTL_MS = 60000; // 60 seconds cache TTL
+/**
+ * The delegation's target basket - a single-asset basket for delegations without one
+ */
+export function getDelegationBasket(delegation: DelegationRecord): TargetBasket {
+  return getBasket(delegation.target_basket, delegation.target_asset);
+}
 
-// Rate limiting counter
-let _quoteCounter = 0;
+/**
+ * The signed delegation stored in delegation_data (JSON string or JSONB)
+ */
+function parseDelegationData(delegation: DelegationRecord): any {
+  return typeof delegation.delegation_data === 'string'
+    ? JSON.parse(delegation.delegation_data)
+    : delegation.delegation_data;
+}
 
-export function getCachedEthPrice(): number | null {
-  return _cachedEthPriceUsd;
+/**
+ * A wallet swaps once per basket asset, so (wallet, asset) identifies a swap
+ */
+export function getSwapId(walletAddress: string, asset: string): string {
+  return `${walletAddress.toLowerCase()}:${asset}`;
 }
 
-export async function getETHPriceFromUniswap(): Promise<number> {
-  const now = Date.now();
-  if (
-    _cachedEthPriceUsd !== null &&
-    _ethPriceCacheTimestamp !== null &&
-    (now - _ethPriceCacheTimestamp) < ETH_PRICE_CACHE_TTL_MS
-  ) {
-    return _cachedEthPriceUsd;
+/**
+ * What a wallet holds of a basket asset. The ETH leg counts native ETH and WETH:
+ * buys deliver WETH, deposits usually arrive as native ETH.
+ */
+export async function getTargetBalance(targetAsset: string, owner: Address): Promise<bigint> {
+  const token = getTargetToken(targetAsset);
+  if (token.symbol === 'ETH') {
+    const [native, weth] = await Promise.all([getETHBalance(owner), getWETHBalance(owner)]);
+    return native + weth;
   }
+  return publicClient.readContract({
+    address: token.address as Address,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: [owner],
+  });
+}
 
-  try {
-    const quoteRes = await fetch(`${TRADING_API}/quote`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': process.env.UNISWAP_API_KEY!,
-      },
-      body: JSON.stringify({
-        swapper: '0x0000000000000000000000000000000000000000',
-        tokenIn: ADDRESSES.USDC,
-        tokenOut: ADDRESSES.WETH,
-        tokenInChainId: CHAIN_ID,
-        tokenOutChainId: CHAIN_ID,
-        amount: '1000000',
-        type: 'EXACT_INPUT',
-        slippageTolerance: 0.5,
-      }),
-    });
-
-    if (!quoteRes.ok) {
-      throw new Error(`Quote API returned ${quoteRes.status}`);
-    }
-
-    const quoteData = await quoteRes.json();
-    const wethReceived = BigInt(quoteData.quote?.output?.amount || '0');
+/**
+ * Token a swap spends - and the token its fee is taken in
+ */
+export function getSwapTokenIn(targetAsset: string | undefined, isBuy: boolean): Address {
+  return isBuy ? ADDRESSES.USDC : getTargetTokenAddress(targetAsset);
+}
 
-    if (wethReceived === 0n) {
-      throw new Error('Invalid quote response');
-    }
+// ============ USD PRICES ============
+// From the shared price service (shared/prices.ts): Chainlink, else the pool TWAP, cached
+// for 30s. There is no hardcoded fallback - without a fresh price the caller aborts.
 
-    const ethPrice = Number(1e18) / Number(wethReceived);
-    _cachedEthPriceUsd = ethPrice;
-    _ethPriceCacheTimestamp = now;
+/**
+ * USD price of a basket asset; throws if neither of its feeds has a fresh price
+ */
+export async function getTargetUsdPrice(targetAsset: string): Promise<number> {
+  const reading = await getUsdPrice(publicClient, getTargetToken(targetAsset).symbol);
+  return reading.priceUsd;
+}
 
-    console.log(`[ETH Price] Derived from Uniswap: $${ethPrice.toFixed(2)}`);
-    return ethPrice;
-  } catch (error) {
-    console.error('[ETH Price] Failed to get price from Uniswap:', error);
-    if (_cachedEthPriceUsd !== null) {
-      console.log(`[ETH Price] Using stale cached price: $${_cachedEthPriceUsd.toFixed(2)}`);
-      return _cachedEthPriceUsd;
-    }
-    _cachedEthPriceUsd = 2500;
-    _ethPriceCacheTimestamp = now;
-    return 2500;
-  }
+export async function getETHPriceUsd(): Promise<number> {
+  return getTargetUsdPrice('ETH');
 }
 
 // ============ SIMULATION ============
@@ -201,81 +198,123 @@ async function simulateSwap(
 
 export async function runDryRunSimulation(
   delegations: DelegationRecord[],
-  decision: DCADecision
+  decisions: Map<string, DCADecision>
 ): Promise<SimulationResult[]> {
   console.log('\n========================================');
   console.log('  DRY-RUN SIMULATION MODE');
   console.log('========================================');
   console.log('Simulating swaps without executing...\n');
 
-  const ethPriceUsd = await getETHPriceFromUniswap();
-  console.log(`ETH Price: $${ethPriceUsd.toFixed(2)} (derived from Uniswap)`);
+  const ethPriceUsd = await getETHPriceUsd();
+  console.log(`ETH Price: $${ethPriceUsd.toFixed(2)} (Chainlink / pool TWAP)`);
   console.log(`Min wallet value: $${MIN_DELEGATION_VALUE_USD} (griefing protection)\n`);
 
+  // Same pricing as processSwapsParallel: every basket asset at its own feed
+  const assetPricesUsd = new Map<string, number>([['ETH', ethPriceUsd]]);
+  for (const asset of new Set(delegations.flatMap(d => getDelegationBasket(d).map((a: BasketAllocation) => a.asset)))) {
+    if (assetPricesUsd.has(asset)) continue;
+    try {
+      assetPricesUsd.set(asset, await getTargetUsdPrice(asset));
+      console.log(`${asset} Price: $${assetPricesUsd.get(asset)!.toFixed(2)}`);
+    } catch (error: any) {
+      console.error(`${asset} price unavailable: ${error?.message}`);
+    }
+  }
+
   const results: SimulationResult[] = [];
-  const isBuy = decision.action === 'buy';
 
   for (const delegation of delegations) {
     const userSmartAccount = delegation.smart_account_address as Address;
-    
+    const decision = decisions.get(delegation.id);
+    if (!decision || decision.action === 'hold') continue;
+    const isBuy = decision.action === 'buy';
+    const basket = getDelegationBasket(delegation);
+
+    const unpriced = basket.find((a: BasketAllocation) => !assetPricesUsd.has(a.asset));
+    if (unpriced) {
+      results.push({
+        wallet: userSmartAccount.slice(0, 10),
+        totalValueUsd: '0.00',
+        balance: '0',
+        amountToSwap: '0',
+        status: 'SKIP',
+        reason: `No ${unpriced.asset} price`
+      });
+      continue;
+    }
+
     const usdcBalance = await getUSDCBalance(userSmartAccount);
-    const ethBalance = await getETHBalance(userSmartAccount);
-    
+    const assetBalances = await Promise.all(basket.map((a: BasketAllocation) => getTargetBalance(a.asset, userSmartAccount)));
+
     const usdcValueUsd = Number(formatUnits(usdcBalance, 6));
-    const ethValueUsd = Number(formatUnits(ethBalance, 18)) * ethPriceUsd;
-    const totalValueUsd = usdcValueUsd + ethValueUsd;
-    
+    const assetValuesUsd: number[] = basket.map((a: BasketAllocation, i: number) =>
+      Number(formatUnits(assetBalances[i], getTargetTokenDecimals(a.asset))) * assetPricesUsd.get(a.asset)!);
+    const totalValueUsd = assetValuesUsd.reduce((sum: number, value: number) => sum + value, usdcValueUsd);
+
     if (totalValueUsd < MIN_DELEGATION_VALUE_USD) {
       results.push({
         wallet: userSmartAccount.slice(0, 10),
         totalValueUsd: totalValueUsd.toFixed(2),
-        balance: isBuy ? formatUnits(usdcBalance, 6) : formatUnits(ethBalance, 18),
+        balance: isBuy ? formatUnits(usdcBalance, 6) : formatUnits(assetBalances[0], getTargetTokenDecimals(basket[0].asset)),
         amountToSwap: '0',
         status: 'SKIP',
         reason: `Total value $${totalValueUsd.toFixed(2)} < $${MIN_DELEGATION_VALUE_USD} min (griefing protection)`
       });
       continue;
     }
-    
-    const sourceBalance = isBuy ? usdcBalance : ethBalance;
-    const sourceDecimals = isBuy ? 6 : 18;
-    const sourceSymbol = isBuy ? 'USDC' : 'ETH';
-    
-    const percentage = decision.percentage;
-    const amountToSwap = (sourceBalance * BigInt(Math.round(percentage * 100))) / 10000n;
-    
-    const minSwap = isBuy ? parseUnits('0.10', 6) : parseUnits('0.00005', 18);
-    
-    if (amountToSwap < minSwap) {
+
+    const legAmounts = isBuy
+      ? splitByWeight(calculateWalletSwapAmount(usdcBalance, decision, BigInt(delegation.max_amount_per_swap), ethPriceUsd), basket)
+      : calculateBasketSellAmounts(
+          assetBalances,
+          assetValuesUsd,
+          decision,
+          basket.map((a: BasketAllocation) => getMaxSellAmount(
+            BigInt(delegation.max_amount_per_swap),
+            assetPricesUsd.get(a.asset)!,
+            getTargetTokenDecimals(a.asset)
+          ))
+        );
+
+    for (const [i, { asset }] of basket.entries()) {
+      const sourceBalance = isBuy ? usdcBalance : assetBalances[i];
+      const sourceDecimals = isBuy ? 6 : getTargetTokenDecimals(asset);
+      const sourceSymbol = isBuy ? 'USDC' : getTargetTokenSymbol(asset);
+      const amountToSwap = legAmounts[i];
+      const minSwap = getMinSwapAmount(asset, isBuy);
+
+      if (amountToSwap < minSwap) {
+        results.push({
+          wallet: userSmartAccount.slice(0, 10),
+          asset,
+          totalValueUsd: totalValueUsd.toFixed(2),
+          balance: formatUnits(sourceBalance, sourceDecimals),
+          amountToSwap: formatUnits(amountToSwap, sourceDecimals),
+          status: 'SKIP',
+          reason: `Swap amt below min (${formatUnits(minSwap, sourceDecimals)} ${sourceSymbol})`
+        });
+        continue;
+      }
+
+      const targetToken = getTargetTokenAddress(asset);
+      const tokenIn = isBuy ? ADDRESSES.USDC : targetToken;
+      const tokenOut = isBuy ? targetToken : ADDRESSES.USDC;
+
+      const simulation = await simulateSwap(userSmartAccount, tokenIn, amountToSwap, tokenOut);
+
       results.push({
         wallet: userSmartAccount.slice(0, 10),
+        asset,
         totalValueUsd: totalValueUsd.toFixed(2),
         balance: formatUnits(sourceBalance, sourceDecimals),
         amountToSwap: formatUnits(amountToSwap, sourceDecimals),
-        status: 'SKIP',
-        reason: `Swap amt below min (${formatUnits(minSwap, sourceDecimals)} ${sourceSymbol})`
+        swapValueUsd: calculateSwapValueUsd(amountToSwap, isBuy, assetPricesUsd.get(asset)!, sourceDecimals),
+        status: simulation.success ? 'PASS' : 'FAIL',
+        reason: simulation.reason
       });
-      continue;
+
+      await sleep(200);
     }
-    
-    // Get target token based on user's preference (cbBTC or WETH)
-    const targetToken = getTargetTokenAddress(delegation.target_asset);
-    const targetSymbol = getTargetTokenSymbol(delegation.target_asset);
-    const tokenIn = isBuy ? ADDRESSES.USDC : targetToken;
-    const tokenOut = isBuy ? targetToken : ADDRESSES.USDC;
-    
-    const simulation = await simulateSwap(userSmartAccount, tokenIn, amountToSwap, tokenOut);
-    
-    results.push({
-      wallet: userSmartAccount.slice(0, 10),
-      totalValueUsd: totalValueUsd.toFixed(2),
-      balance: formatUnits(sourceBalance, sourceDecimals),
-      amountToSwap: formatUnits(amountToSwap, sourceDecimals),
-      status: simulation.success ? 'PASS' : 'FAIL',
-      reason: simulation.reason
-    });
-    
-    await sleep(200);
   }
 
   // Print results table
@@ -287,23 +326,22 @@ export async function runDryRunSimulation(
   let passCount = 0;
   let failCount = 0;
   let skipCount = 0;
-  let totalToSwap = 0;
+  let totalToSwapUsd = 0;
   
   for (const r of results) {
     const statusEmoji = r.status === 'PASS' ? '✅' : r.status === 'FAIL' ? '❌' : '⏭️';
-    console.log(`${r.wallet} | $${r.totalValueUsd.padStart(8)} | ${r.balance.padStart(10)} | ${r.amountToSwap.padStart(9)} | ${statusEmoji} ${r.status}${r.reason ? ` (${r.reason})` : ''}`);
+    console.log(`${r.wallet} | $${r.totalValueUsd.padStart(8)} | ${r.balance.padStart(10)} | ${r.amountToSwap.padStart(9)} | ${statusEmoji} ${r.status}${r.asset ? ` [${r.asset}]` : ''}${r.reason ? ` (${r.reason})` : ''}`);
     
     if (r.status === 'PASS') {
       passCount++;
-      totalToSwap += Number(r.amountToSwap);
+      totalToSwapUsd += r.swapValueUsd ?? 0;
     } else if (r.status === 'FAIL') failCount++;
     else skipCount++;
   }
   
   console.log('------------------------------------------------------------');
-  const swapSymbol = decision.action === 'buy' ? 'USDC' : 'ETH';
   console.log(`\nSUMMARY: ${passCount} PASS | ${failCount} FAIL | ${skipCount} SKIP`);
-  console.log(`Total to swap: ${totalToSwap.toFixed(6)} ${swapSymbol}`);
+  console.log(`Total to swap: $${totalToSwapUsd.toFixed(2)}`);
   
   if (failCount > 0) {
     console.log('\n⚠️ WARNING: Some wallets would FAIL - investigate before execution!');
@@ -316,131 +354,151 @@ export async function runDryRunSimulation(
 
 // ============ SWAP QUOTE ============
 
-async function getSwapQuoteInternal(
+/**
+ * Quote a swap on every venue in `venues` (see quote-providers.ts) and pick the one with
+ * the most output after gas, among the quotes the price guard accepts. Defaults to the
+ * Universal Router venues - the Trading API and its on-chain fallback - which every
+ * delegation allows. Throws PriceGuardError if the guard refuses every quote.
+ */
+export async function getSwapQuote(
   swapper: Address,
   tokenIn: Address,
   tokenOut: Address,
   amount: string,
-  slippageToleranceBps: number = SLIPPAGE_LARGE_BPS
-): Promise<QuoteWithTimestamp> {
-  _quoteCounter++;
-  if (_quoteCounter > MAX_QUOTES_PER_CYCLE) {
-    throw new Error(`Quote API rate limit exceeded: ${_quoteCounter}/${MAX_QUOTES_PER_CYCLE} quotes requested this cycle`);
+  slippageToleranceBps: number = SLIPPAGE_LARGE_BPS,
+  venues: readonly SwapVenue[] = ['uniswap-api', 'uniswap-onchain']
+): Promise<(QuoteWithTimestamp & { retryInfo: { attempts: number; lastError: string | null } }) | null> {
+  const outcomes = await collectQuotes(
+    { swapper, tokenIn, tokenOut, amount: BigInt(amount), slippageBps: slippageToleranceBps },
+    venues
+  );
+  const received = outcomes
+    .map((o: QuoteOutcome) => o.quote)
+    .filter((q: ProviderQuote | null): q is ProviderQuote => q !== null);
+
+  if (received.length === 0) {
+    const reasons = outcomes.map((o: QuoteOutcome) => `${o.venue}: ${o.error}`).join(' | ') || 'no enabled venue';
+    console.error(`Failed to get swap quote from any venue: ${reasons}`);
+    return null;
   }
 
-  const slippageTolerance = slippageToleranceBps / 100;
+  const quotes = await applyPriceGuard(tokenIn, tokenOut, BigInt(amount), received);
 
-  console.log(`[Quote API] Calling ${TRADING_API}/quote with ${slippageTolerance}% slippage...`);
-  const quoteRes = await fetch(`${TRADING_API}/quote`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': process.env.UNISWAP_API_KEY!,
-    },
-    body: JSON.stringify({
-      swapper,
-      tokenIn,
-      tokenOut,
-      tokenInChainId: CHAIN_ID,
-      tokenOutChainId: CHAIN_ID,
-      amount,
-      type: 'EXACT_INPUT',
-      slippageTolerance,
-    }),
-  });
+  const pricing = quotes.length > 1 ? await getGasPricing(tokenOut) : null;
+  const best = pricing ? selectBestQuote(quotes, pricing) ?? quotes[0] : quotes[0];
 
-  if (!quoteRes.ok) {
-    const error = await quoteRes.json().catch(() => ({ error: 'Unknown error' }));
-    const errorMsg = error.errorCode || error.error || error.message || `HTTP ${quoteRes.status}`;
-    console.error(`[Quote API] FAILED: HTTP ${quoteRes.status} - ${errorMsg}`);
-    console.error(`[Quote API] Full error response:`, JSON.stringify(error, null, 2));
-    throw new Error(`Quote API failed: ${errorMsg}`);
-  }
+  const summary = outcomes.map((o: QuoteOutcome) => !o.quote
+    ? `${o.venue}: failed`
+    : !quotes.includes(o.quote)
+    ? `${o.venue}: ${o.quote.amountOut.toString()} (price guard)`
+    : `${o.venue}: ${o.quote.amountOut.toString()}${pricing ? ` (net ${getNetAmountOut(o.quote, pricing).toString()})` : ''}`).join(' | ');
+  console.log(`[Quote] ${swapper}: routing via ${best.venue} - ${summary}`);
 
-  const quoteData = await quoteRes.json();
-  const quoteTimestamp = Date.now();
-  console.log(`[Quote API] Quote received successfully at ${quoteTimestamp}`);
-
-  const { permitData, permitTransaction, ...cleanQuote } = quoteData;
-  console.log(`[Quote API] Calling ${TRADING_API}/swap...`);
-  const swapRes = await fetch(`${TRADING_API}/swap`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': process.env.UNISWAP_API_KEY!,
+  const chosen = outcomes.find((o: QuoteOutcome) => o.venue === best.venue)!;
+  const failed = outcomes.filter((o: QuoteOutcome) => o.error !== null);
+  return {
+    quote: best.quote,
+    swap: best.swap,
+    timestamp: best.timestamp,
+    venue: best.venue,
+    amountOut: best.amountOut.toString(),
+    approval: best.approval,
+    retryInfo: {
+      attempts: chosen.attempts,
+      lastError: failed.length > 0 ? failed.map((o: QuoteOutcome) => `${o.venue}: ${o.error}`).join(' | ') : null,
     },
-    body: JSON.stringify(cleanQuote),
-  });
-
-  if (!swapRes.ok) {
-    const error = await swapRes.json().catch(() => ({ error: 'Unknown error' }));
-    const errorMsg = error.errorCode || error.error || error.message || `HTTP ${swapRes.status}`;
-    console.error(`[Quote API] Swap endpoint FAILED: HTTP ${swapRes.status} - ${errorMsg}`);
-    console.error(`[Quote API] Full error response:`, JSON.stringify(error, null, 2));
-    throw new Error(`Swap API failed: ${errorMsg}`);
-  }
-
-  const swapData = await swapRes.json();
-  
-  // H5 Fix: Validate router is in whitelist before returning
-  validateSwapQuote({ swap: swapData.swap });
-  console.log(`[Quote API] Router whitelist check passed: ${swapData.swap.to}`);
-  
-  console.log(`[Quote API] Swap data received successfully`);
-  return { quote: quoteData, swap: swapData.swap, timestamp: quoteTimestamp };
+  };
 }
 
-export async function getSwapQuote(
-  swapper: Address,
+/**
+ * Quotes whose implied price is within PRICE_GUARD_MAX_DEVIATION_BPS of every reference
+ * price of the swapped asset (price-guard.ts). Throws PriceGuardError if none is.
+ */
+async function applyPriceGuard(
   tokenIn: Address,
   tokenOut: Address,
-  amount: string,
-  slippageToleranceBps?: number
-): Promise<{ quote: any; swap: any; timestamp: number; retryInfo: { attempts: number; lastError: string | null } } | null> {
-  const { result, error, attempts } = await withRetry(
-    () => getSwapQuoteInternal(swapper, tokenIn, tokenOut, amount, slippageToleranceBps),
-    { operation: 'getSwapQuote' }
-  );
+  amountIn: bigint,
+  quotes: ProviderQuote[]
+): Promise<ProviderQuote[]> {
+  const isBuy = tokenIn.toLowerCase() === ADDRESSES.USDC.toLowerCase();
+  const asset = findTokenByAddress(isBuy ? tokenOut : tokenIn);
+  if (!asset) {
+    throw new PriceGuardError(`Price guard: no reference price for ${isBuy ? tokenOut : tokenIn}`);
+  }
 
-  if (!result) {
-    console.error(`Failed to get swap quote after ${attempts} attempts:`, error?.message);
-    return null;
+  const references = await getReferencePrices(publicClient, asset.symbol);
+  console.log(`[PriceGuard] ${asset.symbol} references: ${references.map((r: PriceReading) => `${r.source} $${r.priceUsd.toFixed(2)}`).join(', ') || 'none'}`);
+  const accepted: ProviderQuote[] = [];
+  const refusals: string[] = [];
+  for (const quote of quotes) {
+    const check = checkPriceDeviation(
+      getImpliedPriceUsd(isBuy, amountIn, quote.amountOut, asset.decimals),
+      references,
+      PRICE_GUARD_MAX_DEVIATION_BPS
+    );
+    if (check.passed) {
+      accepted.push(quote);
+    } else {
+      console.warn(`[PriceGuard] Refused ${quote.venue} ${asset.symbol} quote: ${check.reason}`);
+      refusals.push(`${quote.venue}: ${check.reason}`);
+    }
   }
 
-  return { ...result, retryInfo: { attempts, lastError: error?.message ?? null } };
+  if (accepted.length === 0) {
+    throw new PriceGuardError(`Price guard refused every quote - ${refusals.join(' | ')}`);
+  }
+  return accepted;
+}
+
+/**
+ * Gas price and tokenOut/ETH prices for comparing venues net of gas. Compares gross
+ * output (no gas) if a price is unavailable.
+ */
+async function getGasPricing(tokenOut: Address): Promise<GasPricing | null> {
+  try {
+    const token = findTokenByAddress(tokenOut);
+    if (!token) return null;
+    const [gasPriceWei, ethPriceUsd, outPriceUsd] = await Promise.all([
+      publicClient.getGasPrice(),
+      getETHPriceUsd(),
+      token.priceSource === 'stable' ? Promise.resolve(1) : getTargetUsdPrice(token.symbol),
+    ]);
+    return { gasPriceWei, ethPriceUsd, outPriceUsd, outDecimals: token.decimals };
+  } catch (error: any) {
+    console.warn(`[Quote] No gas pricing, comparing venues by gross output: ${error?.message}`);
+    return null;
+  }
 }
 
 // ============ DELEGATION EXECUTION VIA USEROP ============
 
-async function executeDelegatedSwapViaUserOp(
+/**
+ * Send one swap redemption as a UserOp from the backend smart account - the delegate
+ * of every user delegation and of the min-received redelegation - and return its hash
+ */
+async function submitDelegatedSwapUserOp(
   delegation: DelegationRecord,
   direction: 'buy' | 'sell',
   swapTo: Address,
   swapData: Hex,
   swapValue: bigint,
-  nonceKey: bigint
-): Promise<string> {
+  minReceived: MinReceived,
+  nonceKey: bigint,
+  fee?: SwapFee,
+  wrapAmount: bigint = 0n,
+  approval?: SwapApproval
+): Promise<Hex> {
   const backendSmartAccount = await initBackendSmartAccount();
 
-  const signedDelegation = typeof delegation.delegation_data === 'string'
-    ? JSON.parse(delegation.delegation_data)
-    : delegation.delegation_data;
-
-  if (!signedDelegation.signature) {
-    throw new Error('Delegation missing signature');
-  }
-
-  const execution = createExecution({
-    target: swapTo,
-    value: swapValue,
-    callData: swapData,
-  });
-
-  const redeemCalldata = DelegationManager.encode.redeemDelegations({
-    delegations: [[signedDelegation]],
-    modes: [ExecutionMode.SingleDefault],
-    executions: [[execution]],
-  });
+  const delegations = getRedemptionDelegations(delegation);
+  const redeemCalldata = encodeSwapRedemption(
+    delegations,
+    { target: swapTo, value: swapValue, callData: swapData },
+    await signMinReceivedDelegation(delegations.swap, minReceived),
+    fee,
+    wrapAmount,
+    approval
+  );
 
   console.log(`[UserOp] Preparing swap via bundler...`);
   console.log(`[UserOp]   Target: ${swapTo}`);
@@ -466,6 +524,10 @@ async function executeDelegatedSwapViaUserOp(
 
   console.log(`[UserOp] Gas sponsored by Pimlico paymaster`);
   console.log(`[UserOp] Submitted in ${submitTime}ms: ${userOpHash}`);
+  return userOpHash;
+}
+
+async function waitForSwapUserOp(userOpHash: Hex): Promise<string> {
   console.log(`[UserOp] Waiting for confirmation...`);
 
   const confirmStartTime = Date.now();
@@ -491,88 +553,26 @@ export async function executeDelegatedSwapWithRetry(
   swapTo: Address,
   swapData: Hex,
   swapValue: bigint,
-  nonceKey: bigint
-): Promise<{ txHash: string | null; retryInfo: { attempts: number; lastError: ClassifiedError | null } }> {
-  const { result, error, attempts } = await withRetry(
-    () => executeDelegatedSwapViaUserOp(delegation, direction, swapTo, swapData, swapValue, nonceKey),
-    { operation: 'executeDelegatedSwapViaUserOp', maxAttempts: 3, baseDelayMs: 2000 }
-  );
-
-  if (!result) {
-    const errorMsg = error?.message || '';
-    const selectorMatch = errorMsg.match(/0x[a-fA-F0-9]{8}/);
-    const decodedError = selectorMatch ? decodeErrorSelector(selectorMatch[0]) : errorMsg;
-    const isPermanent = isPermanentFailure(errorMsg);
-    
-    console.error(`[Swap Failed] After ${attempts} attempts for ${delegation.user_address}:`);
-    console.error(`  Decoded: ${decodedError}`);
-    console.error(`  Permanent: ${isPermanent}`);
-  }
-
-  return { txHash: result, retryInfo: { attempts, lastError: error } };
-}
-
-// Legacy EOA version (kept for migration fallback)
-async function executeDelegatedSwapInternal(
-  delegation: DelegationRecord,
-  direction: 'buy' | 'sell',
-  swapTo: Address,
-  swapData: Hex,
-  swapValue: bigint
-): Promise<string> {
-  const signedDelegation = typeof delegation.delegation_data === 'string'
-    ? JSON.parse(delegation.delegation_data)
-    : delegation.delegation_data;
-
-  if (!signedDelegation.signature) {
-    throw new Error('Delegation missing signature');
-  }
-
-  const execution = createExecution({
-    target: swapTo,
-    value: swapValue,
-    callData: swapData,
-  });
-
-  const redeemCalldata = DelegationManager.encode.redeemDelegations({
-    delegations: [[signedDelegation]],
-    modes: [ExecutionMode.SingleDefault],
-    executions: [[execution]],
-  });
-
-  console.log(`[Legacy] Preparing transaction to DelegationManager...`);
-
-  const redeemTx = await walletClient.sendTransaction({
-    to: ADDRESSES.DELEGATION_MANAGER,
-    data: redeemCalldata,
-    gas: 500000n,
-  });
-
-  console.log(`[Legacy] Transaction submitted: ${redeemTx}`);
-
-  const receipt = await publicClient.waitForTransactionReceipt({
-    hash: redeemTx,
-    timeout: 60000,
-  });
-
-  if (receipt.status === 'success') {
-    console.log(`[Legacy] Transaction confirmed in block ${receipt.blockNumber}`);
-    return redeemTx;
-  } else {
-    throw new Error(`Transaction reverted: ${redeemTx}`);
-  }
-}
-
-export async function executeDelegatedSwap(
-  delegation: DelegationRecord,
-  direction: 'buy' | 'sell',
-  swapTo: Address,
-  swapData: Hex,
-  swapValue: bigint
-): Promise<{ txHash: string | null; retryInfo: { attempts: number; lastError: ClassifiedError | null } }> {
+  minReceived: MinReceived,
+  nonceKey: bigint,
+  fee?: SwapFee,
+  onSubmitted?: (userOpHash: Hex) => Promise<void>,
+  wrapAmount?: bigint,
+  approval?: SwapApproval
+): Promise<{ txHash: string | null; submittedUserOp: Hex | null; retryInfo: { attempts: number; lastError: ClassifiedError | null } }> {
+  // Once a UserOp is out, later attempts only wait for it - never send a second swap
+  let submittedUserOp: Hex | null = null;
   const { result, error, attempts } = await withRetry(
-    () => executeDelegatedSwapInternal(delegation, direction, swapTo, swapData, swapValue),
-    { operation: 'executeDelegatedSwap', maxAttempts: 3, baseDelayMs: 2000 }
+    async () => {
+      if (!submittedUserOp) {
+        submittedUserOp = await submitDelegatedSwapUserOp(
+          delegation, direction, swapTo, swapData, swapValue, minReceived, nonceKey, fee, wrapAmount, approval
+        );
+        await onSubmitted?.(submittedUserOp);
+      }
+      return waitForSwapUserOp(submittedUserOp);
+    },
+    { operation: 'executeDelegatedSwapWithRetry', maxAttempts: 3, baseDelayMs: 2000 }
   );
 
   if (!result) {
@@ -586,14 +586,15 @@ export async function executeDelegatedSwap(
     console.error(`  Permanent: ${isPermanent}`);
   }
 
-  return { txHash: result, retryInfo: { attempts, lastError: error } };
+  return { txHash: result, submittedUserOp, retryInfo: { attempts, lastError: error } };
 }
 
 // ============ PARALLEL USEROP BATCHING ============
 
 export async function sendBatchedUserOps(
   batchItems: UserOpBatchItem[],
-  backendSmartAccount: any
+  backendSmartAccount: any,
+  fgValue: number
 ): Promise<BatchSendResult[]> {
   if (batchItems.length === 0) {
     return [];
@@ -610,6 +611,37 @@ export async function sendBatchedUserOps(
       });
 
       const ENTRY_POINT_V07 = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+      const { walletData } = item;
+
+      // Claim the wallet's execution key with the op's hash before it leaves this process
+      if (walletData.executionKey) {
+        const expectedHash = getUserOperationHash({
+          chainId: base.id,
+          entryPointAddress: ENTRY_POINT_V07,
+          entryPointVersion: '0.7',
+          userOperation: { ...item.userOp, signature },
+        });
+        const claim = await claimExecutionKey(walletData.executionKey, {
+          userAddress: walletData.delegation.user_address,
+          walletAddress: walletData.smartAccountAddress,
+          action: walletData.decision.action as 'buy' | 'sell',
+          targetAsset: walletData.asset,
+          fgValue,
+          amountIn: walletData.swapAmountAfterFee.toString(),
+          userOpHash: expectedHash,
+        });
+        if (!claim.claimed) {
+          return {
+            success: false,
+            userOpHash: null,
+            error: `Execution key held: ${claim.reason}`,
+            walletAddress: walletData.smartAccountAddress,
+            asset: walletData.asset,
+            keyHeld: true,
+          };
+        }
+      }
+
       const userOpHash = await bundlerClient.sendUserOperation({
         sender: item.userOp.sender,
         nonce: item.userOp.nonce,
@@ -629,11 +661,16 @@ export async function sendBatchedUserOps(
         entryPointAddress: ENTRY_POINT_V07,
       });
 
+      if (walletData.executionKey) {
+        await markExecutionSubmitted(walletData.executionKey, { userOpHash });
+      }
+
       return {
         success: true,
         userOpHash,
         error: null,
         walletAddress: item.walletData.smartAccountAddress,
+        asset: item.walletData.asset,
       };
     } catch (error: any) {
       console.error(`[Batch] UserOp ${item.id} failed: ${error?.message}`);
@@ -642,6 +679,7 @@ export async function sendBatchedUserOps(
         userOpHash: null,
         error: error?.message || 'Unknown error',
         walletAddress: item.walletData.smartAccountAddress,
+        asset: item.walletData.asset,
       };
     }
   });
@@ -657,16 +695,19 @@ export async function sendBatchedUserOps(
   return results;
 }
 
+/**
+ * Receipt per swap, keyed by getSwapId(walletAddress, asset)
+ */
 export async function waitForBatchedUserOpReceipts(
   results: BatchSendResult[]
-): Promise<Map<string, { success: boolean; txHash: string | null; error: string | null }>> {
-  const receiptMap = new Map<string, { success: boolean; txHash: string | null; error: string | null }>();
+): Promise<Map<string, { success: boolean; txHash: string | null; error: string | null; reverted?: boolean }>> {
+  const receiptMap = new Map<string, { success: boolean; txHash: string | null; error: string | null; reverted?: boolean }>();
 
   const successfulResults = results.filter(r => r.success && r.userOpHash);
 
   if (successfulResults.length === 0) {
     for (const result of results) {
-      receiptMap.set(result.walletAddress, {
+      receiptMap.set(getSwapId(result.walletAddress, result.asset), {
         success: false,
         txHash: null,
         error: result.error || 'Submission failed',
@@ -685,20 +726,21 @@ export async function waitForBatchedUserOpReceipts(
       });
 
       if (receipt.success) {
-        receiptMap.set(result.walletAddress, {
+        receiptMap.set(getSwapId(result.walletAddress, result.asset), {
           success: true,
           txHash: receipt.receipt.transactionHash,
           error: null,
         });
       } else {
-        receiptMap.set(result.walletAddress, {
+        receiptMap.set(getSwapId(result.walletAddress, result.asset), {
           success: false,
           txHash: null,
           error: 'UserOperation reverted on-chain',
+          reverted: true,
         });
       }
     } catch (error: any) {
-      receiptMap.set(result.walletAddress, {
+      receiptMap.set(getSwapId(result.walletAddress, result.asset), {
         success: false,
         txHash: null,
         error: `Receipt timeout: ${error?.message || 'Unknown error'}`,
@@ -710,7 +752,7 @@ export async function waitForBatchedUserOpReceipts(
 
   for (const result of results) {
     if (!result.success) {
-      receiptMap.set(result.walletAddress, {
+      receiptMap.set(getSwapId(result.walletAddress, result.asset), {
         success: false,
         txHash: null,
         error: result.error || 'Unknown error',
@@ -726,32 +768,22 @@ export async function waitForBatchedUserOpReceipts(
 
 // ============ PHASE 2: PARALLEL SWAPS ============
 
-export interface PrepareSwapError {
-  stage: 'quote_fetch' | 'quote_validation';
-  reason: string;
-  apiError?: string;
-  tokenPair: string;
-  walletAddress: string;
-}
-
 async function prepareSwap(
   walletData: WalletData,
   decision: DCADecision,
-  nonceKey: bigint,
-  ethPriceUsd: number
+  nonceKey: bigint
 ): Promise<PreparedSwap | null> {
-  const { smartAccountAddress, swapAmountAfterFee, delegation } = walletData;
+  const { smartAccountAddress, swapAmountAfterFee, asset, assetPriceUsd } = walletData;
 
   const isBuy = decision.action === 'buy';
-  // Get target token based on user's preference (cbBTC or WETH)
-  const targetToken = getTargetTokenAddress(delegation.target_asset);
-  const targetDecimals = getTargetTokenDecimals(delegation.target_asset);
-  const targetSymbol = getTargetTokenSymbol(delegation.target_asset);
+  const targetToken = getTargetTokenAddress(asset);
+  const targetDecimals = getTargetTokenDecimals(asset);
+  const targetSymbol = getTargetTokenSymbol(asset);
   const tokenIn = isBuy ? ADDRESSES.USDC : targetToken;
   const tokenOut = isBuy ? targetToken : ADDRESSES.USDC;
   const tokenPair = `${isBuy ? 'USDC' : targetSymbol}→${isBuy ? targetSymbol : 'USDC'}`;
 
-  const swapValueUsd = calculateSwapValueUsd(swapAmountAfterFee, isBuy, ethPriceUsd);
+  const swapValueUsd = calculateSwapValueUsd(swapAmountAfterFee, isBuy, assetPriceUsd, targetDecimals);
   const slippageBps = getSlippageBpsForSwap(swapValueUsd);
 
   console.log(`[Prepare] ${smartAccountAddress}: Swap value $${swapValueUsd.toFixed(2)} -> slippage ${slippageBps/100}%`);
@@ -763,9 +795,16 @@ async function prepareSwap(
       tokenIn,
       tokenOut,
       swapAmountAfterFee.toString(),
-      slippageBps
+      slippageBps,
+      getDelegationVenues(parseDelegationData(walletData.delegation))
     );
   } catch (error: any) {
+    if (error instanceof PriceGuardError) {
+      const errorInfo: PrepareSwapError = { stage: 'price_guard', reason: error.message, tokenPair, walletAddress: smartAccountAddress };
+      console.error(`[Prepare] ❌ ${smartAccountAddress}: ${errorInfo.reason}`);
+      walletData.prepareError = errorInfo;
+      return null;
+    }
     const errorInfo: PrepareSwapError = {
       stage: 'quote_fetch',
       reason: `Quote API threw exception: ${error?.message || 'Unknown error'}`,
@@ -775,24 +814,24 @@ async function prepareSwap(
     };
     console.error(`[Prepare] ❌ ${smartAccountAddress}: Quote fetch failed - ${errorInfo.reason}`);
     // Attach error info to walletData for downstream logging
-    (walletData as any).__prepareError = errorInfo;
+    walletData.prepareError = errorInfo;
     return null;
   }
 
   if (!swapQuote) {
     const errorInfo: PrepareSwapError = {
       stage: 'quote_fetch',
-      reason: 'Quote API returned null after retries',
+      reason: 'No venue returned a quote after retries (Trading API and on-chain fallback included)',
       tokenPair,
       walletAddress: smartAccountAddress,
     };
     console.error(`[Prepare] ❌ ${smartAccountAddress}: ${errorInfo.reason}`);
-    (walletData as any).__prepareError = errorInfo;
+    walletData.prepareError = errorInfo;
     return null;
   }
 
   // Validate quote has required fields
-  const expectedOutput = BigInt(swapQuote.quote.quote?.output?.amount || '0');
+  const expectedOutput = BigInt(swapQuote.amountOut);
   if (expectedOutput === 0n) {
     const errorInfo: PrepareSwapError = {
       stage: 'quote_validation',
@@ -801,7 +840,7 @@ async function prepareSwap(
       walletAddress: smartAccountAddress,
     };
     console.error(`[Prepare] ❌ ${smartAccountAddress}: ${errorInfo.reason}`);
-    (walletData as any).__prepareError = errorInfo;
+    walletData.prepareError = errorInfo;
     return null;
   }
 
@@ -813,60 +852,42 @@ async function prepareSwap(
     walletData,
     swapQuote,
     nonceKey,
+    minAmountOut,
   };
 }
 
-export interface BuildUserOpError {
-  stage: 'delegation_parse' | 'execution_create' | 'calldata_encode' | 'userop_prepare';
-  reason: string;
-  originalError?: string;
-  tokenPair: string;
-  walletAddress: string;
-}
-
 async function buildUserOpForSwap(
   backendSmartAccount: any,
   preparedSwap: PreparedSwap,
   decision: DCADecision
 ): Promise<UserOpBatchItem | null> {
-  const { walletData, swapQuote, nonceKey } = preparedSwap;
-  const { delegation, smartAccountAddress, swapAmountAfterFee, fee } = walletData;
+  const { walletData, swapQuote, nonceKey, minAmountOut } = preparedSwap;
+  const { delegation, smartAccountAddress, asset, fee } = walletData;
 
   const isBuy = decision.action === 'buy';
-  const targetToken = getTargetTokenAddress(delegation.target_asset);
-  const targetSymbol = getTargetTokenSymbol(delegation.target_asset);
+  const targetToken = getTargetTokenAddress(asset);
+  const targetSymbol = getTargetTokenSymbol(asset);
   const tokenIn = isBuy ? ADDRESSES.USDC : targetToken;
   const tokenOut = isBuy ? targetToken : ADDRESSES.USDC;
   const tokenPair = `${isBuy ? 'USDC' : targetSymbol}→${isBuy ? targetSymbol : 'USDC'}`;
 
   try {
-    const signedDelegation = typeof delegation.delegation_data === 'string'
-      ? JSON.parse(delegation.delegation_data)
-      : delegation.delegation_data;
-
-    if (!signedDelegation.signature) {
-      const errorInfo: BuildUserOpError = {
-        stage: 'delegation_parse',
-        reason: 'Delegation missing signature',
-        tokenPair,
-        walletAddress: smartAccountAddress,
-      };
-      console.error(`[BuildUserOp] ❌ ${smartAccountAddress}: ${errorInfo.reason}`);
-      (walletData as any).__buildError = errorInfo;
-      return null;
-    }
-
-    const execution = createExecution({
-      target: swapQuote.swap.to as Address,
-      value: BigInt(swapQuote.swap.value || '0'),
-      callData: swapQuote.swap.data as Hex,
-    });
-
-    const redeemCalldata = DelegationManager.encode.redeemDelegations({
-      delegations: [[signedDelegation]],
-      modes: [ExecutionMode.SingleDefault],
-      executions: [[execution]],
-    });
+    // A missing signature or fee delegation surfaces as a delegation_parse error below
+    const delegations = getRedemptionDelegations(delegation);
+
+    // The fee (in tokenIn) rides in the same UserOp as a second redemption
+    const redeemCalldata = encodeSwapRedemption(
+      delegations,
+      {
+        target: swapQuote.swap.to as Address,
+        value: BigInt(swapQuote.swap.value || '0'),
+        callData: swapQuote.swap.data as Hex,
+      },
+      await signMinReceivedDelegation(delegations.swap, { token: tokenOut, amount: minAmountOut }),
+      { token: tokenIn, amount: fee },
+      walletData.wrapAmount,
+      swapQuote.approval
+    );
 
     const nonce = encodeNonce({ key: nonceKey, sequence: 0n });
 
@@ -909,182 +930,197 @@ async function buildUserOpForSwap(
       walletAddress: smartAccountAddress,
     };
     console.error(`[BuildUserOp] ❌ ${smartAccountAddress}: ${errorInfo.reason}`);
-    (walletData as any).__buildError = errorInfo;
+    walletData.buildError = errorInfo;
     return null;
   }
 }
 
-async function executeSwapWithUserOp(
-  walletData: WalletData,
-  decision: DCADecision,
-  nonceKey: bigint,
-  ethPriceUsd?: number
-): Promise<ExecutionResult> {
-  const { delegation, smartAccountAddress, swapAmountAfterFee, fee } = walletData;
-
-  const isBuy = decision.action === 'buy';
-  // Get target token based on user's preference (cbBTC or WETH)
-  const targetToken = getTargetTokenAddress(delegation.target_asset);
-  const targetDecimals = getTargetTokenDecimals(delegation.target_asset);
-  const targetSymbol = getTargetTokenSymbol(delegation.target_asset);
-  const tokenIn = isBuy ? ADDRESSES.USDC : targetToken;
-  const tokenOut = isBuy ? targetToken : ADDRESSES.USDC;
-  const tokenDecimals = isBuy ? 6 : targetDecimals;
-  const tokenSymbol = isBuy ? 'USDC' : targetSymbol;
-
-  const price = ethPriceUsd ?? _cachedEthPriceUsd ?? 2500;
-  const swapValueUsd = calculateSwapValueUsd(swapAmountAfterFee, isBuy, price);
-  const slippageBps = getSlippageBpsForSwap(swapValueUsd);
-
-  console.log(`[Swap] ${smartAccountAddress}: Swap value $${swapValueUsd.toFixed(2)} -> slippage ${slippageBps/100}%`);
-
-  let totalRetries = 0;
-
-  const swapQuote = await getSwapQuote(
-    smartAccountAddress,
-    tokenIn,
-    tokenOut,
-    swapAmountAfterFee.toString(),
-    slippageBps
-  );
-
-  if (!swapQuote) {
-    return {
-      success: false,
-      txHash: null,
-      error: 'Failed to get swap quote',
-      errorType: 'network',
-      amountIn: swapAmountAfterFee.toString(),
-      amountOut: '0',
-      feeCollected: '0',
-      retryCount: 3,
-      lastError: 'Failed to get swap quote',
-    };
-  }
-
-  totalRetries += swapQuote.retryInfo.attempts - 1;
-
-  const swapResult = await executeDelegatedSwapWithRetry(
-    delegation,
-    decision.action as 'buy' | 'sell',
-    swapQuote.swap.to as Address,
-    swapQuote.swap.data as Hex,
-    BigInt(swapQuote.swap.value || '0'),
-    nonceKey
-  );
-
-  totalRetries += swapResult.retryInfo.attempts - 1;
-
-  if (!swapResult.txHash) {
-    return {
-      success: false,
-      txHash: null,
-      error: swapResult.retryInfo.lastError?.message ?? 'Swap execution failed',
-      errorType: swapResult.retryInfo.lastError?.type ?? 'unknown',
-      amountIn: swapAmountAfterFee.toString(),
-      amountOut: swapQuote.quote.quote.output.amount,
-      feeCollected: '0',
-      retryCount: totalRetries,
-      lastError: swapResult.retryInfo.lastError?.message ?? null,
-    };
-  }
-
-  console.log(`[Swap] ✅ ${smartAccountAddress}: ${formatUnits(swapAmountAfterFee, tokenDecimals)} ${tokenSymbol} -> ${formatUnits(BigInt(swapQuote.quote.quote.output.amount), isBuy ? targetDecimals : 6)} ${isBuy ? targetSymbol : 'USDC'}`);
-
+/**
+ * Failed result for a swap the price guard refused - not retried
+ */
+function priceGuardResult(error: PriceGuardError, amountIn: string, asset?: string): ExecutionResult {
   return {
-    success: true,
-    txHash: swapResult.txHash,
-    error: null,
-    errorType: null,
-    amountIn: swapAmountAfterFee.toString(),
-    amountOut: swapQuote.quote.quote.output.amount,
-    feeCollected: fee.toString(),
-    retryCount: totalRetries,
-    lastError: null,
+    success: false,
+    txHash: null,
+    error: error.message,
+    errorType: 'price_guard',
+    amountIn,
+    amountOut: '0',
+    feeCollected: '0',
+    retryCount: 0,
+    lastError: error.message,
+    asset,
+    errorDetail: `[price_guard] ${error.message}`,
   };
 }
 
 export async function processSwapsParallel(
   delegations: DelegationRecord[],
-  decision: DCADecision,
-  fgValue: number
+  decisions: Map<string, DCADecision>,
+  fgValue: number,
+  slots?: Map<string, string> // Schedule slot per delegation id for execution keys; omitted outside scheduled runs
 ): Promise<{ results: ExecutionResult[]; walletDataMap: Map<string, WalletData> }> {
-  const isBuy = decision.action === 'buy';
-  const tokenDecimals = isBuy ? 6 : 18;
-  const tokenSymbol = isBuy ? 'USDC' : 'ETH';
-
   console.log(`\n[Phase 2] Preparing ${delegations.length} wallets for batched swaps via JSON-RPC batching...`);
 
   const backendSmartAccount = await initBackendSmartAccount();
   console.log(`[Phase 2] Using backend smart account: ${backendSmartAccount.address}`);
 
   const walletDataList: WalletData[] = [];
-  const walletDataMap = new Map<string, WalletData>();
+  const walletDataMap = new Map<string, WalletData>(); // Keyed by getSwapId(wallet, asset)
 
-  const ethPriceUsd = await getETHPriceFromUniswap();
+  const ethPriceUsd = await getETHPriceUsd();
   console.log(`[Phase 2] ETH Price: $${ethPriceUsd.toFixed(2)} | Min wallet value: $${MIN_WALLET_VALUE_USD}`);
 
+  // Price every asset held in a basket; wallets with an unpriced asset are skipped
+  const assetPricesUsd = new Map<string, number>([['ETH', ethPriceUsd]]);
+  const basketAssets = new Set(delegations.flatMap(d => getDelegationBasket(d).map((a: BasketAllocation) => a.asset)));
+  for (const asset of basketAssets) {
+    if (assetPricesUsd.has(asset)) continue;
+    try {
+      assetPricesUsd.set(asset, await getTargetUsdPrice(asset));
+      console.log(`[Phase 2] ${asset} Price: $${assetPricesUsd.get(asset)!.toFixed(2)}`);
+    } catch (error: any) {
+      console.error(`[Phase 2] ${asset} price unavailable: ${error?.message}`);
+    }
+  }
+
   await Promise.all(delegations.map(async (delegation) => {
     const smartAccountAddress = delegation.smart_account_address as Address;
+    const decision = decisions.get(delegation.id);
+    if (!decision || decision.action === 'hold') {
+      return;
+    }
+    const isBuy = decision.action === 'buy';
+    const basket = getDelegationBasket(delegation);
+
+    const unpriced = basket.find((a: BasketAllocation) => !assetPricesUsd.has(a.asset));
+    if (unpriced) {
+      console.log(`[Phase 2] ${smartAccountAddress}: No ${unpriced.asset} price - skipping`);
+      return;
+    }
 
     try {
       const usdcBalance = await getUSDCBalance(smartAccountAddress);
-      const ethBalance = await getETHBalance(smartAccountAddress);
+      const assetBalances = await Promise.all(basket.map((a: BasketAllocation) => getTargetBalance(a.asset, smartAccountAddress)));
 
       const usdcValueUsd = Number(formatUnits(usdcBalance, 6));
-      const ethValueUsd = Number(formatUnits(ethBalance, 18)) * ethPriceUsd;
-      const totalValueUsd = usdcValueUsd + ethValueUsd;
+      const assetValuesUsd: number[] = basket.map((a: BasketAllocation, i: number) =>
+        Number(formatUnits(assetBalances[i], getTargetTokenDecimals(a.asset))) * assetPricesUsd.get(a.asset)!);
+      const totalValueUsd = assetValuesUsd.reduce((sum: number, value: number) => sum + value, usdcValueUsd);
 
       if (totalValueUsd < MIN_DELEGATION_VALUE_USD) {
         console.log(`[Phase 2] ${smartAccountAddress}: Total value $${totalValueUsd.toFixed(2)} < $${MIN_DELEGATION_VALUE_USD} minimum - skipping (griefing protection)`);
         return;
       }
 
-      const balance = isBuy ? usdcBalance : ethBalance;
-
-      if (balance < MIN_SWAP_AMOUNT) {
-        console.log(`[Phase 2] ${smartAccountAddress}: Insufficient ${tokenSymbol} balance (${formatUnits(balance, tokenDecimals)} ${tokenSymbol})`);
-        return;
+      // Sells spend WETH: native ETH counts only as far as the delegation lets it be wrapped
+      const wethBalance = !isBuy && basket.some((a: BasketAllocation) => a.asset === 'ETH')
+        ? await getWETHBalance(smartAccountAddress)
+        : 0n;
+      const sellableBalances: bigint[] = basket.map((a: BasketAllocation, i: number) => a.asset === 'ETH' && !isBuy
+        ? getSellableEthBalance(wethBalance, assetBalances[i] - wethBalance, getMaxWrapAmount(parseDelegationData(delegation)))
+        : assetBalances[i]);
+
+      // Buys split the USDC amount across the basket by weight; sells draw the same
+      // share from every held asset (see calculateBasketSellAmounts)
+      let legAmounts: bigint[];
+      if (isBuy) {
+        if (usdcBalance < MIN_SWAP_AMOUNT) {
+          console.log(`[Phase 2] ${smartAccountAddress}: Insufficient USDC balance (${formatUnits(usdcBalance, 6)} USDC)`);
+          return;
+        }
+        const swapAmount = calculateWalletSwapAmount(
+          usdcBalance,
+          decision,
+          BigInt(delegation.max_amount_per_swap),
+          ethPriceUsd
+        );
+        legAmounts = splitByWeight(swapAmount, basket);
+      } else {
+        legAmounts = calculateBasketSellAmounts(
+          sellableBalances,
+          basket.map((a: BasketAllocation, i: number) =>
+            Number(formatUnits(sellableBalances[i], getTargetTokenDecimals(a.asset))) * assetPricesUsd.get(a.asset)!),
+          decision,
+          basket.map((a: BasketAllocation) => getMaxSellAmount(
+            BigInt(delegation.max_amount_per_swap),
+            assetPricesUsd.get(a.asset)!,
+            getTargetTokenDecimals(a.asset)
+          ))
+        );
       }
 
-      const percentage = BigInt(Math.round(decision.percentage * 100));
-      let swapAmount = (balance * percentage) / 10000n;
+      basket.forEach(({ asset }: BasketAllocation, i: number) => {
+        const balance = isBuy ? usdcBalance : sellableBalances[i];
+        const swapAmount = legAmounts[i];
+        const tokenDecimals = isBuy ? 6 : getTargetTokenDecimals(asset);
+        const tokenSymbol = isBuy ? 'USDC' : getTargetTokenSymbol(asset);
+        const label = basket.length > 1 ? `${smartAccountAddress} [${asset}]` : smartAccountAddress;
 
-      const maxAmount = BigInt(delegation.max_amount_per_swap);
-      if (swapAmount > maxAmount) {
-        swapAmount = maxAmount;
-      }
+        if (balance < getMinSwapAmount(asset, isBuy)) {
+          console.log(`[Phase 2] ${label}: Insufficient ${tokenSymbol} balance (${formatUnits(balance, tokenDecimals)} ${tokenSymbol})`);
+          return;
+        }
+        if (swapAmount === 0n) {
+          console.log(`[Phase 2] ${label}: Nothing to swap`);
+          return;
+        }
 
-      const fee = calculateFee(swapAmount);
-      const swapAmountAfterFee = swapAmount - fee;
+        const fee = calculateFee(swapAmount);
+        const swapAmountAfterFee = swapAmount - fee;
 
-      if (balance < swapAmount) {
-        console.log(`[Phase 2] ${smartAccountAddress}: Skipping - balance (${formatUnits(balance, tokenDecimals)} ${tokenSymbol}) < swapAmount after fee adjustment (${formatUnits(swapAmount, tokenDecimals)} ${tokenSymbol})`);
-        return;
-      }
+        if (balance < swapAmount) {
+          console.log(`[Phase 2] ${label}: Skipping - balance (${formatUnits(balance, tokenDecimals)} ${tokenSymbol}) < swapAmount after fee adjustment (${formatUnits(swapAmount, tokenDecimals)} ${tokenSymbol})`);
+          return;
+        }
 
-      const walletData: WalletData = {
-        delegation,
-        smartAccountAddress,
-        balance,
-        swapAmount,
-        swapAmountAfterFee,
-        fee,
-      };
+        const walletData: WalletData = {
+          delegation,
+          decision,
+          smartAccountAddress,
+          asset,
+          balance,
+          swapAmount,
+          swapAmountAfterFee,
+          fee,
+          executionKey: slots?.has(delegation.id)
+            ? getExecutionKey(smartAccountAddress, slots.get(delegation.id)!, asset, decision.action)
+            : undefined,
+          assetPriceUsd: assetPricesUsd.get(asset)!,
+          wrapAmount: !isBuy && asset === 'ETH' ? calculateWrapAmount(wethBalance, swapAmount) : undefined,
+        };
+
+        if (walletData.wrapAmount) {
+          console.log(`[Phase 2] ${label}: Wrapping ${formatUnits(walletData.wrapAmount, 18)} native ETH before selling`);
+        }
 
-      walletDataList.push(walletData);
-      walletDataMap.set(smartAccountAddress, walletData);
+        walletDataList.push(walletData);
+        walletDataMap.set(getSwapId(smartAccountAddress, asset), walletData);
+      });
     } catch (error) {
       console.error(`[Phase 2] Error getting balance for ${smartAccountAddress}:`, error);
     }
   }));
 
-  console.log(`[Phase 2] ${walletDataList.length} wallets eligible for swaps`);
+  console.log(`[Phase 2] ${walletDataList.length} swaps eligible`);
 
   if (walletDataList.length === 0) {
     return { results: [], walletDataMap };
   }
 
+  const results = await executeWalletSwaps(walletDataList, fgValue);
+  return { results, walletDataMap };
+}
+
+/**
+ * Quote, build, send and confirm swaps for prepared wallets in batched UserOps.
+ * Each wallet swaps exactly walletData.swapAmountAfterFee in walletData.decision's direction.
+ */
+export async function executeWalletSwaps(
+  walletDataList: WalletData[],
+  fgValue: number
+): Promise<ExecutionResult[]> {
+  const backendSmartAccount = await initBackendSmartAccount();
   const allResults: ExecutionResult[] = [];
   const PHASE2_TIMESTAMP = BigInt(Date.now());
   console.log(`[Phase 2] Timestamp base: ${PHASE2_TIMESTAMP}`);
@@ -1105,7 +1141,7 @@ export async function processSwapsParallel(
       batch.map((walletData, index) => {
         const globalIndex = batchIndex + index;
         const nonceKey = PHASE2_TIMESTAMP * 1000000n + BigInt(globalIndex);
-        return prepareSwap(walletData, decision, nonceKey, ethPriceUsd);
+        return prepareSwap(walletData, walletData.decision, nonceKey);
       })
     );
 
@@ -1114,7 +1150,7 @@ export async function processSwapsParallel(
 
     if (validPreparedSwaps.length === 0) {
       for (const walletData of batch) {
-        const prepareError = (walletData as any).__prepareError as PrepareSwapError | undefined;
+        const prepareError = walletData.prepareError;
         const errorDetail = prepareError 
           ? `[${prepareError.stage}] ${prepareError.reason} | Pair: ${prepareError.tokenPair}`
           : 'Failed to get swap quote (all quotes failed)';
@@ -1123,13 +1159,14 @@ export async function processSwapsParallel(
           success: false,
           txHash: null,
           error: errorDetail,
-          errorType: 'network',
+          errorType: prepareError?.stage === 'price_guard' ? 'price_guard' : 'network',
           amountIn: walletData.swapAmountAfterFee.toString(),
           amountOut: '0',
           feeCollected: '0',
           retryCount: 1,
           lastError: errorDetail,
           walletAddress: walletData.smartAccountAddress,
+          asset: walletData.asset,
           errorDetail,
         });
       }
@@ -1141,7 +1178,7 @@ export async function processSwapsParallel(
     console.log(`[Phase 2]   Step 2: Building ${validPreparedSwaps.length} UserOperations...`);
     const batchItems: (UserOpBatchItem | null)[] = await Promise.all(
       validPreparedSwaps.map(preparedSwap =>
-        buildUserOpForSwap(backendSmartAccount, preparedSwap, decision)
+        buildUserOpForSwap(backendSmartAccount, preparedSwap, preparedSwap.walletData.decision)
       )
     );
 
@@ -1150,7 +1187,7 @@ export async function processSwapsParallel(
 
     if (validBatchItems.length === 0) {
       for (const preparedSwap of validPreparedSwaps) {
-        const buildError = (preparedSwap.walletData as any).__buildError as BuildUserOpError | undefined;
+        const buildError = preparedSwap.walletData.buildError;
         const errorDetail = buildError
           ? `[${buildError.stage}] ${buildError.reason} | Pair: ${buildError.tokenPair}`
           : 'Failed to build UserOperation (all builds failed)';
@@ -1166,6 +1203,7 @@ export async function processSwapsParallel(
           retryCount: 0,
           lastError: errorDetail,
           walletAddress: preparedSwap.walletData.smartAccountAddress,
+          asset: preparedSwap.walletData.asset,
           errorDetail,
         });
       }
@@ -1176,7 +1214,7 @@ export async function processSwapsParallel(
     // Step 2.5: Pre-send quote expiration check
     const freshBatchItems: UserOpBatchItem[] = [];
     const batchExecutionResults: ExecutionResult[] = [];
-    const processedWallets = new Set<string>();
+    const processedSwaps = new Set<string>();
 
     for (const batchItem of validBatchItems) {
       const now = Date.now();
@@ -1184,7 +1222,7 @@ export async function processSwapsParallel(
       if (quoteAge > QUOTE_VALIDITY_MS) {
         const errorMsg = `Quote expired before send: ${quoteAge}ms old (max ${QUOTE_VALIDITY_MS}ms)`;
         console.warn(`[Phase 2] ⚠️ ${batchItem.walletData.smartAccountAddress}: ${errorMsg} - skipping`);
-        processedWallets.add(batchItem.walletData.smartAccountAddress);
+        processedSwaps.add(getSwapId(batchItem.walletData.smartAccountAddress, batchItem.walletData.asset));
         batchExecutionResults.push({
           success: false,
           txHash: null,
@@ -1196,6 +1234,7 @@ export async function processSwapsParallel(
           retryCount: 0,
           lastError: errorMsg,
           walletAddress: batchItem.walletData.smartAccountAddress,
+          asset: batchItem.walletData.asset,
           errorDetail: `[quote_expired] ${errorMsg}`,
         });
       } else {
@@ -1205,7 +1244,8 @@ export async function processSwapsParallel(
 
     // Step 3: Send batched UserOperations
     console.log(`[Phase 2]   Step 3: Sending ${freshBatchItems.length} UserOps in parallel via bundlerClient...`);
-    const batchResults = await sendBatchedUserOps(freshBatchItems, backendSmartAccount);
+    const batchResults = await sendBatchedUserOps(freshBatchItems, backendSmartAccount, fgValue);
+    const sendResults = new Map(batchResults.map((r: BatchSendResult) => [getSwapId(r.walletAddress, r.asset), r]));
 
     // Step 4: Wait for receipts
     console.log(`[Phase 2]   Step 4: Waiting for on-chain confirmation...`);
@@ -1214,8 +1254,9 @@ export async function processSwapsParallel(
     // Step 5: Build ExecutionResults
     for (const batchItem of freshBatchItems) {
       const { walletData, swapQuote } = batchItem;
-      const receipt = receiptMap.get(walletData.smartAccountAddress);
-      processedWallets.add(walletData.smartAccountAddress);
+      const swapId = getSwapId(walletData.smartAccountAddress, walletData.asset);
+      const receipt = receiptMap.get(swapId);
+      processedSwaps.add(swapId);
 
       if (receipt?.success && receipt.txHash) {
         console.log(`[Phase 2] ✅ ${walletData.smartAccountAddress}: Confirmed on-chain`);
@@ -1225,14 +1266,18 @@ export async function processSwapsParallel(
           error: null,
           errorType: null,
           amountIn: walletData.swapAmountAfterFee.toString(),
-          amountOut: swapQuote.quote.quote.output.amount,
+          amountOut: swapQuote.amountOut,
+          venue: swapQuote.venue,
           feeCollected: walletData.fee.toString(),
           retryCount: 0,
           lastError: null,
           walletAddress: walletData.smartAccountAddress,
+          asset: walletData.asset,
+          executionKey: walletData.executionKey,
         });
       } else {
         const errorMsg = receipt?.error || 'Unknown error';
+        const keyHeld = sendResults.get(swapId)?.keyHeld ?? false;
         console.log(`[Phase 2] ❌ ${walletData.smartAccountAddress}: ${errorMsg}`);
         batchExecutionResults.push({
           success: false,
@@ -1240,28 +1285,34 @@ export async function processSwapsParallel(
           error: errorMsg,
           errorType: 'unknown',
           amountIn: walletData.swapAmountAfterFee.toString(),
-          amountOut: swapQuote.quote.quote.output.amount,
+          amountOut: swapQuote.amountOut,
+          venue: swapQuote.venue,
           feeCollected: '0',
           retryCount: 0,
           lastError: errorMsg,
           walletAddress: walletData.smartAccountAddress,
+          asset: walletData.asset,
+          executionKey: walletData.executionKey,
+          keyHeld,
+          // A send error or receipt timeout may still land: keep the key until reconciled
+          unconfirmed: !!walletData.executionKey && !keyHeld && !receipt?.reverted,
         });
       }
     }
 
-    // Add results for wallets that failed at quote/build stage
+    // Add results for swaps that failed at quote/build stage
     for (const walletData of batch) {
-      if (!processedWallets.has(walletData.smartAccountAddress)) {
+      if (!processedSwaps.has(getSwapId(walletData.smartAccountAddress, walletData.asset))) {
         // Extract detailed error info if available
-        const prepareError = (walletData as any).__prepareError as PrepareSwapError | undefined;
-        const buildError = (walletData as any).__buildError as BuildUserOpError | undefined;
+        const prepareError = walletData.prepareError;
+        const buildError = walletData.buildError;
         
         let errorDetail: string;
-        let errorType: 'network' | 'quote_expired' | 'unknown' = 'network';
+        let errorType: ErrorType = 'network';
         
         if (prepareError) {
           errorDetail = `[${prepareError.stage}] ${prepareError.reason} | Pair: ${prepareError.tokenPair}`;
-          errorType = prepareError.stage === 'quote_fetch' ? 'network' : 'unknown';
+          errorType = prepareError.stage === 'quote_fetch' ? 'network' : prepareError.stage === 'price_guard' ? 'price_guard' : 'unknown';
           console.error(`[Phase 2] ❌ ${walletData.smartAccountAddress}: Quote stage failed - ${prepareError.reason} (${prepareError.tokenPair})`);
         } else if (buildError) {
           errorDetail = `[${buildError.stage}] ${buildError.reason} | Pair: ${buildError.tokenPair}`;
@@ -1283,6 +1334,7 @@ export async function processSwapsParallel(
           retryCount: 1,
           lastError: errorDetail,
           walletAddress: walletData.smartAccountAddress,
+          asset: walletData.asset,
           errorDetail, // Include granular error for daily reports
         });
       }
@@ -1301,21 +1353,20 @@ export async function processSwapsParallel(
 
   console.log(`\n[Phase 2] All ${walletDataList.length} swaps processed`);
 
-  return { results: allResults, walletDataMap };
+  return allResults;
 }
 
-// Retry with original amounts (no recalculation) - uses legacy EOA path
+// Retry with original amounts (no recalculation) - one UserOp at a time, on a fresh nonce key
 export async function retrySwapWithOriginalAmounts(
   walletData: WalletData,
   decision: DCADecision,
   fgValue: number
 ): Promise<ExecutionResult> {
-  const { delegation, smartAccountAddress, swapAmountAfterFee, fee } = walletData;
+  const { delegation, smartAccountAddress, swapAmountAfterFee, fee, asset } = walletData;
   const isBuy = decision.action === 'buy';
-  // Get target token based on user's preference (cbBTC or WETH)
-  const targetToken = getTargetTokenAddress(delegation.target_asset);
-  const targetDecimals = getTargetTokenDecimals(delegation.target_asset);
-  const targetSymbol = getTargetTokenSymbol(delegation.target_asset);
+  const targetToken = getTargetTokenAddress(asset);
+  const targetDecimals = getTargetTokenDecimals(asset);
+  const targetSymbol = getTargetTokenSymbol(asset);
   const tokenIn = isBuy ? ADDRESSES.USDC : targetToken;
   const tokenOut = isBuy ? targetToken : ADDRESSES.USDC;
   const tokenDecimals = isBuy ? 6 : targetDecimals;
@@ -1325,13 +1376,18 @@ export async function retrySwapWithOriginalAmounts(
 
   // Get balance based on the operation type and target token
   let balance: bigint;
+  let wrapAmount = 0n;
   if (isBuy) {
     balance = await getUSDCBalance(smartAccountAddress as Address);
   } else {
-    // For sell operations, check the target token balance (WETH or cbBTC)
-    balance = delegation.target_asset?.toLowerCase() === 'cbbtc'
-      ? await getCBBTCBalance(smartAccountAddress as Address)
-      : await getETHBalance(smartAccountAddress as Address);
+    // For sell operations, check the basket asset's balance
+    balance = await getTargetBalance(asset, smartAccountAddress as Address);
+    if (asset === 'ETH') {
+      // Re-read WETH: the first attempt may have left native ETH unwrapped
+      const wethBalance = await getWETHBalance(smartAccountAddress as Address);
+      balance = getSellableEthBalance(wethBalance, balance - wethBalance, getMaxWrapAmount(parseDelegationData(delegation)));
+      wrapAmount = calculateWrapAmount(wethBalance, walletData.swapAmount);
+    }
   }
   
   if (balance < walletData.swapAmount) {
@@ -1345,20 +1401,27 @@ export async function retrySwapWithOriginalAmounts(
       feeCollected: '0',
       retryCount: 0,
       lastError: 'Insufficient balance for retry',
+      asset,
     };
   }
 
-  const ethPriceUsd = _cachedEthPriceUsd ?? 2500;
-  const swapValueUsd = calculateSwapValueUsd(swapAmountAfterFee, isBuy, ethPriceUsd);
+  const swapValueUsd = calculateSwapValueUsd(swapAmountAfterFee, isBuy, walletData.assetPriceUsd, targetDecimals);
   const slippageBps = getSlippageBpsForSwap(swapValueUsd);
 
-  const swapQuote = await getSwapQuote(
-    smartAccountAddress as Address,
-    tokenIn,
-    tokenOut,
-    swapAmountAfterFee.toString(),
-    slippageBps
-  );
+  let swapQuote;
+  try {
+    swapQuote = await getSwapQuote(
+      smartAccountAddress as Address,
+      tokenIn,
+      tokenOut,
+      swapAmountAfterFee.toString(),
+      slippageBps,
+      getDelegationVenues(parseDelegationData(delegation))
+    );
+  } catch (error) {
+    if (error instanceof PriceGuardError) return priceGuardResult(error, swapAmountAfterFee.toString(), asset);
+    throw error;
+  }
 
   if (!swapQuote) {
     return {
@@ -1371,214 +1434,68 @@ export async function retrySwapWithOriginalAmounts(
       feeCollected: '0',
       retryCount: 1,
       lastError: 'Quote fetch failed on retry',
+      asset,
     };
   }
 
-  const swapResult = await executeDelegatedSwap(
-    delegation,
-    decision.action as 'buy' | 'sell',
-    swapQuote.swap.to as Address,
-    swapQuote.swap.data as Hex,
-    BigInt(swapQuote.swap.value || '0')
-  );
-
-  if (!swapResult.txHash) {
-    return {
-      success: false,
-      txHash: null,
-      error: swapResult.retryInfo.lastError?.message ?? 'Retry swap execution failed',
-      errorType: swapResult.retryInfo.lastError?.type ?? 'unknown',
+  // Same key as the parallel attempt: a held key is reconciled, never re-submitted over
+  const { executionKey } = walletData;
+  if (executionKey) {
+    const claim = await claimExecutionKey(executionKey, {
+      userAddress: delegation.user_address,
+      walletAddress: smartAccountAddress,
+      action: decision.action as 'buy' | 'sell',
+      targetAsset: asset,
+      fgValue,
       amountIn: swapAmountAfterFee.toString(),
-      amountOut: swapQuote.quote.quote.output.amount,
-      feeCollected: '0',
-      retryCount: swapResult.retryInfo.attempts,
-      lastError: swapResult.retryInfo.lastError?.message ?? null,
-    };
-  }
-
-  return {
-    success: true,
-    txHash: swapResult.txHash,
-    error: null,
-    errorType: null,
-    amountIn: swapAmountAfterFee.toString(),
-    amountOut: swapQuote.quote.quote.output.amount,
-    feeCollected: fee.toString(),
-    retryCount: swapResult.retryInfo.attempts,
-    lastError: null,
-  };
-}
-
-// Legacy function for compatibility (retries)
-export async function processUserDCA(
-  delegation: DelegationRecord,
-  decision: DCADecision,
-  fgValue: number
-): Promise<ExecutionResult> {
-  const userAddress = delegation.user_address as Address;
-  const smartAccountAddress = delegation.smart_account_address as Address;
-
-  let totalRetries = 0;
-  let lastErrorMessage: string | null = null;
-  let lastErrorType: ErrorType | null = null;
-
-  const isBuy = decision.action === 'buy';
-  const tokenIn = isBuy ? ADDRESSES.USDC : ADDRESSES.WETH;
-  const tokenOut = isBuy ? ADDRESSES.WETH : ADDRESSES.USDC;
-  const tokenDecimals = isBuy ? 6 : 18;
-  const tokenSymbol = isBuy ? 'USDC' : 'ETH';
-
-  // Ensure user's smart account is deployed before proceeding
-  const { ensureUserSmartAccountDeployed } = await import('./smart-account');
-  const isDeployed = await ensureUserSmartAccountDeployed(smartAccountAddress, userAddress);
-  if (!isDeployed) {
-    return {
-      success: false,
-      txHash: null,
-      error: 'Failed to deploy user smart account',
-      errorType: 'revert',
-      amountIn: '0',
-      amountOut: '0',
-      feeCollected: '0',
-      retryCount: 0,
-      lastError: 'Smart account deployment failed - check user EOA address matches delegation',
-    };
-  }
-
-  let balance: bigint;
-  try {
-    const { result: balanceResult, error: balanceError, attempts } = await withRetry(
-      async () => isBuy
-        ? await getUSDCBalance(smartAccountAddress)
-        : await getETHBalance(smartAccountAddress),
-      { operation: 'getBalance' }
-    );
-    totalRetries += attempts - 1;
-
-    if (balanceResult === null) {
-      lastErrorMessage = balanceError?.message ?? 'Failed to fetch balance';
-      lastErrorType = balanceError?.type ?? 'unknown';
+    });
+    if (!claim.claimed) {
       return {
         success: false,
         txHash: null,
-        error: lastErrorMessage,
-        errorType: lastErrorType,
-        amountIn: '0',
+        error: `Execution key held: ${claim.reason}`,
+        errorType: null,
+        amountIn: swapAmountAfterFee.toString(),
         amountOut: '0',
         feeCollected: '0',
-        retryCount: totalRetries,
-        lastError: lastErrorMessage,
+        retryCount: 0,
+        lastError: null,
+        asset,
+        executionKey,
+        keyHeld: true,
       };
     }
-    balance = balanceResult;
-  } catch (err) {
-    const classified = classifyError(err);
-    return {
-      success: false,
-      txHash: null,
-      error: classified.message,
-      errorType: classified.type,
-      amountIn: '0',
-      amountOut: '0',
-      feeCollected: '0',
-      retryCount: totalRetries,
-      lastError: classified.message,
-    };
-  }
-
-  if (balance === 0n) {
-    return {
-      success: false,
-      txHash: null,
-      error: 'Insufficient balance',
-      errorType: null,
-      amountIn: '0',
-      amountOut: '0',
-      feeCollected: '0',
-      retryCount: 0,
-      lastError: null,
-    };
-  }
-
-  const percentage = BigInt(Math.round(decision.percentage * 100));
-  let swapAmount = (balance * percentage) / 10000n;
-  const maxAmount = BigInt(delegation.max_amount_per_swap);
-  if (swapAmount > maxAmount) {
-    swapAmount = maxAmount;
-  }
-
-  const fee = calculateFee(swapAmount);
-  const swapAmountAfterFee = swapAmount - fee;
-
-  if (balance < swapAmount) {
-    return {
-      success: false,
-      txHash: null,
-      error: `Insufficient balance: ${formatUnits(balance, tokenDecimals)} ${tokenSymbol} < ${formatUnits(swapAmount, tokenDecimals)} ${tokenSymbol}`,
-      errorType: 'revert',
-      amountIn: '0',
-      amountOut: '0',
-      feeCollected: '0',
-      retryCount: 0,
-      lastError: `Insufficient balance: ${formatUnits(balance, tokenDecimals)} ${tokenSymbol}`,
-    };
-  }
-
-  const price = _cachedEthPriceUsd ?? 2500;
-  const swapValueUsd = calculateSwapValueUsd(swapAmountAfterFee, isBuy, price);
-  const slippageBps = getSlippageBpsForSwap(swapValueUsd);
-
-  console.log(`[Retry] ${smartAccountAddress}: Swap value $${swapValueUsd.toFixed(2)} -> slippage ${slippageBps/100}%`);
-
-  const swapQuote = await getSwapQuote(
-    smartAccountAddress,
-    tokenIn,
-    tokenOut,
-    swapAmountAfterFee.toString(),
-    slippageBps
-  );
-
-  if (!swapQuote) {
-    lastErrorMessage = 'Failed to get swap quote after retries';
-    lastErrorType = 'network';
-    return {
-      success: false,
-      txHash: null,
-      error: lastErrorMessage,
-      errorType: lastErrorType,
-      amountIn: swapAmountAfterFee.toString(),
-      amountOut: '0',
-      feeCollected: '0',
-      retryCount: totalRetries + 3,
-      lastError: lastErrorMessage,
-    };
   }
 
-  totalRetries += swapQuote.retryInfo.attempts - 1;
-
-  const swapResult = await executeDelegatedSwap(
+  const swapResult = await executeDelegatedSwapWithRetry(
     delegation,
     decision.action as 'buy' | 'sell',
     swapQuote.swap.to as Address,
     swapQuote.swap.data as Hex,
-    BigInt(swapQuote.swap.value || '0')
+    BigInt(swapQuote.swap.value || '0'),
+    { token: tokenOut, amount: calculateMinAmountOut(BigInt(swapQuote.amountOut), slippageBps) },
+    BigInt(Date.now()) * 1000000n, // The parallel attempt's key may already be used
+    { token: tokenIn, amount: fee },
+    executionKey ? (userOpHash) => markExecutionSubmitted(executionKey, { userOpHash }) : undefined,
+    wrapAmount,
+    swapQuote.approval
   );
 
-  totalRetries += swapResult.retryInfo.attempts - 1;
-
   if (!swapResult.txHash) {
-    lastErrorMessage = swapResult.retryInfo.lastError?.message ?? 'Swap execution failed';
-    lastErrorType = swapResult.retryInfo.lastError?.type ?? 'unknown';
     return {
       success: false,
       txHash: null,
-      error: lastErrorMessage,
-      errorType: lastErrorType,
+      error: swapResult.retryInfo.lastError?.message ?? 'Retry swap execution failed',
+      errorType: swapResult.retryInfo.lastError?.type ?? 'unknown',
       amountIn: swapAmountAfterFee.toString(),
-      amountOut: swapQuote.quote.quote.output.amount,
+      amountOut: swapQuote.amountOut,
+      venue: swapQuote.venue,
       feeCollected: '0',
-      retryCount: totalRetries,
-      lastError: lastErrorMessage,
+      retryCount: swapResult.retryInfo.attempts,
+      lastError: swapResult.retryInfo.lastError?.message ?? null,
+      asset,
+      executionKey,
+      unconfirmed: !!executionKey && swapResult.submittedUserOp !== null,
     };
   }
 
@@ -1588,9 +1505,12 @@ export async function processUserDCA(
     error: null,
     errorType: null,
     amountIn: swapAmountAfterFee.toString(),
-    amountOut: swapQuote.quote.quote.output.amount,
+    amountOut: swapQuote.amountOut,
+    venue: swapQuote.venue,
     feeCollected: fee.toString(),
-    retryCount: totalRetries,
+    retryCount: swapResult.retryInfo.attempts,
     lastError: null,
+    asset,
+    executionKey,
   };
 }
@@ -0,0 +1,92 @@
+// Test script for the backtest engine
+// Run with: npx tsx test-backtest.ts
+
+import { readFileSync } from 'fs';
+import {
+  parseFearGreedHistory,
+  parsePriceCsv,
+  joinSeries,
+  runStrategyBacktest,
+  runLumpSumBacktest,
+  runPlainDcaBacktest,
+  calculateMaxDrawdown,
+  calculateCagr,
+  type BacktestDay,
+} from './backtest-engine';
+import { check, checkClose, finish, printHeader } from './test-utils';
+
+printHeader('Backtest Engine Tests');
+
+// Test 1: Metrics
+console.log('Test 1: Max drawdown and CAGR');
+checkClose('drawdown 100 → 120 → 60 → 150', calculateMaxDrawdown([100, 120, 60, 150]), 0.5);
+checkClose('drawdown of rising curve', calculateMaxDrawdown([1, 2, 3]), 0);
+checkClose('CAGR doubling over 365 days', calculateCagr(100, 200, 365), 1);
+checkClose('CAGR doubling over 730 days', calculateCagr(100, 200, 730), Math.SQRT2 - 1);
+console.log();
+
+// Test 2: Fixture parsing (alternative.me is newest first)
+console.log('Test 2: Fixture parsing');
+const fearGreed = parseFearGreedHistory({
+  data: [
+    { value: '30', timestamp: '1735776000' }, // 2025-01-02
+    { value: '20', timestamp: '1735689600' }, // 2025-01-01
+  ],
+});
+check('sorted ascending', fearGreed[0].date, '2025-01-01');
+const prices = parsePriceCsv('date,close\n2025-01-01,2000\n2025-01-02,2100\n2025-01-03,2200\n');
+check('price rows', prices.size, 3);
+check('joined days (missing F&G dropped)', joinSeries(fearGreed, prices).length, 2);
+console.log();
+
+// Test 3: Hand-built series through the ladder (fee 0.20%, slippage 0.5% below $100)
+console.log('Test 3: Ladder on a two-day series');
+const days: BacktestDay[] = [
+  { date: '2025-01-01', fgValue: 20, price: 2000 }, // Extreme Fear → buy 5% of $1000 = $50
+  { date: '2025-01-02', fgValue: 50, price: 2000 }, // Neutral → hold
+];
+const ladder = runStrategyBacktest(days, { strategyId: 'ladder', initialCapitalUsd: 1000 });
+check('trades', ladder.metrics.trades, 1);
+checkClose('fee on $50', ladder.metrics.feesUsd, 0.1);
+// $49.90 after fee, filled 0.5% worse → $49.6505 of ETH
+check('final equity', Number(ladder.metrics.finalValueUsd.toFixed(4)), 999.6505);
+check('day two holds', ladder.equity[1].action, 'hold');
+console.log();
+
+// Test 4: Buy-only config never sells
+console.log('Test 4: Buy-only config');
+const greedy: BacktestDay[] = [
+  { date: '2025-01-01', fgValue: 10, price: 2000 },
+  { date: '2025-01-02', fgValue: 90, price: 2000 },
+];
+const buyOnly = runStrategyBacktest(greedy, { strategyId: 'ladder', strategyConfig: { buyOnly: true }, initialCapitalUsd: 1000 });
+check('sell day held', buyOnly.equity[1].action, 'hold');
+check('trades', buyOnly.metrics.trades, 1);
+console.log();
+
+// Test 5: Benchmarks
+console.log('Test 5: Benchmarks');
+const flat: BacktestDay[] = [
+  { date: '2025-01-01', fgValue: 50, price: 1000 },
+  { date: '2025-01-02', fgValue: 50, price: 2000 },
+];
+const lumpSum = runLumpSumBacktest(flat, 1000);
+// $998 after fee, filled 0.3% worse (≥ $100) → 0.995006 ETH, worth $1990.012 at $2000
+check('lump sum final equity', Number(lumpSum.metrics.finalValueUsd.toFixed(3)), 1990.012);
+const plainDca = runPlainDcaBacktest(flat, 1000);
+check('plain DCA trades', plainDca.metrics.trades, 2);
+check('plain DCA spends everything', plainDca.equity[1].usdc, 0);
+console.log();
+
+// Test 6: Bundled fixtures load and run offline
+console.log('Test 6: Bundled fixtures');
+const fixtureDays = joinSeries(
+  parseFearGreedHistory(JSON.parse(readFileSync(new URL('./fixtures/fear-greed-sample.json', import.meta.url), 'utf8'))),
+  parsePriceCsv(readFileSync(new URL('./fixtures/eth-usd-sample.csv', import.meta.url), 'utf8'))
+);
+check('fixture days', fixtureDays.length, 365);
+const fixtureRun = runStrategyBacktest(fixtureDays, { strategyId: 'sigmoid', initialCapitalUsd: 1000 });
+check('equity points', fixtureRun.equity.length, 365);
+console.log();
+
+finish();
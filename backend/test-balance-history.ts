@@ -0,0 +1,97 @@
+// Test script for balance valuation and history reconstruction
+// Run with: npx tsx test-balance-history.ts
+
+import {
+  getExecutionDelta,
+  getImpliedPrice,
+  getTotalUsd,
+  reconstructDailyBalances,
+  type DailyBalances,
+  type HistoryExecution,
+} from './balance-history';
+import { check, finish, printHeader } from './test-utils';
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+function exec(action: HistoryExecution['action'], amountIn: string, amountOut: string, createdAt: string, executionKey: string | null = null): HistoryExecution {
+  return { action, amountIn, amountOut, createdAt, executionKey, targetAsset: 'ETH' };
+}
+
+printHeader('Balance History Tests');
+
+// Test 1: Valuation
+console.log('Test 1: Total USD');
+check('USDC + ETH + WETH', getTotalUsd({ usdc: 100, weth: 0.5, eth: 0.01, cbbtc: 0 }, { ethUsd: 3000, btcUsd: null }), 1630);
+check('cbBTC without a BTC price', getTotalUsd({ usdc: 0, weth: 0, eth: 0, cbbtc: 0.1 }, { ethUsd: 3000, btcUsd: null }), null);
+check('cbBTC valued', getTotalUsd({ usdc: 0, weth: 0, eth: 0, cbbtc: 0.1 }, { ethUsd: 3000, btcUsd: 60000 }), 6000);
+console.log();
+
+// Test 2: Swap deltas and prices, including rebalances
+console.log('Test 2: Execution deltas');
+const buy = exec('buy', '30000000', '10000000000000000', '2026-03-02T12:00:00Z'); // 30 USDC → 0.01 WETH
+check('buy spends USDC', getExecutionDelta(buy).usdc, -30);
+check('buy adds WETH', getExecutionDelta(buy).weth, 0.01);
+check('implied price', round(getImpliedPrice(buy)!), 3000);
+const rebalanceSell = exec('rebalance', '10000000000000000', '29000000', '2026-03-03T12:00:00Z', '0xabc:rebalance-20260303T000000:sell');
+check('rebalance direction from key', getExecutionDelta(rebalanceSell).usdc, 29);
+check('rebalance without key ignored', getExecutionDelta(exec('rebalance', '1', '1', '2026-03-03T12:00:00Z')).usdc, 0);
+console.log();
+
+// Test 3: Walk back from today's balances
+console.log('Test 3: Reconstruction');
+const executions = [
+  exec('buy', '30000000', '10000000000000000', '2026-03-02T12:00:00Z'),
+  exec('buy', '30000000', '10000000000000000', '2026-03-04T12:00:00Z'),
+];
+const anchor = { usdc: 40, weth: 0.02, eth: 0.001, cbbtc: 0 };
+const days = reconstructDailyBalances(
+  anchor,
+  '2026-03-05',
+  executions,
+  { eth: new Map([['2026-03-01', 2900], ['2026-03-03', 3100]]), btc: new Map() },
+  '2026-03-01',
+  '2026-03-04'
+);
+check('days with a price', days.map((d: DailyBalances) => d.date).join(','), '2026-03-01,2026-03-02,2026-03-03,2026-03-04');
+check('before first buy: USDC', round(days[0].balances.usdc), 100);
+check('before first buy: WETH', round(days[0].balances.weth), 0);
+check('after first buy: WETH', round(days[1].balances.weth), 0.01);
+check('swap-day price fallback', round(days[1].prices.ethUsd), 3000);
+check('archived price', days[2].prices.ethUsd, 3100);
+check('total on 03-03', round(days[2].totalUsd), round(70 + 0.011 * 3100));
+check('native ETH untouched', days[0].balances.eth, 0.001);
+console.log();
+
+// Test 4: Days with no price or impossible balances are dropped
+console.log('Test 4: Dropped days');
+const gaps = reconstructDailyBalances(
+  { usdc: 10, weth: 0.01, eth: 0, cbbtc: 0 },
+  '2026-03-03',
+  [exec('buy', '30000000', '10000000000000000', '2026-03-02T12:00:00Z')],
+  { eth: new Map([['2026-03-01', 2900], ['2026-03-03', 3100]]), btc: new Map() },
+  '2026-03-01',
+  '2026-03-03'
+);
+// 03-02 has no archived price and is valued at its swap price
+check('days', gaps.map((d: DailyBalances) => d.date).join(','), '2026-03-01,2026-03-02,2026-03-03');
+const negative = reconstructDailyBalances(
+  { usdc: 0, weth: 0, eth: 0, cbbtc: 0 }, // Everything withdrawn after the buy
+  '2026-03-03',
+  [exec('buy', '30000000', '10000000000000000', '2026-03-02T12:00:00Z')],
+  { eth: new Map([['2026-03-01', 2900], ['2026-03-02', 3000], ['2026-03-03', 3100]]), btc: new Map() },
+  '2026-03-01',
+  '2026-03-03'
+);
+check('negative reconstruction dropped', negative.map((d: DailyBalances) => d.date).join(','), '2026-03-02,2026-03-03');
+const unpriced = reconstructDailyBalances(
+  { usdc: 10, weth: 0, eth: 0, cbbtc: 0 },
+  '2026-03-02',
+  [],
+  { eth: new Map(), btc: new Map() },
+  '2026-03-01',
+  '2026-03-02'
+);
+check('no price, no snapshot', unpriced.length, 0);
+console.log();
+
+finish();
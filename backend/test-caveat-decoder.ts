@@ -0,0 +1,115 @@
+// Test script for the caveat decoder: terms of caveats built with the kit's builders
+// decode to the values they were built from, unknown enforcers and malformed terms are
+// reported, and the signature digest matches what the kit signs
+// Run with: npx tsx test-caveat-decoder.ts
+
+import { parseUnits, recoverAddress, type Address } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { BalanceChangeType, createDelegation, getSmartAccountsEnvironment, signDelegation } from '@metamask/smart-accounts-kit';
+import { createCaveatBuilder } from '@metamask/smart-accounts-kit/utils';
+import { ADDRESSES, CHAIN_ID } from './config';
+import { decodeCaveat, decodeCaveats, getDelegationDigest, getEnforcerName, type DecodedCaveat } from './caveat-decoder';
+import { check, finish } from './test-utils';
+
+const environment = getSmartAccountsEnvironment(CHAIN_ID);
+const DELEGATOR: Address = '0x1111111111111111111111111111111111111111';
+const BACKEND: Address = '0x2222222222222222222222222222222222222222';
+const NOW = Math.floor(Date.now() / 1000);
+
+// ============ TEST 1: Kit builders ============
+
+console.log('Test 1: Terms built by the kit decode to their inputs');
+const caveats = createCaveatBuilder(environment)
+  .addCaveat('timestamp', { afterThreshold: 0, beforeThreshold: NOW + 86400 })
+  .addCaveat('limitedCalls', { limit: 365 })
+  .addCaveat('blockNumber', { afterThreshold: 100n, beforeThreshold: 200n })
+  .addCaveat('allowedTargets', { targets: [ADDRESSES.UNISWAP_ROUTER, ADDRESSES.WETH] })
+  .addCaveat('allowedMethods', { selectors: ['deposit()'] })
+  .addCaveat('valueLte', { maxValue: parseUnits('1', 18) })
+  .addCaveat('redeemer', { redeemers: [BACKEND] })
+  .addCaveat('erc20BalanceChange', {
+    tokenAddress: ADDRESSES.USDC,
+    recipient: DELEGATOR,
+    balance: parseUnits('25', 6),
+    changeType: BalanceChangeType.Increase,
+  })
+  .addCaveat('nativeTokenPayment', { recipient: BACKEND, amount: 1000n })
+  .addCaveat('erc20PeriodTransfer', {
+    tokenAddress: ADDRESSES.USDC,
+    periodAmount: parseUnits('48', 6),
+    periodDuration: 86400,
+    startDate: NOW,
+  })
+  .addCaveat('exactExecution', { execution: { target: ADDRESSES.WETH, value: 0n, callData: '0xd0e30db0' } })
+  .build();
+
+const decoded = decodeCaveats({ caveats });
+check('every caveat decoded', decoded.every((c: DecodedCaveat) => !c.error), true);
+check('names', decoded.map((c: DecodedCaveat) => c.name).join(','), [
+  'TimestampEnforcer', 'LimitedCallsEnforcer', 'BlockNumberEnforcer', 'AllowedTargetsEnforcer',
+  'AllowedMethodsEnforcer', 'ValueLteEnforcer', 'RedeemerEnforcer', 'ERC20BalanceChangeEnforcer',
+  'NativeTokenPaymentEnforcer', 'ERC20PeriodTransferEnforcer', 'ExactExecutionEnforcer',
+].join(','));
+
+const [timestamp, limitedCalls, blockNumber, targets, methods, valueLte, redeemer, balanceChange, payment, period, exact] = decoded;
+check('timestamp after', timestamp.terms.afterTimestamp, 0);
+check('timestamp before', timestamp.terms.beforeTimestamp, NOW + 86400);
+check('limited calls', limitedCalls.terms.limit, 365);
+check('block range', `${blockNumber.terms.afterBlock}-${blockNumber.terms.beforeBlock}`, '100-200');
+check('targets', (targets.terms.targets as string[]).join(','), [ADDRESSES.UNISWAP_ROUTER, ADDRESSES.WETH].join(',').toLowerCase());
+check('methods', (methods.terms.selectors as string[]).join(','), '0xd0e30db0');
+check('max value', valueLte.terms.maxValue, parseUnits('1', 18).toString());
+check('redeemers', (redeemer.terms.redeemers as string[]).join(','), BACKEND.toLowerCase());
+check('balance change type', balanceChange.terms.changeType, 'increase');
+check('balance change token', balanceChange.terms.token, ADDRESSES.USDC.toLowerCase());
+check('balance change recipient', balanceChange.terms.recipient, DELEGATOR.toLowerCase());
+check('balance change amount', balanceChange.terms.amount, parseUnits('25', 6).toString());
+check('payment', `${payment.terms.recipient}:${payment.terms.amount}`, `${BACKEND.toLowerCase()}:1000`);
+check('period amount', period.terms.periodAmount, parseUnits('48', 6).toString());
+check('period duration', period.terms.periodDuration, '86400');
+check('exact execution target', exact.terms.target, ADDRESSES.WETH.toLowerCase());
+check('exact execution calldata', exact.terms.callData, '0xd0e30db0');
+console.log();
+
+// ============ TEST 2: Unreadable caveats ============
+
+console.log('Test 2: Unknown enforcers and malformed terms');
+const unknown = decodeCaveat({ enforcer: '0x9999999999999999999999999999999999999999', terms: '0x01' });
+check('unknown enforcer name', unknown.name, 'Unknown');
+check('unknown enforcer → error', unknown.error?.startsWith('No decoder for enforcer'), true);
+const truncated = decodeCaveat({ enforcer: limitedCalls.enforcer, terms: '0x0000' });
+check('truncated terms → error', truncated.error?.startsWith('Invalid LimitedCallsEnforcer terms'), true);
+const trailing = decodeCaveat({ enforcer: timestamp.enforcer, terms: `${caveats[0].terms}00` });
+check('trailing bytes → error', trailing.error?.includes('unexpected trailing bytes'), true);
+check('enforcer lookup is case-insensitive', getEnforcerName(environment.caveatEnforcers.LimitedCallsEnforcer.toUpperCase().replace('0X', '0x')), 'LimitedCallsEnforcer');
+check('no caveats → empty', decodeCaveats({}).length, 0);
+console.log();
+
+// ============ TEST 3: Signature digest ============
+
+console.log('Test 3: Digest matches the kit\'s signature');
+const signerKey = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const signer = privateKeyToAccount(signerKey);
+const delegation = createDelegation({
+  to: BACKEND,
+  from: signer.address,
+  environment,
+  scope: { type: 'functionCall', targets: [ADDRESSES.WETH], selectors: ['deposit()'] },
+  caveats: [{ type: 'limitedCalls', limit: 365 }],
+});
+const signature = await signDelegation({
+  privateKey: signerKey,
+  delegation,
+  delegationManager: ADDRESSES.DELEGATION_MANAGER,
+  chainId: CHAIN_ID,
+});
+const signed = { ...delegation, signature };
+const recovered = await recoverAddress({ hash: getDelegationDigest(signed), signature });
+check('digest recovers the signer', recovered, signer.address);
+check('signature not part of the digest', getDelegationDigest({ ...signed, signature: '0x' }), getDelegationDigest(signed));
+const tampered = { ...signed, delegate: DELEGATOR };
+check('changed delegate → different signer',
+  (await recoverAddress({ hash: getDelegationDigest(tampered), signature })) === signer.address, false);
+console.log();
+
+finish();
@@ -0,0 +1,271 @@
+// Test script for scoped delegation sets: which delegation redeems each call, caveat term
+// decoding, the fee-transfer checks, minimum-received redelegations, delegation hashes,
+// FearGreedEnforcer args and withdraw redemptions - against delegations built with the
+// kit's builders
+// Run with: npx tsx test-delegation-scopes.ts
+
+import { decodeAbiParameters, encodeAbiParameters, encodeFunctionData, erc20Abi, parseUnits, pad, toFunctionSelector, type Address, type Hex } from 'viem';
+import { ExecutionMode, createDelegation, createExecution, getSmartAccountsEnvironment } from '@metamask/smart-accounts-kit';
+import { DelegationManager } from '@metamask/smart-accounts-kit/contracts';
+import { getDelegationHashOffchain } from '@metamask/smart-accounts-kit/utils';
+import { ADDRESSES, CAVEAT_ENFORCERS, type DelegationRecord } from './config';
+import {
+  buildMinReceivedDelegation,
+  getAllowedCalldata,
+  getAllowedRedeemers,
+  getDelegationHashes,
+  getFearGreedEnforcerTerms,
+  getFeeTransferDelegation,
+  getMinReceived,
+  getPeriodTransferLimit,
+  getRedemptionDelegations,
+  withFearGreedRound,
+} from './delegation-scopes';
+import { FG_ENFORCER_ARGS_ABI, FG_ENFORCER_TERMS_ABI, getEnforcerBandBps } from '../shared/fear-greed-enforcer';
+import { validateStrategyConfig } from '../shared/strategies';
+import { getPinnedWithdrawRecipient, getWithdrawDelegationScope } from '../shared/withdrawals';
+import { decodeCaveats, type DecodedCaveat } from './caveat-decoder';
+import { check, finish, printHeader, thrownMessage } from './test-utils';
+
+// ============ DELEGATIONS ============
+
+const environment = getSmartAccountsEnvironment(8453);
+const DELEGATOR: Address = '0x1111111111111111111111111111111111111111';
+const BACKEND: Address = '0x2222222222222222222222222222222222222222';
+const FEE_COLLECTOR: Address = '0x3333333333333333333333333333333333333333';
+const NOW = Math.floor(Date.now() / 1000);
+const USDC_FEE_LIMIT = parseUnits('48', 6);
+
+function sign<T extends object>(delegation: T) {
+  return { ...delegation, signature: '0x01' };
+}
+
+const swapDelegation = sign(createDelegation({
+  to: BACKEND,
+  from: DELEGATOR,
+  environment,
+  scope: {
+    type: 'functionCall',
+    targets: [ADDRESSES.UNISWAP_ROUTER, ADDRESSES.WETH],
+    selectors: ['execute(bytes,bytes[],uint256)', 'deposit()'],
+  },
+  caveats: [{ type: 'redeemer', redeemers: [BACKEND] }],
+}));
+
+const approveDelegation = sign(createDelegation({
+  to: BACKEND,
+  from: DELEGATOR,
+  environment,
+  scope: {
+    type: 'functionCall',
+    targets: [ADDRESSES.USDC, ADDRESSES.WETH],
+    selectors: ['approve(address,uint256)'],
+    allowedCalldata: [{ startIndex: 4, value: pad(ADDRESSES.PERMIT2) }],
+  },
+}));
+
+function feeDelegation(token: Address, recipient: Address, periodAmount: bigint) {
+  return sign(createDelegation({
+    to: BACKEND,
+    from: DELEGATOR,
+    environment,
+    scope: { type: 'erc20PeriodTransfer', tokenAddress: token, periodAmount, periodDuration: 86400, startDate: NOW },
+    caveats: [{ type: 'allowedCalldata', startIndex: 4, value: pad(recipient) }],
+  }));
+}
+
+// What the call-restricting enforcers check on a single-call redemption: target,
+// selector, pinned calldata and redeemer
+function allowsCall(delegation: any, call: { target: Address; callData: Hex }, redeemer: Address): boolean {
+  return decodeCaveats(delegation).every((caveat: DecodedCaveat) => {
+    switch (caveat.name) {
+      case 'AllowedTargetsEnforcer':
+        return (caveat.terms.targets as string[]).includes(call.target.toLowerCase());
+      case 'AllowedMethodsEnforcer':
+        return (caveat.terms.selectors as string[]).includes(call.callData.slice(0, 10).toLowerCase());
+      case 'AllowedCalldataEnforcer': {
+        const start = 2 + 2 * Number(caveat.terms.startIndex);
+        const value = (caveat.terms.value as string).slice(2);
+        return call.callData.toLowerCase().slice(start, start + value.length) === value;
+      }
+      case 'RedeemerEnforcer':
+        return (caveat.terms.redeemers as string[]).includes(redeemer.toLowerCase());
+      default:
+        return true;
+    }
+  });
+}
+
+function record(overrides: Partial<DelegationRecord>): DelegationRecord {
+  return {
+    id: '1',
+    user_address: DELEGATOR,
+    smart_account_address: DELEGATOR,
+    delegation_hash: '0x',
+    delegation_signature: '0x01',
+    delegation_data: JSON.stringify(swapDelegation),
+    max_amount_per_swap: '1000000000',
+    expires_at: new Date((NOW + 86400) * 1000).toISOString(),
+    created_at: new Date(NOW * 1000).toISOString(),
+    ...overrides,
+  };
+}
+
+const scoped = record({
+  scoped_delegations: {
+    approve: approveDelegation,
+    permit2Approve: approveDelegation,
+    feeTransfer: {
+      [ADDRESSES.USDC]: feeDelegation(ADDRESSES.USDC, FEE_COLLECTOR, USDC_FEE_LIMIT),
+      [ADDRESSES.cbBTC]: feeDelegation(ADDRESSES.cbBTC, BACKEND, 1000n),
+    },
+  },
+});
+
+printHeader('Delegation Scope Tests');
+
+// Test 1: Caveat terms decode to what the builders encoded
+console.log('Test 1: Caveat terms');
+const pinned = getAllowedCalldata(approveDelegation);
+check('one pinned argument', pinned.length, 1);
+check('pinned at byte 4', pinned[0].startIndex, 4);
+check('pinned to Permit2', pinned[0].value, pad(ADDRESSES.PERMIT2).toLowerCase());
+const limit = getPeriodTransferLimit(scoped.scoped_delegations!.feeTransfer[ADDRESSES.USDC]);
+check('period token', limit?.token, ADDRESSES.USDC.toLowerCase());
+check('period amount', limit?.periodAmount, USDC_FEE_LIMIT);
+check('period duration', limit?.periodDuration, 86400);
+check('period start', limit?.startDate, NOW);
+check('redeemers', getAllowedRedeemers(swapDelegation)?.join(','), BACKEND.toLowerCase());
+check('no redeemer caveat → null', getAllowedRedeemers(approveDelegation), null);
+check('no period caveat → null', getPeriodTransferLimit(swapDelegation), null);
+console.log();
+
+// Test 2: Legacy delegations redeem every call with delegation_data
+console.log('Test 2: Legacy delegation');
+const legacy = getRedemptionDelegations(record({}));
+check('approve uses the swap delegation', legacy.approve, legacy.swap);
+check('fee uses the swap delegation', getFeeTransferDelegation(legacy, { token: ADDRESSES.USDC, amount: 1n }, FEE_COLLECTOR), legacy.swap);
+check('JSONB delegation_data', getRedemptionDelegations(record({ delegation_data: swapDelegation as any })).swap.delegate, BACKEND);
+check('unsigned → throws', thrownMessage(() => getRedemptionDelegations(record({ delegation_data: '{}' }))), 'Delegation missing signature');
+console.log();
+
+// Test 3: Scoped sets route each call to its own delegation
+console.log('Test 3: Scoped delegation set');
+const delegations = getRedemptionDelegations(scoped);
+check('swap from delegation_data', delegations.swap.delegate, BACKEND);
+check('approve from the scoped set', delegations.approve, approveDelegation);
+check('fee delegations keyed by lowercase token', Object.keys(delegations.feeTransfer!).every(k => k === k.toLowerCase()), true);
+const usdcFee = getFeeTransferDelegation(delegations, { token: ADDRESSES.USDC, amount: parseUnits('2', 6) }, FEE_COLLECTOR);
+check('USDC fee delegation', usdcFee, delegations.feeTransfer![ADDRESSES.USDC.toLowerCase()]);
+check('fee over the period limit → throws',
+  thrownMessage(() => getFeeTransferDelegation(delegations, { token: ADDRESSES.USDC, amount: USDC_FEE_LIMIT + 1n }, FEE_COLLECTOR)).includes('period limit'), true);
+check('recipient other than the fee collector → throws',
+  thrownMessage(() => getFeeTransferDelegation(delegations, { token: ADDRESSES.cbBTC, amount: 1n }, FEE_COLLECTOR)).includes('does not pay the fee collector'), true);
+check('token without a fee delegation → throws',
+  thrownMessage(() => getFeeTransferDelegation(delegations, { token: ADDRESSES.WETH, amount: 1n }, FEE_COLLECTOR)), `No fee transfer delegation for ${ADDRESSES.WETH}`);
+check('unsigned scoped delegation → throws',
+  thrownMessage(() => getRedemptionDelegations(record({ scoped_delegations: { ...scoped.scoped_delegations!, approve: {} } }))), 'Approve delegation missing signature');
+console.log();
+
+// Test 3b: Hashes the revocation indexer matches DisabledDelegation events against
+console.log('Test 3b: Delegation hashes');
+const legacyHashes = getDelegationHashes(record({}));
+check('legacy → swap hash only', legacyHashes.join(','), getDelegationHashOffchain(swapDelegation).toLowerCase());
+const scopedHashes = getDelegationHashes(scoped);
+check('scoped → swap, approve and one per fee token (deduplicated)', scopedHashes.length, 4);
+check('includes the fee delegation',
+  scopedHashes.includes(getDelegationHashOffchain(delegations.feeTransfer![ADDRESSES.cbBTC.toLowerCase()]).toLowerCase()), true);
+console.log();
+
+// Test 4: Minimum-received redelegation
+console.log('Test 4: Minimum received');
+const minReceived = buildMinReceivedDelegation(swapDelegation, { token: ADDRESSES.WETH, amount: 123456789n });
+check('granted by the swap delegate', minReceived.delegator, BACKEND);
+check('to the swap delegate', minReceived.delegate, BACKEND);
+check('authority is the swap delegation', minReceived.authority, getDelegationHashOffchain(swapDelegation));
+check('one caveat', minReceived.caveats.length, 1);
+const decodedMin = getMinReceived(minReceived);
+check('min token', decodedMin?.token, ADDRESSES.WETH.toLowerCase());
+check('min recipient is the wallet', decodedMin?.recipient, DELEGATOR.toLowerCase());
+check('min amount', decodedMin?.amount, 123456789n);
+check('no balance-change caveat → null', getMinReceived(swapDelegation), null);
+check('zero minimum → throws', thrownMessage(() => buildMinReceivedDelegation(swapDelegation, { token: ADDRESSES.WETH, amount: 0n })).includes('balance'), true);
+console.log();
+
+// Test 5: FearGreedEnforcer terms, band limits and round args
+console.log('Test 5: Fear & Greed enforcer');
+const FG_ENFORCER: Address = '0x4444444444444444444444444444444444444444';
+const FG_ORACLE: Address = '0x5555555555555555555555555555555555555555';
+// Deployments are configured by env (FG_ENFORCER_ADDRESS); register one for the test
+CAVEAT_ENFORCERS[FG_ENFORCER.toLowerCase()] = 'FearGreedEnforcer';
+const bandBps = getEnforcerBandBps('ladder', null);
+check('ladder band limits', bandBps.join(','), '500,250,250,500');
+check('buy-only config blocks the greed bands', getEnforcerBandBps('ladder', { buyOnly: true }).join(','), '500,250,0,0');
+check('band override', getEnforcerBandBps('linear', { bands: { fear: { percentage: 7 } } })[1], 700);
+check('linear band limits', getEnforcerBandBps('linear', null).join(','), '500,217,228,500');
+check('buy-only strategy ignores greed overrides',
+  getEnforcerBandBps('contrarian-buy-only', { bands: { extremeGreed: { percentage: 5 } } }).join(','), '500,250,0,0');
+check('buy-only strategy rejects greed overrides',
+  validateStrategyConfig({ bands: { greed: { percentage: 2 } } }, 'contrarian-buy-only').valid, false);
+check('buy-only strategy accepts fear overrides',
+  validateStrategyConfig({ bands: { fear: { percentage: 2 } } }, 'contrarian-buy-only').valid, true);
+const fgTerms = encodeAbiParameters(FG_ENFORCER_TERMS_ABI, [FG_ORACLE, 86400n, [ADDRESSES.USDC, ADDRESSES.WETH], ADDRESSES.WETH, bandBps]);
+const enforcedSwap = sign(createDelegation({
+  to: BACKEND,
+  from: DELEGATOR,
+  environment,
+  scope: {
+    type: 'functionCall',
+    targets: [ADDRESSES.UNISWAP_ROUTER, ADDRESSES.WETH],
+    selectors: ['execute(bytes,bytes[],uint256)', 'deposit()'],
+  },
+  caveats: [{ enforcer: FG_ENFORCER, terms: fgTerms, args: '0x' }],
+}));
+const decoded = getFearGreedEnforcerTerms(enforcedSwap);
+check('terms oracle', decoded?.oracle, FG_ORACLE);
+check('terms tokens', decoded?.tokens.join(','), [ADDRESSES.USDC, ADDRESSES.WETH].join(','));
+check('terms band limits', decoded?.bandBps.join(','), '500,250,250,500');
+check('no enforcer caveat → null', getFearGreedEnforcerTerms(swapDelegation), null);
+const withRound = withFearGreedRound(enforcedSwap, 7n);
+const fgCaveat = withRound.caveats.find((c: any) => c.enforcer === FG_ENFORCER);
+check('round set as args', decodeAbiParameters(FG_ENFORCER_ARGS_ABI, fgCaveat.args as Hex)[0], 7n);
+check('other caveats keep empty args', withRound.caveats.filter((c: any) => c !== fgCaveat).every((c: any) => c.args === '0x'), true);
+check('signed delegation left untouched', enforcedSwap.caveats.every((c: any) => c.args === '0x'), true);
+check('no enforcer caveat → same delegation', withFearGreedRound(swapDelegation, null), swapDelegation);
+check('enforcer caveat without a round → throws',
+  thrownMessage(() => withFearGreedRound(enforcedSwap, null)), 'Delegation requires an on-chain Fear & Greed round, but none was posted');
+console.log();
+
+// Test 6: Withdrawals redeem the withdraw delegation, pinned to the owner's EOA
+console.log('Test 6: Withdraw redemption');
+const OWNER: Address = '0x4444444444444444444444444444444444444444';
+const withdrawDelegation = sign(createDelegation({
+  to: BACKEND,
+  from: DELEGATOR,
+  environment,
+  scope: getWithdrawDelegationScope(OWNER),
+  caveats: [{ type: 'redeemer', redeemers: [BACKEND] }],
+}));
+const transferTo = (recipient: Address) => ({
+  target: ADDRESSES.USDC,
+  callData: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [recipient, parseUnits('10', 6)] }),
+});
+check('pinned recipient', getPinnedWithdrawRecipient(withdrawDelegation, environment.caveatEnforcers.AllowedCalldataEnforcer), OWNER.toLowerCase());
+check('no pinned recipient on the swap delegation',
+  getPinnedWithdrawRecipient(swapDelegation, environment.caveatEnforcers.AllowedCalldataEnforcer), null);
+check('transfer to the owner allowed', allowsCall(withdrawDelegation, transferTo(OWNER), BACKEND), true);
+check('transfer elsewhere rejected', allowsCall(withdrawDelegation, transferTo(FEE_COLLECTOR), BACKEND), false);
+check('transfer of an unregistered token rejected',
+  allowsCall(withdrawDelegation, { ...transferTo(OWNER), target: FG_ORACLE }, BACKEND), false);
+check('other redeemers rejected', allowsCall(withdrawDelegation, transferTo(OWNER), OWNER), false);
+check('swap delegation rejects the transfer', allowsCall(swapDelegation, transferTo(OWNER), BACKEND), false);
+const withdrawRedemption = DelegationManager.encode.redeemDelegations({
+  delegations: [[withdrawDelegation]],
+  modes: [ExecutionMode.SingleDefault],
+  executions: [[createExecution({ ...transferTo(OWNER), value: 0n })]],
+});
+check('redemption calls redeemDelegations', withdrawRedemption.slice(0, 10),
+  toFunctionSelector('redeemDelegations(bytes[],bytes32[],bytes[])'));
+console.log();
+
+finish();
@@ -0,0 +1,16 @@
+// Test script for the edge functions' copy of shared modules: supabase/functions can only
+// bundle files under it, so supabase/functions/_shared holds copies that must match
+// Run with: npx tsx test-edge-shared.ts
+
+import { readFileSync } from 'node:fs';
+import { check, finish } from './test-utils';
+
+console.log('Test 1: Edge copies match shared/ (npm run sync-edge-shared)');
+for (const file of ['strategies.ts']) {
+  const source = readFileSync(new URL(`../shared/${file}`, import.meta.url), 'utf8');
+  const copy = readFileSync(new URL(`../supabase/functions/_shared/${file}`, import.meta.url), 'utf8');
+  check(file, copy === source, true);
+}
+console.log();
+
+finish();
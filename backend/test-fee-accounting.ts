@@ -0,0 +1,96 @@
+// Test script for fee reconciliation against receipts and staking deposits
+// Run with: npx tsx test-fee-accounting.ts
+
+import { encodeAbiParameters, encodeEventTopics, erc20Abi, type Hex } from 'viem';
+import {
+  reconcileFees,
+  sumTokenTransfers,
+  type FeeLedgerRow,
+  type ReceiptLog,
+} from './fee-accounting';
+import { check, finish, printHeader } from './test-utils';
+
+const USDC = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const WETH = '0x4200000000000000000000000000000000000006';
+const WALLET = '0x4f38dde0be7d92abde9f3d4ba29a92e02bd71bd7';
+const BACKEND = '0xe3c938c71273bfff7dee21bdd3a8ee1e453bdd1b';
+
+function transfer(token: string, from: string, to: string, value: bigint): ReceiptLog {
+  return {
+    address: token,
+    topics: encodeEventTopics({ abi: erc20Abi, eventName: 'Transfer', args: { from: from as Hex, to: to as Hex } }) as Hex[],
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+  };
+}
+
+function ledgerRow(id: string, token: string, accrued: string, collected: string | null, tx: string, depositTx: string | null = null): FeeLedgerRow {
+  return {
+    id,
+    wallet_address: WALLET,
+    token,
+    accrued_amount: accrued,
+    collected_amount: collected,
+    collect_tx_hash: tx,
+    deposit_tx_hash: depositTx,
+  };
+}
+
+printHeader('Fee Accounting Tests');
+
+// Test 1: Only the fee transfer to the recipient counts
+console.log('Test 1: Receipt transfer sums');
+const swapLogs = [
+  transfer(USDC, WALLET, '0x6ff5693b99212da76ad316178a184ab56d299b43', 9_800_000n), // swap input to router
+  transfer(USDC, WALLET, BACKEND, 200_000n),                                         // fee
+  transfer(WETH, '0x6ff5693b99212da76ad316178a184ab56d299b43', WALLET, 3_000_000_000_000_000n),
+];
+check('fee to backend', sumTokenTransfers(swapLogs, USDC, WALLET, BACKEND), 200_000n);
+check('case-insensitive match', sumTokenTransfers(swapLogs, USDC.toUpperCase().replace('0X', '0x'), WALLET.toUpperCase().replace('0X', '0x'), BACKEND.toLowerCase()), 200_000n);
+check('other token ignored', sumTokenTransfers(swapLogs, WETH, WALLET, BACKEND), 0n);
+console.log();
+
+// Test 2: Everything lines up
+console.log('Test 2: Clean reconciliation');
+const ledger = [
+  ledgerRow('f1', USDC, '200000', '200000', '0xaa', '0xd1'),
+  ledgerRow('f2', USDC, '100000', '100000', '0xbb', '0xd1'),
+  ledgerRow('f3', USDC, '50000', '50000', '0xcc'),
+];
+const executions = [
+  { tx_hash: '0xAA', wallet_address: WALLET, fee_collected: '200000' },
+  { tx_hash: '0xbb', wallet_address: WALLET, fee_collected: '100000' },
+  { tx_hash: '0xcc', wallet_address: WALLET, fee_collected: '50000' },
+];
+const collected = new Map([['f1', 200_000n], ['f2', 100_000n], ['f3', 50_000n]]);
+const deposits = new Map([['0xd1', new Map([[USDC, 300_000n]])]]);
+const clean = reconcileFees(ledger, executions, collected, deposits);
+check('issues', clean.issues.length, 0);
+check('accrued', clean.tokens[USDC].accrued, 350_000n);
+check('deposited', clean.tokens[USDC].onchainDeposited, 300_000n);
+check('awaiting sweep', clean.tokens[USDC].undeposited, 50_000n);
+console.log();
+
+// Test 3: Each kind of mismatch is reported
+console.log('Test 3: Mismatches');
+const broken = reconcileFees(
+  [
+    ledgerRow('f1', USDC, '200000', '150000', '0xaa', '0xd1'), // short collection
+    ledgerRow('f2', USDC, '100000', null, '0xbb'),             // never verified
+  ],
+  [
+    ...executions.slice(0, 2),
+    { tx_hash: '0xdd', wallet_address: WALLET, fee_collected: '70000' }, // no ledger row
+  ],
+  new Map([['f1', 150_000n]]),                   // f2 receipt unavailable
+  new Map([['0xd1', new Map([[USDC, 140_000n]])]]) // deposit short
+);
+const has = (needle: string) => broken.issues.some((issue: string) => issue.includes(needle));
+check('short collection', has('collected 150000 != accrued 200000'), true);
+check('unverified row', has('0xbb: fee collection never verified'), true);
+check('missing receipt', has('0xbb: receipt unavailable'), true);
+check('short deposit', has('staking received 140000'), true);
+check('fee missing from ledger', has('0xdd: fee 70000 logged'), true);
+check('issue count', broken.issues.length, 5);
+console.log();
+
+finish();
@@ -1,29 +1,8 @@
 // Test script for F&G Oracle redundancy (C5 Fix)
 // Run with: npx tsx test-fg-redundancy.ts
 
-// Import the functions we want to test
-// Since we can't easily import from the main file, we'll copy the key logic here
-
-const FG_STALENESS_THRESHOLD_SECONDS = 43200; // 12 hours
-
-interface FearGreedData {
-  value: number;
-  classification: string;
-  timestamp: number;
-  source: 'primary' | 'backup';
-}
-
-function isFearGreedStale(data: FearGreedData): boolean {
-  const now = Math.floor(Date.now() / 1000);
-  const age = now - data.timestamp;
-  const isStale = age > FG_STALENESS_THRESHOLD_SECONDS;
-
-  if (isStale) {
-    console.warn(`[F&G Stale] Data is ${(age / 3600).toFixed(1)} hours old (threshold: ${FG_STALENESS_THRESHOLD_SECONDS / 3600}h)`);
-  }
-
-  return isStale;
-}
+import { FG_STALENESS_THRESHOLD_SECONDS } from './config';
+import { aggregateFearGreed, isFearGreedStale, type FearGreedSample } from './fear-greed-oracle';
 
 // Test cases
 console.log('========================================');
@@ -32,11 +11,11 @@ console.log('========================================\n');
 
 // Test 1: Fresh data (should not be stale)
 console.log('Test 1: Fresh data (1 hour old)');
-const freshData: FearGreedData = {
+const freshData: FearGreedSample = {
   value: 45,
   classification: 'Fear',
   timestamp: Math.floor(Date.now() / 1000) - 3600, // 1 hour ago
-  source: 'primary',
+  source: 'alternative.me',
 };
 const freshResult = isFearGreedStale(freshData);
 console.log(`  Result: ${freshResult ? 'STALE ❌' : 'FRESH ✓'}`);
@@ -44,11 +23,11 @@ console.log(`  Expected: FRESH ✓\n`);
 
 // Test 2: Stale data (13 hours old)
 console.log('Test 2: Stale data (13 hours old)');
-const staleData: FearGreedData = {
+const staleData: FearGreedSample = {
   value: 45,
   classification: 'Fear',
   timestamp: Math.floor(Date.now() / 1000) - (13 * 3600), // 13 hours ago
-  source: 'primary',
+  source: 'alternative.me',
 };
 const staleResult = isFearGreedStale(staleData);
 console.log(`  Result: ${staleResult ? 'STALE ✓' : 'FRESH ❌'}`);
@@ -56,11 +35,11 @@ console.log(`  Expected: STALE ✓\n`);
 
 // Test 3: Exactly at threshold (12 hours)
 console.log('Test 3: Exactly at threshold (12 hours)');
-const thresholdData: FearGreedData = {
+const thresholdData: FearGreedSample = {
   value: 45,
   classification: 'Fear',
   timestamp: Math.floor(Date.now() / 1000) - FG_STALENESS_THRESHOLD_SECONDS, // Exactly 12 hours
-  source: 'primary',
+  source: 'alternative.me',
 };
 const thresholdResult = isFearGreedStale(thresholdData);
 console.log(`  Result: ${thresholdResult ? 'STALE' : 'FRESH'}`);
@@ -113,6 +92,40 @@ for (const tc of testCases) {
   console.log(`  BTC ${tc.change > 0 ? '+' : ''}${tc.change}% → F&G ${result.value} (${result.classification}) ${passed ? '✓' : '❌'}`);
 }
 
+// Test 5: Median and source label across providers
+console.log('\nTest 5: Median aggregation');
+const now = Math.floor(Date.now() / 1000);
+const sample = (source: string, value: number): FearGreedSample => ({
+  source,
+  value,
+  classification: 'n/a',
+  timestamp: now,
+});
+const agreed = aggregateFearGreed(
+  [sample('alternative.me', 30), sample('coinmarketcap', 36), sample('onchain', 33)],
+  { minQuorum: 2, maxDisagreement: 20 }
+);
+console.log(`  Result: ${agreed.value} from ${agreed.source}, forceHold=${agreed.forceHold}`);
+console.log(`  Expected: 33 from median(alternative.me,coinmarketcap,onchain), forceHold=false ${agreed.value === 33 && !agreed.forceHold ? '✓' : '❌'}`);
+
+// Test 6: Disagreement forces hold
+console.log('\nTest 6: Disagreement threshold');
+const disagree = aggregateFearGreed(
+  [sample('alternative.me', 20), sample('coinmarketcap', 60)],
+  { minQuorum: 2, maxDisagreement: 20 }
+);
+console.log(`  Result: forceHold=${disagree.forceHold} (${disagree.holdReason})`);
+console.log(`  Expected: forceHold=true ${disagree.forceHold ? '✓' : '❌'}`);
+
+// Test 7: Quorum not met fails closed
+console.log('\nTest 7: Quorum');
+try {
+  aggregateFearGreed([sample('alternative.me', 40)], { minQuorum: 2, maxDisagreement: 20 });
+  console.log('  Result: no error ❌');
+} catch (err) {
+  console.log(`  Result: ${(err as Error).message} ✓`);
+}
+
 console.log('\n========================================');
 console.log('All tests completed!');
 console.log('========================================');
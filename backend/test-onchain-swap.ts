@@ -0,0 +1,138 @@
+// Test script for the on-chain quote fallback: locally built SwapRouter02 / Universal Router calldata
+// Run with: npx tsx test-onchain-swap.ts
+//
+// The fork tests need an anvil fork of Base and are skipped without one:
+//   anvil --fork-url https://base-mainnet.g.alchemy.com/v2/<key>
+//   ANVIL_RPC_URL=http://127.0.0.1:8545 npx tsx test-onchain-swap.ts
+
+import {
+  createPublicClient,
+  createTestClient,
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  http,
+  maxUint256,
+  parseEther,
+  publicActions,
+  walletActions,
+  type Address,
+  type Hex,
+} from 'viem';
+import { base } from 'viem/chains';
+import {
+  ADDRESSES,
+  calculateMinAmountOut,
+  permit2Abi,
+  swapRouter02Abi,
+  universalRouterAbi,
+  wethAbi,
+} from './config';
+import {
+  buildOnchainSwap,
+  encodeSwapRouter02ExactInput,
+  encodeUniversalRouterV3ExactIn,
+  type OnchainRouter,
+  type OnchainSwapParams,
+} from './onchain-swap';
+import { validateVenueSwap } from './quote-selection';
+import { check, finish, printHeader } from './test-utils';
+
+const SWAPPER = getAddress('0x00000000000000000000000000000000000dca01');
+const params: OnchainSwapParams = {
+  tokenIn: ADDRESSES.WETH,
+  tokenOut: ADDRESSES.USDC,
+  fee: 500,
+  recipient: SWAPPER,
+  amountIn: parseEther('0.1'),
+  amountOutMinimum: calculateMinAmountOut(300000000n, 30),
+};
+
+printHeader('On-chain Swap Fallback Tests');
+
+// Test 1: SwapRouter02 calldata carries the quoted pool and minOut
+console.log('Test 1: SwapRouter02 encoding');
+const v3 = decodeFunctionData({ abi: swapRouter02Abi, data: encodeSwapRouter02ExactInput(params) });
+const v3Args = v3.args[0];
+check('function', v3.functionName, 'exactInputSingle');
+check('fee tier', v3Args.fee, 500);
+check('recipient is the swapper', v3Args.recipient, SWAPPER);
+check('minOut is quote less slippage', v3Args.amountOutMinimum, 299100000n);
+console.log();
+
+// Test 2: Universal Router calldata is a single V3_SWAP_EXACT_IN paid through Permit2
+console.log('Test 2: Universal Router encoding');
+const urData = encodeUniversalRouterV3ExactIn(params, 1800000000n);
+const ur = decodeFunctionData({ abi: universalRouterAbi, data: urData });
+check('one V3_SWAP_EXACT_IN command', ur.args[0], '0x00');
+check('deadline', ur.args[2], 1800000000n);
+const [recipient, amountIn, amountOutMin, path, payerIsUser] = decodeAbiParameters(
+  [{ type: 'address' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'bytes' }, { type: 'bool' }],
+  ur.args[1][0]
+);
+check('recipient is the swapper', recipient, SWAPPER);
+check('amount in', amountIn, parseEther('0.1'));
+check('minOut', amountOutMin, 299100000n);
+check('path WETH → 0.05% → USDC', path, `${ADDRESSES.WETH}0001f4${ADDRESSES.USDC.slice(2)}`.toLowerCase());
+check('paid by the smart account (Permit2)', payerIsUser, true);
+check('passes the fallback venue whitelist', (() => {
+  try {
+    validateVenueSwap('uniswap-onchain', { to: ADDRESSES.UNISWAP_ROUTER, data: urData }, [params.tokenIn, params.tokenOut]);
+    return true;
+  } catch {
+    return false;
+  }
+})(), true);
+console.log();
+
+// Test 3: Quote and swap against a fork of Base
+const forkUrl = process.env.ANVIL_RPC_URL;
+if (!forkUrl) {
+  console.log('Test 3: Fork swaps - skipped (set ANVIL_RPC_URL to an anvil fork of Base)\n');
+} else {
+  console.log('Test 3: Fork swaps');
+  const client = createTestClient({ mode: 'anvil', chain: base, transport: http(forkUrl) })
+    .extend(publicActions)
+    .extend(walletActions);
+
+  // Quotes go through a plain public client on the fork, as buildOnchainSwap expects
+  const forkClient = createPublicClient({ chain: base, transport: http(forkUrl) });
+
+  await client.impersonateAccount({ address: SWAPPER });
+  await client.setBalance({ address: SWAPPER, value: parseEther('10') });
+
+  const send = async (to: Address, data: Hex, value: bigint = 0n) => {
+    const hash = await client.sendTransaction({ account: SWAPPER, chain: base, to, data, value });
+    return client.waitForTransactionReceipt({ hash });
+  };
+  const usdcBalance = () => client.readContract({ address: ADDRESSES.USDC, abi: erc20Abi, functionName: 'balanceOf', args: [SWAPPER] });
+
+  await send(ADDRESSES.WETH, encodeFunctionData({ abi: wethAbi, functionName: 'deposit' }), parseEther('1'));
+  // SwapRouter02 pulls with a plain allowance, the Universal Router through Permit2
+  await send(ADDRESSES.WETH, encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [ADDRESSES.UNISWAP_SWAP_ROUTER_02, maxUint256] }));
+  await send(ADDRESSES.WETH, encodeFunctionData({ abi: erc20Abi, functionName: 'approve', args: [ADDRESSES.PERMIT2, maxUint256] }));
+  await send(ADDRESSES.PERMIT2, encodeFunctionData({
+    abi: permit2Abi,
+    functionName: 'approve',
+    args: [ADDRESSES.WETH, ADDRESSES.UNISWAP_ROUTER, 2n ** 160n - 1n, 2 ** 48 - 1],
+  }));
+
+  for (const router of ['swap-router-02', 'universal-router'] as OnchainRouter[]) {
+    const built = await buildOnchainSwap(
+      forkClient,
+      { swapper: SWAPPER, tokenIn: ADDRESSES.WETH, tokenOut: ADDRESSES.USDC, amount: parseEther('0.1'), slippageBps: 50 },
+      router
+    );
+    const before = await usdcBalance();
+    const receipt = await send(built.swap.to, built.swap.data);
+    const received = (await usdcBalance()) - before;
+    check(`${router}: swap succeeded`, receipt.status, 'success');
+    check(`${router}: received at least minOut`, received >= built.minAmountOut, true);
+    console.log(`    ${built.pool.fee / 10000}% pool, quoted ${built.pool.amountOut}, received ${received}`);
+  }
+  console.log();
+}
+
+finish();
@@ -0,0 +1,34 @@
+// Test script for the price guard: quote-implied prices and deviation checks
+// Run with: npx tsx test-price-guard.ts
+
+import { parseEther, parseUnits } from 'viem';
+import { checkPriceDeviation, getDeviationBps, getImpliedPriceUsd } from './price-guard';
+import { check, finish, printHeader } from './test-utils';
+
+printHeader('Price Guard Tests');
+
+// Test 1: Price implied by a quote, whichever side USDC is on
+console.log('Test 1: Implied price');
+check('buy 300 USDC → 0.1 WETH', getImpliedPriceUsd(true, parseUnits('300', 6), parseEther('0.1'), 18), 3000);
+check('sell 0.1 WETH → 290 USDC', getImpliedPriceUsd(false, parseEther('0.1'), parseUnits('290', 6), 18), 2900);
+check('sell 0.01 cbBTC → 1000 USDC', getImpliedPriceUsd(false, parseUnits('0.01', 8), parseUnits('1000', 6), 8), 100000);
+check('no output → no price', getImpliedPriceUsd(true, parseUnits('300', 6), 0n, 18), 0);
+console.log();
+
+// Test 2: Deviation check against the references
+console.log('Test 2: Deviation check');
+const references = [
+  { source: 'chainlink' as const, priceUsd: 3000 },
+  { source: 'twap' as const, priceUsd: 2990 },
+];
+check('1% off → 100 bps', getDeviationBps(2970, 3000), 100);
+check('within 2% of both', checkPriceDeviation(2950, references, 200).passed, true);
+check('3% below Chainlink refused', checkPriceDeviation(2910, references, 200).passed, false);
+check('refusal names the reference', checkPriceDeviation(2910, references, 200).reason?.includes('chainlink'), true);
+check('above the references refused too', checkPriceDeviation(3100, references, 200).passed, false);
+check('TWAP alone still guards', checkPriceDeviation(2900, [references[1]], 200).passed, false);
+check('no reference → refused', checkPriceDeviation(3000, [], 200).reason, 'no reference price available');
+check('no implied price → refused', checkPriceDeviation(0, references, 200).passed, false);
+console.log();
+
+finish();
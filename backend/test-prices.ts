@@ -0,0 +1,121 @@
+// Test script for the shared price service: TWAP ticks, Chainlink staleness, source fallback,
+// caching and historical round lookup - against an in-memory feed, no RPC needed
+// Run with: npx tsx test-prices.ts
+
+import { ADDRESSES } from './config';
+import {
+  PRICE_FEEDS,
+  getAverageTick,
+  getHistoricalUsdPrice,
+  getReferencePrices,
+  getUsdPrice,
+  tickToPriceUsd,
+  type PriceClient,
+  type PriceReading,
+} from '../shared/prices';
+import { check, finish, printHeader } from './test-utils';
+
+async function rejects(promise: Promise<unknown>): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+// ============ IN-MEMORY FEEDS ============
+
+const NOW = Math.floor(Date.now() / 1000);
+const PHASE = 2n << 64n;
+
+// Feed address → rounds (round n at index n - 1); pool address → tick
+const rounds = new Map<string, { answer: bigint; updatedAt: number }[]>();
+const poolTicks = new Map<string, number>();
+let reads = 0;
+
+const client: PriceClient = {
+  async readContract({ address, functionName, args }: { address: string; functionName: string; args?: readonly unknown[] }) {
+    reads++;
+    const feed = rounds.get(address.toLowerCase());
+    const round = (n: number) => {
+      const r = feed![n - 1];
+      return [PHASE | BigInt(n), r.answer, BigInt(r.updatedAt), BigInt(r.updatedAt), PHASE | BigInt(n)];
+    };
+    switch (functionName) {
+      case 'decimals':
+        return 8;
+      case 'latestRoundData':
+        return round(feed!.length);
+      case 'getRoundData':
+        return round(Number((args![0] as bigint) & ((1n << 64n) - 1n)));
+      case 'observe': {
+        const [seconds] = args![0] as number[];
+        const tick = BigInt(poolTicks.get(address.toLowerCase())!);
+        return [[0n, tick * BigInt(seconds)], [0n, 0n]];
+      }
+    }
+    throw new Error(`unexpected call ${functionName}`);
+  },
+};
+
+const ethFeed = PRICE_FEEDS.ETH.chainlink!.toLowerCase();
+const btcFeed = PRICE_FEEDS.cbBTC.chainlink!.toLowerCase();
+poolTicks.set(PRICE_FEEDS.ETH.twapPool!.toLowerCase(), -196257); // ≈ $3000
+
+printHeader('Price Service Tests');
+
+// Test 1: Pool ticks to USD prices
+console.log('Test 1: TWAP ticks');
+// WETH is token0 of the WETH/USDC pool: $3000 ≈ tick -196257
+check('WETH at tick -196257 ≈ $3000', Math.round(tickToPriceUsd(-196257, ADDRESSES.WETH, 18)), 3000);
+// cbBTC sorts after USDC, so the pool prices USDC in cbBTC: $100k ≈ tick -69081
+check('cbBTC (token1) at tick -69081 ≈ $100k', Math.round(tickToPriceUsd(-69081, ADDRESSES.cbBTC, 8)), 100000);
+check('mean tick over the window', getAverageTick([-1000n * 1800n, -1000n * 1800n + -196257n * 1800n], 1800), -196257);
+check('negative mean rounds down', getAverageTick([0n, -3601n], 1800), -3);
+check('positive mean rounds toward zero', getAverageTick([0n, 3601n], 1800), 2);
+console.log();
+
+// Test 2: Current prices - Chainlink first, TWAP when it is stale, never a made-up price
+console.log('Test 2: Current prices');
+check('USDC is $1', (await getUsdPrice(client, 'USDC')).priceUsd, 1);
+rounds.set(ethFeed, [{ answer: 3010_00000000n, updatedAt: NOW - 7200 }]);
+const fallback = await getUsdPrice(client, 'ETH');
+check('stale Chainlink → TWAP', fallback.source, 'twap');
+check('TWAP price', Math.round(fallback.priceUsd), 3000);
+rounds.set(btcFeed, [{ answer: 100000_00000000n, updatedAt: NOW - 7200 }]);
+check('stale Chainlink and no pool → throws', await rejects(getUsdPrice(client, 'cbBTC')), true);
+rounds.set(ethFeed, [{ answer: 3010_00000000n, updatedAt: NOW - 60 }]);
+const fresh = await getUsdPrice(client, 'ETH');
+check('fresh Chainlink preferred', fresh.source, 'chainlink');
+check('Chainlink price', fresh.priceUsd, 3010);
+console.log();
+
+// Test 3: Readings are cached
+console.log('Test 3: Cache');
+const readsBefore = reads;
+rounds.get(ethFeed)![0].answer = 3500_00000000n;
+check('cached reading reused', (await getUsdPrice(client, 'ETH')).priceUsd, 3010);
+check('no feed reads', reads - readsBefore, 0);
+const references = await getReferencePrices(client, 'ETH');
+check('ETH references', references.map((r: PriceReading) => r.source).join(','), 'chainlink,twap');
+console.log();
+
+// Test 4: Historical lookup over the feed's rounds
+console.log('Test 4: Historical prices');
+// Hourly rounds over two days, $90k rising $100 an hour; a 7h gap before the last round
+const history = Array.from({ length: 48 }, (_, i) => ({
+  answer: BigInt(90000 + i * 100) * 10n ** 8n,
+  updatedAt: NOW - 54 * 3600 + i * 3600,
+}));
+history.push({ answer: 95000_00000000n, updatedAt: NOW - 60 });
+rounds.set(btcFeed, history);
+check('exactly at a round', (await getHistoricalUsdPrice(client, 'cbBTC', history[10].updatedAt)).priceUsd, 91000);
+check('between rounds → earlier one', (await getHistoricalUsdPrice(client, 'cbBTC', history[20].updatedAt + 1800)).priceUsd, 92000);
+check('after the latest round', (await getHistoricalUsdPrice(client, 'cbBTC', NOW)).priceUsd, 95000);
+check('before the phase → throws', await rejects(getHistoricalUsdPrice(client, 'cbBTC', history[0].updatedAt - 1)), true);
+check('no round within max age → throws', await rejects(getHistoricalUsdPrice(client, 'cbBTC', history[47].updatedAt + 2 * 3600)), true);
+check('USDC is always $1', (await getHistoricalUsdPrice(client, 'USDC', NOW - 86400)).priceUsd, 1);
+console.log();
+
+finish();
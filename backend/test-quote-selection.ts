@@ -0,0 +1,102 @@
+// Test script for quote venue eligibility, per-venue router whitelists and best-net-output selection
+// Run with: npx tsx test-quote-selection.ts
+
+import { encodeFunctionData, parseGwei, parseUnits, toFunctionSelector, type Address, type Hex } from 'viem';
+import {
+  ODOS_ROUTER_V2,
+  PERMIT2_ADDRESS,
+  TOKEN_REGISTRY,
+  UNISWAP_SWAP_ROUTER_02,
+  UNISWAP_UNIVERSAL_ROUTER,
+  getDelegationTargets,
+  getSwapDelegationTargets,
+} from '../shared/tokens';
+import { WETH_DEPOSIT_SELECTOR, swapRouter02Abi, type SwapVenue } from './config';
+import {
+  getEligibleVenues,
+  getGasCostInTokenOut,
+  selectBestQuote,
+  validateVenueSwap,
+  type GasPricing,
+  type ProviderQuote,
+} from './quote-selection';
+import { check, finish, printHeader, throws } from './test-utils';
+
+function quote(venue: SwapVenue, amountOut: string, gasEstimate: bigint): ProviderQuote {
+  return {
+    venue,
+    amountOut: parseUnits(amountOut, 6),
+    gasEstimate,
+    swap: { to: UNISWAP_UNIVERSAL_ROUTER, data: '0x', value: '0' },
+    quote: null,
+    timestamp: Date.now(),
+  };
+}
+
+const USDC = TOKEN_REGISTRY.USDC.address as Address;
+const WETH = TOKEN_REGISTRY.ETH.address as Address;
+const sel = (signature: string) => toFunctionSelector(signature);
+const BASE_METHODS = [
+  sel('execute(bytes,bytes[],uint256)'),
+  sel('exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))'),
+  sel('approve(address,uint256)'),
+  sel('transfer(address,uint256)'),
+];
+
+// 1 gwei, ETH at $3000, selling into USDC
+const pricing: GasPricing = { gasPriceWei: parseGwei('1'), ethPriceUsd: 3000, outPriceUsd: 1, outDecimals: 6 };
+
+printHeader('Quote Selection Tests');
+
+// Test 1: Venues follow the delegation's allowed targets and methods
+console.log('Test 1: Eligible venues');
+check('no caveats → every venue', getEligibleVenues(null, null).join(','), 'uniswap-api,uniswap-v3,odos,uniswap-onchain');
+// Delegations signed before venue selection: Universal Router, Permit2 and tokens only
+const legacyTargets = [UNISWAP_UNIVERSAL_ROUTER, PERMIT2_ADDRESS, USDC, WETH];
+check('legacy delegation → Universal Router only', getEligibleVenues(legacyTargets, BASE_METHODS).join(','), 'uniswap-api,uniswap-onchain');
+check('registry targets without swapCompact', getEligibleVenues(getDelegationTargets(), BASE_METHODS).join(','), 'uniswap-api,uniswap-v3,uniswap-onchain');
+check('registry targets and methods', getEligibleVenues(getDelegationTargets(), [...BASE_METHODS, sel('swapCompact()')]).join(','), 'uniswap-api,uniswap-v3,odos,uniswap-onchain');
+// Scoped approvals only name Permit2, so swap delegations signed with them skip the direct-approval routers
+check('swap delegation targets', getEligibleVenues(getSwapDelegationTargets(), [sel('execute(bytes,bytes[],uint256)'), WETH_DEPOSIT_SELECTOR]).join(','), 'uniswap-api,uniswap-onchain');
+check('case-insensitive', getEligibleVenues(legacyTargets.map(t => t.toLowerCase()), BASE_METHODS.map(m => m.toUpperCase())).join(','), 'uniswap-api,uniswap-onchain');
+console.log();
+
+// Test 2: Each venue's calldata must call its own routers with its own swap method
+console.log('Test 2: Per-venue whitelists');
+const v3Data = encodeFunctionData({
+  abi: swapRouter02Abi,
+  functionName: 'exactInputSingle',
+  args: [{ tokenIn: USDC, tokenOut: WETH, fee: 500, recipient: USDC, amountIn: 1n, amountOutMinimum: 0n, sqrtPriceLimitX96: 0n }],
+});
+const executeData = `${sel('execute(bytes,bytes[],uint256)')}00` as Hex;
+check('V3 swap via SwapRouter02', throws(() => validateVenueSwap('uniswap-v3', { to: UNISWAP_SWAP_ROUTER_02, data: v3Data }, [USDC, WETH])), false);
+check('Trading API swap via Universal Router', throws(() => validateVenueSwap('uniswap-api', { to: UNISWAP_UNIVERSAL_ROUTER, data: executeData }, [USDC, WETH])), false);
+check('Odos swap via Odos router', throws(() => validateVenueSwap('odos', { to: ODOS_ROUTER_V2, data: sel('swapCompact()') }, [USDC, WETH])), false);
+check('V3 venue to Universal Router', throws(() => validateVenueSwap('uniswap-v3', { to: UNISWAP_UNIVERSAL_ROUTER, data: v3Data }, [USDC, WETH])), true);
+check('Trading API to Odos router', throws(() => validateVenueSwap('uniswap-api', { to: ODOS_ROUTER_V2, data: executeData }, [USDC, WETH])), true);
+check('Odos router, unexpected method', throws(() => validateVenueSwap('odos', { to: ODOS_ROUTER_V2, data: executeData }, [USDC, WETH])), true);
+check('unregistered token', throws(() => validateVenueSwap('uniswap-v3', { to: UNISWAP_SWAP_ROUTER_02, data: v3Data }, ['0x0000000000000000000000000000000000000001'])), true);
+console.log();
+
+// Test 3: Gas is converted into the output token
+console.log('Test 3: Gas cost');
+// 200k gas at 1 gwei = 0.0002 ETH = $0.60
+check('$0.60 in USDC', getGasCostInTokenOut(200000n, pricing), parseUnits('0.6', 6));
+check('in cbBTC at $100k', getGasCostInTokenOut(200000n, { ...pricing, outPriceUsd: 100000, outDecimals: 8 }), parseUnits('0.000006', 8));
+check('no price → no gas cost', getGasCostInTokenOut(200000n, { ...pricing, outPriceUsd: 0 }), 0n);
+console.log();
+
+// Test 4: Best output after gas wins
+console.log('Test 4: Selection');
+// Trading API: 100.00 - 0.90 gas; V3 pool: 99.50 - 0.30 gas; Odos: 100.20 - 1.20 gas
+const api = quote('uniswap-api', '100', 300000n);
+const v3 = quote('uniswap-v3', '99.5', 100000n);
+const odos = quote('odos', '100.2', 400000n);
+check('best net, not largest gross', selectBestQuote([api, v3, odos], pricing)?.venue, 'uniswap-v3');
+check('free gas → largest gross', selectBestQuote([api, v3, odos], { ...pricing, gasPriceWei: 0n })?.venue, 'odos');
+check('tie → provider order', selectBestQuote([api, quote('odos', '100', 300000n)], pricing)?.venue, 'uniswap-api');
+check('zero output skipped', selectBestQuote([quote('odos', '0', 0n), api], pricing)?.venue, 'uniswap-api');
+check('nothing quoted', selectBestQuote([], pricing), null);
+console.log();
+
+finish();
@@ -0,0 +1,103 @@
+// Test script for over-execution detection and rebalance planning
+// Run with: npx tsx test-rebalance-planner.ts
+
+import {
+  buildRebalancePlan,
+  detectOverExecutions,
+  type ExecutionRow,
+} from './rebalance-planner';
+import { check, finish, printHeader } from './test-utils';
+
+const WALLET_A = '0x4f38dde0be7d92abde9f3d4ba29a92e02bd71bd7';
+const WALLET_B = '0xaba389bb9d865152886d70d274d1225c42502e1f';
+
+function row(id: string, wallet: string, action: 'buy' | 'sell', amountIn: string, amountOut: string, createdAt: string): ExecutionRow {
+  return { id, wallet, userAddress: `owner-${wallet.slice(2, 6)}`, action, amountIn, amountOut, createdAt };
+}
+
+printHeader('Rebalance Planner Tests');
+
+// Test 1: One swap per wallet per UTC day is allowed
+console.log('Test 1: Detection');
+const rows: ExecutionRow[] = [
+  row('a1', WALLET_A, 'buy', '10000000', '5000000000000000', '2026-02-14T12:00:00Z'),
+  row('a2', WALLET_A, 'buy', '10000000', '4000000000000000', '2026-02-14T12:30:00Z'),
+  row('a3', WALLET_A, 'buy', '10000000', '3000000000000000', '2026-02-14T13:00:00Z'),
+  row('a4', WALLET_A, 'buy', '10000000', '5000000000000000', '2026-02-15T12:00:00Z'),
+  row('b1', WALLET_B, 'sell', '1000000000000000', '2000000', '2026-02-14T12:00:00Z'),
+];
+const over = detectOverExecutions(rows);
+check('over-executed wallet-days', over.length, 1);
+check('wallet', over[0].wallet, WALLET_A);
+check('slot', over[0].slot, '2026-02-14');
+check('first swap kept', over[0].allowed[0].id, 'a1');
+check('excess ids', over[0].excess.map((r: ExecutionRow) => r.id).join(','), 'a2,a3');
+check('next day is its own slot', detectOverExecutions(rows.slice(3)).length, 0);
+console.log();
+
+// Test 2: Excess buys are sold back (asset received by the extra swaps)
+console.log('Test 2: Plan for excess buys');
+const plan = buildRebalancePlan(over, { from: '2026-02-14', to: '2026-02-15' }, new Map([[WALLET_A, 'ETH']]), new Date('2026-10-19T08:00:00Z'));
+check('plan id', plan.id, 'rebalance-20261019T080000');
+check('items', plan.items.length, 1);
+check('direction', plan.items[0].direction, 'sell');
+check('amount (0.004 + 0.003 ETH)', plan.items[0].amountIn, '7000000000000000');
+check('excess count', plan.items[0].excessSwapCount, 2);
+console.log();
+
+// Test 3: Excess sells are bought back with the USDC they produced
+console.log('Test 3: Plan for excess sells');
+const sells = detectOverExecutions([
+  row('b1', WALLET_B, 'sell', '1000000000000000', '2000000', '2026-02-14T12:00:00Z'),
+  row('b2', WALLET_B, 'sell', '1000000000000000', '2100000', '2026-02-14T12:30:00Z'),
+]);
+const sellPlan = buildRebalancePlan(sells, { from: '2026-02-14', to: '2026-02-14' }, new Map());
+check('direction', sellPlan.items[0].direction, 'buy');
+check('USDC to spend', sellPlan.items[0].amountIn, '2100000');
+check('default target asset', sellPlan.items[0].targetAsset, 'ETH');
+console.log();
+
+// Test 4: Excess that nets to nothing needs no correction
+console.log('Test 4: Netted excess');
+const netted = detectOverExecutions([
+  row('c1', WALLET_B, 'buy', '10000000', '5000000000000000', '2026-02-14T12:00:00Z'),
+  row('c2', WALLET_B, 'buy', '10000000', '5000000000000000', '2026-02-14T12:10:00Z'),
+  row('c3', WALLET_B, 'sell', '5000000000000000', '9000000', '2026-02-14T12:20:00Z'),
+]);
+check('excess swaps', netted[0].excess.length, 2);
+check('plan items', buildRebalancePlan(netted, { from: '2026-02-14', to: '2026-02-14' }, new Map()).items.length, 0);
+console.log();
+
+// Test 5: A basket wallet's per-asset swaps are one each, not excess
+console.log('Test 5: Basket legs');
+const legs = detectOverExecutions([
+  { ...row('d1', WALLET_A, 'buy', '6000000', '2000000000000000', '2026-02-14T12:00:00Z'), targetAsset: 'ETH' },
+  { ...row('d2', WALLET_A, 'buy', '4000000', '4000', '2026-02-14T12:00:01Z'), targetAsset: 'cbBTC' },
+  { ...row('d3', WALLET_A, 'buy', '4000000', '4100', '2026-02-14T12:30:00Z'), targetAsset: 'cbBTC' },
+]);
+check('over-executed assets', legs.length, 1);
+check('excess asset', legs[0].targetAsset, 'cbBTC');
+const legPlan = buildRebalancePlan(legs, { from: '2026-02-14', to: '2026-02-14' }, new Map([[WALLET_A, 'ETH']]));
+check('sells back the excess asset', legPlan.items[0].targetAsset, 'cbBTC');
+check('amount', legPlan.items[0].amountIn, '4100');
+console.log();
+
+// Test 6: An interval schedule's slots each allow a swap (execution key slot, not UTC day)
+console.log('Test 6: Interval schedule');
+const keyed = (id: string, slot: string, createdAt: string): ExecutionRow => ({
+  ...row(id, WALLET_B, 'buy', '10000000', '5000000000000000', createdAt),
+  targetAsset: 'ETH',
+  executionKey: `${WALLET_B}:${slot}:ETH:buy`,
+});
+const fourHourly = [0, 4, 8, 12, 16, 20].map(hour => {
+  const slot = `2026-02-14T${String(hour).padStart(2, '0')}:00Z`;
+  return keyed(`e${hour}`, slot, `2026-02-14T${String(hour).padStart(2, '0')}:05:00Z`);
+});
+check('one swap per 4-hour slot is not excess', detectOverExecutions(fourHourly).length, 0);
+const repeated = detectOverExecutions([...fourHourly, keyed('e8b', '2026-02-14T08:00Z', '2026-02-14T09:00:00Z')]);
+check('second swap in a slot is excess', repeated.length, 1);
+check('slot from the execution key', repeated[0].slot, '2026-02-14T08:00Z');
+check('excess id', repeated[0].excess[0].id, 'e8b');
+console.log();
+
+finish();
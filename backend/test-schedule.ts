@@ -0,0 +1,60 @@
+// Test script for per-wallet execution schedules
+// Run with: npx tsx test-schedule.ts
+
+import {
+  DEFAULT_SCHEDULE,
+  getDueSlot,
+  getMaxSlots,
+  getNextSlotStart,
+  validateSchedule,
+  type ExecutionSchedule,
+} from '../shared/schedule';
+import { check, finish, printHeader } from './test-utils';
+
+const at = (iso: string) => new Date(iso);
+
+printHeader('Execution Schedule Tests');
+
+// Test 1: Validation
+console.log('Test 1: Validation');
+check('missing → default', validateSchedule(undefined).schedule, DEFAULT_SCHEDULE);
+check('interval ok', validateSchedule({ cadence: 'interval', intervalHours: 6, windowStartHour: 0, windowEndHour: 24 }).valid, true);
+check('interval not dividing 24', validateSchedule({ cadence: 'interval', intervalHours: 5, windowStartHour: 0, windowEndHour: 24 }).valid, false);
+check('empty window', validateSchedule({ cadence: 'daily', windowStartHour: 12, windowEndHour: 12 }).valid, false);
+check('weekly without days', validateSchedule({ cadence: 'weekly', windowStartHour: 9, windowEndHour: 10 }).valid, false);
+check('unknown field', validateSchedule({ cadence: 'daily', windowStartHour: 9, windowEndHour: 10, timezone: 'CET' }).valid, false);
+const weekly = validateSchedule({ cadence: 'weekly', weekdays: [5, 1, 1], windowStartHour: 9, windowEndHour: 11 });
+check('weekdays normalised', weekly.schedule?.weekdays?.join(','), '1,5');
+console.log();
+
+// Test 2: Daily (default) matches the old 12:00 UTC run
+console.log('Test 2: Daily slot');
+check('due at 12:00', getDueSlot(DEFAULT_SCHEDULE, at('2026-10-19T12:00:00Z'))?.id, '2026-10-19T12:00Z');
+check('due at 12:59 (late tick)', getDueSlot(DEFAULT_SCHEDULE, at('2026-10-19T12:59:00Z'))?.id, '2026-10-19T12:00Z');
+check('not due at 13:00', getDueSlot(DEFAULT_SCHEDULE, at('2026-10-19T13:00:00Z')), null);
+check('not due at 11:00', getDueSlot(DEFAULT_SCHEDULE, at('2026-10-19T11:00:00Z')), null);
+check('next after 13:00', getNextSlotStart(DEFAULT_SCHEDULE, at('2026-10-19T13:00:00Z')).toISOString(), '2026-10-20T12:00:00.000Z');
+check('slots per year', getMaxSlots(DEFAULT_SCHEDULE, 365), 365);
+console.log();
+
+// Test 3: Every 6 hours inside 06:00–20:00
+console.log('Test 3: Interval slots');
+const sixHourly: ExecutionSchedule = { cadence: 'interval', intervalHours: 6, windowStartHour: 6, windowEndHour: 20 };
+check('06:00 slot', getDueSlot(sixHourly, at('2026-10-19T08:00:00Z'))?.id, '2026-10-19T06:00Z');
+check('18:00 slot runs until window end', getDueSlot(sixHourly, at('2026-10-19T19:00:00Z'))?.id, '2026-10-19T18:00Z');
+check('closed after window', getDueSlot(sixHourly, at('2026-10-19T21:00:00Z')), null);
+check('next from 19:00', getNextSlotStart(sixHourly, at('2026-10-19T19:00:00Z')).toISOString(), '2026-10-20T06:00:00.000Z');
+check('slots per day × days', getMaxSlots(sixHourly, 10), 30);
+console.log();
+
+// Test 4: Weekly on Monday and Friday (2026-10-19 is a Monday)
+console.log('Test 4: Weekly slots');
+const monFri = weekly.schedule!;
+check('Monday 09:30 due', getDueSlot(monFri, at('2026-10-19T09:30:00Z'))?.id, '2026-10-19T09:00Z');
+check('Monday 10:30 still due', getDueSlot(monFri, at('2026-10-19T10:30:00Z'))?.id, '2026-10-19T09:00Z');
+check('Tuesday not due', getDueSlot(monFri, at('2026-10-20T09:30:00Z')), null);
+check('next is Friday', getNextSlotStart(monFri, at('2026-10-19T10:00:00Z')).toISOString(), '2026-10-23T09:00:00.000Z');
+check('slots per year', getMaxSlots(monFri, 365), 106);
+console.log();
+
+finish();
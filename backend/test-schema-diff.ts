@@ -0,0 +1,70 @@
+// Test script for schema drift detection
+// Run with: npx tsx test-schema-diff.ts
+
+import { diffSchemas, type SchemaColumn, type SchemaDrift, type SchemaObject, type SchemaSnapshot } from './schema-diff';
+import { check, finish, printHeader } from './test-utils';
+
+function snapshot(): SchemaSnapshot {
+  return {
+    columns: [
+      { table: 'delegations', name: 'id', type: 'uuid', nullable: false, default: 'gen_random_uuid()' },
+      { table: 'delegations', name: 'user_address', type: 'text', nullable: false, default: null },
+      { table: 'fee_ledger', name: 'id', type: 'uuid', nullable: false, default: 'gen_random_uuid()' },
+    ],
+    indexes: [
+      { table: 'delegations', name: 'delegations_pkey', definition: 'CREATE UNIQUE INDEX delegations_pkey ON public.delegations USING btree (id)' },
+      { table: 'fee_ledger', name: 'fee_ledger_pkey', definition: 'CREATE UNIQUE INDEX fee_ledger_pkey ON public.fee_ledger USING btree (id)' },
+    ],
+    constraints: [
+      { table: 'delegations', name: 'delegations_pkey', definition: 'PRIMARY KEY (id)' },
+    ],
+    policies: [],
+    rls: [
+      { table: 'delegations', enabled: true },
+      { table: 'fee_ledger', enabled: true },
+    ],
+    functions: [
+      { name: 'increment_protocol_stats', definition: 'increment_protocol_stats(volume_delta numeric, fees_delta numeric) void' },
+    ],
+  };
+}
+
+printHeader('Schema Diff Tests');
+
+// Test 1: Identical schemas
+console.log('Test 1: No drift');
+check('differences', diffSchemas(snapshot(), snapshot()).length, 0);
+console.log();
+
+// Test 2: A migration that never ran reports the table once, not every column/index
+console.log('Test 2: Missing table');
+const missingTable = snapshot();
+missingTable.columns = missingTable.columns.filter((c: SchemaColumn) => c.table !== 'fee_ledger');
+missingTable.indexes = missingTable.indexes.filter((i: SchemaObject) => i.table !== 'fee_ledger');
+missingTable.rls = missingTable.rls.filter((r: SchemaSnapshot['rls'][number]) => r.table !== 'fee_ledger');
+const tableDrift = diffSchemas(snapshot(), missingTable);
+check('differences', tableDrift.length, 1);
+check('kind', tableDrift[0].kind, 'table');
+check('issue', tableDrift[0].issue, 'missing');
+console.log();
+
+// Test 3: Hand edits in the live database
+console.log('Test 3: Changed and unexpected objects');
+const handEdited = snapshot();
+handEdited.columns[1] = { ...handEdited.columns[1], nullable: true };
+handEdited.columns.push({ table: 'delegations', name: 'notes', type: 'text', nullable: true, default: null });
+handEdited.rls[0] = { table: 'delegations', enabled: false };
+handEdited.policies.push({ table: 'delegations', name: 'Anyone can read', definition: 'SELECT anon true' });
+handEdited.functions = [];
+const drift = diffSchemas(snapshot(), handEdited);
+const find = (kind: string, name: string) => drift.find((d: SchemaDrift) => d.kind === kind && d.name === name);
+check('nullability change', find('column', 'delegations.user_address')?.issue, 'changed');
+check('expected definition', find('column', 'delegations.user_address')?.expected, 'text NOT NULL');
+check('extra column', find('column', 'delegations.notes')?.issue, 'unexpected');
+check('RLS disabled', find('rls', 'delegations')?.actual, 'disabled');
+check('extra policy', find('policy', 'delegations.Anyone can read')?.issue, 'unexpected');
+check('missing RPC', find('function', 'increment_protocol_stats')?.issue, 'missing');
+check('total', drift.length, 5);
+console.log();
+
+finish();
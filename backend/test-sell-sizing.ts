@@ -0,0 +1,100 @@
+// Test script for asset-aware sell sizing: USD value, minimums, caps and native ETH wrapping (ETH & cbBTC)
+// Run with: npx tsx test-sell-sizing.ts
+
+import { parseUnits } from 'viem';
+import {
+  MIN_SWAP_AMOUNT,
+  calculateBasketSellAmounts,
+  calculateSwapValueUsd,
+  calculateWalletSwapAmount,
+  calculateWrapAmount,
+  getMaxSellAmount,
+  getMinSwapAmount,
+  getSellableEthBalance,
+  getSlippageBpsForSwap,
+  SLIPPAGE_LARGE_BPS,
+  SLIPPAGE_SMALL_BPS,
+} from './config';
+import { check, finish, printHeader } from './test-utils';
+
+const ETH_PRICE = 3000;
+const BTC_PRICE = 100000;
+const sell = { action: 'sell' as const, percentage: 10, reason: '' };
+
+printHeader('Sell Sizing Tests (ETH & cbBTC)');
+
+// Test 1: Sells are valued at the sold asset's price and decimals
+console.log('Test 1: Swap value');
+check('0.1 ETH', calculateSwapValueUsd(parseUnits('0.1', 18), false, ETH_PRICE, 18), 300);
+check('0.001 cbBTC', calculateSwapValueUsd(parseUnits('0.001', 8), false, BTC_PRICE, 8), 100);
+check('buy is USDC', calculateSwapValueUsd(parseUnits('25', 6), true, BTC_PRICE, 8), 25);
+check('ETH defaults to 18 decimals', calculateSwapValueUsd(parseUnits('1', 18), false, ETH_PRICE), 3000);
+console.log();
+
+// Test 2: Slippage tier follows the asset's own value
+console.log('Test 2: Slippage');
+// 0.0005 cbBTC is $50 at BTC prices - read as 18 decimals it would be worth nothing
+check('$50 of cbBTC → small tier', getSlippageBpsForSwap(calculateSwapValueUsd(parseUnits('0.0005', 8), false, BTC_PRICE, 8)), SLIPPAGE_SMALL_BPS);
+check('$200 of cbBTC → large tier', getSlippageBpsForSwap(calculateSwapValueUsd(parseUnits('0.002', 8), false, BTC_PRICE, 8)), SLIPPAGE_LARGE_BPS);
+check('$300 of ETH → large tier', getSlippageBpsForSwap(calculateSwapValueUsd(parseUnits('0.1', 18), false, ETH_PRICE, 18)), SLIPPAGE_LARGE_BPS);
+console.log();
+
+// Test 3: Minimums are in the spent token's own units
+console.log('Test 3: Minimum swap amounts');
+check('buy minimum is USDC', getMinSwapAmount('cbBTC', true), MIN_SWAP_AMOUNT);
+check('ETH sell minimum', getMinSwapAmount('ETH', false), parseUnits('0.00005', 18));
+check('cbBTC sell minimum', getMinSwapAmount('cbBTC', false), parseUnits('0.000002', 8));
+check('unknown asset → ETH minimum', getMinSwapAmount(undefined, false), parseUnits('0.00005', 18));
+console.log();
+
+// Test 4: max_amount_per_swap (USDC) converted to the sold asset
+console.log('Test 4: Max sell amount');
+const maxUsdc = parseUnits('1000', 6);
+check('$1000 of ETH', getMaxSellAmount(maxUsdc, ETH_PRICE, 18), parseUnits('0.333333333333333333', 18));
+check('$1000 of cbBTC', getMaxSellAmount(maxUsdc, BTC_PRICE, 8), parseUnits('0.01', 8));
+check('no price, no sell', getMaxSellAmount(maxUsdc, 0, 8), 0n);
+console.log();
+
+// Test 5: Sizing a sell clamps each asset in its own units
+console.log('Test 5: Sell sizing');
+// 10% of 1 cbBTC ($10,000) clamped to $1000 worth
+const btcLeg = calculateBasketSellAmounts(
+  [parseUnits('1', 8)],
+  [BTC_PRICE],
+  sell,
+  [getMaxSellAmount(maxUsdc, BTC_PRICE, 8)]
+);
+check('cbBTC leg clamped to $1000', btcLeg[0], parseUnits('0.01', 8));
+// 10% of 2 ETH ($600) is under the cap
+const ethLeg = calculateBasketSellAmounts(
+  [parseUnits('2', 18)],
+  [2 * ETH_PRICE],
+  sell,
+  [getMaxSellAmount(maxUsdc, ETH_PRICE, 18)]
+);
+check('ETH leg unclamped', ethLeg[0], parseUnits('0.2', 18));
+// Band USD cap on a single-asset cbBTC sell
+check(
+  '$50 band cap on cbBTC',
+  calculateWalletSwapAmount(parseUnits('0.01', 8), { ...sell, maxAmountUsd: 50 }, 10n ** 30n, BTC_PRICE, 8),
+  parseUnits('0.0005', 8)
+);
+check(
+  '$150 band cap on ETH',
+  calculateWalletSwapAmount(parseUnits('1', 18), { ...sell, maxAmountUsd: 150 }, 10n ** 30n, ETH_PRICE, 18),
+  parseUnits('0.05', 18)
+);
+console.log();
+
+// Test 6: The ETH leg sells WETH and wraps native ETH only as far as the delegation allows
+console.log('Test 6: Native ETH / WETH');
+const weth = parseUnits('0.5', 18);
+const native = parseUnits('0.3', 18);
+check('no wrap allowed → WETH only', getSellableEthBalance(weth, native, 0n), weth);
+check('wrap limit above native', getSellableEthBalance(weth, native, parseUnits('10', 18)), parseUnits('0.8', 18));
+check('wrap limit below native', getSellableEthBalance(weth, native, parseUnits('0.1', 18)), parseUnits('0.6', 18));
+check('enough WETH → no wrap', calculateWrapAmount(weth, parseUnits('0.4', 18)), 0n);
+check('WETH shortfall wrapped', calculateWrapAmount(weth, parseUnits('0.7', 18)), parseUnits('0.2', 18));
+console.log();
+
+finish();
@@ -0,0 +1,54 @@
+// Test script for the on-chain sentiment index
+// Run with: npx tsx test-sentiment-index.ts
+
+import { readdirSync, readFileSync } from 'fs';
+import { calculateSentimentIndex, SENTIMENT_WEIGHTS, type SentimentInputs } from './sentiment-index';
+import { finish, printHeader, recordFailure } from './test-utils';
+
+interface SentimentFixture {
+  description: string;
+  inputs: SentimentInputs;
+  expected: { score: number; components: Record<string, number> };
+}
+
+const FIXTURE_DIR = new URL('./fixtures/sentiment/', import.meta.url);
+printHeader('On-chain Sentiment Index Tests');
+
+// Test 1: Weights are a full allocation
+console.log('Test 1: Weights sum to 1');
+const weightSum = Object.values(SENTIMENT_WEIGHTS as Record<string, number>).reduce((sum, w) => sum + w, 0);
+const weightsOk = Math.abs(weightSum - 1) < 1e-9;
+if (!weightsOk) recordFailure();
+console.log(`  Result: ${weightSum} ${weightsOk ? '✓' : '❌'}\n`);
+
+// Test 2: Recorded fixtures
+console.log('Test 2: Fixtures');
+for (const file of readdirSync(FIXTURE_DIR).filter(f => f.endsWith('.json')).sort()) {
+  const fixture: SentimentFixture = JSON.parse(readFileSync(new URL(file, FIXTURE_DIR), 'utf8'));
+  const { score, components } = calculateSentimentIndex(fixture.inputs);
+
+  const componentsOk = Object.entries(fixture.expected.components)
+    .every(([key, expected]) => Math.abs(components[key as keyof typeof components] - expected) < 0.01);
+  const passed = score === fixture.expected.score && componentsOk;
+  if (!passed) recordFailure();
+
+  console.log(`  ${file}: ${fixture.description}`);
+  console.log(`    Score: ${score} (expected ${fixture.expected.score}) ${passed ? '✓' : '❌'}`);
+  if (!componentsOk) {
+    console.log(`    Components: ${JSON.stringify(components)} (expected ${JSON.stringify(fixture.expected.components)})`);
+  }
+}
+console.log();
+
+// Test 3: Too little history is rejected
+console.log('Test 3: Short history rejected');
+try {
+  calculateSentimentIndex({ ethPrices: [3000, 3100], usdcSupply: [1, 1, 1, 1, 1, 1, 1, 1], usdcBorrowApr: 0.05 });
+  recordFailure();
+  console.log('  Result: no error ❌');
+} catch (err) {
+  console.log(`  Result: ${(err as Error).message} ✓`);
+}
+console.log();
+
+finish();
@@ -0,0 +1,84 @@
+// Test script for the token registry, target baskets and basket swap sizing
+// Run with: npx tsx test-token-registry.ts
+
+import { parseUnits } from 'viem';
+import {
+  PERMIT2_ADDRESS,
+  TOKEN_REGISTRY,
+  UNISWAP_UNIVERSAL_ROUTER,
+  describeBasket,
+  getBasket,
+  getDelegationTargets,
+  getPrimaryAsset,
+  splitByWeight,
+  validateBasket,
+  type TargetBasket,
+  type TokenInfo,
+} from '../shared/tokens';
+import { calculateBasketSellAmounts, validateSwapQuote } from './config';
+import { check, finish, printHeader, throws } from './test-utils';
+
+printHeader('Token Registry & Basket Tests');
+
+// Test 1: Basket validation
+console.log('Test 1: Validation');
+const split = validateBasket([{ asset: 'ETH', weight: 60 }, { asset: 'cbbtc', weight: 40 }]);
+check('60/40 ok', split.valid, true);
+check('symbol normalised', split.basket?.[1].asset, 'cbBTC');
+check('weights must sum to 100', validateBasket([{ asset: 'ETH', weight: 60 }, { asset: 'cbBTC', weight: 30 }]).valid, false);
+check('USDC is not a target', validateBasket([{ asset: 'USDC', weight: 100 }]).valid, false);
+check('duplicate asset', validateBasket([{ asset: 'ETH', weight: 50 }, { asset: 'eth', weight: 50 }]).valid, false);
+check('fractional weight', validateBasket([{ asset: 'ETH', weight: 50.5 }, { asset: 'cbBTC', weight: 49.5 }]).valid, false);
+check('unknown field', validateBasket([{ asset: 'ETH', weight: 100, note: 'x' }]).valid, false);
+check('empty', validateBasket([]).valid, false);
+console.log();
+
+// Test 2: Delegations without a basket keep their single target
+console.log('Test 2: Stored baskets');
+check('no basket, cbBTC target', describeBasket(getBasket(null, 'cbBTC')), 'cbBTC');
+check('no basket, no target → ETH', describeBasket(getBasket(undefined, undefined)), 'ETH');
+check('invalid stored basket → target', describeBasket(getBasket([{ asset: 'DOGE', weight: 100 }], 'ETH')), 'ETH');
+check('stored basket', describeBasket(getBasket(split.basket, 'ETH')), '60% ETH / 40% cbBTC');
+check('primary asset', getPrimaryAsset([{ asset: 'ETH', weight: 30 }, { asset: 'cbBTC', weight: 70 }]), 'cbBTC');
+console.log();
+
+// Test 3: Buys split by weight, dust to the last leg
+console.log('Test 3: Buy split');
+const basket: TargetBasket = split.basket!;
+const legs = splitByWeight(parseUnits('10.000001', 6), basket);
+check('ETH leg', legs[0], 6000000n);
+check('cbBTC leg (with dust)', legs[1], 4000001n);
+check('legs add up', legs[0] + legs[1], 10000001n);
+check('single asset takes all', splitByWeight(123n, [{ asset: 'ETH', weight: 100 }])[0], 123n);
+console.log();
+
+// Test 4: Sells draw the same share of every held asset
+console.log('Test 4: Basket sell sizing');
+const balances = [parseUnits('1', 18), parseUnits('0.05', 8)]; // 1 ETH ($3000), 0.05 cbBTC ($5000)
+const valuesUsd = [3000, 5000];
+const noCap = calculateBasketSellAmounts(balances, valuesUsd, { action: 'sell', percentage: 2, reason: '' }, [10n ** 30n, 10n ** 30n]);
+check('2% of ETH', noCap[0], parseUnits('0.02', 18));
+check('2% of cbBTC', noCap[1], parseUnits('0.001', 8));
+// $160 combined sell capped at $80 halves both legs
+const capped = calculateBasketSellAmounts(balances, valuesUsd, { action: 'sell', percentage: 2, reason: '', maxAmountUsd: 80 }, [10n ** 30n, 10n ** 30n]);
+check('USD cap halves ETH leg', capped[0], parseUnits('0.01', 18));
+check('USD cap halves cbBTC leg', capped[1], parseUnits('0.0005', 8));
+const empty = calculateBasketSellAmounts([0n, balances[1]], [0, 5000], { action: 'sell', percentage: 2, reason: '' }, [10n ** 30n, 10n ** 30n]);
+check('nothing held, nothing sold', empty[0], 0n);
+console.log();
+
+// Test 5: Delegation targets and per-token routers come from the registry
+console.log('Test 5: Registry targets');
+const targets = getDelegationTargets();
+check('router allowed', targets.includes(UNISWAP_UNIVERSAL_ROUTER), true);
+check('Permit2 allowed', targets.includes(PERMIT2_ADDRESS), true);
+check('every token allowed', Object.values(TOKEN_REGISTRY).every((t: TokenInfo) => targets.includes(t.address)), true);
+check('no duplicates', new Set(targets).size, targets.length);
+const quote = { swap: { to: UNISWAP_UNIVERSAL_ROUTER } };
+check('registry router accepted', throws(() => validateSwapQuote(quote, [TOKEN_REGISTRY.USDC.address, TOKEN_REGISTRY.cbBTC.address])), false);
+// Whitelisted Universal Router that no registry token allows
+check('router not allowed for token', throws(() => validateSwapQuote({ swap: { to: '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD' } }, [TOKEN_REGISTRY.USDC.address])), true);
+check('unregistered token', throws(() => validateSwapQuote(quote, ['0x0000000000000000000000000000000000000001'])), true);
+console.log();
+
+finish();
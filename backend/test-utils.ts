@@ -0,0 +1,76 @@
+// Shared helpers for the test-*.ts scripts: each prints its checks, then finish() prints
+// the summary and exits non-zero on a failure (run them all with npm test)
+
+let failures = 0;
+
+/**
+ * Banner at the top of a test script
+ */
+export function printHeader(title: string) {
+  console.log('========================================');
+  console.log(title);
+  console.log('========================================\n');
+}
+
+/**
+ * Check a value is exactly the expected one
+ */
+export function check(name: string, actual: unknown, expected: unknown) {
+  record(name, actual, expected, actual === expected);
+}
+
+/**
+ * Check a float is within `tolerance` of the expected value
+ */
+export function checkClose(name: string, actual: number, expected: number, tolerance = 1e-6) {
+  record(name, actual, expected, Math.abs(actual - expected) < tolerance);
+}
+
+function record(name: string, actual: unknown, expected: unknown, pass: boolean) {
+  if (!pass) failures++;
+  console.log(`  ${pass ? '✓' : '❌'} ${name}: ${actual}${pass ? '' : ` (expected ${expected})`}`);
+}
+
+/**
+ * Count a failure reported by the script's own output (checks that print more than a value)
+ */
+export function recordFailure() {
+  failures++;
+}
+
+/**
+ * Whether fn throws
+ */
+export function throws(fn: () => unknown): boolean {
+  try {
+    fn();
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * The message fn throws, or 'no error'
+ */
+export function thrownMessage(fn: () => unknown): string {
+  try {
+    fn();
+    return 'no error';
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Print the summary; exits with 1 if any check failed
+ */
+export function finish() {
+  console.log('========================================');
+  console.log(failures === 0 ? 'All tests passed ✓' : `${failures} check(s) failed ❌`);
+  console.log('========================================');
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
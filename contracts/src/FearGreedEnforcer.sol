@@ -0,0 +1,183 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+import { ICaveatEnforcer } from "./interfaces/ICaveatEnforcer.sol";
+import { IFearGreedOracle } from "./interfaces/IFearGreedOracle.sol";
+
+interface IERC20Balance {
+    function balanceOf(address account) external view returns (uint256);
+}
+
+/// @title FearGreedEnforcer
+/// @notice Caveat on the DCA swap delegation: a redeemed call may only spend the
+/// delegator's tokens in the direction the latest FearGreedOracle round calls for, and
+/// at most the user's percentage for that band. Balances are compared around each
+/// execution, so the check holds whatever router calldata the backend sends.
+///
+/// Terms: abi.encode(address oracle, uint64 maxAge, address[] tokens, address wrappedNative,
+/// uint16[4] bandBps). tokens[0] is what buys spend (USDC), the rest what sells spend;
+/// bandBps is the largest share of a token's balance one execution may spend in Extreme
+/// Fear, Fear, Greed and Extreme Greed (0 = hold). Sells of wrappedNative count the native
+/// balance too, since the backend wraps native ETH just before selling it.
+///
+/// Args: abi.encode(uint256 round) - the oracle round the backend decided on. It must
+/// still be the latest round and no older than maxAge, so a reading posted after the
+/// decision makes the swap revert instead of following a band it was not sized for.
+contract FearGreedEnforcer is ICaveatEnforcer {
+    // Inclusive upper bounds of the bands, as FG_THRESHOLDS in shared/strategies.ts
+    uint8 public constant EXTREME_FEAR_MAX = 25;
+    uint8 public constant FEAR_MAX = 45;
+    uint8 public constant NEUTRAL_MAX = 54;
+    uint8 public constant GREED_MAX = 75;
+
+    uint256 private constant BPS_DENOMINATOR = 10_000;
+
+    struct Terms {
+        address oracle;
+        uint64 maxAge;
+        address[] tokens;
+        address wrappedNative;
+        uint16[4] bandBps;
+    }
+
+    // Balances before the execution in progress, by DelegationManager and delegation
+    mapping(bytes32 key => uint256[] balances) private _snapshots;
+
+    error InvalidTerms();
+    error InvalidArgs();
+    error NotLatestRound(uint256 round, uint256 latestRound);
+    error StaleReading(uint256 round, uint64 timestamp);
+    error HoldBand(uint8 value);
+    error WrongDirection(address token, uint8 value);
+    error SpendTooLarge(address token, uint256 spent, uint256 allowed);
+    error MissingSnapshot();
+
+    // ============ HOOKS ============
+
+    function beforeAllHook(
+        bytes calldata,
+        bytes calldata,
+        bytes32,
+        bytes calldata,
+        bytes32,
+        address,
+        address
+    ) external { }
+
+    function beforeHook(
+        bytes calldata terms,
+        bytes calldata args,
+        bytes32,
+        bytes calldata,
+        bytes32 delegationHash,
+        address delegator,
+        address
+    ) external {
+        Terms memory t = getTermsInfo(terms);
+        _getFreshReading(t, args);
+
+        bytes32 key = _snapshotKey(delegationHash);
+        delete _snapshots[key];
+        for (uint256 i = 0; i < t.tokens.length; i++) {
+            _snapshots[key].push(_spendableBalance(t, t.tokens[i], delegator));
+        }
+    }
+
+    function afterHook(
+        bytes calldata terms,
+        bytes calldata args,
+        bytes32,
+        bytes calldata,
+        bytes32 delegationHash,
+        address delegator,
+        address
+    ) external {
+        Terms memory t = getTermsInfo(terms);
+        uint8 value = _getFreshReading(t, args).value;
+        (bool isBuy, uint16 bps) = getBandLimit(value, t.bandBps);
+
+        bytes32 key = _snapshotKey(delegationHash);
+        uint256[] memory before = _snapshots[key];
+        if (before.length != t.tokens.length) revert MissingSnapshot();
+        delete _snapshots[key];
+
+        for (uint256 i = 0; i < t.tokens.length; i++) {
+            uint256 balance = _spendableBalance(t, t.tokens[i], delegator);
+            if (balance >= before[i]) continue;
+
+            uint256 spent = before[i] - balance;
+            if (bps == 0) revert HoldBand(value);
+            if ((i == 0) != isBuy) revert WrongDirection(t.tokens[i], value);
+            if (spent * BPS_DENOMINATOR > before[i] * bps) {
+                revert SpendTooLarge(t.tokens[i], spent, (before[i] * bps) / BPS_DENOMINATOR);
+            }
+        }
+    }
+
+    function afterAllHook(
+        bytes calldata,
+        bytes calldata,
+        bytes32,
+        bytes calldata,
+        bytes32,
+        address,
+        address
+    ) external { }
+
+    // ============ VIEWS ============
+
+    function getTermsInfo(bytes calldata terms) public pure returns (Terms memory t) {
+        (t.oracle, t.maxAge, t.tokens, t.wrappedNative, t.bandBps) =
+            abi.decode(terms, (address, uint64, address[], address, uint16[4]));
+        if (t.oracle == address(0) || t.tokens.length == 0) revert InvalidTerms();
+        for (uint256 i = 0; i < 4; i++) {
+            if (t.bandBps[i] > BPS_DENOMINATOR) revert InvalidTerms();
+        }
+    }
+
+    /// @notice Whether a F&G value buys or sells, and the band's limit (0 in the neutral band)
+    function getBandLimit(uint8 value, uint16[4] memory bandBps)
+        public
+        pure
+        returns (bool isBuy, uint16 bps)
+    {
+        if (value <= EXTREME_FEAR_MAX) return (true, bandBps[0]);
+        if (value <= FEAR_MAX) return (true, bandBps[1]);
+        if (value <= NEUTRAL_MAX) return (false, 0);
+        if (value <= GREED_MAX) return (false, bandBps[2]);
+        return (false, bandBps[3]);
+    }
+
+    // ============ INTERNAL ============
+
+    function _getFreshReading(Terms memory t, bytes calldata args)
+        private
+        view
+        returns (IFearGreedOracle.Reading memory reading)
+    {
+        if (args.length != 32) revert InvalidArgs();
+        uint256 round = abi.decode(args, (uint256));
+
+        IFearGreedOracle oracle = IFearGreedOracle(t.oracle);
+        uint256 latestRound = oracle.latestRound();
+        if (round != latestRound) revert NotLatestRound(round, latestRound);
+
+        reading = oracle.getReading(round);
+        if (block.timestamp > uint256(reading.timestamp) + t.maxAge) {
+            revert StaleReading(round, reading.timestamp);
+        }
+    }
+
+    function _spendableBalance(Terms memory t, address token, address delegator)
+        private
+        view
+        returns (uint256 balance)
+    {
+        balance = IERC20Balance(token).balanceOf(delegator);
+        if (token == t.wrappedNative) balance += delegator.balance;
+    }
+
+    function _snapshotKey(bytes32 delegationHash) private view returns (bytes32) {
+        return keccak256(abi.encode(msg.sender, delegationHash));
+    }
+}
@@ -0,0 +1,121 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+import { IFearGreedOracle } from "./interfaces/IFearGreedOracle.sol";
+
+/// @title FearGreedOracle
+/// @notice The Fear & Greed value each DCA run decided on, signed by the backend and
+/// posted as a new round. Anyone may submit a signed reading; only the signer's are
+/// accepted, and each signature names its round so it cannot be replayed.
+/// FearGreedEnforcer reads the latest round to check a redeemed swap against it.
+contract FearGreedOracle is IFearGreedOracle {
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 public constant READING_TYPEHASH =
+        keccak256("FearGreedReading(uint256 round,uint8 value,uint64 timestamp)");
+    bytes32 private constant NAME_HASH = keccak256("Ember Fear & Greed Oracle");
+    bytes32 private constant VERSION_HASH = keccak256("1");
+
+    // secp256k1n / 2 - a higher s is the malleable twin of a valid signature
+    uint256 private constant MAX_S =
+        0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    address public owner;
+    address public signer;
+    uint256 public latestRound;
+    mapping(uint256 round => Reading) private _readings;
+
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    error NotOwner();
+    error ZeroAddress();
+    error InvalidValue(uint8 value);
+    error InvalidTimestamp(uint64 timestamp);
+    error InvalidSignature();
+    error UnknownRound(uint256 round);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor(address owner_, address signer_) {
+        if (owner_ == address(0) || signer_ == address(0)) revert ZeroAddress();
+        owner = owner_;
+        signer = signer_;
+        emit OwnershipTransferred(address(0), owner_);
+        emit SignerUpdated(address(0), signer_);
+    }
+
+    // ============ READINGS ============
+
+    /// @notice Post the next round. `timestamp` must be after the previous round's and
+    /// not in the future.
+    function post(uint8 value, uint64 timestamp, bytes calldata signature)
+        external
+        returns (uint256 round)
+    {
+        if (value > 100) revert InvalidValue(value);
+        if (timestamp > block.timestamp || timestamp <= _readings[latestRound].timestamp) {
+            revert InvalidTimestamp(timestamp);
+        }
+
+        round = latestRound + 1;
+        if (_recover(readingDigest(round, value, timestamp), signature) != signer) {
+            revert InvalidSignature();
+        }
+
+        _readings[round] = Reading(value, timestamp, uint64(block.timestamp));
+        latestRound = round;
+        emit ReadingPosted(round, value, timestamp);
+    }
+
+    function getReading(uint256 round) external view returns (Reading memory) {
+        if (round == 0 || round > latestRound) revert UnknownRound(round);
+        return _readings[round];
+    }
+
+    /// @notice EIP-712 digest the signer signs for a round
+    function readingDigest(uint256 round, uint8 value, uint64 timestamp)
+        public
+        view
+        returns (bytes32)
+    {
+        bytes32 structHash = keccak256(abi.encode(READING_TYPEHASH, round, value, timestamp));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, NAME_HASH, VERSION_HASH, block.chainid, address(this))
+        );
+    }
+
+    // ============ ADMIN ============
+
+    function setSigner(address newSigner) external onlyOwner {
+        if (newSigner == address(0)) revert ZeroAddress();
+        emit SignerUpdated(signer, newSigner);
+        signer = newSigner;
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert ZeroAddress();
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    // ============ SIGNATURES ============
+
+    /// @dev 65-byte r || s || v signature; address(0) for malformed or malleable ones
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        if (signature.length != 65) return address(0);
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > MAX_S) return address(0);
+        if (v < 27) v += 27;
+        return ecrecover(digest, v, r, s);
+    }
+}
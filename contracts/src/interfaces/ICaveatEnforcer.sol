@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+/// @notice Caveat enforcer hooks called by the MetaMask DelegationManager (delegation
+/// framework v1.3.0). `mode` is the framework's ERC-7579 ModeCode, a bytes32.
+interface ICaveatEnforcer {
+    function beforeAllHook(
+        bytes calldata terms,
+        bytes calldata args,
+        bytes32 mode,
+        bytes calldata executionCallData,
+        bytes32 delegationHash,
+        address delegator,
+        address redeemer
+    ) external;
+
+    function beforeHook(
+        bytes calldata terms,
+        bytes calldata args,
+        bytes32 mode,
+        bytes calldata executionCallData,
+        bytes32 delegationHash,
+        address delegator,
+        address redeemer
+    ) external;
+
+    function afterHook(
+        bytes calldata terms,
+        bytes calldata args,
+        bytes32 mode,
+        bytes calldata executionCallData,
+        bytes32 delegationHash,
+        address delegator,
+        address redeemer
+    ) external;
+
+    function afterAllHook(
+        bytes calldata terms,
+        bytes calldata args,
+        bytes32 mode,
+        bytes calldata executionCallData,
+        bytes32 delegationHash,
+        address delegator,
+        address redeemer
+    ) external;
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+/// @notice Fear & Greed index readings posted on-chain by the DCA backend
+interface IFearGreedOracle {
+    struct Reading {
+        uint8 value; // 0 (extreme fear) - 100 (extreme greed)
+        uint64 timestamp; // When the backend took the reading
+        uint64 postedAt; // Block timestamp of the post
+    }
+
+    event ReadingPosted(uint256 indexed round, uint8 value, uint64 timestamp);
+    event SignerUpdated(address indexed previousSigner, address indexed newSigner);
+
+    function latestRound() external view returns (uint256);
+
+    function getReading(uint256 round) external view returns (Reading memory);
+}
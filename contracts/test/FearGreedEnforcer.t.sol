@@ -0,0 +1,208 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+import { Test } from "forge-std/Test.sol";
+import { FearGreedEnforcer } from "../src/FearGreedEnforcer.sol";
+import { FearGreedOracle } from "../src/FearGreedOracle.sol";
+
+contract MockToken {
+    mapping(address account => uint256) public balanceOf;
+
+    function setBalance(address account, uint256 amount) external {
+        balanceOf[account] = amount;
+    }
+}
+
+contract FearGreedEnforcerTest is Test {
+    FearGreedEnforcer internal enforcer;
+    FearGreedOracle internal oracle;
+    MockToken internal usdc;
+    MockToken internal weth;
+    MockToken internal cbBtc;
+
+    uint256 internal signerKey = 0xA11CE;
+    address internal delegator = makeAddr("delegator");
+    address internal redeemer = makeAddr("redeemer");
+    bytes32 internal delegationHash = keccak256("delegation");
+    uint64 internal constant MAX_AGE = 1 days;
+
+    function setUp() public {
+        vm.warp(1_800_000_000);
+        enforcer = new FearGreedEnforcer();
+        oracle = new FearGreedOracle(address(this), vm.addr(signerKey));
+        usdc = new MockToken();
+        weth = new MockToken();
+        cbBtc = new MockToken();
+
+        usdc.setBalance(delegator, 1000e6);
+        weth.setBalance(delegator, 1 ether);
+        cbBtc.setBalance(delegator, 1e8);
+    }
+
+    // ============ HELPERS ============
+
+    function _terms() internal view returns (bytes memory) {
+        address[] memory tokens = new address[](3);
+        tokens[0] = address(usdc);
+        tokens[1] = address(weth);
+        tokens[2] = address(cbBtc);
+        // Extreme Fear 5%, Fear 2.5%, Greed 2.5%, Extreme Greed 5%
+        uint16[4] memory bandBps = [uint16(500), 250, 250, 500];
+        return abi.encode(address(oracle), MAX_AGE, tokens, address(weth), bandBps);
+    }
+
+    function _post(uint8 value) internal returns (uint256 round) {
+        uint64 timestamp = uint64(block.timestamp);
+        round = oracle.latestRound() + 1;
+        (uint8 v, bytes32 r, bytes32 s) =
+            vm.sign(signerKey, oracle.readingDigest(round, value, timestamp));
+        oracle.post(value, timestamp, abi.encodePacked(r, s, v));
+    }
+
+    function _before(uint256 round) internal {
+        enforcer.beforeHook(_terms(), abi.encode(round), bytes32(0), "", delegationHash, delegator, redeemer);
+    }
+
+    function _after(uint256 round) internal {
+        enforcer.afterHook(_terms(), abi.encode(round), bytes32(0), "", delegationHash, delegator, redeemer);
+    }
+
+    // ============ DIRECTION AND SIZE ============
+
+    function test_AllowsBuyWithinFearBand() public {
+        uint256 round = _post(20);
+        _before(round);
+        usdc.setBalance(delegator, 950e6); // 5% of USDC
+        weth.setBalance(delegator, 1.02 ether);
+        _after(round);
+    }
+
+    function test_RevertWhen_BuyExceedsBand() public {
+        uint256 round = _post(40);
+        _before(round);
+        usdc.setBalance(delegator, 950e6); // 5% of USDC, Fear allows 2.5%
+
+        vm.expectRevert(
+            abi.encodeWithSelector(FearGreedEnforcer.SpendTooLarge.selector, address(usdc), 50e6, 25e6)
+        );
+        _after(round);
+    }
+
+    function test_RevertWhen_SellDuringFear() public {
+        uint256 round = _post(10);
+        _before(round);
+        cbBtc.setBalance(delegator, 0.99e8);
+        usdc.setBalance(delegator, 1100e6);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(FearGreedEnforcer.WrongDirection.selector, address(cbBtc), 10)
+        );
+        _after(round);
+    }
+
+    function test_AllowsSellWithinGreedBand() public {
+        uint256 round = _post(80);
+        _before(round);
+        cbBtc.setBalance(delegator, 0.95e8);
+        usdc.setBalance(delegator, 1100e6);
+        _after(round);
+    }
+
+    function test_RevertWhen_BuyDuringGreed() public {
+        uint256 round = _post(60);
+        _before(round);
+        usdc.setBalance(delegator, 990e6);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(FearGreedEnforcer.WrongDirection.selector, address(usdc), 60)
+        );
+        _after(round);
+    }
+
+    function test_RevertWhen_SpendingInNeutralBand() public {
+        uint256 round = _post(50);
+        _before(round);
+        usdc.setBalance(delegator, 999e6);
+
+        vm.expectRevert(abi.encodeWithSelector(FearGreedEnforcer.HoldBand.selector, 50));
+        _after(round);
+    }
+
+    function test_WrapCountsNativeBalance() public {
+        vm.deal(delegator, 1 ether);
+        uint256 round = _post(90);
+        _before(round);
+
+        // deposit() moves native ETH into WETH, then 5% of the combined 2 ETH is sold
+        vm.deal(delegator, 0);
+        weth.setBalance(delegator, 1.9 ether);
+        usdc.setBalance(delegator, 1300e6);
+        _after(round);
+    }
+
+    // ============ ROUNDS ============
+
+    function test_RevertWhen_RoundIsNotLatest() public {
+        uint256 round = _post(20);
+        vm.warp(block.timestamp + 1 hours);
+        _post(80);
+
+        vm.expectRevert(abi.encodeWithSelector(FearGreedEnforcer.NotLatestRound.selector, round, round + 1));
+        _before(round);
+    }
+
+    function test_RevertWhen_ReadingIsStale() public {
+        uint256 round = _post(20);
+        uint64 timestamp = uint64(block.timestamp);
+        vm.warp(block.timestamp + MAX_AGE + 1);
+
+        vm.expectRevert(abi.encodeWithSelector(FearGreedEnforcer.StaleReading.selector, round, timestamp));
+        _before(round);
+    }
+
+    function test_RevertWhen_ArgsMissing() public {
+        _post(20);
+        vm.expectRevert(FearGreedEnforcer.InvalidArgs.selector);
+        enforcer.beforeHook(_terms(), "", bytes32(0), "", delegationHash, delegator, redeemer);
+    }
+
+    function test_RevertWhen_AfterHookWithoutSnapshot() public {
+        uint256 round = _post(20);
+        vm.expectRevert(FearGreedEnforcer.MissingSnapshot.selector);
+        _after(round);
+    }
+
+    function test_SnapshotsAreKeyedByCaller() public {
+        uint256 round = _post(20);
+        _before(round);
+
+        // Another caller's snapshot for the same delegation does not replace ours
+        vm.prank(redeemer);
+        enforcer.beforeHook(_terms(), abi.encode(round), bytes32(0), "", delegationHash, delegator, redeemer);
+        usdc.setBalance(delegator, 960e6);
+        _after(round);
+    }
+
+    // ============ BANDS ============
+
+    function test_BandBoundariesMatchStrategyThresholds() public view {
+        uint16[4] memory bandBps = [uint16(1), 2, 3, 4];
+        bool isBuy;
+        uint16 bps;
+
+        (isBuy, bps) = enforcer.getBandLimit(25, bandBps);
+        assertTrue(isBuy);
+        assertEq(bps, 1);
+        (isBuy, bps) = enforcer.getBandLimit(26, bandBps);
+        assertEq(bps, 2);
+        (isBuy, bps) = enforcer.getBandLimit(46, bandBps);
+        assertEq(bps, 0);
+        (isBuy, bps) = enforcer.getBandLimit(54, bandBps);
+        assertEq(bps, 0);
+        (isBuy, bps) = enforcer.getBandLimit(55, bandBps);
+        assertFalse(isBuy);
+        assertEq(bps, 3);
+        (isBuy, bps) = enforcer.getBandLimit(76, bandBps);
+        assertEq(bps, 4);
+    }
+}
@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.23;
+
+import { Test } from "forge-std/Test.sol";
+import { FearGreedOracle } from "../src/FearGreedOracle.sol";
+import { IFearGreedOracle } from "../src/interfaces/IFearGreedOracle.sol";
+
+contract FearGreedOracleTest is Test {
+    FearGreedOracle internal oracle;
+
+    address internal owner = makeAddr("owner");
+    uint256 internal signerKey = 0xA11CE;
+    address internal signer = vm.addr(signerKey);
+
+    function setUp() public {
+        vm.warp(1_800_000_000);
+        oracle = new FearGreedOracle(owner, signer);
+    }
+
+    function _sign(uint256 key, uint256 round, uint8 value, uint64 timestamp)
+        internal
+        view
+        returns (bytes memory)
+    {
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(key, oracle.readingDigest(round, value, timestamp));
+        return abi.encodePacked(r, s, v);
+    }
+
+    function test_PostStoresReading() public {
+        uint64 timestamp = uint64(block.timestamp - 60);
+        uint256 round = oracle.post(20, timestamp, _sign(signerKey, 1, 20, timestamp));
+
+        assertEq(round, 1);
+        assertEq(oracle.latestRound(), 1);
+        IFearGreedOracle.Reading memory reading = oracle.getReading(1);
+        assertEq(reading.value, 20);
+        assertEq(reading.timestamp, timestamp);
+        assertEq(reading.postedAt, block.timestamp);
+    }
+
+    function test_RevertWhen_SignedByOtherKey() public {
+        uint64 timestamp = uint64(block.timestamp);
+        bytes memory signature = _sign(0xB0B, 1, 20, timestamp);
+
+        vm.expectRevert(FearGreedOracle.InvalidSignature.selector);
+        oracle.post(20, timestamp, signature);
+    }
+
+    function test_RevertWhen_SignatureReplayedForNextRound() public {
+        uint64 timestamp = uint64(block.timestamp - 60);
+        bytes memory signature = _sign(signerKey, 1, 20, timestamp);
+        oracle.post(20, timestamp, signature);
+
+        vm.warp(block.timestamp + 1 days);
+        vm.expectRevert(abi.encodeWithSelector(FearGreedOracle.InvalidTimestamp.selector, timestamp));
+        oracle.post(20, timestamp, signature);
+
+        // A later timestamp does not help either: the signature is for round 1
+        vm.expectRevert(FearGreedOracle.InvalidSignature.selector);
+        oracle.post(20, timestamp + 1, signature);
+    }
+
+    function test_RevertWhen_MalleableSignature() public {
+        uint64 timestamp = uint64(block.timestamp);
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(signerKey, oracle.readingDigest(1, 20, timestamp));
+        uint256 n = 0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141;
+        bytes memory flipped = abi.encodePacked(r, bytes32(n - uint256(s)), v == 27 ? uint8(28) : uint8(27));
+
+        vm.expectRevert(FearGreedOracle.InvalidSignature.selector);
+        oracle.post(20, timestamp, flipped);
+    }
+
+    function test_RevertWhen_ValueOutOfRange() public {
+        uint64 timestamp = uint64(block.timestamp);
+        bytes memory signature = _sign(signerKey, 1, 101, timestamp);
+
+        vm.expectRevert(abi.encodeWithSelector(FearGreedOracle.InvalidValue.selector, 101));
+        oracle.post(101, timestamp, signature);
+    }
+
+    function test_RevertWhen_TimestampInFuture() public {
+        uint64 timestamp = uint64(block.timestamp + 1);
+        bytes memory signature = _sign(signerKey, 1, 20, timestamp);
+
+        vm.expectRevert(abi.encodeWithSelector(FearGreedOracle.InvalidTimestamp.selector, timestamp));
+        oracle.post(20, timestamp, signature);
+    }
+
+    function test_RevertWhen_UnknownRound() public {
+        vm.expectRevert(abi.encodeWithSelector(FearGreedOracle.UnknownRound.selector, 0));
+        oracle.getReading(0);
+        vm.expectRevert(abi.encodeWithSelector(FearGreedOracle.UnknownRound.selector, 1));
+        oracle.getReading(1);
+    }
+
+    function test_SetSignerRotatesKey() public {
+        uint256 newKey = 0xC0FFEE;
+        vm.prank(owner);
+        oracle.setSigner(vm.addr(newKey));
+
+        uint64 timestamp = uint64(block.timestamp);
+        bytes memory oldSignature = _sign(signerKey, 1, 70, timestamp);
+        vm.expectRevert(FearGreedOracle.InvalidSignature.selector);
+        oracle.post(70, timestamp, oldSignature);
+
+        oracle.post(70, timestamp, _sign(newKey, 1, 70, timestamp));
+        assertEq(oracle.getReading(1).value, 70);
+    }
+
+    function test_RevertWhen_SetSignerNotOwner() public {
+        vm.expectRevert(FearGreedOracle.NotOwner.selector);
+        oracle.setSigner(address(0xBEEF));
+    }
+}
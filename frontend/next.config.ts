@@ -1,6 +1,9 @@
+import path from "path";
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // Allow imports from ../shared (strategy registry shared with the backend and edge functions)
+  outputFileTracingRoot: path.join(__dirname, ".."),
   typescript: {
     ignoreBuildErrors: false, // Enable type checking now that we fixed issues
   },
@@ -1,6 +1,13 @@
 // Delegation Save API - saves delegation to Supabase (server-side with service key)
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { isAddress, type Hex } from 'viem';
+import type { Delegation } from '@metamask/smart-accounts-kit';
+import { getDelegationHashOffchain } from '@metamask/smart-accounts-kit/utils';
+import { DEFAULT_STRATEGY_ID, MAX_CONFIG_PERCENTAGE, isStrategyId, validateStrategyConfig } from '@shared/strategies';
+import { DEFAULT_SCHEDULE, validateSchedule } from '@shared/schedule';
+import { getBasket, getPrimaryAsset, validateBasket } from '@shared/tokens';
+import { verifySignedRequest } from '@/lib/request-auth-server';
 
 // Simple in-memory rate limiter (per IP, resets on cold start)
 const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
@@ -26,6 +33,46 @@ setInterval(() => {
   }
 }, 300_000);
 
+// Approval, fee-transfer and (optional) withdraw delegations signed with the swap
+// delegation, each signed by `delegator` (see backend/delegation-scopes.ts, shared/withdrawals.ts)
+function isScopedDelegationSet(value: unknown, delegator: string): boolean {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const { approve, permit2Approve, feeTransfer, withdraw } = value as Record<string, unknown>;
+  const isSigned = (delegation: unknown) => isSignedBy(delegation, delegator);
+  return isSigned(approve) && isSigned(permit2Approve)
+    && typeof feeTransfer === 'object' && feeTransfer !== null
+    && Object.values(feeTransfer).every(isSigned)
+    && (withdraw === undefined || isSigned(withdraw));
+}
+
+interface ScopedDelegationSet {
+  approve: Delegation;
+  permit2Approve: Delegation;
+  feeTransfer: Record<string, Delegation>;
+  withdraw?: Delegation;
+}
+
+// A signed delegation whose delegator is `delegator`
+function isSignedBy(delegation: unknown, delegator: string): boolean {
+  const { signature, delegator: signer } = (delegation ?? {}) as { signature?: unknown; delegator?: unknown };
+  return typeof signature === 'string'
+    && typeof signer === 'string' && signer.toLowerCase() === delegator.toLowerCase();
+}
+
+// Hashes of every delegation in a save, swap delegation first
+function getSavedDelegationHashes(delegationData: Delegation, scopedDelegations?: ScopedDelegationSet): Hex[] {
+  const delegations = [
+    delegationData,
+    ...(scopedDelegations ? [
+      scopedDelegations.approve,
+      scopedDelegations.permit2Approve,
+      ...Object.values(scopedDelegations.feeTransfer),
+      ...(scopedDelegations.withdraw ? [scopedDelegations.withdraw] : []),
+    ] : []),
+  ];
+  return delegations.map(delegation => getDelegationHashOffchain(delegation));
+}
+
 // Lazy-loaded Supabase client with service key
 let _supabase: any = null;
 
@@ -57,31 +104,157 @@ export async function POST(request: NextRequest) {
       delegationHash, 
       signature, 
       delegationData,
+      scopedDelegations,
       maxAmountPerSwap,
       expiresAt,
-      targetAsset
+      targetAsset,
+      targetBasket,
+      strategy,
+      basePercentage,
+      strategyConfig,
+      schedule
     } = body;
 
     // Validate inputs
-    if (!userAddress || !delegationHash || !signature || !delegationData || !expiresAt) {
+    if (!userAddress || !smartAccountAddress || !delegationHash || !signature || !delegationData || !expiresAt) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
+    // The row's smart account is what withdrawals, swaps and balance history act on - it
+    // must be the account that signed the delegations
+    if (typeof smartAccountAddress !== 'string' || !isAddress(smartAccountAddress) || !isSignedBy(delegationData, smartAccountAddress)) {
+      return NextResponse.json(
+        { error: 'delegationData must be signed by smartAccountAddress' },
+        { status: 400 }
+      );
+    }
+
+    if (scopedDelegations !== undefined && !isScopedDelegationSet(scopedDelegations, smartAccountAddress)) {
+      return NextResponse.json(
+        { error: 'scopedDelegations must hold approve, permit2Approve and feeTransfer delegations signed by smartAccountAddress' },
+        { status: 400 }
+      );
+    }
+
+    if (strategy !== undefined && !isStrategyId(strategy)) {
+      return NextResponse.json(
+        { error: `Unknown strategy: ${strategy}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      basePercentage !== undefined &&
+      (typeof basePercentage !== 'number' || !Number.isFinite(basePercentage) ||
+        basePercentage <= 0 || basePercentage > MAX_CONFIG_PERCENTAGE)
+    ) {
+      return NextResponse.json(
+        { error: `basePercentage must be between 0 and ${MAX_CONFIG_PERCENTAGE}` },
+        { status: 400 }
+      );
+    }
+
+    const configResult = validateStrategyConfig(strategyConfig, strategy);
+    if (!configResult.valid) {
+      return NextResponse.json(
+        { error: `Invalid strategy config: ${configResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    const scheduleResult = validateSchedule(schedule);
+    if (!scheduleResult.valid) {
+      return NextResponse.json(
+        { error: `Invalid schedule: ${scheduleResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    // A single targetAsset (older clients) is a one-asset basket
+    const basketResult = validateBasket(targetBasket ?? [{ asset: targetAsset || 'ETH', weight: 100 }]);
+    if (!basketResult.valid) {
+      return NextResponse.json(
+        { error: `Invalid target basket: ${basketResult.error}` },
+        { status: 400 }
+      );
+    }
+
+    let savedHashes: Hex[];
+    try {
+      savedHashes = getSavedDelegationHashes(delegationData, scopedDelegations);
+    } catch {
+      return NextResponse.json(
+        { error: 'Malformed delegation' },
+        { status: 400 }
+      );
+    }
+
+    // Signed by the delegator for this smart account and swap delegation (in body.auth -
+    // the body's own signature is the delegation's)
+    const auth = await verifySignedRequest('SaveDelegation', body.auth ?? null, {
+      smartAccount: smartAccountAddress,
+      delegation: savedHashes[0],
+    });
+    if (auth.valid === false) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    if (auth.message.account.toLowerCase() !== String(userAddress).toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Request not signed by userAddress' },
+        { status: 403 }
+      );
+    }
+
+    // A delegation the indexer saw disabled stays disabled on-chain - saving it again
+    // must not clear the row's revocation
+    const { data: existing, error: existingError } = await getSupabase()
+      .from('delegations')
+      .select('revoked_delegation_hash')
+      .eq('user_address', userAddress.toLowerCase())
+      .maybeSingle();
+
+    if (existingError) {
+      console.error('Failed to load delegation:', existingError);
+      return NextResponse.json(
+        { error: 'Failed to save delegation: ' + existingError.message },
+        { status: 500 }
+      );
+    }
+
+    const revokedHash = existing?.revoked_delegation_hash?.toLowerCase();
+    if (revokedHash && savedHashes.some(hash => hash.toLowerCase() === revokedHash)) {
+      return NextResponse.json(
+        { error: 'This delegation was disabled on-chain - please sign a new one' },
+        { status: 409 }
+      );
+    }
+
     // Save to database with proper columns
     const { error } = await getSupabase()
       .from('delegations')
       .upsert({
         user_address: userAddress.toLowerCase(),
-        smart_account_address: smartAccountAddress?.toLowerCase() || null,
+        smart_account_address: smartAccountAddress.toLowerCase(),
         delegation_hash: delegationHash,
         delegation_signature: signature,
         delegation_data: delegationData,
+        scoped_delegations: scopedDelegations ?? null, // Older clients sign one delegation for every call
         max_amount_per_swap: maxAmountPerSwap || '1000000000', // Default 1000 USDC
         expires_at: expiresAt,
-        target_asset: targetAsset || 'ETH', // Store target asset preference
+        target_asset: getPrimaryAsset(basketResult.basket), // Largest allocation, for readers that predate baskets
+        target_basket: basketResult.basket,
+        strategy: strategy || DEFAULT_STRATEGY_ID,
+        base_percentage: basePercentage ?? null,
+        strategy_config: configResult.config,
+        schedule: scheduleResult.schedule,
+        // None of these delegations is disabled (checked above), so the revocation was of
+        // the delegations they replace
+        revoked_at: null,
+        revoked_delegation_hash: null,
+        revoked_tx_hash: null,
       }, {
         onConflict: 'user_address',
       });
@@ -108,7 +281,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// DELETE - remove delegation
+// DELETE - remove delegation (requires a RevokeDelegation intent signed by the delegator)
 export async function DELETE(request: NextRequest) {
   const ip = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || 'unknown';
   if (isRateLimited(ip)) {
@@ -116,20 +289,17 @@ export async function DELETE(request: NextRequest) {
   }
 
   try {
-    const { searchParams } = new URL(request.url);
-    const userAddress = searchParams.get('userAddress');
+    const body = await request.json().catch(() => null);
 
-    if (!userAddress) {
-      return NextResponse.json(
-        { error: 'Missing userAddress parameter' },
-        { status: 400 }
-      );
+    const auth = await verifySignedRequest('RevokeDelegation', body, {});
+    if (auth.valid === false) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
     }
 
     const { error } = await getSupabase()
       .from('delegations')
       .delete()
-      .eq('user_address', userAddress.toLowerCase());
+      .eq('user_address', auth.message.account.toLowerCase());
 
     if (error) {
       console.error('Failed to delete delegation:', error);
@@ -153,11 +323,14 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
-// GET - check if delegation exists
+// GET - check if delegation exists. include=delegations adds the signed delegations, so
+// the delegator can disable them on-chain when revoking - only on a ReadDelegations
+// request signed by that delegator (account, nonce, deadline, signature query params).
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const userAddress = searchParams.get('userAddress');
+    const includeDelegations = searchParams.get('include') === 'delegations';
 
     if (!userAddress) {
       return NextResponse.json(
@@ -166,11 +339,25 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    if (includeDelegations) {
+      const auth = await verifySignedRequest('ReadDelegations', Object.fromEntries(searchParams), {});
+      if (auth.valid === false) {
+        return NextResponse.json({ error: auth.error }, { status: auth.status });
+      }
+      if (auth.message.account.toLowerCase() !== userAddress.toLowerCase()) {
+        return NextResponse.json(
+          { error: 'Request not signed by userAddress' },
+          { status: 403 }
+        );
+      }
+    }
+
     const { data, error } = await getSupabase()
       .from('delegations')
       .select('*')
       .eq('user_address', userAddress.toLowerCase())
       .gt('expires_at', new Date().toISOString())
+      .is('revoked_at', null)
       .single();
 
     if (error || !data) {
@@ -180,6 +367,16 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ 
       exists: true,
       expiresAt: data.expires_at,
+      targetAsset: data.target_asset,
+      targetBasket: getBasket(data.target_basket, data.target_asset),
+      strategy: data.strategy || DEFAULT_STRATEGY_ID,
+      basePercentage: data.base_percentage,
+      strategyConfig: data.strategy_config || {},
+      schedule: data.schedule || DEFAULT_SCHEDULE,
+      ...(includeDelegations ? {
+        delegationData: typeof data.delegation_data === 'string' ? JSON.parse(data.delegation_data) : data.delegation_data,
+        scopedDelegations: data.scoped_delegations ?? null,
+      } : {}),
     });
 
   } catch (error) {
@@ -1,65 +1,49 @@
-// ETH Price API - derives price from Uniswap WETH/USDC pool (no CoinGecko dependency)
-import { NextResponse } from 'next/server';
-import { createPublicClient, http, parseAbi } from 'viem';
-import { base } from 'viem/chains';
-
-const UNISWAP_QUOTER_V2 = '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a';
-const WETH = '0x4200000000000000000000000000000000000006';
-const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
-
-const quoterAbi = parseAbi([
-  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96)) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
-]);
-
-// Cache: refresh every 60s
-let cachedPrice: { price: number; timestamp: number } | null = null;
-const CACHE_TTL = 60_000;
-
-async function getEthPriceFromUniswap(): Promise<number> {
-  // Return cache if fresh
-  if (cachedPrice && Date.now() - cachedPrice.timestamp < CACHE_TTL) {
-    return cachedPrice.price;
+// ETH Price API - Chainlink ETH/USD with the WETH/USDC pool TWAP as fallback (shared price service)
+// GET /api/eth-price → current price; GET /api/eth-price?at=<unix>,<unix> → prices at those times
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerHistoricalUsdPrice, getServerUsdPrice } from '@/lib/prices-server';
+
+// Each historical price is a binary search over Chainlink rounds - bound the work per request
+const MAX_HISTORICAL_TIMESTAMPS = 100;
+
+export async function GET(request: NextRequest) {
+  const at = request.nextUrl.searchParams.get('at');
+  if (at !== null) {
+    return getHistoricalPrices(at);
   }
 
-  const client = createPublicClient({
-    chain: base,
-    transport: http('https://mainnet.base.org', { timeout: 10_000 }),
-  });
-
-  // Quote 1 ETH → USDC
-  const oneEth = BigInt('1000000000000000000');
-
-  const result = await client.simulateContract({
-    address: UNISWAP_QUOTER_V2,
-    abi: quoterAbi,
-    functionName: 'quoteExactInputSingle',
-    args: [{
-      tokenIn: WETH,
-      tokenOut: USDC,
-      amountIn: oneEth,
-      fee: 500, // 0.05% pool
-      sqrtPriceLimitX96: BigInt(0),
-    }],
-  });
-
-  const usdcOut = Number(result.result[0]) / 1e6;
-
-  cachedPrice = { price: usdcOut, timestamp: Date.now() };
-  return usdcOut;
-}
-
-export async function GET() {
   try {
-    const price = await getEthPriceFromUniswap();
-    return NextResponse.json({ price, source: 'uniswap' }, {
-      headers: { 'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=120' },
+    const { priceUsd, source, updatedAt } = await getServerUsdPrice('ETH');
+    return NextResponse.json({ price: priceUsd, source, updatedAt }, {
+      headers: { 'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60' },
     });
   } catch (error) {
     console.error('ETH price error:', error);
-    // If Uniswap fails, try cache even if stale
-    if (cachedPrice) {
-      return NextResponse.json({ price: cachedPrice.price, source: 'cache' });
+    return NextResponse.json({ error: 'ETH price unavailable' }, { status: 503 });
+  }
+}
+
+async function getHistoricalPrices(at: string) {
+  const timestamps = at.split(',').map(Number);
+  if (timestamps.some(t => !Number.isInteger(t) || t <= 0)) {
+    return NextResponse.json({ error: 'at must be comma-separated unix timestamps' }, { status: 400 });
+  }
+  if (timestamps.length > MAX_HISTORICAL_TIMESTAMPS) {
+    return NextResponse.json({ error: `At most ${MAX_HISTORICAL_TIMESTAMPS} timestamps per request` }, { status: 400 });
+  }
+
+  // Sequential, so the round reads of one lookup are cached for the next
+  const prices: Record<number, number | null> = {};
+  for (const timestamp of timestamps) {
+    try {
+      prices[timestamp] = (await getServerHistoricalUsdPrice('ETH', timestamp)).priceUsd;
+    } catch (error) {
+      console.warn(`ETH price at ${timestamp} unavailable:`, error);
+      prices[timestamp] = null;
     }
-    return NextResponse.json({ price: 2000, source: 'fallback' });
   }
+
+  return NextResponse.json({ prices, source: 'chainlink' }, {
+    headers: { 'Cache-Control': 'public, s-maxage=3600' },
+  });
 }
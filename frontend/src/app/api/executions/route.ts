@@ -37,7 +37,7 @@ export async function GET(request: Request) {
     // Note: error_message column may not exist yet - query without it for now
     const { data: executions, error } = await supabase
       .from('dca_executions')
-      .select('id, user_address, fear_greed_index, action, amount_in, amount_out, fee_collected, tx_hash, status, created_at')
+      .select('id, user_address, fear_greed_index, action, amount_in, amount_out, fee_collected, tx_hash, status, created_at, target_asset')
       .eq('user_address', userAddress.toLowerCase())
       .order('created_at', { ascending: false })
       .limit(500);
@@ -61,6 +61,7 @@ export async function GET(request: Request) {
       tx_hash: exec.tx_hash,
       status: exec.status,
       error_message: exec.error_message || null,
+      target_asset: exec.target_asset || null,
     }));
 
     return NextResponse.json({ executions: transformedExecutions });
@@ -1,28 +1,43 @@
 // Withdrawal API - executes withdrawals via delegation (backend pays gas)
+// Requires an EIP-712 Withdraw intent signed by the delegator (see lib/request-auth.ts).
+// Redeems the wallet's withdraw delegation (shared/withdrawals.ts) from the backend smart
+// account - the delegate and only allowed redeemer - in a sponsored user operation.
 import { NextRequest, NextResponse } from 'next/server';
 import { 
   createPublicClient, 
-  createWalletClient, 
   http, 
   encodeFunctionData,
   erc20Abi,
+  isAddress,
   type Address,
   type Hex,
 } from 'viem';
 import { base } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
+import { createBundlerClient } from 'viem/account-abstraction';
+import { createPimlicoClient } from 'permissionless/clients/pimlico';
+import {
+  ExecutionMode,
+  Implementation,
+  createExecution,
+  getSmartAccountsEnvironment,
+  toMetaMaskSmartAccount,
+} from '@metamask/smart-accounts-kit';
+import { DelegationManager } from '@metamask/smart-accounts-kit/contracts';
 import { createClient } from '@supabase/supabase-js';
+import { verifySignedRequest } from '@/lib/request-auth-server';
+import { TOKEN_REGISTRY, type TokenSymbol } from '@shared/tokens';
+import { getPinnedWithdrawRecipient } from '@shared/withdrawals';
 
 // Config
-const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Address;
-const WETH = '0x4200000000000000000000000000000000000006' as Address;
 const DELEGATION_MANAGER = '0xdb9B1e94B5b69Df7e401DDbedE43491141047dB3' as Address;
+const PIMLICO_API_KEY = process.env.PIMLICO_API_KEY || process.env.NEXT_PUBLIC_PIMLICO_API_KEY || '';
+const BUNDLER_URL = `https://api.pimlico.io/v2/8453/rpc?apikey=${PIMLICO_API_KEY}`;
 
 // Lazy-loaded clients (initialized on first request to avoid build-time env issues)
 let _supabase: any = null;
 let _publicClient: any = null;
-let _walletClient: any = null;
-let _backendAccount: any = null;
+let _backendSmartAccount: any = null;
 
 function getSupabase() {
   if (!_supabase) {
@@ -44,79 +59,73 @@ function getPublicClient(): any {
   return _publicClient;
 }
 
-function getBackendAccount() {
-  if (!_backendAccount) {
-    _backendAccount = privateKeyToAccount(process.env.BACKEND_PRIVATE_KEY as Hex);
-  }
-  return _backendAccount;
-}
-
-function getWalletClient(): any {
-  if (!_walletClient) {
-    _walletClient = createWalletClient({
-      account: getBackendAccount(),
-      chain: base,
-      transport: http(),
+// The backend EOA's smart account, as the backend executor derives it (backend/smart-account.ts)
+async function getBackendSmartAccount() {
+  if (!_backendSmartAccount) {
+    const backendAccount = privateKeyToAccount(process.env.BACKEND_PRIVATE_KEY as Hex);
+    _backendSmartAccount = await toMetaMaskSmartAccount({
+      client: getPublicClient(),
+      implementation: Implementation.Hybrid,
+      deployParams: [backendAccount.address, [], [], []],
+      deploySalt: '0x0000000000000000000000000000000000000000000000000000000000000000',
+      signer: { account: backendAccount },
     });
   }
-  return _walletClient;
-}
-
-// Delegation Manager ABI for executing via delegation
-const delegationManagerAbi = [
-  {
-    name: 'redeemDelegations',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [
-      { name: 'delegations', type: 'bytes[][]' },
-      { name: 'modes', type: 'uint8[]' },
-      { name: 'executions', type: 'bytes[][]' },
-    ],
-    outputs: [],
-  },
-] as const;
-
-// Simple execution encoder
-function encodeExecution(target: Address, value: bigint, callData: Hex): Hex {
-  // Encode as a simple tuple (target, value, callData)
-  return encodeFunctionData({
-    abi: [{
-      name: 'execute',
-      type: 'function',
-      inputs: [
-        { name: 'target', type: 'address' },
-        { name: 'value', type: 'uint256' },
-        { name: 'callData', type: 'bytes' },
-      ],
-      outputs: [],
-    }],
-    functionName: 'execute',
-    args: [target, value, callData],
-  });
+  return _backendSmartAccount;
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { smartAccountAddress, recipientAddress, userAddress, amount, token } = body;
+    const { smartAccount, recipient, amount, token, unwrap } = body;
 
     // Validate inputs
-    if (!smartAccountAddress || !recipientAddress || !userAddress || !amount || !token) {
+    if (!smartAccount || !recipient || !amount || !token) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
 
-    if (token !== 'ETH' && token !== 'USDC') {
+    // ETH withdraws WETH; every token is an ERC20 transfer from the registry address
+    if (!Object.prototype.hasOwnProperty.call(TOKEN_REGISTRY, token)) {
       return NextResponse.json(
-        { error: 'Invalid token - must be ETH or USDC' },
+        { error: `Invalid token - must be one of ${Object.keys(TOKEN_REGISTRY).join(', ')}` },
         { status: 400 }
       );
     }
+    const tokenInfo = TOKEN_REGISTRY[token as TokenSymbol];
 
-    // Get delegation from database (lookup by user's EOA address)
+    // The delegation cannot send native ETH to the recipient, so 'ETH' always arrives as
+    // WETH here - unwrapping is done from the user's own smart account (TotalBalanceCard)
+    if (unwrap) {
+      return NextResponse.json(
+        { error: 'Unwrapping to native ETH is only available when withdrawing from your own wallet' },
+        { status: 400 }
+      );
+    }
+
+    if (!isAddress(smartAccount) || !isAddress(recipient) || typeof amount !== 'string' || !/^\d+$/.test(amount) || BigInt(amount) === 0n) {
+      return NextResponse.json(
+        { error: 'Invalid smartAccount, recipient or amount' },
+        { status: 400 }
+      );
+    }
+
+    // Signed by the delegator, unexpired, nonce never used before
+    const auth = await verifySignedRequest('Withdraw', body, {
+      smartAccount,
+      recipient,
+      token,
+      amount: BigInt(amount),
+    });
+    if (auth.valid === false) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const userAddress = auth.message.account;
+    const recipientAddress = recipient as Address;
+
+    // Get delegation from database (lookup by the signer's EOA address)
     const { data: delegation, error: dbError } = await getSupabase()
       .from('delegations')
       .select('*')
@@ -131,70 +140,71 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Parse delegation data from proper column
-    const delegationData = typeof delegation.delegation_data === 'string' 
-      ? JSON.parse(delegation.delegation_data) 
-      : delegation.delegation_data;
+    if (delegation.smart_account_address?.toLowerCase() !== smartAccount.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Smart account does not belong to this delegation' },
+        { status: 403 }
+      );
+    }
 
-    // Debug: check what we have
-    console.log('Delegation data:', JSON.stringify(delegationData, null, 2));
-    
-    if (!delegationData || !delegationData.encoded) {
+    // The swap delegation cannot transfer tokens out; only the withdraw delegation can
+    const scoped = typeof delegation.scoped_delegations === 'string'
+      ? JSON.parse(delegation.scoped_delegations)
+      : delegation.scoped_delegations;
+    const withdrawDelegation = scoped?.withdraw;
+    if (!withdrawDelegation?.signature) {
       return NextResponse.json(
-        { error: 'Delegation data is incomplete. Please revoke and re-sign your delegation.' },
+        { error: 'Your delegation predates gasless withdrawals. Withdraw from your smart wallet, or revoke and re-sign your delegation.' },
         { status: 400 }
       );
     }
 
-    // Build the withdrawal execution
-    let executionCallData: Hex;
-    let executionValue = 0n;
-
-    if (token === 'ETH') {
-      // For ETH (WETH): transfer ERC20 WETH to recipient
-      executionCallData = encodeFunctionData({
-  abi: erc20Abi,
-  functionName: 'transfer',
-  args: [recipientAddress as Address, BigInt(amount)],
-  });
-    } else {
-      // For USDC: call transfer on USDC contract
-      executionCallData = encodeFunctionData({
-        abi: erc20Abi,
-        functionName: 'transfer',
-        args: [recipientAddress as Address, BigInt(amount)],
-      });
+    const allowedCalldataEnforcer = getSmartAccountsEnvironment(base.id).caveatEnforcers.AllowedCalldataEnforcer;
+    // The delegation only pays the delegator's EOA - the one withdrawal destination
+    const pinnedRecipient = getPinnedWithdrawRecipient(withdrawDelegation, allowedCalldataEnforcer);
+    if (
+      pinnedRecipient?.toLowerCase() !== recipientAddress.toLowerCase()
+      || pinnedRecipient.toLowerCase() !== userAddress.toLowerCase()
+    ) {
+      return NextResponse.json(
+        { error: 'Gasless withdrawals only go to your own wallet - send to other addresses from your smart wallet' },
+        { status: 403 }
+      );
     }
 
-    const executionTarget = token === 'ETH' ? WETH : USDC;
-    const executionEncoded = encodeExecution(
-      executionTarget as Address,
-      executionValue,
-      executionCallData
-    );
+    // Transfer the token (WETH for ETH) to the recipient
+    const redeemCalldata = DelegationManager.encode.redeemDelegations({
+      delegations: [[withdrawDelegation]],
+      modes: [ExecutionMode.SingleDefault],
+      executions: [[createExecution({
+        target: tokenInfo.address,
+        value: 0n,
+        callData: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [recipientAddress, BigInt(amount)],
+        }),
+      })]],
+    });
 
-    // Execute via DelegationManager
-    const txHash = await getWalletClient().writeContract({
-      address: DELEGATION_MANAGER,
-      abi: delegationManagerAbi,
-      functionName: 'redeemDelegations',
-      args: [
-        [[delegationData.encoded]], // delegations
-        [0], // modes (0 = SingleDefault)
-        [[executionEncoded]], // executions
-      ],
-      chain: base,
-      account: getBackendAccount(),
-      gas: 300000n,
+    const bundlerClient = createBundlerClient({
+      client: getPublicClient(),
+      transport: http(BUNDLER_URL),
+    });
+    const userOpHash = await bundlerClient.sendUserOperation({
+      account: await getBackendSmartAccount(),
+      calls: [{ to: DELEGATION_MANAGER, data: redeemCalldata, value: 0n }],
+      paymaster: createPimlicoClient({ transport: http(BUNDLER_URL) }),
     });
 
     // Wait for confirmation
-    const receipt = await getPublicClient().waitForTransactionReceipt({
-      hash: txHash,
-      timeout: 60000,
+    const { success, receipt } = await bundlerClient.waitForUserOperationReceipt({
+      hash: userOpHash,
+      timeout: 120000,
     });
+    const txHash = receipt.transactionHash;
 
-    if (receipt.status !== 'success') {
+    if (!success) {
       return NextResponse.json(
         { error: 'Transaction reverted' },
         { status: 500 }
@@ -204,7 +214,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       txHash,
-      message: `Withdrew ${token} to ${recipientAddress}`,
+      message: `Withdrew ${tokenInfo.heldSymbol} to ${recipientAddress}`,
     });
 
   } catch (error) {
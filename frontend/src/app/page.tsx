@@ -313,7 +313,7 @@ export default function Home() {
             <div className="lg:col-span-1 space-y-6">
               <TotalBalanceCard />
               <APYDisplay />
-              <CountdownCard />
+              <CountdownCard schedule={delegationState.delegation?.schedule} />
               <FearGreedGauge />
               <BalanceHistoryChart />
             </div>
@@ -377,7 +377,7 @@ export default function Home() {
                     },
                     {
                       q: "How often does the bot execute?",
-                      a: "The DCA bot runs once daily at 12:00 UTC. In Fear or Extreme Fear, it buys ETH with a percentage of your USDC. In Greed or Extreme Greed, it sells a percentage of your ETH back to USDC. On neutral days (46-54), it sits tight."
+                      a: "The DCA bot runs on the schedule you choose: daily (12:00 UTC by default), every few hours, or weekly on chosen days. In Fear or Extreme Fear, it buys ETH with a percentage of your USDC. In Greed or Extreme Greed, it sells a percentage of your ETH back to USDC. On neutral days (46-54), it sits tight."
                     },
                     {
                       q: "What tokens can I DCA into?",
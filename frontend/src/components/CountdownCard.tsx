@@ -1,7 +1,8 @@
-// CountdownCard.tsx - Shows countdown to next DCA execution at 12:00 UTC
+// CountdownCard.tsx - Shows countdown to the user's next DCA execution slot
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
+import { DEFAULT_SCHEDULE, describeSchedule, getNextSlotStart, type ExecutionSchedule } from '@shared/schedule';
 
 interface TimeUntil {
   hours: number;
@@ -9,56 +10,36 @@ interface TimeUntil {
   seconds: number;
 }
 
-function getTimeUntilNextExecution(): TimeUntil {
+function getTimeUntilNextExecution(schedule: ExecutionSchedule): TimeUntil {
   const now = new Date();
-  const utcHours = now.getUTCHours();
-  const utcMinutes = now.getUTCMinutes();
-  const utcSeconds = now.getUTCSeconds();
-
-  // Target: 12:00 UTC
-  let hoursUntil = 12 - utcHours;
-  let minutesUntil = -utcMinutes;
-  let secondsUntil = -utcSeconds;
-
-  // Handle rollover
-  if (secondsUntil < 0) {
-    secondsUntil += 60;
-    minutesUntil -= 1;
-  }
-  if (minutesUntil < 0) {
-    minutesUntil += 60;
-    hoursUntil -= 1;
-  }
-  if (hoursUntil < 0) {
-    hoursUntil += 24;
-  }
-
-  // If it's exactly 12:00:00, show 24:00:00
-  if (hoursUntil === 0 && minutesUntil === 0 && secondsUntil === 0) {
-    hoursUntil = 24;
-  }
+  const remaining = Math.max(0, Math.floor((getNextSlotStart(schedule, now).getTime() - now.getTime()) / 1000));
 
+  // Hours may exceed 24 for weekly schedules
   return {
-    hours: hoursUntil,
-    minutes: minutesUntil,
-    seconds: secondsUntil,
+    hours: Math.floor(remaining / 3600),
+    minutes: Math.floor((remaining % 3600) / 60),
+    seconds: remaining % 60,
   };
 }
 
-export function CountdownCard() {
+interface CountdownCardProps {
+  schedule?: ExecutionSchedule; // The connected user's schedule (default: daily 12:00 UTC)
+}
+
+export function CountdownCard({ schedule = DEFAULT_SCHEDULE }: CountdownCardProps) {
   const [timeUntil, setTimeUntil] = useState<TimeUntil>({ hours: 0, minutes: 0, seconds: 0 });
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
     setMounted(true);
-    setTimeUntil(getTimeUntilNextExecution());
+    setTimeUntil(getTimeUntilNextExecution(schedule));
 
     const interval = setInterval(() => {
-      setTimeUntil(getTimeUntilNextExecution());
+      setTimeUntil(getTimeUntilNextExecution(schedule));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [schedule]);
 
   const formatNumber = (n: number) => n.toString().padStart(2, '0');
 
@@ -86,7 +67,7 @@ export function CountdownCard() {
       </div>
 
       <p className="text-xs text-gray-500 mb-4">
-        Transactions occur daily at <span className="text-blue-400 font-semibold">12:00 UTC</span>
+        Your schedule: <span className="text-blue-400 font-semibold">{describeSchedule(schedule)}</span>
       </p>
 
       {/* Countdown Timer */}
@@ -6,7 +6,97 @@ import confetti from 'canvas-confetti';
 import { useDelegation } from '@/hooks/useDelegation';
 import { useSmartAccountContext } from '@/contexts/SmartAccountContext';
 import { useCountdown } from '@/hooks/useCountdown';
-import { formatExpiryDate, DELEGATION_CONFIG, DELEGATION_ADDRESSES, CURRENT_DELEGATE } from '@/lib/delegation';
+import { formatExpiryDate, getLimitedCallsForSchedule, DELEGATION_CONFIG, CURRENT_DELEGATE, FG_ENFORCER, FG_ORACLE } from '@/lib/delegation';
+import {
+  STRATEGIES,
+  DEFAULT_STRATEGY_ID,
+  FG_THRESHOLDS,
+  FG_BANDS,
+  MAX_CONFIG_PERCENTAGE,
+  calculateDecision,
+  getStrategy,
+  isBuyOnlyStrategy,
+  validateStrategyConfig,
+  type BandOverride,
+  type FGBand,
+  type StrategyConfig,
+  type StrategyId,
+} from '@shared/strategies';
+import { describeBasket, getBasket, validateBasket, type TargetBasket } from '@shared/tokens';
+import {
+  DEFAULT_SCHEDULE,
+  INTERVAL_HOURS_OPTIONS,
+  WEEKDAY_NAMES,
+  describeSchedule,
+  validateSchedule,
+  type ExecutionSchedule,
+  type ScheduleCadence,
+} from '@shared/schedule';
+
+// F&G bands shown in the strategy preview table
+const PREVIEW_BANDS = [
+  { label: '😱 Extreme Fear', min: 0, max: FG_THRESHOLDS.EXTREME_FEAR_MAX, rowClass: 'bg-red-500/10', labelClass: 'text-red-400' },
+  { label: '😰 Fear', min: FG_THRESHOLDS.EXTREME_FEAR_MAX + 1, max: FG_THRESHOLDS.FEAR_MAX, rowClass: 'bg-orange-500/10', labelClass: 'text-orange-400' },
+  { label: '😐 Neutral', min: FG_THRESHOLDS.FEAR_MAX + 1, max: FG_THRESHOLDS.NEUTRAL_MAX, rowClass: 'bg-gray-500/10', labelClass: 'text-gray-400' },
+  { label: '😊 Greed', min: FG_THRESHOLDS.NEUTRAL_MAX + 1, max: FG_THRESHOLDS.GREED_MAX, rowClass: 'bg-lime-500/10', labelClass: 'text-lime-400' },
+  { label: '🤑 Extreme Greed', min: FG_THRESHOLDS.GREED_MAX + 1, max: 100, rowClass: 'bg-green-500/10', labelClass: 'text-green-400' },
+];
+
+const BAND_LABELS: Record<FGBand, string> = {
+  extremeFear: '😱 Extreme Fear (buy)',
+  fear: '😰 Fear (buy)',
+  greed: '😊 Greed (sell)',
+  extremeGreed: '🤑 Extreme Greed (sell)',
+};
+
+// Bands the user may override: a buy-only strategy has no sell bands
+function getEditableBands(strategyId: StrategyId): FGBand[] {
+  return isBuyOnlyStrategy(strategyId) ? ['extremeFear', 'fear'] : FG_BANDS;
+}
+
+// Seed custom bands from the base amount: base in Fear/Greed, 2× base in the extremes
+function getDefaultBandOverrides(basePercentage: number): Record<FGBand, BandOverride> {
+  const extreme = Math.min(basePercentage * 2, MAX_CONFIG_PERCENTAGE);
+  return {
+    extremeFear: { percentage: extreme },
+    fear: { percentage: basePercentage },
+    greed: { percentage: basePercentage },
+    extremeGreed: { percentage: extreme },
+  };
+}
+
+// Summarise a strategy over a band, e.g. "BUY 2.5%" or "BUY 0.11–2.17%"
+function describeBand(strategyId: StrategyId, config: StrategyConfig, min: number, max: number): { action: string; label: string } {
+  const decisions = [];
+  for (let value = min; value <= max; value++) {
+    decisions.push(calculateDecision(value, strategyId, {}, config));
+  }
+  const active = decisions.filter(d => d.action !== 'hold');
+  if (active.length === 0) {
+    return { action: 'hold', label: 'HOLD' };
+  }
+  const action = active[0].action;
+  const percentages = active.map(d => d.percentage);
+  const low = Math.min(...percentages);
+  const high = Math.max(...percentages);
+  const range = low === high ? `${high}%` : `${low}–${high}%`;
+  const partial = active.length < decisions.length ? ' / HOLD' : '';
+  const cap = active[0].maxAmountUsd !== undefined ? ` (max $${active[0].maxAmountUsd})` : '';
+  return { action, label: `${action.toUpperCase()} ${range}${cap}${partial}` };
+}
+
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+// Largest percentage a strategy will ever swap in a single run
+function getMaxPercentage(strategyId: StrategyId, config: StrategyConfig): number {
+  let max = 0;
+  for (let value = 0; value <= 100; value++) {
+    max = Math.max(max, calculateDecision(value, strategyId, {}, config).percentage);
+  }
+  return max;
+}
 
 interface DelegationSetupProps {
   isFunded?: boolean;
@@ -25,10 +115,22 @@ export function DelegationSetup({ isFunded = false }: DelegationSetupProps) {
   const hasSmartAccount = smartAccountState.status === 'created' && !!smartAccountAddress;
   const canActivate = hasSmartAccount && isFunded;
   
-  const countdown = useCountdown();
+  const countdown = useCountdown(state.delegation?.schedule);
 
   const [basePercentage, setBasePercentage] = useState(2.5);
-  const [targetAsset, setTargetAsset] = useState('ETH');
+  const [targetAsset, setTargetAsset] = useState('ETH'); // 'ETH', 'cbBTC' or 'split'
+  const [ethWeight, setEthWeight] = useState(60);
+  const [strategyId, setStrategyId] = useState<StrategyId>(DEFAULT_STRATEGY_ID);
+  const [buyOnly, setBuyOnly] = useState(false);
+  const [customBands, setCustomBands] = useState(false);
+  const [bandOverrides, setBandOverrides] = useState<Record<FGBand, BandOverride>>(() => getDefaultBandOverrides(2.5));
+  const [configError, setConfigError] = useState<string | null>(null);
+  const [cadence, setCadence] = useState<ScheduleCadence>(DEFAULT_SCHEDULE.cadence);
+  const [intervalHours, setIntervalHours] = useState(6);
+  const [weekdays, setWeekdays] = useState<number[]>([1]);
+  const [windowStartHour, setWindowStartHour] = useState(DEFAULT_SCHEDULE.windowStartHour);
+  const [windowEndHour, setWindowEndHour] = useState(DEFAULT_SCHEDULE.windowEndHour);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
   const [showDetails, setShowDetails] = useState(false);
   const [showCelebration, setShowCelebration] = useState(false);
   const [previousStatus, setPreviousStatus] = useState<string | null>(null);
@@ -88,12 +190,63 @@ export function DelegationSetup({ isFunded = false }: DelegationSetupProps) {
     }, 250);
   };
 
+  const strategyConfig: StrategyConfig = {
+    buyOnly,
+    ...(customBands
+      ? { bands: Object.fromEntries(getEditableBands(strategyId).map(band => [band, bandOverrides[band]])) }
+      : {}),
+  };
+
+  const schedule: ExecutionSchedule = {
+    cadence,
+    windowStartHour,
+    windowEndHour,
+    ...(cadence === 'interval' ? { intervalHours } : {}),
+    ...(cadence === 'weekly' ? { weekdays } : {}),
+  };
+  const scheduleValidation = validateSchedule(schedule);
+
+  const targetBasket: TargetBasket = targetAsset === 'split'
+    ? [{ asset: 'ETH', weight: ethWeight }, { asset: 'cbBTC', weight: 100 - ethWeight }]
+    : [{ asset: targetAsset, weight: 100 }];
+  const basketValidation = validateBasket(targetBasket);
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  const updateBandOverride = (band: FGBand, field: keyof BandOverride, value: string) => {
+    setBandOverrides(prev => ({
+      ...prev,
+      [band]: { ...prev[band], [field]: value === '' ? undefined : Number(value) },
+    }));
+  };
+
+  const handleCustomBandsToggle = (enabled: boolean) => {
+    if (enabled) {
+      setBandOverrides(getDefaultBandOverrides(basePercentage));
+    }
+    setCustomBands(enabled);
+  };
+
   const handleGrant = async () => {
-    await createAndSignDelegation(basePercentage, targetAsset, smartAccountAddress || undefined);
+    const validation = validateStrategyConfig(strategyConfig, strategyId);
+    if (!validation.valid) {
+      setConfigError(validation.error);
+      return;
+    }
+    setConfigError(null);
+    if (!scheduleValidation.valid) {
+      setScheduleError(scheduleValidation.error);
+      return;
+    }
+    setScheduleError(null);
+    if (!basketValidation.valid) return;
+    await createAndSignDelegation(basePercentage, basketValidation.basket, smartAccountAddress || undefined, strategyId, validation.config, scheduleValidation.schedule);
   };
 
   const handleRevoke = async () => {
-    if (confirm('Are you sure you want to revoke the delegation? DCA will stop.')) {
+    if (confirm('Are you sure you want to revoke the delegation? DCA will stop, and your smart account will disable the delegation on-chain.')) {
       await revokeDelegation();
     }
   };
@@ -155,7 +308,7 @@ export function DelegationSetup({ isFunded = false }: DelegationSetupProps) {
                 </span>
               </div>
               <p className="text-xs text-emerald-400/70 mt-3">
-                at 12:00 UTC • Based on Fear & Greed Index
+                {describeSchedule(state.delegation.schedule ?? DEFAULT_SCHEDULE)} • Based on Fear & Greed Index
               </p>
             </div>
           </div>
@@ -182,10 +335,24 @@ export function DelegationSetup({ isFunded = false }: DelegationSetupProps) {
                 {state.delegation.basePercentage}% of balance
               </span>
             </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">Strategy:</span>
+              <span className="font-medium text-white">
+                {getStrategy(state.delegation.strategy).name}
+                {state.delegation.strategyConfig?.bands && ' (custom bands)'}
+                {state.delegation.strategyConfig?.buyOnly && ' · buy only'}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">Schedule:</span>
+              <span className="font-medium text-white">
+                {describeSchedule(state.delegation.schedule ?? DEFAULT_SCHEDULE)}
+              </span>
+            </div>
             <div className="flex justify-between text-sm">
               <span className="text-gray-500">Target Asset:</span>
               <span className="font-medium text-white">
-                {state.delegation.targetAsset}
+                {describeBasket(state.delegation.targetBasket ?? getBasket(null, state.delegation.targetAsset))}
               </span>
             </div>
             <div className="flex justify-between text-sm">
@@ -212,11 +379,11 @@ export function DelegationSetup({ isFunded = false }: DelegationSetupProps) {
           {showDetails && (
             <div className="p-3 bg-black/30 rounded-xl text-xs font-mono mb-4 space-y-1 border border-white/5">
               <p className="text-gray-400">
-                <span className="text-gray-500">Allowed Target:</span>{' '}
-                {DELEGATION_ADDRESSES.UNISWAP_ROUTER}
+                <span className="text-gray-500">Allowed Targets:</span>{' '}
+                {state.delegation.caveats.allowedTargets.length} (Uniswap and Odos routers, Permit2, registry tokens)
               </p>
               <p className="text-gray-400">
-                <span className="text-gray-500">Methods:</span> execute, approve
+                <span className="text-gray-500">Methods:</span> execute, exactInputSingle, swapCompact, approve, transfer, deposit
               </p>
               <p className="text-gray-400">
                 <span className="text-gray-500">Hash:</span>{' '}
@@ -301,35 +468,185 @@ export function DelegationSetup({ isFunded = false }: DelegationSetupProps) {
               {basePercentage}%
             </span>
           </div>
-          
+        </div>
+
+        {/* Strategy */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Strategy
+          </label>
+          <select
+            value={strategyId}
+            onChange={(e) => setStrategyId(e.target.value as StrategyId)}
+            className="w-full px-3 py-2.5 bg-black/30 border border-white/10 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-white"
+          >
+            {Object.values(STRATEGIES).map(strategy => (
+              <option key={strategy.id} value={strategy.id}>{strategy.name}</option>
+            ))}
+          </select>
+
           {/* Strategy Preview Table */}
           <div className="mt-4 p-3 bg-black/30 rounded-xl border border-white/5">
             <p className="text-xs font-medium text-gray-400 mb-2">📊 How your strategy will work:</p>
             <div className="space-y-1.5 text-xs">
-              <div className="flex justify-between items-center py-1 px-2 rounded bg-red-500/10">
-                <span className="text-red-400">😱 Extreme Fear (0-25)</span>
-                <span className="font-bold text-emerald-400">BUY {basePercentage * 2}%</span>
-              </div>
-              <div className="flex justify-between items-center py-1 px-2 rounded bg-orange-500/10">
-                <span className="text-orange-400">😰 Fear (26-45)</span>
-                <span className="font-bold text-emerald-400">BUY {basePercentage}%</span>
-              </div>
-              <div className="flex justify-between items-center py-1 px-2 rounded bg-gray-500/10">
-                <span className="text-gray-400">😐 Neutral (46-54)</span>
-                <span className="font-medium text-gray-500">HOLD</span>
+              {PREVIEW_BANDS.map(band => {
+                const preview = describeBand(strategyId, strategyConfig, band.min, band.max);
+                return (
+                  <div key={band.label} className={`flex justify-between items-center py-1 px-2 rounded ${band.rowClass}`}>
+                    <span className={band.labelClass}>{band.label} ({band.min}-{band.max})</span>
+                    <span className={
+                      preview.action === 'buy' ? 'font-bold text-emerald-400' :
+                      preview.action === 'sell' ? 'font-bold text-red-400' :
+                      'font-medium text-gray-500'
+                    }>
+                      {preview.label}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="mt-2 text-[10px] text-gray-500 italic">
+              {getStrategy(strategyId).description}
+            </p>
+          </div>
+
+          {/* Strategy Parameters */}
+          <div className="mt-3 space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={buyOnly}
+                onChange={(e) => setBuyOnly(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Buy only (never sell)
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={customBands}
+                onChange={(e) => handleCustomBandsToggle(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Customize amount per band
+            </label>
+
+            {customBands && (
+              <div className="p-3 bg-black/30 rounded-xl border border-white/5 space-y-2 text-xs">
+                <div className="grid grid-cols-3 gap-2 text-gray-500">
+                  <span>Band</span>
+                  <span>% of balance</span>
+                  <span>Max per swap ($)</span>
+                </div>
+                {getEditableBands(strategyId).map(band => (
+                  <div key={band} className="grid grid-cols-3 gap-2 items-center">
+                    <span className="text-gray-300">{BAND_LABELS[band]}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max={MAX_CONFIG_PERCENTAGE}
+                      step="0.5"
+                      value={bandOverrides[band].percentage ?? ''}
+                      onChange={(e) => updateBandOverride(band, 'percentage', e.target.value)}
+                      className="px-2 py-1 bg-black/30 border border-white/10 rounded-lg text-white"
+                    />
+                    <input
+                      type="number"
+                      min="0"
+                      placeholder="No cap"
+                      value={bandOverrides[band].maxAmountUsd ?? ''}
+                      onChange={(e) => updateBandOverride(band, 'maxAmountUsd', e.target.value)}
+                      className="px-2 py-1 bg-black/30 border border-white/10 rounded-lg text-white"
+                    />
+                  </div>
+                ))}
               </div>
-              <div className="flex justify-between items-center py-1 px-2 rounded bg-lime-500/10">
-                <span className="text-lime-400">😊 Greed (55-75)</span>
-                <span className="font-bold text-red-400">SELL {basePercentage}%</span>
+            )}
+
+            {configError && (
+              <p className="text-xs text-red-400">{configError}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Schedule */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Schedule (UTC)
+          </label>
+          <select
+            value={cadence}
+            onChange={(e) => setCadence(e.target.value as ScheduleCadence)}
+            className="w-full px-3 py-2.5 bg-black/30 border border-white/10 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-white"
+          >
+            <option value="daily">Daily</option>
+            <option value="interval">Every N hours</option>
+            <option value="weekly">Weekly on chosen days</option>
+          </select>
+
+          <div className="mt-3 space-y-2 text-sm">
+            {cadence === 'interval' && (
+              <label className="flex items-center justify-between gap-2 text-gray-300">
+                Run every
+                <select
+                  value={intervalHours}
+                  onChange={(e) => setIntervalHours(Number(e.target.value))}
+                  className="px-2 py-1 bg-black/30 border border-white/10 rounded-lg text-white"
+                >
+                  {INTERVAL_HOURS_OPTIONS.map(hours => (
+                    <option key={hours} value={hours}>{hours}h</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {cadence === 'weekly' && (
+              <div className="flex flex-wrap gap-1.5">
+                {WEEKDAY_NAMES.map((name, day) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`px-2.5 py-1 rounded-lg text-xs border transition-colors ${
+                      weekdays.includes(day)
+                        ? 'bg-blue-500/30 border-blue-500/50 text-blue-300'
+                        : 'bg-black/30 border-white/10 text-gray-400'
+                    }`}
+                  >
+                    {name}
+                  </button>
+                ))}
               </div>
-              <div className="flex justify-between items-center py-1 px-2 rounded bg-green-500/10">
-                <span className="text-green-400">🤑 Extreme Greed (76-100)</span>
-                <span className="font-bold text-red-400">SELL {basePercentage * 2}%</span>
+            )}
+
+            <div className="flex items-center justify-between gap-2 text-gray-300">
+              <span>{cadence === 'interval' ? 'Between' : 'Starting at'}</span>
+              <div className="flex items-center gap-2">
+                <select
+                  value={windowStartHour}
+                  onChange={(e) => setWindowStartHour(Number(e.target.value))}
+                  className="px-2 py-1 bg-black/30 border border-white/10 rounded-lg text-white"
+                >
+                  {HOURS.slice(0, 24).map(hour => (
+                    <option key={hour} value={hour}>{formatHour(hour)}</option>
+                  ))}
+                </select>
+                <span className="text-gray-500">{cadence === 'interval' ? 'and' : 'run by'}</span>
+                <select
+                  value={windowEndHour}
+                  onChange={(e) => setWindowEndHour(Number(e.target.value))}
+                  className="px-2 py-1 bg-black/30 border border-white/10 rounded-lg text-white"
+                >
+                  {HOURS.slice(1).map(hour => (
+                    <option key={hour} value={hour}>{formatHour(hour)}</option>
+                  ))}
+                </select>
               </div>
             </div>
-            <p className="mt-2 text-[10px] text-gray-500 italic">
-              Extreme conditions = 2× the base amount (buy more dips, sell more tops)
-            </p>
+
+            {(scheduleError || !scheduleValidation.valid) && (
+              <p className="text-xs text-red-400">{scheduleError ?? scheduleValidation.error}</p>
+            )}
           </div>
         </div>
 
@@ -345,7 +662,27 @@ export function DelegationSetup({ isFunded = false }: DelegationSetupProps) {
           >
             <option value="ETH">ETH (Ethereum)</option>
             <option value="cbBTC">cbBTC (Coinbase Wrapped BTC)</option>
+            <option value="split">Split between ETH and cbBTC</option>
           </select>
+
+          {targetAsset === 'split' && (
+            <div className="mt-3 space-y-2 text-sm">
+              <input
+                type="range"
+                min={1}
+                max={99}
+                value={ethWeight}
+                onChange={(e) => setEthWeight(Number(e.target.value))}
+                className="w-full accent-blue-500"
+              />
+              <p className="text-gray-400">
+                Buys split {describeBasket(targetBasket)}; sells draw the same share of each asset held.
+              </p>
+            </div>
+          )}
+          {!basketValidation.valid && (
+            <p className="mt-2 text-xs text-red-400">{basketValidation.error}</p>
+          )}
         </div>
       </div>
 
@@ -357,16 +694,28 @@ export function DelegationSetup({ isFunded = false }: DelegationSetupProps) {
         <ul className="text-sm text-blue-400/80 space-y-1.5">
           <li className="flex items-center gap-2">
             <span className="w-1 h-1 bg-blue-400 rounded-full"></span>
-            Swap up to {basePercentage * 2}% of your balance daily (max in extreme conditions)
+            Swap up to {getMaxPercentage(strategyId, strategyConfig)}% of your balance per run (max in extreme conditions)
           </li>
           <li className="flex items-center gap-2">
             <span className="w-1 h-1 bg-blue-400 rounded-full"></span>
-            Execute maximum {DELEGATION_CONFIG.MAX_CALLS_PER_DAY} swap per day
+            {scheduleValidation.valid
+              ? `Execute at most one swap per scheduled run (${describeSchedule(scheduleValidation.schedule)}, ${getLimitedCallsForSchedule(scheduleValidation.schedule, targetBasket.length)} swap calls max)`
+              : 'Execute at most one swap per scheduled run'}
           </li>
           <li className="flex items-center gap-2">
             <span className="w-1 h-1 bg-blue-400 rounded-full"></span>
-            Only interact with Uniswap Router + token approvals
+            Only interact with the Uniswap router, approvals to Permit2 and ETH → WETH wrapping
           </li>
+          <li className="flex items-center gap-2">
+            <span className="w-1 h-1 bg-blue-400 rounded-full"></span>
+            Send only the {DELEGATION_CONFIG.FEE_BPS / 100}% swap fee, only to the fee collector, capped per day
+          </li>
+          {FG_ORACLE && FG_ENFORCER && (
+            <li className="flex items-center gap-2">
+              <span className="w-1 h-1 bg-blue-400 rounded-full"></span>
+              Swap only in the direction and size the on-chain Fear &amp; Greed reading allows (checked by contract)
+            </li>
+          )}
           <li className="flex items-center gap-2">
             <span className="w-1 h-1 bg-blue-400 rounded-full"></span>
             Valid for {DELEGATION_CONFIG.VALIDITY_DAYS} days (then expires)
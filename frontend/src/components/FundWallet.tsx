@@ -211,7 +211,7 @@ export function FundWallet({ onFunded, hasDelegation = false, isCollapsible = tr
             <p className="text-lg font-semibold text-white">
               {`${(parseFloat(ethBalance) + parseFloat(wethBalance)).toFixed(4)} ETH`}
             </p>
-            <p className="text-xs text-gray-400">≈ ${((parseFloat(ethBalance) + parseFloat(wethBalance)) * ethPrice).toFixed(2)}</p>
+            <p className="text-xs text-gray-400">≈ ${((parseFloat(ethBalance) + parseFloat(wethBalance)) * (ethPrice || 0)).toFixed(2)}</p>
           </div>
           <div className="p-3 bg-black/20 rounded-xl border border-white/5">
             <p className="text-xs text-gray-500 mb-1">USDC Balance</p>
@@ -6,6 +6,7 @@ import { base } from 'wagmi/chains';
 import { useSmartAccountContext } from '@/contexts/SmartAccountContext';
 import { useEthPrice } from '@/hooks/useEthPrice';
 import { TOKENS } from '@/lib/swap';
+import { TOKEN_REGISTRY } from '@shared/tokens';
 import { formatUnits, parseUnits, parseEther, encodeFunctionData, http } from 'viem';
 import { entryPoint07Address } from 'viem/account-abstraction';
 import { createSmartAccountClient } from 'permissionless';
@@ -39,6 +40,21 @@ const erc20Abi = [
   },
 ] as const;
 
+// WETH withdraw(uint256) - unwraps to native ETH
+const wethAbi = [
+  {
+    name: 'withdraw',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'amount', type: 'uint256' }],
+    outputs: [],
+  },
+] as const;
+
+// Buys deliver WETH; deposits arrive as native ETH. Both count as ETH, and the
+// backend wraps native ETH before selling it.
+type WithdrawToken = 'WETH' | 'ETH' | 'USDC' | 'cbBTC';
+
 interface EthPriceData {
   ethereum: {
     usd: number;
@@ -55,10 +71,11 @@ export function TotalBalanceCard() {
   
   // Deposit/Withdraw state
   const [depositAmount, setDepositAmount] = useState('');
-  const [depositToken, setDepositToken] = useState<'WETH' | 'USDC'>('USDC');
+  const [depositToken, setDepositToken] = useState<'ETH' | 'USDC'>('USDC');
   const [showDeposit, setShowDeposit] = useState(false);
   const [withdrawAmount, setWithdrawAmount] = useState('');
-  const [withdrawToken, setWithdrawToken] = useState<'WETH' | 'USDC'>('USDC');
+  const [withdrawToken, setWithdrawToken] = useState<WithdrawToken>('USDC');
+  const [unwrapWeth, setUnwrapWeth] = useState(true);
   const [showWithdraw, setShowWithdraw] = useState(false);
   const [isWithdrawing, setIsWithdrawing] = useState(false);
 
@@ -93,6 +110,16 @@ export function TotalBalanceCard() {
     query: { enabled: !!smartAccountAddress },
   } as any);
 
+  // Smart wallet cbBTC balance (basket sells and withdrawals use its 8 decimals)
+  const { data: cbbtcBalanceRaw, refetch: refetchCbbtc } = useReadContract({
+    address: TOKEN_REGISTRY.cbBTC.address,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: smartAccountAddress ? [smartAccountAddress as `0x${string}`] : undefined,
+    chainId: base.id,
+    query: { enabled: !!smartAccountAddress },
+  });
+
   const isLoading = ethLoading || wethLoading || usdcLoading || priceLoading;
 
   // Calculate balances
@@ -102,6 +129,8 @@ export function TotalBalanceCard() {
   const usdc = usdcBalanceRaw ? parseFloat(formatUnits(usdcBalanceRaw as bigint, 6)) : 0;
   const usdcRaw = usdcBalanceRaw ? formatUnits(usdcBalanceRaw as bigint, 6) : '0';
   const ethRaw = ethBalance ? formatUnits(ethBalance.value, 18) : '0';
+  const wethRaw = wethBalanceRaw ? formatUnits(wethBalanceRaw as bigint, 18) : '0';
+  const cbbtcRaw = cbbtcBalanceRaw ? formatUnits(cbbtcBalanceRaw as bigint, TOKEN_REGISTRY.cbBTC.decimals) : '0';
 
   // Calculate USD values
   const ethUsdValue = ethPrice ? totalEth * ethPrice : 0;
@@ -121,14 +150,15 @@ export function TotalBalanceCard() {
       refetchEth();
       refetchWeth();
       refetchUsdc();
+      refetchCbbtc();
     }, 3000);
   };
 
   const handleDeposit = async () => {
     if (!smartAccountAddress || !depositAmount) return;
     try {
-      if (depositToken === 'WETH') {
-        // Deposit native ETH which wraps to WETH
+      if (depositToken === 'ETH') {
+        // Arrives as native ETH - wrapped to WETH when the DCA sells it
         await sendTransaction({
           to: smartAccountAddress as `0x${string}`,
           value: parseEther(depositAmount),
@@ -168,23 +198,31 @@ export function TotalBalanceCard() {
         },
       });
 
-      // Build WETH or USDC transfer (both are ERC20 transfers, NOT native ETH!)
-      const tokenAddress = withdrawToken === 'WETH' ? WETH_ADDRESS : TOKENS.USDC;
-      const amount = withdrawToken === 'WETH' ? parseEther(withdrawAmount) : parseUnits(withdrawAmount, 6);
-      
-      const transferData = encodeFunctionData({
-        abi: erc20Abi,
-        functionName: 'transfer',
-        args: [eoaAddress as `0x${string}`, amount],
-      });
-      
-      const txParams = {
-        to: tokenAddress as `0x${string}`,
-        value: 0n,
-        data: transferData,
-      };
-
-      await smartAccountClient.sendTransaction(txParams as any);
+      const recipient = eoaAddress as `0x${string}`;
+      const amount = withdrawToken === 'WETH' || withdrawToken === 'ETH'
+        ? parseEther(withdrawAmount)
+        : parseUnits(withdrawAmount, withdrawToken === 'cbBTC' ? TOKEN_REGISTRY.cbBTC.decimals : 6);
+
+      // Native ETH is a plain value transfer; WETH can be unwrapped first so it arrives as ETH;
+      // USDC, cbBTC and WETH otherwise are ERC20 transfers
+      let calls: { to: `0x${string}`; value: bigint; data: `0x${string}` }[];
+      if (withdrawToken === 'ETH') {
+        calls = [{ to: recipient, value: amount, data: '0x' }];
+      } else if (withdrawToken === 'WETH' && unwrapWeth) {
+        calls = [
+          { to: WETH_ADDRESS, value: 0n, data: encodeFunctionData({ abi: wethAbi, functionName: 'withdraw', args: [amount] }) },
+          { to: recipient, value: amount, data: '0x' },
+        ];
+      } else {
+        const tokenAddress = withdrawToken === 'WETH' ? WETH_ADDRESS : withdrawToken === 'cbBTC' ? TOKEN_REGISTRY.cbBTC.address : TOKENS.USDC;
+        calls = [{
+          to: tokenAddress as `0x${string}`,
+          value: 0n,
+          data: encodeFunctionData({ abi: erc20Abi, functionName: 'transfer', args: [recipient, amount] }),
+        }];
+      }
+
+      await smartAccountClient.sendTransaction({ calls } as any);
       setWithdrawAmount('');
       setShowWithdraw(false);
       refetchAll();
@@ -238,11 +276,11 @@ export function TotalBalanceCard() {
           <div className="flex gap-2 mb-2">
             <select
               value={depositToken}
-              onChange={(e) => setDepositToken(e.target.value as 'WETH' | 'USDC')}
+              onChange={(e) => setDepositToken(e.target.value as 'ETH' | 'USDC')}
               className="px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-white text-sm"
             >
               <option value="USDC">USDC</option>
-              <option value="WETH">WETH</option>
+              <option value="ETH">ETH</option>
             </select>
             <input
               type="number"
@@ -269,15 +307,17 @@ export function TotalBalanceCard() {
           <div className="flex gap-2 mb-2">
             <select
               value={withdrawToken}
-              onChange={(e) => setWithdrawToken(e.target.value as 'WETH' | 'USDC')}
+              onChange={(e) => setWithdrawToken(e.target.value as WithdrawToken)}
               className="px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-white text-sm"
             >
               <option value="USDC">USDC</option>
               <option value="WETH">WETH</option>
+              <option value="ETH">ETH (native)</option>
+              <option value="cbBTC">cbBTC</option>
             </select>
             <input
               type="number"
-              placeholder={withdrawToken === 'USDC' ? usdc.toFixed(2) : totalEth.toFixed(4)}
+              placeholder={withdrawToken === 'USDC' ? usdc.toFixed(2) : withdrawToken === 'cbBTC' ? Number(cbbtcRaw).toFixed(6) : withdrawToken === 'WETH' ? weth.toFixed(4) : nativeEth.toFixed(4)}
               value={withdrawAmount}
               onChange={(e) => setWithdrawAmount(e.target.value)}
               className="flex-1 px-3 py-2 bg-black/30 border border-white/10 rounded-lg text-white text-sm"
@@ -285,18 +325,28 @@ export function TotalBalanceCard() {
           </div>
           <div className="flex gap-2 mb-2">
             <button
-              onClick={() => setWithdrawAmount(withdrawToken === 'USDC' ? usdcRaw : ethRaw)}
+              onClick={() => setWithdrawAmount(withdrawToken === 'USDC' ? usdcRaw : withdrawToken === 'cbBTC' ? cbbtcRaw : withdrawToken === 'WETH' ? wethRaw : ethRaw)}
               className="text-xs text-orange-400 hover:text-orange-300"
             >
               Max
             </button>
+            {withdrawToken === 'WETH' && (
+              <label className="flex items-center gap-1.5 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={unwrapWeth}
+                  onChange={(e) => setUnwrapWeth(e.target.checked)}
+                />
+                Unwrap to native ETH
+              </label>
+            )}
           </div>
           <button
             onClick={handleWithdraw}
             disabled={isWithdrawing || !withdrawAmount}
             className="w-full px-3 py-2 bg-orange-600 hover:bg-orange-500 disabled:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
           >
-            {isWithdrawing ? 'Processing...' : `Withdraw ${withdrawToken}`}
+            {isWithdrawing ? 'Processing...' : `Withdraw ${withdrawToken}${withdrawToken === 'WETH' && unwrapWeth ? ' as ETH' : ''}`}
           </button>
         </div>
       )}
@@ -330,6 +380,7 @@ export function TotalBalanceCard() {
               </div>
               <p className="font-semibold text-white">{totalEth.toFixed(4)}</p>
               <p className="text-xs text-gray-500">{formatUsd(ethUsdValue)}</p>
+              <p className="text-[10px] text-gray-600">{nativeEth.toFixed(4)} native + {weth.toFixed(4)} WETH</p>
             </div>
 
             {/* USDC */}
@@ -4,6 +4,7 @@
 import { useState, useEffect } from 'react';
 import { useSmartAccountContext } from '@/contexts/SmartAccountContext';
 import { useAccount } from 'wagmi';
+import { getTargetToken } from '@shared/tokens';
 
 interface Execution {
   id: string;
@@ -13,9 +14,10 @@ interface Execution {
   amount_out: string | null;
   fear_greed_index: number;
   tx_hash: string | null;
-  status: 'pending' | 'success' | 'failed';
+  status: 'pending' | 'success' | 'failed' | 'price_guard'; // price_guard: refused, quote too far from the oracle price
   error_message: string | null;
   fee_collected: string | null;
+  target_asset: string | null; // Basket asset swapped (null on rows from before baskets → ETH)
 }
 
 export function TransactionHistory() {
@@ -68,13 +70,15 @@ export function TransactionHistory() {
     const isBuy = exec.action === 'buy';
     const isRebalance = exec.action === 'rebalance';
     
-    // Rebalance: ETH (18 decimals) → USDC (6 decimals) — same as sell
-    // Buy: USDC (6 decimals) → ETH (18 decimals)
-    // Sell: ETH (18 decimals) → USDC (6 decimals)
-    const inDecimals = (isBuy && !isRebalance) ? 6 : 18;
-    const outDecimals = (isBuy && !isRebalance) ? 18 : 6;
-    const inSymbol = (isBuy && !isRebalance) ? 'USDC' : 'ETH';
-    const outSymbol = (isBuy && !isRebalance) ? 'ETH' : 'USDC';
+    // Rebalance: asset → USDC (6 decimals) — same as sell
+    // Buy: USDC (6 decimals) → asset
+    // Sell: asset → USDC (6 decimals)
+    // The ETH target is bought and sold as WETH (18 decimals), cbBTC has 8
+    const target = getTargetToken(exec.target_asset);
+    const inDecimals = (isBuy && !isRebalance) ? 6 : target.decimals;
+    const outDecimals = (isBuy && !isRebalance) ? target.decimals : 6;
+    const inSymbol = (isBuy && !isRebalance) ? 'USDC' : target.heldSymbol;
+    const outSymbol = (isBuy && !isRebalance) ? target.heldSymbol : 'USDC';
     
     const inAmount = parseFloat(exec.amount_in) / Math.pow(10, inDecimals);
     const outAmount = exec.amount_out ? parseFloat(exec.amount_out) / Math.pow(10, outDecimals) : null;
@@ -115,7 +119,7 @@ export function TransactionHistory() {
           </div>
           <p className="text-sm text-gray-500 mb-1">No executions yet</p>
           <p className="text-xs text-gray-600">
-            DCA runs daily at 12:00 UTC based on the Fear & Greed Index
+            DCA runs on your schedule (daily at 12:00 UTC by default) based on the Fear & Greed Index
           </p>
         </div>
       ) : (
@@ -130,6 +134,8 @@ export function TransactionHistory() {
                   ? 'bg-white/5 border-white/5'
                   : exec.status === 'failed'
                   ? 'bg-red-500/10 border-red-500/20'
+                  : exec.status === 'price_guard'
+                  ? 'bg-orange-500/10 border-orange-500/20'
                   : 'bg-yellow-500/10 border-yellow-500/20'
               }`}
             >
@@ -169,6 +175,11 @@ export function TransactionHistory() {
                       F&G: {exec.fear_greed_index} ({getFGClassification(exec.fear_greed_index)})
                     </p>
                   )}
+                  {exec.status === 'price_guard' && (
+                    <p className="text-xs text-orange-400 mt-1">
+                      Skipped: quoted price too far from the oracle price
+                    </p>
+                  )}
                   {exec.status === 'failed' && exec.error_message && (
                     <p className="text-xs text-red-400 mt-1 truncate max-w-[200px]" title={exec.error_message}>
                       {exec.error_message}
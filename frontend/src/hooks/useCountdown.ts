@@ -1,7 +1,8 @@
-// useCountdown.ts - Hook for countdown to next DCA execution at 12:00 UTC
+// useCountdown.ts - Hook for countdown to the next slot of a DCA execution schedule
 'use client';
 
 import { useState, useEffect } from 'react';
+import { DEFAULT_SCHEDULE, getNextSlotStart, type ExecutionSchedule } from '@shared/schedule';
 
 interface TimeUntil {
   hours: number;
@@ -10,34 +11,14 @@ interface TimeUntil {
   formatted: string;
 }
 
-function calculateTimeUntil(): TimeUntil {
+function calculateTimeUntil(schedule: ExecutionSchedule): TimeUntil {
   const now = new Date();
-  const utcHours = now.getUTCHours();
-  const utcMinutes = now.getUTCMinutes();
-  const utcSeconds = now.getUTCSeconds();
+  const remaining = Math.max(0, Math.floor((getNextSlotStart(schedule, now).getTime() - now.getTime()) / 1000));
 
-  // Target: 12:00 UTC
-  let hoursUntil = 12 - utcHours;
-  let minutesUntil = -utcMinutes;
-  let secondsUntil = -utcSeconds;
-
-  // Handle rollover
-  if (secondsUntil < 0) {
-    secondsUntil += 60;
-    minutesUntil -= 1;
-  }
-  if (minutesUntil < 0) {
-    minutesUntil += 60;
-    hoursUntil -= 1;
-  }
-  if (hoursUntil < 0) {
-    hoursUntil += 24;
-  }
-
-  // If it's exactly 12:00:00, show 24:00:00
-  if (hoursUntil === 0 && minutesUntil === 0 && secondsUntil === 0) {
-    hoursUntil = 24;
-  }
+  // Hours may exceed 24 for weekly schedules
+  const hoursUntil = Math.floor(remaining / 3600);
+  const minutesUntil = Math.floor((remaining % 3600) / 60);
+  const secondsUntil = remaining % 60;
 
   const pad = (n: number) => n.toString().padStart(2, '0');
   const formatted = `${pad(hoursUntil)}:${pad(minutesUntil)}:${pad(secondsUntil)}`;
@@ -50,20 +31,20 @@ function calculateTimeUntil(): TimeUntil {
   };
 }
 
-export function useCountdown() {
-  const [timeUntil, setTimeUntil] = useState<TimeUntil>(() => calculateTimeUntil());
+export function useCountdown(schedule: ExecutionSchedule = DEFAULT_SCHEDULE) {
+  const [timeUntil, setTimeUntil] = useState<TimeUntil>(() => calculateTimeUntil(schedule));
   const [mounted, setMounted] = useState(false);
 
   useEffect(() => {
     setMounted(true);
-    setTimeUntil(calculateTimeUntil());
+    setTimeUntil(calculateTimeUntil(schedule));
 
     const interval = setInterval(() => {
-      setTimeUntil(calculateTimeUntil());
+      setTimeUntil(calculateTimeUntil(schedule));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, []);
+  }, [schedule]);
 
   return { ...timeUntil, mounted };
 }
@@ -3,14 +3,29 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
-import { type Address, encodeFunctionData, erc20Abi, keccak256, encodePacked } from 'viem';
+import { type Address, decodeFunctionResult, encodeFunctionData, erc20Abi, http, keccak256, encodePacked, pad } from 'viem';
+import { base } from 'wagmi/chains';
+import { createSmartAccountClient } from 'permissionless';
+import { createPimlicoClient } from 'permissionless/clients/pimlico';
 import { createDelegation, type Delegation } from '@metamask/smart-accounts-kit';
+import { getDelegationHashOffchain, toDelegationStruct } from '@metamask/smart-accounts-kit/utils';
+import { DEFAULT_STRATEGY_ID, type StrategyConfig, type StrategyId } from '@shared/strategies';
+import { DEFAULT_SCHEDULE, type ExecutionSchedule } from '@shared/schedule';
+import { TOKEN_REGISTRY, getBasket, getPrimaryAsset, getSwapDelegationTargets, type TargetBasket } from '@shared/tokens';
+import { getUsdPrice } from '@shared/prices';
+import { getWithdrawDelegationScope } from '@shared/withdrawals';
 import { useSmartAccountContext } from '@/contexts/SmartAccountContext';
 import {
   DELEGATION_ADDRESSES,
   DELEGATION_CONFIG,
+  FEE_COLLECTOR,
   calculateExpiryTimestamp,
   calculateStartTimestamp,
+  getFearGreedEnforcerCaveat,
+  getFeePeriodAmount,
+  getFeeTokens,
+  getLimitedCallsForSchedule,
+  getMaxSwapUsd,
   saveDelegation,
   loadDelegation,
   clearDelegation,
@@ -18,12 +33,18 @@ import {
   type StoredDelegation,
   type DelegationStatus,
 } from '@/lib/delegation';
+import { getRequestTypedData, newRequestWindow, serializeSignedRequest } from '@/lib/request-auth';
+import { delegationManagerAbi } from '@/lib/abis';
 
 // Backend smart account address (the delegate that will execute swaps via ERC-4337)
 // This is the MetaMask smart account controlled by our backend EOA
 const BACKEND_SIGNER = (process.env.NEXT_PUBLIC_BACKEND_SIGNER || 
   '0xc472e866045d2e9ABd2F2459cE3BDB275b72C7e1') as Address;
 
+// Pimlico bundler URL for Base (sponsors the revocation user operation)
+const PIMLICO_API_KEY = process.env.NEXT_PUBLIC_PIMLICO_API_KEY || '';
+const BUNDLER_URL = `https://api.pimlico.io/v2/8453/rpc?apikey=${PIMLICO_API_KEY}`;
+
 interface DelegationState {
   status: 'idle' | 'loading' | 'created' | 'signed' | 'error';
   error: string | null;
@@ -31,9 +52,17 @@ interface DelegationState {
   signedDelegation: any | null; // The actual signed delegation object for redemption
 }
 
+// Approval, fee-transfer and withdraw delegations signed alongside the swap delegation
+interface ScopedDelegationSet {
+  approve: Delegation;
+  permit2Approve: Delegation;
+  feeTransfer: Record<string, Delegation>; // By lowercase token address
+  withdraw?: Delegation; // Missing from sets signed before delegated withdrawals
+}
+
 interface UseDelegationReturn {
   state: DelegationState;
-  createAndSignDelegation: (basePercentage: number, targetAsset: string, smartAccountAddress?: string) => Promise<void>;
+  createAndSignDelegation: (basePercentage: number, targetBasket: TargetBasket, smartAccountAddress?: string, strategy?: StrategyId, strategyConfig?: StrategyConfig, schedule?: ExecutionSchedule) => Promise<void>;
   revokeDelegation: () => Promise<void>;
   refreshDelegation: () => void;
   isExpired: boolean;
@@ -103,11 +132,15 @@ export function useDelegation(): UseDelegationReturn {
               caveats: {
                 allowedTargets: [] as `0x${string}`[],
                 allowedMethods: [],
-                maxCalls: DELEGATION_CONFIG.MAX_CALLS_PER_DAY,
+                maxCalls: getLimitedCallsForSchedule(result.schedule || DEFAULT_SCHEDULE, getBasket(result.targetBasket, result.targetAsset).length),
                 expiry: BigInt(Math.floor(new Date(result.expiresAt).getTime() / 1000)),
               },
-              basePercentage: 2.5,
-              targetAsset: 'ETH',
+              basePercentage: result.basePercentage ?? 2.5,
+              targetAsset: result.targetAsset || 'ETH',
+              targetBasket: getBasket(result.targetBasket, result.targetAsset),
+              strategy: result.strategy || DEFAULT_STRATEGY_ID,
+              strategyConfig: result.strategyConfig || {},
+              schedule: result.schedule || DEFAULT_SCHEDULE,
             },
             signedDelegation: null,
           });
@@ -120,12 +153,15 @@ export function useDelegation(): UseDelegationReturn {
     checkDelegation();
   }, [address, isConnected]);
 
-  // Save delegation to Supabase via API (server-side with service key)
+  // Save delegation to Supabase via API (server-side with service key; signedRequest is
+  // the delegator's SaveDelegation request)
   const saveDelegationToDb = async (
     delegation: StoredDelegation, 
     signedDelegation: any,
+    scopedDelegations: ScopedDelegationSet,
+    signedRequest: ReturnType<typeof serializeSignedRequest>,
     smartAccountAddr?: string,
-    targetAsset?: string
+    strategy?: StrategyId
   ) => {
     try {
       const response = await fetch('/api/delegation', {
@@ -142,9 +178,17 @@ export function useDelegation(): UseDelegationReturn {
             // Ensure BigInt values are stringified
             authority: signedDelegation.authority || '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
           },
+          // Approval and fee-transfer delegations, redeemed alongside delegationData
+          scopedDelegations,
           maxAmountPerSwap: DELEGATION_CONFIG.MAX_SWAP_AMOUNT_USDC.toString(),
           expiresAt: delegation.expiresAt,
-          targetAsset: targetAsset || 'ETH',
+          targetAsset: delegation.targetAsset,
+          targetBasket: delegation.targetBasket,
+          strategy: strategy || DEFAULT_STRATEGY_ID,
+          basePercentage: delegation.basePercentage,
+          strategyConfig: delegation.strategyConfig || {},
+          schedule: delegation.schedule || DEFAULT_SCHEDULE,
+          auth: signedRequest,
         }),
       });
 
@@ -160,29 +204,113 @@ export function useDelegation(): UseDelegationReturn {
     }
   };
 
-  // Remove delegation from Supabase via API
-  const removeDelegationFromDb = async (userAddress: string) => {
-    try {
-      const response = await fetch(`/api/delegation?userAddress=${userAddress}`, {
-        method: 'DELETE',
+  // Disable every stored delegation on the DelegationManager from the user's smart
+  // account - deleting the row alone would leave them redeemable on-chain. Returns the
+  // transaction hash, or null if there was nothing left to disable.
+  const disableDelegationsOnChain = useCallback(async (): Promise<string | null> => {
+    if (!smartAccount || !publicClient) {
+      throw new Error('Smart account not ready');
+    }
+    if (!address || !walletClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    // The API only returns signed delegations on the delegator's signed request
+    const message = { account: address, ...newRequestWindow() };
+    const signature = await walletClient.signTypedData({
+      account: address,
+      ...getRequestTypedData('ReadDelegations', message),
+    });
+    const params = new URLSearchParams({
+      userAddress: address,
+      include: 'delegations',
+      ...serializeSignedRequest(message, signature),
+    });
+    const response = await fetch(`/api/delegation?${params}`);
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.error || 'Failed to load delegations');
+    if (!result.exists) return null; // Expired or already revoked - nothing redeemable
+
+    const scoped = result.scopedDelegations as ScopedDelegationSet | null;
+    const signed: Delegation[] = [
+      result.delegationData,
+      ...(scoped ? [scoped.approve, scoped.permit2Approve, ...Object.values(scoped.feeTransfer)] : []),
+      ...(scoped?.withdraw ? [scoped.withdraw] : []),
+    ];
+
+    // Skip duplicates and delegations already disabled (disableDelegation reverts on them)
+    const pending = new Map<string, Delegation>();
+    for (const delegation of signed) {
+      const hash = getDelegationHashOffchain(delegation);
+      if (pending.has(hash)) continue;
+      // call + decode rather than readContract, whose parameter type doesn't resolve
+      // against wagmi's client - the as-const ABI still types the arguments and result
+      const { data } = await publicClient.call({
+        to: DELEGATION_ADDRESSES.DELEGATION_MANAGER,
+        data: encodeFunctionData({
+          abi: delegationManagerAbi,
+          functionName: 'disabledDelegations',
+          args: [hash],
+        }),
       });
+      const disabled = data !== undefined && decodeFunctionResult({
+        abi: delegationManagerAbi,
+        functionName: 'disabledDelegations',
+        data,
+      });
+      if (!disabled) pending.set(hash, delegation);
+    }
+    if (pending.size === 0) return null;
 
-      if (!response.ok) {
-        const result = await response.json();
-        console.error('Failed to remove delegation from DB:', result.error);
-      } else {
-        console.log('Delegation removed from database');
-      }
-    } catch (err) {
-      console.error('Database error:', err);
+    const pimlicoClient = createPimlicoClient({ transport: http(BUNDLER_URL) });
+    const smartAccountClient = createSmartAccountClient({
+      account: smartAccount,
+      chain: base,
+      bundlerTransport: http(BUNDLER_URL),
+      paymaster: pimlicoClient,
+      userOperation: {
+        estimateFeesPerGas: async () => (await pimlicoClient.getUserOperationGasPrice()).fast,
+      },
+    });
+
+    // One user operation disables the whole set
+    return smartAccountClient.sendTransaction({
+      account: smartAccount,
+      chain: base,
+      calls: [...pending.values()].map(delegation => ({
+        to: DELEGATION_ADDRESSES.DELEGATION_MANAGER,
+        data: encodeFunctionData({
+          abi: delegationManagerAbi,
+          functionName: 'disableDelegation',
+          args: [toDelegationStruct(delegation)],
+        }),
+      })),
+    });
+  }, [address, walletClient, publicClient, smartAccount]);
+
+  // Remove delegation from Supabase via API (body is a signed RevokeDelegation request)
+  const removeDelegationFromDb = async (signedRequest: ReturnType<typeof serializeSignedRequest>) => {
+    const response = await fetch('/api/delegation', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(signedRequest),
+    });
+
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || 'Failed to remove delegation');
     }
+    console.log('Delegation removed from database');
   };
 
   // Create and sign a new delegation using MetaMask Delegation Framework
   const createAndSignDelegation = useCallback(async (
     basePercentage: number,
-    targetAsset: string,
-    smartAccountAddr?: string
+    targetBasket: TargetBasket,
+    smartAccountAddr?: string,
+    strategy: StrategyId = DEFAULT_STRATEGY_ID,
+    strategyConfig: StrategyConfig = {},
+    schedule: ExecutionSchedule = DEFAULT_SCHEDULE
   ) => {
     if (!address || !walletClient || !publicClient) {
       setState(prev => ({ ...prev, error: 'Wallet not connected' }));
@@ -199,72 +327,139 @@ export function useDelegation(): UseDelegationReturn {
     try {
       const now = Math.floor(Date.now() / 1000);
       const expiryTimestamp = now + (DELEGATION_CONFIG.VALIDITY_DAYS * 24 * 60 * 60);
+      const maxCalls = getLimitedCallsForSchedule(schedule, targetBasket.length);
       
       // Get the smart account's environment (deployment addresses)
       const environment = smartAccount.environment;
-      
-      // All targets the backend can interact with
-      const allowedTargets = [
-        DELEGATION_ADDRESSES.UNISWAP_ROUTER, // Swap router (execute)
-        DELEGATION_ADDRESSES.PERMIT2,         // Permit2 (Universal Router uses this)
-        DELEGATION_ADDRESSES.USDC,            // For approve()
-        DELEGATION_ADDRESSES.WETH,            // For approve()
-        DELEGATION_ADDRESSES.cbBTC,           // For approve()
+
+      // Every delegation in the set is time-bound and only the backend may redeem it
+      const baseCaveats = [
+        {
+          type: 'timestamp' as const,
+          afterThreshold: now,
+          beforeThreshold: expiryTimestamp
+        },
+        {
+          type: 'redeemer' as const,
+          redeemers: [BACKEND_SIGNER],
+        },
       ];
 
-      // Create delegation using MetaMask Delegation Framework
-      // This grants the backend permission to:
-      // 1. Call Uniswap swap functions
-      // 2. Approve tokens for the router (needed before swaps)
+      // Swap delegation: Universal Router swaps and WETH deposit() only. A caveat applies
+      // to every call its delegation redeems, so approvals and fee transfers - which need
+      // their arguments restricted - each get a scoped delegation below.
+      const allowedTargets = getSwapDelegationTargets();
+      const allowedMethods = [
+        // Uniswap V4 Universal Router execute function
+        'execute(bytes,bytes[],uint256)',
+        // WETH deposit (wraps native ETH before an ETH sell)
+        'deposit()',
+      ];
+      const fearGreedCaveat = getFearGreedEnforcerCaveat(targetBasket, strategy, strategyConfig);
       const delegation = createDelegation({
         to: BACKEND_SIGNER,
         from: smartAccountAddress as Address,
         environment,
-        // Scope: Allow function calls to Router + token approvals
         scope: {
           type: 'functionCall',
           targets: allowedTargets,
-          selectors: [
-            // Uniswap V4 Universal Router execute function
-            'execute(bytes,bytes[],uint256)',
-            // Legacy V3 swap functions (backup)
-            'exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))',
-            'exactOutputSingle((address,address,uint24,address,uint256,uint256,uint160))',
-            // ERC20 approve (for USDC/WETH -> Permit2)
-            'approve(address,uint256)',
-            // Permit2 approve (for setting internal allowance to Router)
-            'approve(address,address,uint160,uint48)',
-            // ERC20 transfer (for fee collection to backend wallet)
-            'transfer(address,uint256)',
-          ],
+          selectors: allowedMethods,
+          // Only deposit() carries value - swaps are value 0 in practice
+          valueLte: { maxValue: DELEGATION_CONFIG.MAX_WRAP_VALUE_PER_CALL },
         },
-        // Caveats: Time limit and call frequency
         caveats: [
-          { 
-            type: 'timestamp', 
-            afterThreshold: now, 
-            beforeThreshold: expiryTimestamp 
-          },
-          { 
-            type: 'limitedCalls', 
-            // Extra calls for approvals (2 tokens * 2 approvals each [ERC20 + Permit2] + daily swaps)
-            limit: 4 + (DELEGATION_CONFIG.MAX_CALLS_PER_DAY * DELEGATION_CONFIG.VALIDITY_DAYS)
+          ...baseCaveats,
+          {
+            type: 'limitedCalls',
+            // Sized to the chosen schedule and basket: a swap (and possibly a wrap) per asset per slot
+            limit: maxCalls
           },
           {
             type: 'allowedTargets',
             targets: allowedTargets,
           },
+          // Once the on-chain oracle is deployed: swaps must follow its latest F&G round
+          ...(fearGreedCaveat ? [fearGreedCaveat] : []),
         ],
       });
 
-      // Sign the delegation with the smart account
-      const signature = await smartAccount.signDelegation({ delegation });
-      
-      // Create the signed delegation object
-      const signedDelegation = {
-        ...delegation,
-        signature,
+      // ERC20 approve() on registered tokens, spender (first argument) Permit2 only
+      const approveDelegation = createDelegation({
+        to: BACKEND_SIGNER,
+        from: smartAccountAddress as Address,
+        environment,
+        scope: {
+          type: 'functionCall',
+          targets: Object.values(TOKEN_REGISTRY).map(token => token.address),
+          selectors: ['approve(address,uint256)'],
+          allowedCalldata: [{ startIndex: 4, value: pad(DELEGATION_ADDRESSES.PERMIT2) }],
+        },
+        caveats: baseCaveats,
+      });
+
+      // Permit2 approve(), spender (second argument) Universal Router only
+      const permit2ApproveDelegation = createDelegation({
+        to: BACKEND_SIGNER,
+        from: smartAccountAddress as Address,
+        environment,
+        scope: {
+          type: 'functionCall',
+          targets: [DELEGATION_ADDRESSES.PERMIT2],
+          selectors: ['approve(address,address,uint160,uint48)'],
+          allowedCalldata: [{ startIndex: 36, value: pad(DELEGATION_ADDRESSES.UNISWAP_ROUTER) }],
+        },
+        caveats: baseCaveats,
+      });
+
+      // Fee transfers, per fee token: to the fee collector only, and per day at most the
+      // fees of the largest swaps the strategy and schedule allow
+      const feeTransferDelegations: [string, Delegation][] = [];
+      for (const token of getFeeTokens(targetBasket, strategy, strategyConfig)) {
+        const isStable = token.priceSource === 'stable';
+        const priceUsd = isStable ? 1 : (await getUsdPrice(publicClient, token.symbol)).priceUsd;
+        feeTransferDelegations.push([token.address.toLowerCase(), createDelegation({
+          to: BACKEND_SIGNER,
+          from: smartAccountAddress as Address,
+          environment,
+          scope: {
+            type: 'erc20PeriodTransfer',
+            tokenAddress: token.address,
+            periodAmount: getFeePeriodAmount(token, getMaxSwapUsd(strategyConfig, isStable ? 'buy' : 'sell'), schedule, priceUsd),
+            periodDuration: DELEGATION_CONFIG.FEE_PERIOD_SECONDS,
+            startDate: now,
+          },
+          caveats: [
+            ...baseCaveats,
+            { type: 'allowedCalldata', startIndex: 4, value: pad(FEE_COLLECTOR) },
+          ],
+        })]);
+      }
+
+      // Gasless withdrawals (/api/withdraw): ERC20 transfer() to the owner's EOA only
+      const withdrawDelegation = createDelegation({
+        to: BACKEND_SIGNER,
+        from: smartAccountAddress as Address,
+        environment,
+        scope: getWithdrawDelegationScope(address),
+        caveats: baseCaveats,
+      });
+
+      // Sign each delegation with the smart account
+      const signDelegation = async (unsigned: Delegation) => ({
+        ...unsigned,
+        signature: await smartAccount.signDelegation({ delegation: unsigned }),
+      });
+      const signedDelegation = await signDelegation(delegation);
+      const signature = signedDelegation.signature;
+      const scopedDelegations: ScopedDelegationSet = {
+        approve: await signDelegation(approveDelegation),
+        permit2Approve: await signDelegation(permit2ApproveDelegation),
+        feeTransfer: {},
+        withdraw: await signDelegation(withdrawDelegation),
       };
+      for (const [token, feeDelegation] of feeTransferDelegations) {
+        scopedDelegations.feeTransfer[token] = await signDelegation(feeDelegation);
+      }
 
       // Create hash for reference
       const delegationHash = keccak256(
@@ -282,26 +477,17 @@ export function useDelegation(): UseDelegationReturn {
         createdAt: new Date().toISOString(),
         expiresAt: new Date(expiryTimestamp * 1000).toISOString(),
         basePercentage,
-        targetAsset,
+        targetAsset: getPrimaryAsset(targetBasket),
+        targetBasket,
+        strategy,
+        strategyConfig,
+        schedule,
         status: 'signed' as DelegationStatus,
         signature,
         caveats: {
-          allowedTargets: [
-            DELEGATION_ADDRESSES.UNISWAP_ROUTER,
-            DELEGATION_ADDRESSES.PERMIT2,
-            DELEGATION_ADDRESSES.USDC,
-            DELEGATION_ADDRESSES.WETH,
-            DELEGATION_ADDRESSES.cbBTC,
-          ],
-          allowedMethods: [
-            'execute(bytes,bytes[],uint256)',
-            'exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))',
-            'exactOutputSingle((address,address,uint24,address,uint256,uint256,uint160))',
-            'approve(address,uint256)',
-            'approve(address,address,uint160,uint48)',
-            'transfer(address,uint256)',
-          ],
-          maxCalls: 6 + (DELEGATION_CONFIG.MAX_CALLS_PER_DAY * DELEGATION_CONFIG.VALIDITY_DAYS),
+          allowedTargets,
+          allowedMethods,
+          maxCalls,
           expiry: BigInt(expiryTimestamp),
         },
       };
@@ -309,8 +495,26 @@ export function useDelegation(): UseDelegationReturn {
       // Save to localStorage
       saveDelegation(delegationData);
       
-      // Save to Supabase for backend access (include signed delegation for redemption)
-      await saveDelegationToDb(delegationData, signedDelegation, smartAccountAddr, targetAsset);
+      // Save to Supabase for backend access (include signed delegation for redemption).
+      // The API only saves delegations on the delegator's signed request.
+      const saveRequest = {
+        account: address,
+        smartAccount: signedDelegation.delegator,
+        delegation: getDelegationHashOffchain(signedDelegation),
+        ...newRequestWindow(),
+      };
+      const saveSignature = await walletClient.signTypedData({
+        account: address,
+        ...getRequestTypedData('SaveDelegation', saveRequest),
+      });
+      await saveDelegationToDb(
+        delegationData,
+        signedDelegation,
+        scopedDelegations,
+        serializeSignedRequest(saveRequest, saveSignature),
+        smartAccountAddr,
+        strategy
+      );
 
       setState({
         status: 'signed',
@@ -337,12 +541,26 @@ export function useDelegation(): UseDelegationReturn {
     setState(prev => ({ ...prev, status: 'loading' }));
     
     try {
+      if (!walletClient) {
+        throw new Error('Wallet not connected');
+      }
+
+      // Disable on-chain first - if the user rejects it or it fails, nothing changes
+      const txHash = await disableDelegationsOnChain();
+      if (txHash) console.log('Delegations disabled on-chain:', txHash);
+
+      // The API only deletes a delegation on the delegator's signed request. Should this
+      // fail, the backend's revocation indexer still marks the row revoked.
+      const message = { account: address, ...newRequestWindow() };
+      const signature = await walletClient.signTypedData({
+        account: address,
+        ...getRequestTypedData('RevokeDelegation', message),
+      });
+      await removeDelegationFromDb(serializeSignedRequest(message, signature));
+
       // Clear local storage
       clearDelegation();
       
-      // Remove from Supabase
-      await removeDelegationFromDb(address);
-      
       setState({
         status: 'idle',
         error: null,
@@ -357,7 +575,7 @@ export function useDelegation(): UseDelegationReturn {
         error: error instanceof Error ? error.message : 'Failed to revoke',
       }));
     }
-  }, [state.delegation, address]);
+  }, [state.delegation, address, walletClient, disableDelegationsOnChain]);
 
   // Refresh delegation state
   const refreshDelegation = useCallback(() => {
@@ -1,6 +1,5 @@
 import { useState, useEffect } from 'react';
 
-const FALLBACK_PRICE = 2000;
 const CACHE_KEY = 'eth-price-cache';
 const CACHE_TTL = 60000; // 1 minute
 
@@ -10,7 +9,7 @@ interface CachedPrice {
 }
 
 export function useEthPrice() {
-  const [price, setPrice] = useState<number>(FALLBACK_PRICE);
+  const [price, setPrice] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
 
@@ -31,12 +30,13 @@ export function useEthPrice() {
 
       try {
         setError(false);
-        // Use our own API endpoint (Uniswap-based, no CoinGecko)
+        // Our own price API (Chainlink, pool TWAP fallback) - no made-up price when it fails
         const response = await fetch('/api/eth-price', { cache: 'no-store' });
         if (!response.ok) throw new Error('Failed to fetch price');
         
         const data = await response.json();
-        const newPrice = data.price || FALLBACK_PRICE;
+        if (!(data.price > 0)) throw new Error('No price in response');
+        const newPrice: number = data.price;
         setPrice(newPrice);
         
         // Cache the price
@@ -18,7 +18,7 @@ interface UseFearGreedResult {
   lastUpdated: Date | null;
 }
 
-export function useFearGreed(autoRefreshMs: number = 60000): UseFearGreedResult {
+export function useFearGreed(autoRefreshMs: number = 60000, strategyId?: string | null): UseFearGreedResult {
   const [data, setData] = useState<FearGreedData | null>(null);
   const [decision, setDecision] = useState<DCADecision | null>(null);
   const [loading, setLoading] = useState(true);
@@ -35,7 +35,8 @@ export function useFearGreed(autoRefreshMs: number = 60000): UseFearGreedResult
       
       const dcaDecision = calculateDCADecision(
         fgData.value, 
-        fgData.valueClassification
+        fgData.valueClassification,
+        strategyId
       );
       setDecision(dcaDecision);
       setLastUpdated(new Date());
@@ -44,7 +45,7 @@ export function useFearGreed(autoRefreshMs: number = 60000): UseFearGreedResult
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [strategyId]);
 
   // Initial fetch
   useEffect(() => {
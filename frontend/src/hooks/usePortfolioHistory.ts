@@ -1,14 +1,18 @@
-// usePortfolioHistory.ts - Hook to fetch and calculate portfolio history from dca_executions
+// usePortfolioHistory.ts - Hook to fetch portfolio history from balance snapshots,
+// falling back to a reconstruction from dca_executions for wallets without snapshots
 import { useState, useEffect, useCallback } from 'react';
+import { getBalanceHistory, type BalanceHistoryEntry } from '@/lib/supabase';
 
-const FALLBACK_ETH_PRICE = 2000;
+// /api/eth-price answers at most this many historical timestamps per request
+const HISTORICAL_PRICE_BATCH = 100;
 
 export interface PortfolioDataPoint {
   date: string;
   displayDate: string;
   total_usd: number;
-  eth_balance: number;
+  eth_balance: number; // ETH + WETH
   usdc_balance: number;
+  cbbtc_balance?: number;
   eth_price: number;
   action?: string;
 }
@@ -35,17 +39,45 @@ interface Execution {
   created_at: string;
 }
 
-// Fetch current ETH price from our Uniswap-based API (no CoinGecko)
+// Fetch current ETH price from our price API (Chainlink, pool TWAP fallback). Throws
+// rather than valuing the portfolio at a made-up price.
 async function getEthPrice(): Promise<number> {
+  const response = await fetch('/api/eth-price', { cache: 'no-store' });
+  if (!response.ok) throw new Error('ETH price unavailable');
+  const data = await response.json();
+  if (!(data.price > 0)) throw new Error('ETH price unavailable');
+  return data.price;
+}
+
+// ETH price at each execution time (unix seconds → USD) from Chainlink's round history.
+// Times without a price are left out, and those points fall back to the current price.
+async function getHistoricalEthPrices(timestamps: number[]): Promise<Map<number, number>> {
+  const prices = new Map<number, number>();
+  const unique = Array.from(new Set(timestamps));
   try {
-    const response = await fetch('/api/eth-price', { cache: 'no-store' });
-    if (!response.ok) throw new Error('Failed to fetch price');
-    const data = await response.json();
-    return data.price || FALLBACK_ETH_PRICE;
+    for (let i = 0; i < unique.length; i += HISTORICAL_PRICE_BATCH) {
+      const batch = unique.slice(i, i + HISTORICAL_PRICE_BATCH);
+      const response = await fetch(`/api/eth-price?at=${batch.join(',')}`);
+      if (!response.ok) throw new Error('Failed to fetch historical prices');
+      const data: { prices: Record<string, number | null> } = await response.json();
+      for (const [timestamp, price] of Object.entries(data.prices)) {
+        if (price !== null) prices.set(Number(timestamp), price);
+      }
+    }
   } catch (err) {
-    console.error('Error fetching ETH price:', err);
-    return FALLBACK_ETH_PRICE;
+    console.error('Error fetching historical ETH prices:', err);
   }
+  return prices;
+}
+
+function toUnixSeconds(timestamp: string): number {
+  return Math.floor(new Date(timestamp).getTime() / 1000);
+}
+
+function getSuccessfulSwaps(executions: Execution[]): Execution[] {
+  return executions
+    .filter(e => e.status === 'success' && (e.action === 'buy' || e.action === 'sell'))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 }
 
 // Fetch executions for a user
@@ -61,15 +93,43 @@ async function fetchExecutions(userAddress: string): Promise<Execution[]> {
   }
 }
 
-// Calculate portfolio value over time from executions
+// One point per day from recorded snapshots. A live snapshot (after the DCA run or
+// from the scheduled job) wins over a backfilled one for the same day.
+function snapshotsToHistory(entries: BalanceHistoryEntry[]): PortfolioDataPoint[] {
+  const byDay = new Map<string, BalanceHistoryEntry>();
+  for (const entry of entries) {
+    const day = entry.snapshot_date ?? entry.recorded_at.slice(0, 10);
+    const existing = byDay.get(day);
+    if (!existing || existing.source === 'backfill' || entry.source !== 'backfill') {
+      byDay.set(day, entry);
+    }
+  }
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, entry]) => ({
+      date: entry.recorded_at,
+      displayDate: new Date(entry.recorded_at).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+      }),
+      total_usd: Number(entry.total_usd),
+      eth_balance: Number(entry.eth_balance) + Number(entry.weth_balance ?? 0),
+      usdc_balance: Number(entry.usdc_balance),
+      cbbtc_balance: Number(entry.cbbtc_balance ?? 0),
+      eth_price: Number(entry.eth_price),
+    }));
+}
+
+// Calculate portfolio value over time from executions, each point at the ETH price of
+// its time where known
 function calculatePortfolioHistory(
   executions: Execution[],
-  currentEthPrice: number
+  currentEthPrice: number,
+  historicalEthPrices: Map<number, number>
 ): { history: PortfolioDataPoint[]; apyData: APYData } {
-  // Filter successful buy/sell executions (not hold, not rebalance)
-  const successfulSwaps = executions
-    .filter(e => e.status === 'success' && (e.action === 'buy' || e.action === 'sell'))
-    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  // Successful buy/sell executions (not hold, not rebalance)
+  const successfulSwaps = getSuccessfulSwaps(executions);
 
   if (successfulSwaps.length === 0) {
     return {
@@ -117,8 +177,9 @@ function calculatePortfolioHistory(
       totalUsdcReceived += amountOut;
     }
 
-    // Portfolio value = current ETH holdings at current price + any USDC received from sells
-    const totalUsd = ethBalance * currentEthPrice + totalUsdcReceived;
+    // Portfolio value = ETH holdings at the price of the time + any USDC received from sells
+    const ethPrice = historicalEthPrices.get(toUnixSeconds(exec.timestamp)) ?? currentEthPrice;
+    const totalUsd = ethBalance * ethPrice + totalUsdcReceived;
 
     history.push({
       date: exec.timestamp,
@@ -129,7 +190,7 @@ function calculatePortfolioHistory(
       total_usd: Math.max(0, totalUsd),
       eth_balance: ethBalance,
       usdc_balance: totalUsdcReceived,
-      eth_price: currentEthPrice,
+      eth_price: ethPrice,
       action: exec.action,
     });
   }
@@ -193,27 +254,37 @@ export function usePortfolioHistory(userAddress: string | null) {
     setError(null);
 
     try {
-      // Fetch current ETH price and executions in parallel
-      const [currentEthPrice, executions] = await Promise.all([
+      // Fetch current ETH price, executions and snapshots in parallel
+      const [currentEthPrice, executions, snapshots] = await Promise.all([
         getEthPrice(),
         fetchExecutions(userAddress),
+        getBalanceHistory(userAddress),
       ]);
 
-      if (executions.length === 0) {
+      if (executions.length === 0 && snapshots.length === 0) {
         setHistory([]);
         setHasRealData(false);
         setIsLoading(false);
         return;
       }
 
+      // Snapshots record their own price - only a reconstruction needs historical ones
+      const historicalEthPrices = snapshots.length > 0
+        ? new Map<number, number>()
+        : await getHistoricalEthPrices(getSuccessfulSwaps(executions).map(e => toUnixSeconds(e.timestamp)));
+
       const { history: portfolioHistory, apyData: calculatedApy } = calculatePortfolioHistory(
         executions,
-        currentEthPrice
+        currentEthPrice,
+        historicalEthPrices
       );
 
-      setHistory(portfolioHistory);
+      // Recorded balances beat reconstructed ones (those miss deposits)
+      const chartHistory = snapshots.length > 0 ? snapshotsToHistory(snapshots) : portfolioHistory;
+
+      setHistory(chartHistory);
       setApyData(calculatedApy);
-      setHasRealData(portfolioHistory.length > 0);
+      setHasRealData(chartHistory.length > 0);
     } catch (err) {
       console.error('Error in usePortfolioHistory:', err);
       setError(err instanceof Error ? err.message : 'Unknown error');
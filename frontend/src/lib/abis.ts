@@ -107,13 +107,32 @@ export const erc20Abi = [
   },
 ] as const;
 
-// DelegationManager ABI (for revocation)
+// DelegationManager ABI (for revocation) - the delegator disables a signed delegation
+// by its struct; disabledDelegations reads the result by hash
+const delegationComponents = [
+  { internalType: 'address', name: 'delegate', type: 'address' },
+  { internalType: 'address', name: 'delegator', type: 'address' },
+  { internalType: 'bytes32', name: 'authority', type: 'bytes32' },
+  {
+    components: [
+      { internalType: 'address', name: 'enforcer', type: 'address' },
+      { internalType: 'bytes', name: 'terms', type: 'bytes' },
+      { internalType: 'bytes', name: 'args', type: 'bytes' },
+    ],
+    internalType: 'struct Caveat[]',
+    name: 'caveats',
+    type: 'tuple[]',
+  },
+  { internalType: 'uint256', name: 'salt', type: 'uint256' },
+  { internalType: 'bytes', name: 'signature', type: 'bytes' },
+] as const;
+
 export const delegationManagerAbi = [
   {
     inputs: [
-      { internalType: 'bytes32', name: 'delegationHash', type: 'bytes32' },
+      { components: delegationComponents, internalType: 'struct Delegation', name: '_delegation', type: 'tuple' },
     ],
-    name: 'revokeDelegation',
+    name: 'disableDelegation',
     outputs: [],
     stateMutability: 'nonpayable',
     type: 'function',
@@ -121,9 +140,8 @@ export const delegationManagerAbi = [
   {
     inputs: [
       { internalType: 'bytes32', name: 'delegationHash', type: 'bytes32' },
-      { internalType: 'address', name: 'delegator', type: 'address' },
     ],
-    name: 'isDelegationRevoked',
+    name: 'disabledDelegations',
     outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
     stateMutability: 'view',
     type: 'function',
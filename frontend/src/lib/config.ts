@@ -1,15 +1,17 @@
 // config.ts - Fear & Greed DCA Configuration
 
+import { FG_THRESHOLDS as STRATEGY_FG_THRESHOLDS, type FGClassification } from "@shared/strategies";
+
 export const CONFIG = {
   // Feature flags
   ENABLE_MAINNET: false, // OFF until audit passes
   ENABLE_EXTREME_MULTIPLIER: true, // 2x on extreme F&G
 
-  // Thresholds (0-100)
-  EXTREME_FEAR_MAX: 25,
-  FEAR_MAX: 45,
-  NEUTRAL_MAX: 54,
-  GREED_MAX: 75,
+  // Thresholds (0-100), shared with the backend strategy registry
+  EXTREME_FEAR_MAX: STRATEGY_FG_THRESHOLDS.EXTREME_FEAR_MAX,
+  FEAR_MAX: STRATEGY_FG_THRESHOLDS.FEAR_MAX,
+  NEUTRAL_MAX: STRATEGY_FG_THRESHOLDS.NEUTRAL_MAX,
+  GREED_MAX: STRATEGY_FG_THRESHOLDS.GREED_MAX,
   // Above 75 = Extreme Greed
 
   // Limits
@@ -45,17 +47,11 @@ export const CONFIG = {
   // Default DCA settings
   DEFAULTS: {
     BASE_AMOUNT: 50_000000n, // 50 USDC
-    EXECUTION_HOUR: 12, // 12:00 UTC
   },
 };
 
 // Fear & Greed classifications
-export type FGClassification =
-  | "Extreme Fear"
-  | "Fear"
-  | "Neutral"
-  | "Greed"
-  | "Extreme Greed";
+export type { FGClassification };
 
 export interface FGThreshold {
   max: number;
@@ -65,10 +61,10 @@ export interface FGThreshold {
 }
 
 export const FG_THRESHOLDS: FGThreshold[] = [
-  { max: 25, classification: "Extreme Fear", action: "BUY", multiplier: 2 },
-  { max: 45, classification: "Fear", action: "BUY", multiplier: 1 },
-  { max: 54, classification: "Neutral", action: "HOLD", multiplier: 0 },
-  { max: 75, classification: "Greed", action: "SELL", multiplier: 1 },
+  { max: STRATEGY_FG_THRESHOLDS.EXTREME_FEAR_MAX, classification: "Extreme Fear", action: "BUY", multiplier: 2 },
+  { max: STRATEGY_FG_THRESHOLDS.FEAR_MAX, classification: "Fear", action: "BUY", multiplier: 1 },
+  { max: STRATEGY_FG_THRESHOLDS.NEUTRAL_MAX, classification: "Neutral", action: "HOLD", multiplier: 0 },
+  { max: STRATEGY_FG_THRESHOLDS.GREED_MAX, classification: "Greed", action: "SELL", multiplier: 1 },
   { max: 100, classification: "Extreme Greed", action: "SELL", multiplier: 2 },
 ];
 
@@ -1,6 +1,10 @@
 // delegation.ts - Delegation Framework constants and helpers
-import { type Address, parseUnits, encodeFunctionData } from 'viem';
+import { type Address, type Hex, parseEther, parseUnits, encodeAbiParameters, encodeFunctionData } from 'viem';
 import { swapRouter02Abi } from '@/lib/abis';
+import { isBuyOnlyStrategy, type FGBand, type StrategyConfig, type StrategyId } from '@shared/strategies';
+import { getMaxSlots, type ExecutionSchedule } from '@shared/schedule';
+import { TOKEN_REGISTRY, getTargetToken, type TargetBasket, type TokenInfo } from '@shared/tokens';
+import { FG_ENFORCER_MAX_AGE_SECONDS, FG_ENFORCER_TERMS_ABI, getEnforcerBandBps } from '@shared/fear-greed-enforcer';
 
 // Contract addresses (Base Mainnet)
 export const DELEGATION_ADDRESSES = {
@@ -30,19 +34,109 @@ export const BACKEND_SIGNER = (process.env.NEXT_PUBLIC_BACKEND_SIGNER ||
 // Delegations pointing to a different address are outdated
 export const CURRENT_DELEGATE = BACKEND_SIGNER;
 
+// Backend EOA that collects swap fees - the only recipient fee delegations may transfer to
+export const FEE_COLLECTOR = (process.env.NEXT_PUBLIC_FEE_COLLECTOR ||
+  '0x0000000000000000000000000000000000000001') as Address;
+
+// On-chain Fear & Greed oracle and enforcer (contracts/src). With both set, the swap
+// delegation carries a FearGreedEnforcer caveat checking each swap against the posted round.
+export const FG_ORACLE = process.env.NEXT_PUBLIC_FG_ORACLE as Address | undefined;
+export const FG_ENFORCER = process.env.NEXT_PUBLIC_FG_ENFORCER as Address | undefined;
+
 // Delegation caveats configuration
 export const DELEGATION_CONFIG = {
   // Timestamp caveat: delegation valid for 1 year
   VALIDITY_DAYS: 365,
-  // Limited calls caveat: max 1 call per day
-  MAX_CALLS_PER_DAY: 1,
   // Value limits for swaps
   MAX_SWAP_AMOUNT_USDC: parseUnits('1000', 6), // 1000 USDC max per swap
   MIN_SWAP_AMOUNT_USDC: parseUnits('10', 6),   // 10 USDC min per swap
+  // Native ETH the backend may send per call - only WETH deposit() uses it, to wrap
+  // deposited ETH before an ETH sell (ValueLte caveat; 0 would leave native ETH unsold)
+  MAX_WRAP_VALUE_PER_CALL: parseEther('10'),
+  // Swap fee, taken in the swap's input token (FEE_BPS in backend/config.ts)
+  FEE_BPS: 20,
+  // Fee delegations limit each token's transfers per period (ERC20PeriodTransfer caveat)
+  FEE_PERIOD_SECONDS: 24 * 60 * 60,
+  // Sell-side fee limits are priced at signing; this leaves room for the asset to halve
+  FEE_LIMIT_PRICE_HEADROOM: 2n,
   // Gas limits
   MAX_GAS_LIMIT: 500000n,
 } as const;
 
+// Limited calls caveat on the swap delegation for a schedule and basket: every slot in
+// the validity period swaps every basket asset, and an ETH sell may wrap native ETH
+// first. Approvals and fee transfers are redeemed with their own scoped delegations.
+export function getLimitedCallsForSchedule(schedule: ExecutionSchedule, basketSize: number = 1): number {
+  return 2 * basketSize * getMaxSlots(schedule, DELEGATION_CONFIG.VALIDITY_DAYS);
+}
+
+// ============ FEE LIMITS ============
+
+const BUY_BANDS: FGBand[] = ['extremeFear', 'fear'];
+const SELL_BANDS: FGBand[] = ['greed', 'extremeGreed'];
+
+// Whether the strategy can ever sell: buy-only mode and buy-only strategies never do
+export function canStrategySell(strategy: StrategyId, config: StrategyConfig = {}): boolean {
+  return !config.buyOnly && !isBuyOnlyStrategy(strategy);
+}
+
+// Largest swap a run can make in USD: max_amount_per_swap, lowered when every band on
+// that side caps swaps below it
+export function getMaxSwapUsd(config: StrategyConfig, action: 'buy' | 'sell'): number {
+  const maxSwapUsd = Number(DELEGATION_CONFIG.MAX_SWAP_AMOUNT_USDC) / 1e6;
+  const bands = action === 'buy' ? BUY_BANDS : SELL_BANDS;
+  return Math.max(...bands.map(band => Math.min(config.bands?.[band]?.maxAmountUsd ?? maxSwapUsd, maxSwapUsd)));
+}
+
+// Tokens fees are taken in: USDC for buys and, if the strategy can sell, each basket
+// asset as held (WETH for ETH)
+export function getFeeTokens(basket: TargetBasket, strategy: StrategyId, config: StrategyConfig = {}): TokenInfo[] {
+  const sellTokens = canStrategySell(strategy, config) ? basket.map(allocation => getTargetToken(allocation.asset)) : [];
+  return [TOKEN_REGISTRY.USDC, ...sellTokens];
+}
+
+// FearGreedEnforcer caveat for the swap delegation, or null while the contracts aren't
+// configured. Buys may spend USDC and sells the basket's assets (native ETH included, as
+// the backend wraps it before selling), at most the strategy's percentage per band.
+export function getFearGreedEnforcerCaveat(
+  basket: TargetBasket,
+  strategy: StrategyId,
+  config: StrategyConfig = {}
+): { enforcer: Address; terms: Hex; args: Hex } | null {
+  if (!FG_ORACLE || !FG_ENFORCER) return null;
+  const sellTokens = basket.map(allocation => getTargetToken(allocation.asset).address as Address);
+  const terms = encodeAbiParameters(FG_ENFORCER_TERMS_ABI, [
+    FG_ORACLE,
+    BigInt(FG_ENFORCER_MAX_AGE_SECONDS),
+    [TOKEN_REGISTRY.USDC.address as Address, ...sellTokens],
+    TOKEN_REGISTRY.ETH.address as Address,
+    getEnforcerBandBps(strategy, config),
+  ]);
+  return { enforcer: FG_ENFORCER, terms, args: '0x' };
+}
+
+// Fee-transfer limit for one period: the fee on the largest swap times the slots one
+// period can hold (in the token's base units). Non-stable tokens are converted at
+// `priceUsd` with FEE_LIMIT_PRICE_HEADROOM.
+export function getFeePeriodAmount(
+  token: TokenInfo,
+  maxSwapUsd: number,
+  schedule: ExecutionSchedule,
+  priceUsd: number = 1
+): bigint {
+  const slots = BigInt(getMaxSlots(schedule, DELEGATION_CONFIG.FEE_PERIOD_SECONDS / 86400));
+  // USD amounts in micro-dollars, matching USDC's 6 decimals
+  const feeMicroUsd = BigInt(Math.ceil(maxSwapUsd * 1e6)) * BigInt(DELEGATION_CONFIG.FEE_BPS) / 10000n;
+  if (token.priceSource === 'stable') {
+    return feeMicroUsd * slots * 10n ** BigInt(token.decimals) / 10n ** 6n;
+  }
+  const priceMicroUsd = BigInt(Math.round(priceUsd * 1e6));
+  if (priceMicroUsd <= 0n) {
+    throw new Error(`No ${token.symbol} price to size its fee limit`);
+  }
+  return feeMicroUsd * slots * DELEGATION_CONFIG.FEE_LIMIT_PRICE_HEADROOM * 10n ** BigInt(token.decimals) / priceMicroUsd;
+}
+
 // Calculate expiry timestamp (1 year from now)
 export function calculateExpiryTimestamp(): bigint {
   const now = Math.floor(Date.now() / 1000);
@@ -122,7 +216,11 @@ export interface StoredDelegation {
   createdAt: string;
   expiresAt: string;
   basePercentage: number;
-  targetAsset: string;
+  targetAsset: string; // Largest allocation of targetBasket
+  targetBasket?: TargetBasket;
+  strategy?: StrategyId;
+  strategyConfig?: StrategyConfig;
+  schedule?: ExecutionSchedule;
   signature?: string;
   status: DelegationStatus;
   caveats: {
@@ -1,6 +1,8 @@
 // Fear & Greed Index Service
 // Data source: Alternative.me - Attribution required when displaying
 
+import { calculateDecision } from '@shared/strategies';
+
 export interface FearGreedData {
   value: number;
   valueClassification: string;
@@ -16,7 +18,7 @@ export interface FearGreedHistorical {
   }>;
 }
 
-export type DCAAction = 'buy_5' | 'buy_2.5' | 'hold' | 'sell_2.5' | 'sell_5';
+export type DCAAction = 'hold' | `buy_${number}` | `sell_${number}`;
 
 export interface DCADecision {
   action: DCAAction;
@@ -63,66 +65,23 @@ export async function fetchFearGreedHistory(limit: number = 30): Promise<FearGre
 
 /**
  * Calculate DCA decision based on Fear & Greed value
- * 
- * Strategy:
- * - Extreme Fear (0-25): Buy 5% of USDC balance
- * - Fear (26-45): Buy 2.5% of USDC balance  
- * - Neutral (46-54): Hold
- * - Greed (55-75): Sell 2.5% of ETH balance
- * - Extreme Greed (76-100): Sell 5% of ETH balance
+ *
+ * Uses the same strategy registry as the backend executor (shared/strategies.ts),
+ * defaulting to the classic ladder when no strategy is given.
  */
-export function calculateDCADecision(value: number, classification: string): DCADecision {
-  if (value <= 25) {
-    return {
-      action: 'buy_5',
-      percentage: 5,
-      direction: 'buy',
-      fearGreedValue: value,
-      classification,
-      reason: 'Extreme Fear - Maximum buying opportunity. Market historically oversold.',
-    };
-  }
-  
-  if (value <= 45) {
-    return {
-      action: 'buy_2.5',
-      percentage: 2.5,
-      direction: 'buy',
-      fearGreedValue: value,
-      classification,
-      reason: 'Fear - Moderate buying opportunity. Accumulate cautiously.',
-    };
-  }
-  
-  if (value <= 54) {
-    return {
-      action: 'hold',
-      percentage: 0,
-      direction: 'hold',
-      fearGreedValue: value,
-      classification,
-      reason: 'Neutral - Market balanced. No action needed.',
-    };
-  }
-  
-  if (value <= 75) {
-    return {
-      action: 'sell_2.5',
-      percentage: 2.5,
-      direction: 'sell',
-      fearGreedValue: value,
-      classification,
-      reason: 'Greed - Take modest profits. Market heating up.',
-    };
-  }
-  
+export function calculateDCADecision(
+  value: number,
+  classification: string,
+  strategyId?: string | null
+): DCADecision {
+  const decision = calculateDecision(value, strategyId);
   return {
-    action: 'sell_5',
-    percentage: 5,
-    direction: 'sell',
+    action: decision.action === 'hold' ? 'hold' : `${decision.action}_${decision.percentage}`,
+    percentage: decision.percentage,
+    direction: decision.action,
     fearGreedValue: value,
     classification,
-    reason: 'Extreme Greed - Take profits. Market historically overbought.',
+    reason: decision.reason,
   };
 }
 
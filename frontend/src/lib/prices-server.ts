@@ -0,0 +1,33 @@
+// prices-server.ts - Server-side USD prices from the shared price service (@shared/prices)
+// Only import from API routes: reads Chainlink feeds and pool TWAPs over the Base RPC.
+
+import { createPublicClient, http, type PublicClient } from 'viem';
+import { base } from 'viem/chains';
+import { getHistoricalUsdPrice, getUsdPrice, type PriceReading } from '@shared/prices';
+
+// Lazy-loaded client (initialized on first request to avoid build-time env issues)
+let _publicClient: PublicClient | null = null;
+
+function getPublicClient(): PublicClient {
+  if (!_publicClient) {
+    _publicClient = createPublicClient({
+      chain: base,
+      transport: http(undefined, { timeout: 10_000 }),
+    }) as PublicClient;
+  }
+  return _publicClient;
+}
+
+/**
+ * Current USD price (Chainlink, else the pool TWAP); throws if neither is fresh
+ */
+export function getServerUsdPrice(symbol: string): Promise<PriceReading> {
+  return getUsdPrice(getPublicClient(), symbol);
+}
+
+/**
+ * USD price in effect at `timestamp` (unix seconds), from the Chainlink round history
+ */
+export function getServerHistoricalUsdPrice(symbol: string, timestamp: number): Promise<PriceReading> {
+  return getHistoricalUsdPrice(getPublicClient(), symbol, timestamp);
+}
@@ -0,0 +1,126 @@
+// request-auth-server.ts - Server-side verification of EIP-712 signed requests
+// Only import from API routes: uses the Supabase service key.
+
+import { createPublicClient, http, isAddress, isHex, type Address, type Hex, type PublicClient } from 'viem';
+import { base } from 'viem/chains';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import {
+  REQUEST_TTL_SECONDS,
+  getRequestTypedData,
+  type SignedRequestMessages,
+  type SignedRequestType,
+} from './request-auth';
+
+// Tolerated clock drift between the user's device and the server
+const CLOCK_SKEW_SECONDS = 60;
+
+// Lazy-loaded clients (initialized on first request to avoid build-time env issues)
+let _supabase: SupabaseClient | null = null;
+let _publicClient: PublicClient | null = null;
+
+function getSupabase() {
+  if (!_supabase) {
+    _supabase = createClient(
+      process.env.SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+  }
+  return _supabase;
+}
+
+function getPublicClient(): PublicClient {
+  if (!_publicClient) {
+    _publicClient = createPublicClient({
+      chain: base,
+      transport: http(),
+    }) as PublicClient;
+  }
+  return _publicClient;
+}
+
+export type SignedRequestResult<T extends SignedRequestType> =
+  | { valid: true; message: SignedRequestMessages[T] }
+  | { valid: false; error: string; status: number };
+
+function reject(error: string, status = 401): { valid: false; error: string; status: number } {
+  return { valid: false, error, status };
+}
+
+/**
+ * Parse the fields every signed request carries
+ */
+function parseEnvelope(body: Record<string, unknown> | null): { account: Address; nonce: Hex; deadline: bigint; signature: Hex } | null {
+  const { account, nonce, deadline, signature } = body ?? {};
+  if (typeof account !== 'string' || !isAddress(account)) return null;
+  if (typeof nonce !== 'string' || !isHex(nonce) || nonce.length !== 66) return null;
+  if (typeof deadline !== 'string' || !/^\d+$/.test(deadline)) return null;
+  if (typeof signature !== 'string' || !isHex(signature)) return null;
+  return { account, nonce, deadline: BigInt(deadline), signature };
+}
+
+/**
+ * Verify a signed request and consume its nonce.
+ *
+ * The signature is checked with viem's verifyTypedData on Base, which covers EOAs,
+ * deployed smart accounts (ERC-1271) and counterfactual ones (ERC-6492). The nonce
+ * is consumed only after the signature checks out, so junk requests can't burn a
+ * user's nonces.
+ */
+export async function verifySignedRequest<T extends SignedRequestType>(
+  primaryType: T,
+  body: Record<string, unknown> | null,
+  fields: Omit<SignedRequestMessages[T], 'account' | 'nonce' | 'deadline'>
+): Promise<SignedRequestResult<T>> {
+  const envelope = parseEnvelope(body);
+  if (!envelope) {
+    return reject('Missing or malformed request signature fields', 400);
+  }
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (envelope.deadline < now) {
+    return reject('Request expired - please sign again');
+  }
+  if (envelope.deadline > now + BigInt(REQUEST_TTL_SECONDS + CLOCK_SKEW_SECONDS)) {
+    return reject('Request deadline too far in the future', 400);
+  }
+
+  const message = {
+    ...fields,
+    account: envelope.account,
+    nonce: envelope.nonce,
+    deadline: envelope.deadline,
+  } as SignedRequestMessages[T];
+
+  let signatureValid = false;
+  try {
+    signatureValid = await getPublicClient().verifyTypedData({
+      ...getRequestTypedData(primaryType, message),
+      address: envelope.account,
+      signature: envelope.signature,
+    });
+  } catch (error) {
+    console.error('Signature verification error:', error);
+  }
+  if (!signatureValid) {
+    return reject('Invalid signature');
+  }
+
+  const { error } = await getSupabase()
+    .from('request_nonces')
+    .insert({
+      signer: envelope.account.toLowerCase(),
+      nonce: envelope.nonce.toLowerCase(),
+      action: primaryType,
+      expires_at: new Date(Number(envelope.deadline) * 1000).toISOString(),
+    });
+
+  if (error) {
+    if (error.code === '23505') {
+      return reject('Request already used');
+    }
+    console.error('Failed to record request nonce:', error);
+    return reject('Could not verify request', 500);
+  }
+
+  return { valid: true, message };
+}
@@ -0,0 +1,125 @@
+// request-auth.ts - EIP-712 signed requests for sensitive API calls
+// The user's wallet signs the exact intent (who, what, nonce, deadline); the API
+// verifies it server-side (request-auth-server.ts) before touching funds or delegations.
+
+import { bytesToHex, type Address, type Hex } from 'viem';
+import { base } from 'viem/chains';
+import type { TokenSymbol } from '@shared/tokens';
+
+// Requests expire quickly - a leaked signature is only useful for a few minutes
+export const REQUEST_TTL_SECONDS = 5 * 60;
+
+export const REQUEST_AUTH_DOMAIN = {
+  name: 'Ember Fear & Greed DCA',
+  version: '1',
+  chainId: base.id,
+} as const;
+
+export const REQUEST_AUTH_TYPES = {
+  Withdraw: [
+    { name: 'account', type: 'address' },
+    { name: 'smartAccount', type: 'address' },
+    { name: 'recipient', type: 'address' },
+    { name: 'token', type: 'string' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+  RevokeDelegation: [
+    { name: 'account', type: 'address' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+  SaveDelegation: [
+    { name: 'account', type: 'address' },
+    { name: 'smartAccount', type: 'address' },
+    { name: 'delegation', type: 'bytes32' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+  ReadDelegations: [
+    { name: 'account', type: 'address' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+export type SignedRequestType = keyof typeof REQUEST_AUTH_TYPES;
+
+export type WithdrawIntent = {
+  account: Address;       // Delegator EOA (signer)
+  smartAccount: Address;  // Smart account holding the funds
+  recipient: Address;
+  token: TokenSymbol;     // Registry symbol (shared/tokens.ts); ETH withdraws WETH
+  amount: bigint;
+  nonce: Hex;
+  deadline: bigint;
+};
+
+export type RevokeDelegationIntent = {
+  account: Address;
+  nonce: Hex;
+  deadline: bigint;
+};
+
+export type SaveDelegationIntent = {
+  account: Address;
+  smartAccount: Address;  // Delegator of the saved delegations
+  delegation: Hex;        // Swap delegation's hash (getDelegationHashOffchain)
+  nonce: Hex;
+  deadline: bigint;
+};
+
+export type ReadDelegationsIntent = {
+  account: Address;
+  nonce: Hex;
+  deadline: bigint;
+};
+
+export interface SignedRequestMessages {
+  Withdraw: WithdrawIntent;
+  RevokeDelegation: RevokeDelegationIntent;
+  SaveDelegation: SaveDelegationIntent;
+  ReadDelegations: ReadDelegationsIntent;
+}
+
+/**
+ * Fresh random nonce and deadline for a request about to be signed
+ */
+export function newRequestWindow(): { nonce: Hex; deadline: bigint } {
+  return {
+    nonce: bytesToHex(crypto.getRandomValues(new Uint8Array(32))),
+    deadline: BigInt(Math.floor(Date.now() / 1000) + REQUEST_TTL_SECONDS),
+  };
+}
+
+/**
+ * Typed data for wallet signTypedData. Only the primary type's fields are hashed,
+ * so passing every request type is harmless.
+ */
+export function getRequestTypedData<T extends SignedRequestType>(
+  primaryType: T,
+  message: SignedRequestMessages[T]
+) {
+  return {
+    domain: REQUEST_AUTH_DOMAIN,
+    types: REQUEST_AUTH_TYPES,
+    primaryType,
+    message,
+  } as const;
+}
+
+/**
+ * JSON-safe body for a signed request (bigints as strings)
+ */
+export function serializeSignedRequest<T extends SignedRequestType>(
+  message: SignedRequestMessages[T],
+  signature: Hex
+) {
+  return {
+    ...Object.fromEntries(
+      Object.entries(message).map(([key, value]) => [key, typeof value === 'bigint' ? value.toString() : value])
+    ),
+    signature,
+  };
+}
@@ -18,23 +18,32 @@ export function getSupabase(): SupabaseClient {
   return supabaseInstance;
 }
 
+// Written by the backend snapshot job (backend/balance-snapshots.ts); amounts in human units
 export interface BalanceHistoryEntry {
   id: string;
   user_address: string;
-  eth_balance: string;
-  usdc_balance: string;
+  smart_account_address: string | null;
+  snapshot_date: string | null;
+  source: 'dca' | 'scheduled' | 'backfill' | null;
+  eth_balance: number;   // Native ETH
+  weth_balance: number;
+  usdc_balance: number;
+  cbbtc_balance: number;
   total_usd: number;
   eth_price: number;
+  btc_price: number | null;
   recorded_at: string;
 }
 
-export async function getBalanceHistory(userAddress: string, limit = 30): Promise<BalanceHistoryEntry[]> {
+// Accepts the owner EOA or the smart account address; returns oldest first
+export async function getBalanceHistory(address: string, limit = 365): Promise<BalanceHistoryEntry[]> {
   try {
     const supabase = getSupabase();
+    const account = address.toLowerCase();
     const { data, error } = await supabase
       .from('balance_history')
       .select('*')
-      .eq('user_address', userAddress.toLowerCase())
+      .or(`smart_account_address.eq.${account},user_address.eq.${account}`)
       .order('recorded_at', { ascending: false })
       .limit(limit);
 
@@ -43,7 +52,7 @@ export async function getBalanceHistory(userAddress: string, limit = 30): Promis
       return [];
     }
 
-    return data || [];
+    return (data || []).reverse();
   } catch (error) {
     console.error('Error initializing Supabase:', error);
     return [];
@@ -0,0 +1,98 @@
+// ============ ON-CHAIN FEAR & GREED ============
+// ABIs and encodings for the FearGreedOracle and FearGreedEnforcer contracts
+// (contracts/src). The backend posts each run's reading to the oracle; the frontend can
+// add the enforcer as a caveat on the swap delegation, so a redeemed swap only goes
+// through in the direction the posted reading calls for and within the user's band
+// percentage. Dependency-free, like tokens.ts - callers encode with their own viem.
+
+import { FG_BANDS, calculateDecision, getFearGreedBand, type StrategyConfig } from './strategies';
+
+// Oldest reading the enforcer accepts (terms maxAge). Runs are hourly and the backend
+// reuses a reading for up to FG_ORACLE_REUSE_SECONDS, so a day leaves room for both.
+export const FG_ENFORCER_MAX_AGE_SECONDS = 86400;
+
+// A posted reading is reused by later runs this long if the value hasn't changed
+export const FG_ORACLE_REUSE_SECONDS = 43200;
+
+// EIP-712 domain and type the oracle's signer signs each round with
+export const FG_ORACLE_DOMAIN = { name: 'Ember Fear & Greed Oracle', version: '1' } as const;
+
+export const FG_READING_TYPES = {
+  FearGreedReading: [
+    { name: 'round', type: 'uint256' },
+    { name: 'value', type: 'uint8' },
+    { name: 'timestamp', type: 'uint64' },
+  ],
+} as const;
+
+// abi.encode(oracle, maxAge, tokens, wrappedNative, bandBps) - tokens[0] is spent by buys
+// (USDC), the rest by sells; bandBps is Extreme Fear, Fear, Greed, Extreme Greed
+export const FG_ENFORCER_TERMS_ABI = [
+  { name: 'oracle', type: 'address' },
+  { name: 'maxAge', type: 'uint64' },
+  { name: 'tokens', type: 'address[]' },
+  { name: 'wrappedNative', type: 'address' },
+  { name: 'bandBps', type: 'uint16[4]' },
+] as const;
+
+// abi.encode(round) - caveat args, filled in by the redeemer
+export const FG_ENFORCER_ARGS_ABI = [{ name: 'round', type: 'uint256' }] as const;
+
+export const fearGreedOracleAbi = [
+  {
+    name: 'latestRound',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'getReading',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'round', type: 'uint256' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'value', type: 'uint8' },
+          { name: 'timestamp', type: 'uint64' },
+          { name: 'postedAt', type: 'uint64' },
+        ],
+      },
+    ],
+  },
+  {
+    name: 'post',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'value', type: 'uint8' },
+      { name: 'timestamp', type: 'uint64' },
+      { name: 'signature', type: 'bytes' },
+    ],
+    outputs: [{ name: 'round', type: 'uint256' }],
+  },
+] as const;
+
+/**
+ * Enforcer band limits for a strategy and config, in basis points of the balance one
+ * swap may spend: the largest percentage the strategy picks anywhere in each band
+ * (0 where it holds or the config blocks the band's direction). Built-in strategies
+ * size on the F&G value alone, so scanning 0-100 covers every decision they make.
+ */
+export function getEnforcerBandBps(
+  strategyId?: string | null,
+  config?: StrategyConfig | null
+): [number, number, number, number] {
+  const maxPercentage: Record<string, number> = {};
+  for (let fgValue = 0; fgValue <= 100; fgValue++) {
+    const band = getFearGreedBand(fgValue);
+    const decision = calculateDecision(fgValue, strategyId, {}, config);
+    if (!band || decision.action === 'hold') continue;
+    maxPercentage[band] = Math.max(maxPercentage[band] ?? 0, decision.percentage);
+  }
+  const [extremeFear, fear, greed, extremeGreed] = FG_BANDS.map(band => Math.round((maxPercentage[band] ?? 0) * 100));
+  return [extremeFear, fear, greed, extremeGreed];
+}
@@ -0,0 +1,313 @@
+// ============ PRICE SERVICE ============
+// USD prices of the registry's tokens, for the executor, the API routes and the price
+// guard alike: Chainlink feeds on Base first, a Uniswap V3 pool TWAP (observe) as the
+// second source. Readings are cached briefly, refused once stale, and past prices are
+// looked up from Chainlink's round history. Dependency-free, like tokens.ts - callers
+// pass their own viem client.
+
+import { TOKEN_REGISTRY, findToken, type HexAddress } from './tokens';
+
+// Chainlink answers older than this are stale (Base ETH/USD and BTC/USD heartbeat: 20 min)
+export const CHAINLINK_MAX_AGE_SECONDS = 3600;
+
+// Window of the pool TWAP
+export const TWAP_SECONDS = 1800;
+
+// A reading is reused this long before the feed is read again
+export const PRICE_CACHE_TTL_MS = 30000;
+
+// Feeds per token symbol: a Chainlink USD feed and/or a V3 pool against USDC
+export const PRICE_FEEDS: Record<string, { chainlink?: HexAddress; twapPool?: HexAddress }> = {
+  ETH: {
+    chainlink: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70', // ETH / USD
+    twapPool: '0xd0b53D9277642d899DF5C87A3966A349A798F224', // WETH / USDC 0.05%
+  },
+  cbBTC: {
+    chainlink: '0x64c911996D3c6aC71f9b455B1E8E7266BcbD848F', // BTC / USD
+  },
+};
+
+export const chainlinkAggregatorAbi = [
+  {
+    name: 'latestRoundData',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'roundId', type: 'uint80' },
+      { name: 'answer', type: 'int256' },
+      { name: 'startedAt', type: 'uint256' },
+      { name: 'updatedAt', type: 'uint256' },
+      { name: 'answeredInRound', type: 'uint80' },
+    ],
+  },
+  {
+    name: 'getRoundData',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'roundId', type: 'uint80' }],
+    outputs: [
+      { name: 'roundId', type: 'uint80' },
+      { name: 'answer', type: 'int256' },
+      { name: 'startedAt', type: 'uint256' },
+      { name: 'updatedAt', type: 'uint256' },
+      { name: 'answeredInRound', type: 'uint80' },
+    ],
+  },
+  {
+    name: 'decimals',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint8' }],
+  },
+] as const;
+
+export const uniswapV3PoolAbi = [
+  {
+    name: 'observe',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'secondsAgos', type: 'uint32[]' }],
+    outputs: [
+      { name: 'tickCumulatives', type: 'int56[]' },
+      { name: 'secondsPerLiquidityCumulativeX128s', type: 'uint160[]' },
+    ],
+  },
+] as const;
+
+// The part of a viem PublicClient the service reads with. Parameters are untyped: viem's
+// readContract is generic over the ABI, which a plain signature here can't match.
+export interface PriceClient {
+  readContract(parameters: any): Promise<unknown>;
+}
+
+export type PriceFeedSource = 'chainlink' | 'twap' | 'stable';
+
+export interface PriceReading {
+  symbol: string;
+  source: PriceFeedSource;
+  priceUsd: number;
+  updatedAt: number; // Unix seconds the price was observed at (TWAP: end of its window)
+}
+
+// ============ TWAP ============
+
+/**
+ * Mean tick over the window from two observe() tick cumulatives (oldest first), rounded
+ * toward negative infinity like Uniswap's OracleLibrary
+ */
+export function getAverageTick(tickCumulatives: readonly bigint[], seconds: number): number {
+  const delta = tickCumulatives[1] - tickCumulatives[0];
+  const window = BigInt(seconds);
+  let tick = delta / window;
+  if (delta < 0n && delta % window !== 0n) tick--;
+  return Number(tick);
+}
+
+/**
+ * USD price of a token at a tick of its USDC pool. A tick prices token0 in token1 base
+ * units (1.0001^tick), and token0 is the token with the lower address.
+ */
+export function tickToPriceUsd(tick: number, token: HexAddress, decimals: number): number {
+  const usdc = TOKEN_REGISTRY.USDC;
+  const rawPrice = Math.pow(1.0001, tick);
+  const scale = 10 ** (decimals - usdc.decimals);
+  return token.toLowerCase() < usdc.address.toLowerCase()
+    ? rawPrice * scale
+    : scale / rawPrice;
+}
+
+// ============ FEED READS ============
+
+interface ChainlinkRound {
+  roundId: bigint;
+  answer: bigint;
+  updatedAt: number;
+}
+
+type RoundData = readonly [bigint, bigint, bigint, bigint, bigint];
+
+// Feed → decimals, and feed:roundId → round (both never change)
+const _feedDecimals = new Map<string, number>();
+const _rounds = new Map<string, ChainlinkRound>();
+
+function getFeeds(symbol: string): { chainlink?: HexAddress; twapPool?: HexAddress } {
+  return PRICE_FEEDS[findToken(symbol)?.symbol ?? symbol] ?? {};
+}
+
+async function readFeedDecimals(client: PriceClient, feed: HexAddress): Promise<number> {
+  const key = feed.toLowerCase();
+  if (!_feedDecimals.has(key)) {
+    const decimals = await client.readContract({ address: feed, abi: chainlinkAggregatorAbi, functionName: 'decimals' });
+    _feedDecimals.set(key, Number(decimals));
+  }
+  return _feedDecimals.get(key)!;
+}
+
+/**
+ * A Chainlink round, or the latest one without roundId
+ */
+async function readRound(client: PriceClient, feed: HexAddress, roundId?: bigint): Promise<ChainlinkRound> {
+  const key = `${feed.toLowerCase()}:${roundId}`;
+  if (roundId !== undefined && _rounds.has(key)) {
+    return _rounds.get(key)!;
+  }
+  const data = (roundId === undefined
+    ? await client.readContract({ address: feed, abi: chainlinkAggregatorAbi, functionName: 'latestRoundData' })
+    : await client.readContract({ address: feed, abi: chainlinkAggregatorAbi, functionName: 'getRoundData', args: [roundId] })
+  ) as RoundData;
+  const round = { roundId: data[0], answer: data[1], updatedAt: Number(data[3]) };
+  if (roundId !== undefined) _rounds.set(key, round);
+  return round;
+}
+
+/**
+ * Latest Chainlink price; throws without a feed, an answer or a fresh enough one
+ */
+export async function readChainlinkPrice(
+  client: PriceClient,
+  symbol: string,
+  maxAgeSeconds: number = CHAINLINK_MAX_AGE_SECONDS
+): Promise<PriceReading> {
+  const feed = getFeeds(symbol).chainlink;
+  if (!feed) {
+    throw new Error(`No Chainlink feed for ${symbol}`);
+  }
+  const [round, decimals] = await Promise.all([readRound(client, feed), readFeedDecimals(client, feed)]);
+  if (round.answer <= 0n) {
+    throw new Error(`Chainlink ${symbol} feed has no answer`);
+  }
+  const age = Math.floor(Date.now() / 1000) - round.updatedAt;
+  if (age > maxAgeSeconds) {
+    throw new Error(`Chainlink ${symbol} answer is ${age}s old (max ${maxAgeSeconds}s)`);
+  }
+  return { symbol, source: 'chainlink', priceUsd: Number(round.answer) / 10 ** decimals, updatedAt: round.updatedAt };
+}
+
+/**
+ * Time-weighted price over the last `seconds` from the token's USDC pool
+ */
+export async function readTwapPrice(
+  client: PriceClient,
+  symbol: string,
+  seconds: number = TWAP_SECONDS
+): Promise<PriceReading> {
+  const token = findToken(symbol);
+  const pool = getFeeds(symbol).twapPool;
+  if (!token || !pool) {
+    throw new Error(`No TWAP pool for ${symbol}`);
+  }
+  const [tickCumulatives] = await client.readContract({
+    address: pool,
+    abi: uniswapV3PoolAbi,
+    functionName: 'observe',
+    args: [[seconds, 0]],
+  }) as readonly [readonly bigint[], readonly bigint[]];
+  return {
+    symbol,
+    source: 'twap',
+    priceUsd: tickToPriceUsd(getAverageTick(tickCumulatives, seconds), token.address, token.decimals),
+    updatedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+// ============ CACHED PRICES ============
+
+// source:symbol → last reading and when it was read
+const _readings = new Map<string, { reading: PriceReading; readAt: number }>();
+
+async function cachedReading(source: PriceFeedSource, symbol: string, read: () => Promise<PriceReading>): Promise<PriceReading> {
+  const key = `${source}:${symbol}`;
+  const cached = _readings.get(key);
+  if (cached && Date.now() - cached.readAt < PRICE_CACHE_TTL_MS) {
+    return cached.reading;
+  }
+  const reading = await read();
+  _readings.set(key, { reading, readAt: Date.now() });
+  return reading;
+}
+
+/**
+ * Current USD price: $1 for stables, else Chainlink, else the pool TWAP. Throws when no
+ * source has a fresh price - callers must not substitute a made-up one.
+ */
+export async function getUsdPrice(client: PriceClient, symbol: string): Promise<PriceReading> {
+  if (findToken(symbol)?.priceSource === 'stable') {
+    return { symbol, source: 'stable', priceUsd: 1, updatedAt: Math.floor(Date.now() / 1000) };
+  }
+
+  const errors: string[] = [];
+  for (const source of ['chainlink', 'twap'] as const) {
+    try {
+      return await cachedReading(source, symbol, () => source === 'chainlink'
+        ? readChainlinkPrice(client, symbol)
+        : readTwapPrice(client, symbol));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  throw new Error(`No ${symbol} price: ${errors.join('; ')}`);
+}
+
+/**
+ * Every source with a fresh price for the token (Chainlink, TWAP) - independent
+ * references to check a quote against. Sources that fail are left out.
+ */
+export async function getReferencePrices(client: PriceClient, symbol: string): Promise<PriceReading[]> {
+  const feeds = getFeeds(symbol);
+  const reads: Promise<PriceReading>[] = [];
+  if (feeds.chainlink) reads.push(cachedReading('chainlink', symbol, () => readChainlinkPrice(client, symbol)));
+  if (feeds.twapPool) reads.push(cachedReading('twap', symbol, () => readTwapPrice(client, symbol)));
+
+  const results = await Promise.allSettled(reads);
+  return results
+    .filter((r): r is PromiseFulfilledResult<PriceReading> => r.status === 'fulfilled')
+    .map(r => r.value);
+}
+
+// ============ HISTORICAL PRICES ============
+
+/**
+ * Chainlink price in effect at `timestamp` (unix seconds): the last round of the feed's
+ * current phase updated at or before it, found by binary search over round ids. Throws
+ * if the time precedes that phase or no round falls within CHAINLINK_MAX_AGE_SECONDS.
+ */
+export async function getHistoricalUsdPrice(client: PriceClient, symbol: string, timestamp: number): Promise<PriceReading> {
+  if (findToken(symbol)?.priceSource === 'stable') {
+    return { symbol, source: 'stable', priceUsd: 1, updatedAt: timestamp };
+  }
+  const feed = getFeeds(symbol).chainlink;
+  if (!feed) {
+    throw new Error(`No Chainlink feed for ${symbol}`);
+  }
+
+  const [latest, decimals] = await Promise.all([readRound(client, feed), readFeedDecimals(client, feed)]);
+  let round = latest;
+  if (timestamp < latest.updatedAt) {
+    // Proxy round ids are (phase << 64) | aggregator round, counting up from 1 per phase
+    const phase = latest.roundId >> 64n;
+    const roundIdAt = (n: bigint) => (phase << 64n) | n;
+    let low = 1n;
+    let high = latest.roundId & ((1n << 64n) - 1n);
+
+    const first = await readRound(client, feed, roundIdAt(low));
+    if (first.updatedAt > timestamp) {
+      throw new Error(`Chainlink ${symbol} history starts at ${new Date(first.updatedAt * 1000).toISOString()}`);
+    }
+    while (low < high) {
+      const mid = (low + high + 1n) / 2n;
+      if ((await readRound(client, feed, roundIdAt(mid))).updatedAt <= timestamp) {
+        low = mid;
+      } else {
+        high = mid - 1n;
+      }
+    }
+    round = await readRound(client, feed, roundIdAt(low));
+  }
+
+  if (timestamp - round.updatedAt > CHAINLINK_MAX_AGE_SECONDS) {
+    throw new Error(`No Chainlink ${symbol} round within ${CHAINLINK_MAX_AGE_SECONDS}s before ${new Date(timestamp * 1000).toISOString()}`);
+  }
+  return { symbol, source: 'chainlink', priceUsd: Number(round.answer) / 10 ** decimals, updatedAt: round.updatedAt };
+}
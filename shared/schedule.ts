@@ -0,0 +1,181 @@
+// ============ EXECUTION SCHEDULES ============
+// Per-wallet DCA cadence. The executor ticks hourly and processes the wallets whose
+// current slot is due; the frontend sizes the delegation's call limit and the
+// countdown from the same functions. Dependency-free, like strategies.ts.
+
+export type ScheduleCadence = 'daily' | 'interval' | 'weekly';
+
+export interface ExecutionSchedule {
+  cadence: ScheduleCadence;
+  intervalHours?: number; // 'interval' only: hours between slots (a divisor of 24)
+  weekdays?: number[];    // 'weekly' only: UTC days, 0 = Sunday
+  windowStartHour: number; // UTC hour of the day's first slot (0-23)
+  windowEndHour: number;   // UTC hour (exclusive, 1-24) after which no slot starts or runs
+}
+
+// Matches the single 12:00 UTC run every delegation had before schedules existed
+export const DEFAULT_SCHEDULE: ExecutionSchedule = {
+  cadence: 'daily',
+  windowStartHour: 12,
+  windowEndHour: 13,
+};
+
+export const INTERVAL_HOURS_OPTIONS = [1, 2, 3, 4, 6, 8, 12];
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type ScheduleValidation =
+  | { valid: true; schedule: ExecutionSchedule; error?: undefined }
+  | { valid: false; schedule?: undefined; error: string };
+
+function isHour(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate an untrusted schedule (API body or DB JSON) and return a normalised copy
+ */
+export function validateSchedule(raw: unknown): ScheduleValidation {
+  if (raw === null || raw === undefined) {
+    return { valid: true, schedule: DEFAULT_SCHEDULE };
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, error: 'Schedule must be an object' };
+  }
+
+  const { cadence, intervalHours, weekdays, windowStartHour, windowEndHour, ...rest } = raw as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) {
+    return { valid: false, error: `Unknown schedule field: ${Object.keys(rest)[0]}` };
+  }
+  if (cadence !== 'daily' && cadence !== 'interval' && cadence !== 'weekly') {
+    return { valid: false, error: 'cadence must be daily, interval or weekly' };
+  }
+  if (!isHour(windowStartHour, 0, 23)) {
+    return { valid: false, error: 'windowStartHour must be an integer between 0 and 23' };
+  }
+  if (!isHour(windowEndHour, 1, 24) || windowEndHour <= windowStartHour) {
+    return { valid: false, error: 'windowEndHour must be an integer after windowStartHour, at most 24' };
+  }
+
+  const schedule: ExecutionSchedule = { cadence, windowStartHour, windowEndHour };
+
+  if (cadence === 'interval') {
+    if (typeof intervalHours !== 'number' || !INTERVAL_HOURS_OPTIONS.includes(intervalHours)) {
+      return { valid: false, error: `intervalHours must be one of ${INTERVAL_HOURS_OPTIONS.join(', ')}` };
+    }
+    schedule.intervalHours = intervalHours;
+  } else if (intervalHours !== undefined) {
+    return { valid: false, error: 'intervalHours only applies to the interval cadence' };
+  }
+
+  if (cadence === 'weekly') {
+    if (!Array.isArray(weekdays) || weekdays.length === 0 || !weekdays.every(day => isHour(day, 0, 6))) {
+      return { valid: false, error: 'weekdays must be a non-empty list of days 0-6 (0 = Sunday)' };
+    }
+    schedule.weekdays = Array.from(new Set(weekdays as number[])).sort((a, b) => a - b);
+  } else if (weekdays !== undefined) {
+    return { valid: false, error: 'weekdays only applies to the weekly cadence' };
+  }
+
+  return { valid: true, schedule };
+}
+
+/**
+ * Slot start hours within a UTC day the schedule runs on
+ */
+function getSlotHours(schedule: ExecutionSchedule): number[] {
+  if (schedule.cadence !== 'interval') {
+    return [schedule.windowStartHour];
+  }
+  const hours: number[] = [];
+  for (let hour = schedule.windowStartHour; hour < schedule.windowEndHour; hour += schedule.intervalHours ?? 24) {
+    hours.push(hour);
+  }
+  return hours;
+}
+
+function runsOnDay(schedule: ExecutionSchedule, dayStart: number): boolean {
+  return schedule.cadence !== 'weekly' || (schedule.weekdays ?? []).includes(new Date(dayStart).getUTCDay());
+}
+
+function startOfUtcDay(time: number): number {
+  return Math.floor(time / DAY_MS) * DAY_MS;
+}
+
+/**
+ * Slot id used in execution keys and run items, e.g. "2026-10-19T12:00Z"
+ */
+export function formatSlot(slotStart: Date): string {
+  return `${slotStart.toISOString().slice(0, 16)}Z`;
+}
+
+export interface ScheduleSlot {
+  id: string;
+  start: Date;
+  end: Date; // Slot is due from start until end (next slot or the window end)
+}
+
+/**
+ * The slot that is due at `now`, or null between slots. A slot stays due until the next
+ * slot starts or the day's window closes, so a missed hourly tick catches up once.
+ */
+export function getDueSlot(schedule: ExecutionSchedule, now: Date = new Date()): ScheduleSlot | null {
+  const dayStart = startOfUtcDay(now.getTime());
+  if (!runsOnDay(schedule, dayStart)) return null;
+
+  const hours = getSlotHours(schedule);
+  for (let i = hours.length - 1; i >= 0; i--) {
+    const start = dayStart + hours[i] * HOUR_MS;
+    if (start > now.getTime()) continue;
+    const end = dayStart + (i + 1 < hours.length ? hours[i + 1] : schedule.windowEndHour) * HOUR_MS;
+    return now.getTime() < end
+      ? { id: formatSlot(new Date(start)), start: new Date(start), end: new Date(end) }
+      : null;
+  }
+  return null;
+}
+
+/**
+ * Start of the first slot strictly after `now`
+ */
+export function getNextSlotStart(schedule: ExecutionSchedule, now: Date = new Date()): Date {
+  const today = startOfUtcDay(now.getTime());
+  for (let day = 0; day <= 7; day++) {
+    const dayStart = today + day * DAY_MS;
+    if (!runsOnDay(schedule, dayStart)) continue;
+    for (const hour of getSlotHours(schedule)) {
+      const start = dayStart + hour * HOUR_MS;
+      if (start > now.getTime()) return new Date(start);
+    }
+  }
+  // Unreachable for a validated schedule (every cadence has a slot within a week)
+  return new Date(today + 7 * DAY_MS + schedule.windowStartHour * HOUR_MS);
+}
+
+/**
+ * Upper bound on slots in `days` days, for sizing the delegation's limitedCalls caveat
+ */
+export function getMaxSlots(schedule: ExecutionSchedule, days: number): number {
+  const perDay = getSlotHours(schedule).length;
+  if (schedule.cadence === 'weekly') {
+    return Math.ceil(days / 7) * (schedule.weekdays?.length ?? 0) * perDay;
+  }
+  return days * perDay;
+}
+
+/**
+ * Short description for the UI, e.g. "Every 6h, 00:00–24:00 UTC"
+ */
+export function describeSchedule(schedule: ExecutionSchedule): string {
+  const hour = (h: number) => `${h.toString().padStart(2, '0')}:00`;
+  if (schedule.cadence === 'interval') {
+    return `Every ${schedule.intervalHours}h, ${hour(schedule.windowStartHour)}–${hour(schedule.windowEndHour)} UTC`;
+  }
+  const days = schedule.cadence === 'weekly'
+    ? (schedule.weekdays ?? []).map(day => WEEKDAY_NAMES[day]).join(', ')
+    : 'Daily';
+  return `${days} at ${hour(schedule.windowStartHour)} UTC`;
+}
@@ -0,0 +1,354 @@
+// ============ DCA STRATEGIES ============
+// Single source of truth for turning a Fear & Greed reading into a DCA decision.
+// Imported by the backend executor and the frontend, and copied to
+// supabase/functions/_shared/strategies.ts for the edge functions (which can only bundle
+// files under supabase/functions) by `npm run sync-edge-shared` in backend/. This file
+// must stay dependency-free (no npm or relative imports).
+
+export type DCAAction = 'buy' | 'sell' | 'hold';
+
+export interface DCADecision {
+  action: DCAAction;
+  percentage: number;
+  reason: string;
+  maxAmountUsd?: number; // Per-band USD cap from the user's strategy config
+}
+
+// F&G band upper bounds (inclusive). Above GREED_MAX = Extreme Greed.
+export const FG_THRESHOLDS = {
+  EXTREME_FEAR_MAX: 25,
+  FEAR_MAX: 45,
+  NEUTRAL_MAX: 54,
+  GREED_MAX: 75,
+};
+
+// Largest share of the source balance any built-in strategy will swap in one run
+export const MAX_STRATEGY_PERCENTAGE = 5;
+
+export type FGClassification =
+  | 'Extreme Fear'
+  | 'Fear'
+  | 'Neutral'
+  | 'Greed'
+  | 'Extreme Greed';
+
+export function getFearGreedClassification(fgValue: number): FGClassification {
+  if (fgValue <= FG_THRESHOLDS.EXTREME_FEAR_MAX) return 'Extreme Fear';
+  if (fgValue <= FG_THRESHOLDS.FEAR_MAX) return 'Fear';
+  if (fgValue <= FG_THRESHOLDS.NEUTRAL_MAX) return 'Neutral';
+  if (fgValue <= FG_THRESHOLDS.GREED_MAX) return 'Greed';
+  return 'Extreme Greed';
+}
+
+export type FGBand = 'extremeFear' | 'fear' | 'greed' | 'extremeGreed';
+
+export const FG_BANDS: FGBand[] = ['extremeFear', 'fear', 'greed', 'extremeGreed'];
+
+/**
+ * Map a F&G value to its trading band (null inside the neutral band)
+ */
+export function getFearGreedBand(fgValue: number): FGBand | null {
+  if (fgValue <= FG_THRESHOLDS.EXTREME_FEAR_MAX) return 'extremeFear';
+  if (fgValue <= FG_THRESHOLDS.FEAR_MAX) return 'fear';
+  if (fgValue <= FG_THRESHOLDS.NEUTRAL_MAX) return null;
+  if (fgValue <= FG_THRESHOLDS.GREED_MAX) return 'greed';
+  return 'extremeGreed';
+}
+
+function getBandAction(band: FGBand): 'buy' | 'sell' {
+  return band === 'extremeFear' || band === 'fear' ? 'buy' : 'sell';
+}
+
+// ============ STRATEGY INTERFACE ============
+
+export interface StrategyInput {
+  fgValue: number;
+  // Previous daily F&G values, most recent first (may be empty)
+  history?: number[];
+  // USD value of the wallet's sell-side (USDC) and buy-side (target asset) holdings
+  balances?: { usdcUsd: number; targetUsd: number };
+  // USD price of the target asset
+  price?: number;
+}
+
+export type StrategyId = 'ladder' | 'linear' | 'sigmoid' | 'contrarian-buy-only';
+
+export interface Strategy {
+  id: StrategyId;
+  name: string;
+  description: string;
+  decide(input: StrategyInput): DCADecision;
+}
+
+// Percentages are applied as basis points downstream, so keep two decimals at most
+function roundPercentage(percentage: number): number {
+  return Math.round(percentage * 100) / 100;
+}
+
+function hold(): DCADecision {
+  return { action: 'hold', percentage: 0, reason: 'Neutral - Hold' };
+}
+
+// ============ BUILT-IN STRATEGIES ============
+
+/**
+ * The original five-bucket ladder: 5% / 2.5% / hold / 2.5% / 5%
+ */
+const ladder: Strategy = {
+  id: 'ladder',
+  name: 'Classic Ladder',
+  description: 'Buy 5% in Extreme Fear, 2.5% in Fear, hold when Neutral, sell 2.5% in Greed and 5% in Extreme Greed.',
+  decide({ fgValue }) {
+    if (fgValue <= FG_THRESHOLDS.EXTREME_FEAR_MAX) {
+      return { action: 'buy', percentage: 5, reason: 'Extreme Fear - Buy 5%' };
+    }
+    if (fgValue <= FG_THRESHOLDS.FEAR_MAX) {
+      return { action: 'buy', percentage: 2.5, reason: 'Fear - Buy 2.5%' };
+    }
+    if (fgValue <= FG_THRESHOLDS.NEUTRAL_MAX) {
+      return hold();
+    }
+    if (fgValue <= FG_THRESHOLDS.GREED_MAX) {
+      return { action: 'sell', percentage: 2.5, reason: 'Greed - Sell 2.5%' };
+    }
+    return { action: 'sell', percentage: 5, reason: 'Extreme Greed - Sell 5%' };
+  },
+};
+
+/**
+ * Scales linearly with distance from the neutral band, reaching the max at 0 / 100
+ */
+const linear: Strategy = {
+  id: 'linear',
+  name: 'Linear Scaled',
+  description: 'Swap size grows linearly with distance from Neutral, up to 5% at F&G 0 or 100.',
+  decide({ fgValue }) {
+    const buyEdge = FG_THRESHOLDS.FEAR_MAX + 1;
+    if (fgValue < buyEdge) {
+      const percentage = roundPercentage(MAX_STRATEGY_PERCENTAGE * (buyEdge - fgValue) / buyEdge);
+      return { action: 'buy', percentage, reason: `${getFearGreedClassification(fgValue)} - Buy ${percentage}% (linear)` };
+    }
+    if (fgValue <= FG_THRESHOLDS.NEUTRAL_MAX) {
+      return hold();
+    }
+    const percentage = roundPercentage(
+      MAX_STRATEGY_PERCENTAGE * (fgValue - FG_THRESHOLDS.NEUTRAL_MAX) / (100 - FG_THRESHOLDS.NEUTRAL_MAX)
+    );
+    return { action: 'sell', percentage, reason: `${getFearGreedClassification(fgValue)} - Sell ${percentage}% (linear)` };
+  },
+};
+
+// Steepness and midpoint (in F&G points away from the neutral band) of the sigmoid ramp.
+// The midpoint sits on the Extreme Fear / Extreme Greed boundary, where the ladder jumps to 5%.
+const SIGMOID_STEEPNESS = 0.25;
+const SIGMOID_BUY_MIDPOINT = FG_THRESHOLDS.FEAR_MAX + 1 - FG_THRESHOLDS.EXTREME_FEAR_MAX;
+const SIGMOID_SELL_MIDPOINT = FG_THRESHOLDS.GREED_MAX - FG_THRESHOLDS.NEUTRAL_MAX;
+
+function sigmoidPercentage(distance: number, midpoint: number): number {
+  return roundPercentage(MAX_STRATEGY_PERCENTAGE / (1 + Math.exp(-SIGMOID_STEEPNESS * (distance - midpoint))));
+}
+
+/**
+ * Smooth S-curve: small swaps near Neutral, saturating toward the max in the extremes
+ */
+const sigmoid: Strategy = {
+  id: 'sigmoid',
+  name: 'Sigmoid',
+  description: 'Small swaps near Neutral that ramp up smoothly and saturate at 5% in the extremes.',
+  decide({ fgValue }) {
+    const buyEdge = FG_THRESHOLDS.FEAR_MAX + 1;
+    if (fgValue < buyEdge) {
+      const percentage = sigmoidPercentage(buyEdge - fgValue, SIGMOID_BUY_MIDPOINT);
+      return { action: 'buy', percentage, reason: `${getFearGreedClassification(fgValue)} - Buy ${percentage}% (sigmoid)` };
+    }
+    if (fgValue <= FG_THRESHOLDS.NEUTRAL_MAX) {
+      return hold();
+    }
+    const percentage = sigmoidPercentage(fgValue - FG_THRESHOLDS.NEUTRAL_MAX, SIGMOID_SELL_MIDPOINT);
+    return { action: 'sell', percentage, reason: `${getFearGreedClassification(fgValue)} - Sell ${percentage}% (sigmoid)` };
+  },
+};
+
+/**
+ * Accumulate-only: buys on the ladder's fear bands and never sells
+ */
+const contrarianBuyOnly: Strategy = {
+  id: 'contrarian-buy-only',
+  name: 'Contrarian (Buy Only)',
+  description: 'Buys 5% in Extreme Fear and 2.5% in Fear; holds otherwise and never sells.',
+  decide(input) {
+    const decision = ladder.decide(input);
+    if (decision.action === 'sell') {
+      return { action: 'hold', percentage: 0, reason: `${getFearGreedClassification(input.fgValue)} - Hold (buy-only strategy)` };
+    }
+    return decision;
+  },
+};
+
+// ============ REGISTRY ============
+
+export const STRATEGIES: Record<StrategyId, Strategy> = {
+  ladder,
+  linear,
+  sigmoid,
+  'contrarian-buy-only': contrarianBuyOnly,
+};
+
+export const DEFAULT_STRATEGY_ID: StrategyId = 'ladder';
+
+export function isStrategyId(id: unknown): id is StrategyId {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(STRATEGIES, id);
+}
+
+/**
+ * Look up a strategy by id, falling back to the default ladder for unknown or missing ids
+ */
+export function getStrategy(id?: string | null): Strategy {
+  return isStrategyId(id) ? STRATEGIES[id] : STRATEGIES[DEFAULT_STRATEGY_ID];
+}
+
+/**
+ * Whether the strategy never sells, whatever the user's config says
+ */
+export function isBuyOnlyStrategy(id?: string | null): boolean {
+  return getStrategy(id).id === 'contrarian-buy-only';
+}
+
+// ============ PER-USER STRATEGY CONFIG ============
+// Stored as JSON on the delegation row. Band overrides replace the strategy's percentage
+// inside that band; caps and buy-only mode apply on top of any strategy.
+
+export interface BandOverride {
+  percentage?: number;   // Share of the source balance to swap (0 = hold)
+  maxAmountUsd?: number; // Upper bound on a single swap in this band
+}
+
+export interface StrategyConfig {
+  buyOnly?: boolean;
+  bands?: Partial<Record<FGBand, BandOverride>>;
+}
+
+// Highest per-band percentage a user may configure
+export const MAX_CONFIG_PERCENTAGE = 10;
+
+export type StrategyConfigValidation =
+  | { valid: true; config: StrategyConfig; error?: undefined }
+  | { valid: false; config?: undefined; error: string };
+
+/**
+ * Validate untrusted strategy config (API body or DB JSON) and return a normalised copy.
+ * A buy-only strategy rejects overrides on the sell bands.
+ */
+export function validateStrategyConfig(raw: unknown, strategyId?: string | null): StrategyConfigValidation {
+  if (raw === null || raw === undefined) {
+    return { valid: true, config: {} };
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, error: 'Strategy config must be an object' };
+  }
+
+  const input = raw as Record<string, unknown>;
+  for (const key of Object.keys(input)) {
+    if (key !== 'buyOnly' && key !== 'bands') {
+      return { valid: false, error: `Unknown strategy config field: ${key}` };
+    }
+  }
+
+  const config: StrategyConfig = {};
+
+  if (input.buyOnly !== undefined) {
+    if (typeof input.buyOnly !== 'boolean') {
+      return { valid: false, error: 'buyOnly must be a boolean' };
+    }
+    config.buyOnly = input.buyOnly;
+  }
+
+  if (input.bands !== undefined) {
+    if (typeof input.bands !== 'object' || input.bands === null || Array.isArray(input.bands)) {
+      return { valid: false, error: 'bands must be an object' };
+    }
+    const bands: Partial<Record<FGBand, BandOverride>> = {};
+    for (const [band, value] of Object.entries(input.bands as Record<string, unknown>)) {
+      if (!FG_BANDS.includes(band as FGBand)) {
+        return { valid: false, error: `Unknown band: ${band}` };
+      }
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { valid: false, error: `Band ${band} must be an object` };
+      }
+      const { percentage, maxAmountUsd, ...rest } = value as Record<string, unknown>;
+      if (Object.keys(rest).length > 0) {
+        return { valid: false, error: `Unknown field in band ${band}: ${Object.keys(rest)[0]}` };
+      }
+      const override: BandOverride = {};
+      if (percentage !== undefined) {
+        if (typeof percentage !== 'number' || !Number.isFinite(percentage) || percentage < 0 || percentage > MAX_CONFIG_PERCENTAGE) {
+          return { valid: false, error: `Band ${band} percentage must be between 0 and ${MAX_CONFIG_PERCENTAGE}` };
+        }
+        override.percentage = roundPercentage(percentage);
+      }
+      if (maxAmountUsd !== undefined) {
+        if (typeof maxAmountUsd !== 'number' || !Number.isFinite(maxAmountUsd) || maxAmountUsd <= 0) {
+          return { valid: false, error: `Band ${band} maxAmountUsd must be a positive number` };
+        }
+        override.maxAmountUsd = maxAmountUsd;
+      }
+      if (isBuyOnlyStrategy(strategyId) && getBandAction(band as FGBand) === 'sell') {
+        return { valid: false, error: `${getStrategy(strategyId).name} never sells - remove the ${band} override` };
+      }
+      bands[band as FGBand] = override;
+    }
+    config.bands = bands;
+  }
+
+  return { valid: true, config };
+}
+
+/**
+ * Apply a user's band overrides, caps and buy-only mode to a strategy decision
+ */
+export function applyStrategyConfig(
+  decision: DCADecision,
+  fgValue: number,
+  config?: StrategyConfig | null
+): DCADecision {
+  if (!config) return decision;
+
+  let result = decision;
+  const band = getFearGreedBand(fgValue);
+  const override = band ? config.bands?.[band] : undefined;
+
+  if (band && override?.percentage !== undefined) {
+    result = override.percentage === 0
+      ? { action: 'hold', percentage: 0, reason: `${getFearGreedClassification(fgValue)} - Hold (custom)` }
+      : {
+          action: getBandAction(band),
+          percentage: override.percentage,
+          reason: `${getFearGreedClassification(fgValue)} - ${getBandAction(band) === 'buy' ? 'Buy' : 'Sell'} ${override.percentage}% (custom)`,
+        };
+  }
+
+  if (config.buyOnly && result.action === 'sell') {
+    return { action: 'hold', percentage: 0, reason: `${getFearGreedClassification(fgValue)} - Hold (buy-only mode)` };
+  }
+
+  if (result.action !== 'hold' && override?.maxAmountUsd !== undefined) {
+    result = { ...result, maxAmountUsd: override.maxAmountUsd };
+  }
+
+  return result;
+}
+
+/**
+ * Calculate the DCA decision for a F&G value using the given strategy (default: ladder),
+ * optionally adjusted by the user's strategy config
+ */
+export function calculateDecision(
+  fgValue: number,
+  strategyId?: string | null,
+  context: Omit<StrategyInput, 'fgValue'> = {},
+  config?: StrategyConfig | null
+): DCADecision {
+  const decision = getStrategy(strategyId).decide({ ...context, fgValue });
+  // Band overrides must not turn a buy-only strategy into a seller
+  return applyStrategyConfig(decision, fgValue, isBuyOnlyStrategy(strategyId) ? { ...config, buyOnly: true } : config);
+}
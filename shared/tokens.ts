@@ -0,0 +1,213 @@
+// ============ TOKEN REGISTRY & TARGET BASKETS ============
+// Tokens the DCA swaps on Base and the per-user basket of target assets it buys into.
+// The executor resolves addresses, decimals and prices from here, and the frontend
+// builds the delegation's allowedTargets from the same registry. Dependency-free,
+// like strategies.ts.
+
+export type HexAddress = `0x${string}`;
+
+// Permit2 - token approvals for the Universal Router go through it
+export const PERMIT2_ADDRESS: HexAddress = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+// Uniswap V4 Universal Router (used by the Trading API)
+export const UNISWAP_UNIVERSAL_ROUTER: HexAddress = '0x6fF5693b99212Da76ad316178A184AB56D299b43';
+
+// Uniswap V3 SwapRouter02 - direct single-pool swaps priced by the on-chain QuoterV2
+export const UNISWAP_SWAP_ROUTER_02: HexAddress = '0x2626664c2603336E57B271c5C0b26F421741e481';
+
+// Odos Router V2 - the aggregator venue
+export const ODOS_ROUTER_V2: HexAddress = '0x19cEeAd7105607Cd444F5ad10dd51356436095a1';
+
+// Routers that pull tokens with a plain ERC20 allowance rather than through Permit2.
+// Each needs one approval per token, made in the first swap routed to it.
+export const DIRECT_APPROVAL_ROUTERS: HexAddress[] = [UNISWAP_SWAP_ROUTER_02, ODOS_ROUTER_V2];
+
+const SWAP_ROUTERS: HexAddress[] = [UNISWAP_UNIVERSAL_ROUTER, ...DIRECT_APPROVAL_ROUTERS];
+
+// 'stable': valued at $1. 'oracle': valued by the price service in prices.ts
+// (its Chainlink feed, or the TWAP of its USDC pool).
+export type PriceSource = 'stable' | 'oracle';
+
+export interface TokenInfo {
+  symbol: string;
+  heldSymbol: string; // What the wallet actually holds and swaps (WETH for the ETH target)
+  address: HexAddress;
+  decimals: number;
+  priceSource: PriceSource;
+  minSwapAmount: string; // Smallest swap worth sending, in whole tokens (below it gas outweighs the trade)
+  allowedRouters: HexAddress[]; // Routers a swap of this token may be sent to
+  targetable: boolean; // Can be part of a target basket (USDC is what baskets are bought with)
+}
+
+export type TokenSymbol = 'USDC' | 'ETH' | 'cbBTC';
+
+export const TOKEN_REGISTRY: Record<TokenSymbol, TokenInfo> = {
+  USDC: {
+    symbol: 'USDC',
+    heldSymbol: 'USDC',
+    address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    decimals: 6,
+    priceSource: 'stable',
+    minSwapAmount: '0.10',
+    allowedRouters: SWAP_ROUTERS,
+    targetable: false,
+  },
+  // Buys deliver WETH, so the ETH target is held and sold as WETH
+  ETH: {
+    symbol: 'ETH',
+    heldSymbol: 'WETH',
+    address: '0x4200000000000000000000000000000000000006',
+    decimals: 18,
+    priceSource: 'oracle',
+    minSwapAmount: '0.00005',
+    allowedRouters: SWAP_ROUTERS,
+    targetable: true,
+  },
+  cbBTC: {
+    symbol: 'cbBTC',
+    heldSymbol: 'cbBTC',
+    address: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf',
+    decimals: 8,
+    priceSource: 'oracle',
+    minSwapAmount: '0.000002',
+    allowedRouters: SWAP_ROUTERS,
+    targetable: true,
+  },
+};
+
+export const TARGET_ASSETS = (Object.keys(TOKEN_REGISTRY) as TokenSymbol[])
+  .filter(symbol => TOKEN_REGISTRY[symbol].targetable);
+
+export const DEFAULT_TARGET_ASSET: TokenSymbol = 'ETH';
+
+/**
+ * Registry entry for a symbol, case-insensitive ('cbbtc' → cbBTC), or null if unknown
+ */
+export function findToken(symbol: string | null | undefined): TokenInfo | null {
+  if (!symbol) return null;
+  const key = (Object.keys(TOKEN_REGISTRY) as TokenSymbol[])
+    .find(candidate => candidate.toLowerCase() === symbol.toLowerCase());
+  return key ? TOKEN_REGISTRY[key] : null;
+}
+
+export function findTokenByAddress(address: string): TokenInfo | null {
+  return Object.values(TOKEN_REGISTRY).find(token => token.address.toLowerCase() === address.toLowerCase()) ?? null;
+}
+
+/**
+ * Target asset for a stored target_asset value - unknown or missing values mean ETH,
+ * which every delegation targeted before cbBTC was added
+ */
+export function getTargetToken(symbol: string | null | undefined): TokenInfo {
+  const token = findToken(symbol);
+  return token?.targetable ? token : TOKEN_REGISTRY[DEFAULT_TARGET_ASSET];
+}
+
+/**
+ * Everything a delegation must allow calls to: each token (approve, fee transfer),
+ * Permit2 and every router a registered token may be swapped through
+ */
+export function getDelegationTargets(): HexAddress[] {
+  const tokens: TokenInfo[] = Object.values(TOKEN_REGISTRY);
+  const routers = tokens.flatMap(token => token.allowedRouters);
+  return Array.from(new Set([...routers, PERMIT2_ADDRESS, ...tokens.map(token => token.address)]));
+}
+
+/**
+ * What a swap delegation signed with scoped approvals must allow calls to: the routers
+ * that pull tokens through Permit2 (the only spender those approvals may name) and WETH,
+ * whose deposit() wraps native ETH before a sell
+ */
+export function getSwapDelegationTargets(): HexAddress[] {
+  const routers = Object.values(TOKEN_REGISTRY).flatMap(token => token.allowedRouters)
+    .filter(router => !DIRECT_APPROVAL_ROUTERS.includes(router));
+  return Array.from(new Set([...routers, TOKEN_REGISTRY.ETH.address]));
+}
+
+// ============ TARGET BASKETS ============
+
+export interface BasketAllocation {
+  asset: string; // Targetable registry symbol
+  weight: number; // Whole percent; a basket's weights sum to 100
+}
+
+export type TargetBasket = BasketAllocation[];
+
+export type BasketValidation =
+  | { valid: true; basket: TargetBasket; error?: undefined }
+  | { valid: false; basket?: undefined; error: string };
+
+/**
+ * Validate an untrusted basket (API body or DB JSON) and return a normalised copy
+ */
+export function validateBasket(raw: unknown): BasketValidation {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { valid: false, error: 'Basket must be a non-empty list of { asset, weight }' };
+  }
+
+  const basket: TargetBasket = [];
+  for (const entry of raw) {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return { valid: false, error: 'Basket entries must be objects' };
+    }
+    const { asset, weight, ...rest } = entry as Record<string, unknown>;
+    if (Object.keys(rest).length > 0) {
+      return { valid: false, error: `Unknown basket field: ${Object.keys(rest)[0]}` };
+    }
+    const token = typeof asset === 'string' ? findToken(asset) : null;
+    if (!token?.targetable) {
+      return { valid: false, error: `asset must be one of ${TARGET_ASSETS.join(', ')}` };
+    }
+    if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1 || weight > 100) {
+      return { valid: false, error: 'weight must be a whole percent between 1 and 100' };
+    }
+    if (basket.some(allocation => allocation.asset === token.symbol)) {
+      return { valid: false, error: `${token.symbol} appears more than once` };
+    }
+    basket.push({ asset: token.symbol, weight });
+  }
+
+  const total = basket.reduce((sum, allocation) => sum + allocation.weight, 0);
+  if (total !== 100) {
+    return { valid: false, error: `Weights must sum to 100 (got ${total})` };
+  }
+  return { valid: true, basket };
+}
+
+/**
+ * A delegation's basket: its stored target_basket, or all-in on its single target_asset
+ * (delegations from before baskets, or a stored basket that no longer validates)
+ */
+export function getBasket(targetBasket: unknown, targetAsset?: string | null): TargetBasket {
+  if (targetBasket !== null && targetBasket !== undefined) {
+    const validation = validateBasket(targetBasket);
+    if (validation.valid) return validation.basket;
+  }
+  return [{ asset: getTargetToken(targetAsset).symbol, weight: 100 }];
+}
+
+/**
+ * Largest allocation - stored as target_asset for readers that predate baskets
+ */
+export function getPrimaryAsset(basket: TargetBasket): string {
+  return basket.reduce((primary, allocation) => (allocation.weight > primary.weight ? allocation : primary)).asset;
+}
+
+/**
+ * Split a buy across the basket by weight. Rounding dust goes to the last allocation,
+ * so the legs always add up to `amount`.
+ */
+export function splitByWeight(amount: bigint, basket: TargetBasket): bigint[] {
+  const legs = basket.map(allocation => (amount * BigInt(allocation.weight)) / 100n);
+  const dust = amount - legs.reduce((sum, leg) => sum + leg, 0n);
+  legs[legs.length - 1] += dust;
+  return legs;
+}
+
+/**
+ * Short description for the UI, e.g. "60% ETH / 40% cbBTC"
+ */
+export function describeBasket(basket: TargetBasket): string {
+  if (basket.length === 1) return basket[0].asset;
+  return basket.map(allocation => `${allocation.weight}% ${allocation.asset}`).join(' / ');
+}
@@ -0,0 +1,50 @@
+// ============ DELEGATED WITHDRAWALS ============
+// The withdraw delegation is signed with the swap delegation (frontend useDelegation) and
+// redeemed by /api/withdraw, so the backend can pay a withdrawal's gas: ERC20 transfer()
+// on registered tokens, recipient (first argument) pinned to the owner's EOA. The swap
+// delegation itself only allows router execute() and WETH deposit(). Dependency-free,
+// like tokens.ts - callers build and decode caveats with their own kit.
+
+import { TOKEN_REGISTRY, type HexAddress } from './tokens';
+
+export const WITHDRAW_METHOD = 'transfer(address,uint256)';
+
+// Byte offset of transfer()'s recipient in its calldata (after the selector)
+const RECIPIENT_OFFSET = 4;
+
+/**
+ * An address as one ABI word, the form AllowedCalldata compares against
+ */
+export function padAddress(address: HexAddress): HexAddress {
+  return `0x${address.slice(2).toLowerCase().padStart(64, '0')}`;
+}
+
+/**
+ * The withdraw delegation's functionCall scope for `owner`
+ */
+export function getWithdrawDelegationScope(owner: HexAddress) {
+  return {
+    type: 'functionCall' as const,
+    targets: Object.values(TOKEN_REGISTRY).map(token => token.address),
+    selectors: [WITHDRAW_METHOD],
+    allowedCalldata: [{ startIndex: RECIPIENT_OFFSET, value: padAddress(owner) }],
+  };
+}
+
+/**
+ * The recipient a withdraw delegation pins (AllowedCalldata terms: a 32-byte start index,
+ * then the expected bytes), or null if none of its caveats pins one
+ */
+export function getPinnedWithdrawRecipient(
+  delegation: { caveats?: { enforcer: string; terms: string }[] },
+  allowedCalldataEnforcer: string
+): HexAddress | null {
+  for (const caveat of delegation.caveats ?? []) {
+    if (caveat.enforcer.toLowerCase() !== allowedCalldataEnforcer.toLowerCase()) continue;
+    const terms = caveat.terms.toLowerCase();
+    if (terms.length !== 2 + 64 + 64 || Number.parseInt(terms.slice(2, 66), 16) !== RECIPIENT_OFFSET) continue;
+    if (!/^0{24}$/.test(terms.slice(66, 90))) continue; // Not an address word
+    return `0x${terms.slice(66 + 24)}`;
+  }
+  return null;
+}
@@ -16,6 +16,7 @@ import {
 } from 'npm:viem@2.21.0'
 import { base } from 'npm:viem@2.21.0/chains'
 import { privateKeyToAccount } from 'npm:viem@2.21.0/accounts'
+import { calculateDecision, validateStrategyConfig, type StrategyConfig } from '../_shared/strategies.ts'
 import { 
   createSmartAccountClient, 
   ENTRYPOINT_ADDRESS_V07,
@@ -25,13 +26,6 @@ import { pimlicoBundlerActions, pimlicoPaymasterActions } from 'npm:permissionle
 import { encodeNonce } from 'npm:permissionless@0.3.4/utils'
 
 // Configuration
-const FG_THRESHOLDS = {
-  EXTREME_FEAR_MAX: 25,
-  FEAR_MAX: 45,
-  NEUTRAL_MAX: 54,
-  GREED_MAX: 75,
-}
-
 const ADDRESSES = {
   WETH: '0x4200000000000000000000000000000000000006' as Address,
   USDC: '0x833589fCD6eDb6E08f4c7c32D4f71b54bdA02913' as Address,
@@ -39,18 +33,21 @@ const ADDRESSES = {
   SIMPLE_ACCOUNT_FACTORY: '0x91E60e0613810449d098b0b5Ec8b51A0FE8c8985' as Address,
 }
 
+// This function has always sold 2.5% in every greed band (the shared ladder sells 5% in
+// Extreme Greed). Kept unless the delegation's own config overrides the band.
+const HALF_GREED_BANDS: StrategyConfig['bands'] = {
+  greed: { percentage: 2.5 },
+  extremeGreed: { percentage: 2.5 },
+}
+
 // Helper functions
-function calculateDecision(fgValue: number) {
-  if (fgValue <= FG_THRESHOLDS.EXTREME_FEAR_MAX) {
-    return { action: 'buy', percentage: 5, reason: 'Extreme Fear - Buy 5%' }
+function getDelegationConfig(delegation: { user_address: string; strategy: string | null; strategy_config: unknown }): StrategyConfig {
+  const configResult = validateStrategyConfig(delegation.strategy_config, delegation.strategy)
+  if (!configResult.valid) {
+    console.warn(`Ignoring invalid strategy config for ${delegation.user_address}: ${configResult.error}`)
   }
-  if (fgValue <= FG_THRESHOLDS.FEAR_MAX) {
-    return { action: 'buy', percentage: 2.5, reason: 'Fear - Buy 2.5%' }
-  }
-  if (fgValue <= FG_THRESHOLDS.NEUTRAL_MAX) {
-    return { action: 'hold', percentage: 0, reason: 'Neutral - Hold' }
-  }
-  return { action: 'sell', percentage: 2.5, reason: 'Greed - Sell 2.5%' }
+  const config = configResult.valid ? configResult.config : {}
+  return { ...config, bands: { ...HALF_GREED_BANDS, ...config.bands } }
 }
 
 function calculateFee(amount: bigint): bigint {
@@ -87,9 +84,22 @@ serve(async (req) => {
     const fgData = await fgResponse.json()
     const fgValue = parseInt(fgData.data[0].value)
     
-    const decision = calculateDecision(fgValue)
-    
-    console.log(`F&G: ${fgValue}, Decision: ${decision.action}`)
+    // Each delegation runs its own strategy and config
+    const { data: delegations, error: delegationsError } = await supabase
+      .from('delegations')
+      .select('user_address, strategy, strategy_config')
+      .gt('expires_at', new Date().toISOString())
+      .is('revoked_at', null)
+    if (delegationsError) {
+      throw new Error(`Failed to load delegations: ${delegationsError.message}`)
+    }
+
+    const decisions = ((delegations ?? []) as { user_address: string; strategy: string | null; strategy_config: unknown }[])
+      .map((delegation) => {
+        const decision = calculateDecision(fgValue, delegation.strategy, {}, getDelegationConfig(delegation))
+        console.log(`F&G: ${fgValue}, ${delegation.user_address}: ${decision.action} ${decision.percentage}%`)
+        return { userAddress: delegation.user_address, action: decision.action, percentage: decision.percentage }
+      })
 
     return new Response(
       JSON.stringify({
@@ -97,7 +107,7 @@ serve(async (req) => {
         message: 'Half function works!',
         backendAccount: backendAccount.address,
         fgValue,
-        decision: decision.action,
+        decisions,
       }),
       { headers: { 'Content-Type': 'application/json' } }
     )
@@ -9,28 +9,21 @@ import {
 } from 'npm:viem@2.21.0'
 import { base } from 'npm:viem@2.21.0/chains'
 import { privateKeyToAccount } from 'npm:viem@2.21.0/accounts'
+import { calculateDecision, validateStrategyConfig, type DCADecision } from '../_shared/strategies.ts'
 
-const FG_THRESHOLDS = {
-  EXTREME_FEAR_MAX: 25,
-  FEAR_MAX: 45,
-  NEUTRAL_MAX: 54,
-  GREED_MAX: 75,
+interface DelegationStrategyRow {
+  user_address: string
+  strategy: string | null
+  strategy_config: unknown
 }
 
-function calculateDecision(fgValue: number) {
-  if (fgValue <= FG_THRESHOLDS.EXTREME_FEAR_MAX) {
-    return { action: 'buy', percentage: 5, reason: 'Extreme Fear - Buy 5%' }
+// Each delegation runs its own strategy and config, as the backend executor does
+function getDelegationDecision(fgValue: number, delegation: DelegationStrategyRow): DCADecision {
+  const configResult = validateStrategyConfig(delegation.strategy_config, delegation.strategy)
+  if (!configResult.valid) {
+    console.warn(`Ignoring invalid strategy config for ${delegation.user_address}: ${configResult.error}`)
   }
-  if (fgValue <= FG_THRESHOLDS.FEAR_MAX) {
-    return { action: 'buy', percentage: 2.5, reason: 'Fear - Buy 2.5%' }
-  }
-  if (fgValue <= FG_THRESHOLDS.NEUTRAL_MAX) {
-    return { action: 'hold', percentage: 0, reason: 'Neutral - Hold' }
-  }
-  if (fgValue <= FG_THRESHOLDS.GREED_MAX) {
-    return { action: 'sell', percentage: 2.5, reason: 'Greed - Sell 2.5%' }
-  }
-  return { action: 'sell', percentage: 5, reason: 'Extreme Greed - Sell 5%' }
+  return calculateDecision(fgValue, delegation.strategy, {}, configResult.valid ? configResult.config : null)
 }
 
 serve(async (req) => {
@@ -70,15 +63,30 @@ serve(async (req) => {
 
     console.log(`Fear & Greed: ${fgValue} (${fgClassification})`)
 
-    const decision = calculateDecision(fgValue)
-    console.log(`Decision: ${decision.reason}`)
+    const { data: delegations, error: delegationsError } = await supabase
+      .from('delegations')
+      .select('user_address, strategy, strategy_config')
+      .gt('expires_at', new Date().toISOString())
+      .is('revoked_at', null)
+    if (delegationsError) {
+      throw new Error(`Failed to load delegations: ${delegationsError.message}`)
+    }
+
+    const decisions = ((delegations ?? []) as DelegationStrategyRow[]).map((delegation) => ({
+      userAddress: delegation.user_address,
+      ...getDelegationDecision(fgValue, delegation),
+    }))
+    for (const decision of decisions) {
+      console.log(`Decision for ${decision.userAddress}: ${decision.reason}`)
+    }
+    const trades = decisions.filter((decision) => decision.action !== 'hold')
 
-    if (decision.action === 'hold') {
+    if (trades.length === 0) {
       await supabase.from('dca_daily_executions').insert({
         execution_date: new Date().toISOString().split('T')[0],
         fear_greed_index: fgValue,
-        decision: decision.action,
-        decision_reason: decision.reason,
+        decision: 'hold',
+        decision_reason: `No delegation trades at F&G ${fgValue}`,
         total_swaps: 0,
         successful_swaps: 0,
         total_volume_usd: '0',
@@ -90,19 +98,18 @@ serve(async (req) => {
           success: true, 
           action: 'hold',
           fgValue,
-          message: 'Market neutral - no swaps executed' 
+          message: 'Every delegation holds - no swaps executed' 
         }),
         { headers: { 'Content-Type': 'application/json' } }
       )
     }
 
-    // For now, just return the decision without executing swaps
+    // For now, just return the decisions without executing swaps
     return new Response(
       JSON.stringify({ 
         success: true, 
-        action: decision.action,
         fgValue,
-        reason: decision.reason,
+        decisions: trades,
         message: 'Simplified version - swap execution not implemented yet',
       }),
       { headers: { 'Content-Type': 'application/json' } }
@@ -0,0 +1,166 @@
+-- Migration: Baseline schema
+-- Date: 2026-10-19
+-- Reason: The core tables were created by hand in the dashboard and never had DDL in
+--         the repo. This reproduces them as they stood before the later migrations,
+--         so a fresh Supabase stack can be built from supabase/migrations alone.
+--         Every statement is idempotent: on the production database it is a no-op.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============ DELEGATIONS ============
+-- One signed delegation per user EOA (the API upserts on user_address)
+
+CREATE TABLE IF NOT EXISTS delegations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_address TEXT NOT NULL UNIQUE,  -- Delegator EOA, lowercase
+  smart_account_address TEXT,         -- Smart account holding the funds, lowercase
+  delegation_hash TEXT NOT NULL,
+  delegation_signature TEXT NOT NULL,
+  delegation_data JSONB NOT NULL,     -- Signed delegation as produced by the frontend
+  max_amount_per_swap TEXT NOT NULL DEFAULT '1000000000', -- Base units (1000 USDC)
+  expires_at TIMESTAMPTZ NOT NULL,
+  target_asset TEXT NOT NULL DEFAULT 'ETH' CHECK (target_asset IN ('ETH', 'cbBTC')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delegations_smart_account ON delegations (smart_account_address);
+CREATE INDEX IF NOT EXISTS idx_delegations_expires_at ON delegations (expires_at);
+
+-- ============ EXECUTIONS ============
+-- Amounts are base-unit integers stored as text so they survive JSON round trips
+
+CREATE TABLE IF NOT EXISTS dca_executions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_address TEXT NOT NULL,
+  fear_greed_index INTEGER,
+  action TEXT NOT NULL CHECK (action IN ('buy', 'sell', 'hold', 'rebalance')),
+  amount_in TEXT,
+  amount_out TEXT,
+  fee_collected TEXT,
+  tx_hash TEXT,
+  status TEXT NOT NULL,
+  error_message TEXT,
+  error_type TEXT,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'dca_executions_status_check') THEN
+    ALTER TABLE dca_executions
+    ADD CONSTRAINT dca_executions_status_check
+    CHECK (status IN ('pending', 'success', 'failed', 'retry_failed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_dca_executions_user_created ON dca_executions (user_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_dca_executions_status_created ON dca_executions (status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS dca_failed_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delegation_id TEXT,
+  user_address TEXT NOT NULL,
+  stage TEXT NOT NULL,            -- Pipeline stage that failed (quote, approval, swap, ...)
+  error_type TEXT,
+  error_message TEXT,
+  retryable BOOLEAN,
+  context TEXT,                   -- JSON, bigints as hex
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dca_failed_attempts_created ON dca_failed_attempts (created_at DESC);
+
+-- Daily summary written by the Supabase Edge Function executor
+CREATE TABLE IF NOT EXISTS dca_daily_executions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  execution_date DATE NOT NULL,
+  fear_greed_index INTEGER,
+  decision TEXT,
+  decision_reason TEXT,
+  total_swaps INTEGER NOT NULL DEFAULT 0,
+  successful_swaps INTEGER NOT NULL DEFAULT 0,
+  total_volume_usd NUMERIC NOT NULL DEFAULT 0,
+  total_fees_usd NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dca_daily_executions_date ON dca_daily_executions (execution_date DESC);
+
+-- ============ BALANCE HISTORY ============
+
+CREATE TABLE IF NOT EXISTS balance_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_address TEXT NOT NULL,
+  eth_balance NUMERIC NOT NULL DEFAULT 0,
+  usdc_balance NUMERIC NOT NULL DEFAULT 0,
+  total_usd NUMERIC NOT NULL,
+  eth_price NUMERIC NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============ PROTOCOL STATS ============
+-- Single row, incremented by the executor after each run
+
+CREATE TABLE IF NOT EXISTS protocol_stats (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  total_volume NUMERIC NOT NULL DEFAULT 0, -- USDC base units
+  total_fees NUMERIC NOT NULL DEFAULT 0,   -- USDC base units
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO protocol_stats (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION increment_protocol_stats(volume_delta NUMERIC, fees_delta NUMERIC)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO protocol_stats (id, total_volume, total_fees, updated_at)
+  VALUES (1, volume_delta, fees_delta, NOW())
+  ON CONFLICT (id) DO UPDATE
+  SET total_volume = protocol_stats.total_volume + EXCLUDED.total_volume,
+      total_fees = protocol_stats.total_fees + EXCLUDED.total_fees,
+      updated_at = NOW();
+$$;
+
+REVOKE EXECUTE ON FUNCTION increment_protocol_stats(NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION increment_protocol_stats(NUMERIC, NUMERIC) TO service_role;
+
+-- ============ ROW LEVEL SECURITY ============
+-- RLS on every table. The backend and API routes use the service role, which bypasses
+-- RLS. The anon key may only read data that is already public on-chain or aggregate.
+-- Delegations (signatures, strategy settings) and failure logs are service-role only.
+
+ALTER TABLE delegations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dca_executions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dca_failed_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dca_daily_executions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE balance_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE protocol_stats ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public read executions" ON dca_executions;
+CREATE POLICY "Public read executions"
+ON dca_executions FOR SELECT
+TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Public read daily executions" ON dca_daily_executions;
+CREATE POLICY "Public read daily executions"
+ON dca_daily_executions FOR SELECT
+TO anon, authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Public read protocol stats" ON protocol_stats;
+CREATE POLICY "Public read protocol stats"
+ON protocol_stats FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Verify tables were created
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+ORDER BY table_name;
@@ -0,0 +1,12 @@
+-- Migration: Add strategy column to delegations
+-- Date: 2026-10-19
+-- Reason: Per-delegation strategy selection (see shared/strategies.ts)
+
+-- Strategy id from the shared registry ('ladder', 'linear', 'sigmoid', 'contrarian-buy-only')
+ALTER TABLE delegations
+ADD COLUMN IF NOT EXISTS strategy TEXT NOT NULL DEFAULT 'ladder';
+
+-- Verify column was added
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'delegations' AND column_name = 'strategy';
@@ -0,0 +1,17 @@
+-- Migration: Add per-user strategy parameters to delegations
+-- Date: 2026-10-19
+-- Reason: Users choose their own band percentages, caps and buy-only mode
+--         (validated by validateStrategyConfig in shared/strategies.ts)
+
+-- Base percentage chosen in the setup UI (informational; bands below are authoritative)
+ALTER TABLE delegations
+ADD COLUMN IF NOT EXISTS base_percentage NUMERIC;
+
+-- { "buyOnly"?: boolean, "bands"?: { "<band>": { "percentage"?: number, "maxAmountUsd"?: number } } }
+ALTER TABLE delegations
+ADD COLUMN IF NOT EXISTS strategy_config JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Verify columns were added
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'delegations' AND column_name IN ('base_percentage', 'strategy_config');
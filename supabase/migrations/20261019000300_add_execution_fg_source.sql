@@ -0,0 +1,12 @@
+-- Migration: Add fg_source column to dca_executions
+-- Date: 2026-10-19
+-- Reason: Record which Fear & Greed oracle provider(s) produced each execution's index value
+
+-- 'alternative.me', 'coinmarketcap', or 'median(a,b,...)' when several fresh sources agreed
+ALTER TABLE dca_executions
+ADD COLUMN IF NOT EXISTS fg_source TEXT;
+
+-- Verify column was added
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'dca_executions' AND column_name = 'fg_source';
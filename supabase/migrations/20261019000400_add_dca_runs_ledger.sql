@@ -0,0 +1,47 @@
+-- Migration: Add dca_runs ledger and per-wallet run items
+-- Date: 2026-10-19
+-- Reason: Replace the "any execution since UTC midnight" idempotency guard with a durable
+--         run record so a crashed run resumes only the wallets without a terminal outcome
+
+CREATE TABLE IF NOT EXISTS dca_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_date DATE NOT NULL, -- Schedule slot (UTC day)
+  state TEXT NOT NULL DEFAULT 'started'
+    CHECK (state IN ('started', 'approvals', 'swaps', 'retries', 'completed', 'aborted')),
+  -- F&G reading the run started with; a resumed run reuses it
+  fg_value INTEGER NOT NULL,
+  fg_classification TEXT NOT NULL,
+  fg_source TEXT NOT NULL,
+  fg_history INTEGER[] NOT NULL DEFAULT '{}',
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+-- At most one open run per day, so overlapping cron invocations cannot both start one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dca_runs_open_slot
+ON dca_runs (run_date)
+WHERE state NOT IN ('completed', 'aborted');
+
+CREATE INDEX IF NOT EXISTS idx_dca_runs_run_date ON dca_runs (run_date, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS dca_run_items (
+  run_id UUID NOT NULL REFERENCES dca_runs(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL, -- Smart account, lowercase
+  delegation_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'success', 'failed', 'skipped')),
+  detail TEXT, -- tx hash on success, error or skip reason otherwise
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (run_id, wallet_address)
+);
+
+-- Backend-only tables: service role bypasses RLS, nothing else gets access
+ALTER TABLE dca_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dca_run_items ENABLE ROW LEVEL SECURITY;
+
+-- Verify tables were created
+SELECT table_name
+FROM information_schema.tables
+WHERE table_name IN ('dca_runs', 'dca_run_items');
@@ -0,0 +1,35 @@
+-- Migration: Add per-wallet execution keys and submission lifecycle to dca_executions
+-- Date: 2026-10-19
+-- Reason: The parallel UserOp path and the end-of-run retry could both send a swap for the
+--         same wallet. A swap now claims a unique (wallet, schedule slot, action) key with a
+--         'pending' row before it is submitted: pending → submitted → success (confirmed).
+
+-- '<wallet>:<YYYY-MM-DD>:<buy|sell>'; set to NULL when an attempt fails so it can be claimed again
+ALTER TABLE dca_executions
+ADD COLUMN IF NOT EXISTS execution_key TEXT;
+
+-- Hash of the signed UserOperation, known before submission (used for reconciliation)
+ALTER TABLE dca_executions
+ADD COLUMN IF NOT EXISTS user_op_hash TEXT;
+
+ALTER TABLE dca_executions
+ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ;
+
+ALTER TABLE dca_executions
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+
+-- NULLs are distinct, so released keys and legacy rows never conflict
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dca_executions_execution_key
+ON dca_executions (execution_key);
+
+-- Allow the in-flight states alongside the existing ones
+ALTER TABLE dca_executions DROP CONSTRAINT IF EXISTS dca_executions_status_check;
+ALTER TABLE dca_executions
+ADD CONSTRAINT dca_executions_status_check
+CHECK (status IN ('pending', 'submitted', 'success', 'failed', 'retry_failed'));
+
+-- Verify columns were added
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'dca_executions'
+  AND column_name IN ('execution_key', 'user_op_hash', 'confirmed_at', 'updated_at');
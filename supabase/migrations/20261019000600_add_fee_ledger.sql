@@ -0,0 +1,35 @@
+-- Migration: Add fee_ledger for per-wallet fee accounting
+-- Date: 2026-10-19
+-- Reason: Fees now move inside each swap's UserOp and are swept to EMBER staking.
+--         The ledger records accrued vs collected fees with the swap and deposit tx hashes
+--         so fee-report.ts can reconcile them against the chain.
+
+CREATE TABLE IF NOT EXISTS fee_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_address TEXT NOT NULL, -- Smart account that paid the fee, lowercase
+  user_address TEXT NOT NULL,
+  execution_key TEXT,           -- dca_executions.execution_key of the swap, when keyed
+  token TEXT NOT NULL,          -- Fee token (the swap's input token), lowercase
+  accrued_amount NUMERIC NOT NULL,  -- Fee computed for the swap (base units)
+  collected_amount NUMERIC,         -- Fee transfer read from the swap receipt; NULL until verified
+  collect_tx_hash TEXT NOT NULL,    -- Swap tx that carried the fee transfer
+  deposit_tx_hash TEXT,             -- depositRewards tx that moved it to staking
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deposited_at TIMESTAMPTZ,
+  UNIQUE (collect_tx_hash, token)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_ledger_wallet ON fee_ledger (wallet_address, created_at DESC);
+
+-- Fees awaiting the next sweep
+CREATE INDEX IF NOT EXISTS idx_fee_ledger_undeposited
+ON fee_ledger (token)
+WHERE deposit_tx_hash IS NULL;
+
+-- Backend-only table: service role bypasses RLS, nothing else gets access
+ALTER TABLE fee_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Verify table was created
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'fee_ledger';
@@ -0,0 +1,36 @@
+-- Migration: Add replay protection and recipient whitelist for signed API requests
+-- Date: 2026-10-19
+-- Reason: /api/withdraw and DELETE /api/delegation now require an EIP-712 request signed
+--         by the delegator. Each signature carries a random nonce that may be used once;
+--         withdrawals go to the delegator's own addresses unless whitelisted here.
+
+CREATE TABLE IF NOT EXISTS request_nonces (
+  signer TEXT NOT NULL,          -- Delegator address that signed the request, lowercase
+  nonce TEXT NOT NULL,           -- bytes32 hex, lowercase
+  action TEXT NOT NULL,          -- EIP-712 primary type (Withdraw, RevokeDelegation)
+  expires_at TIMESTAMPTZ NOT NULL, -- Request deadline; rows past it can be pruned
+  used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (signer, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_nonces_expires ON request_nonces (expires_at);
+
+-- Extra withdrawal destinations per user. Added by operators after confirming
+-- the request with the user out of band; there is no API that writes here.
+CREATE TABLE IF NOT EXISTS withdrawal_recipients (
+  user_address TEXT NOT NULL,      -- Delegator EOA, lowercase
+  recipient_address TEXT NOT NULL, -- lowercase
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_address, recipient_address)
+);
+
+-- Server-only tables: service role bypasses RLS, nothing else gets access
+ALTER TABLE request_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE withdrawal_recipients ENABLE ROW LEVEL SECURITY;
+
+-- Verify tables were created
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('request_nonces', 'withdrawal_recipients')
+ORDER BY table_name, ordinal_position;
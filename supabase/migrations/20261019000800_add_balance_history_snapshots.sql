@@ -0,0 +1,55 @@
+-- Migration: Balance snapshots in balance_history
+-- Date: 2026-10-19
+-- Reason: Nothing wrote balance_history, so the dashboard chart rebuilt value from
+--         executions at a fallback ETH price. The backend now records per-wallet balances
+--         and the prices used after each DCA run, on its own schedule, and as a backfill.
+--         Amounts are human units (not base units).
+
+CREATE TABLE IF NOT EXISTS balance_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_address TEXT NOT NULL,
+  eth_balance NUMERIC NOT NULL DEFAULT 0,   -- Native ETH
+  usdc_balance NUMERIC NOT NULL DEFAULT 0,
+  total_usd NUMERIC NOT NULL,
+  eth_price NUMERIC NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE balance_history
+ADD COLUMN IF NOT EXISTS smart_account_address TEXT,
+ADD COLUMN IF NOT EXISTS snapshot_date DATE,
+ADD COLUMN IF NOT EXISTS source TEXT,
+ADD COLUMN IF NOT EXISTS weth_balance NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS cbbtc_balance NUMERIC NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS btc_price NUMERIC; -- NULL when no cbBTC price was available
+
+-- dca: after a DCA run | scheduled: standalone job | backfill: reconstructed from dca_executions
+ALTER TABLE balance_history
+DROP CONSTRAINT IF EXISTS balance_history_source_check;
+ALTER TABLE balance_history
+ADD CONSTRAINT balance_history_source_check
+CHECK (source IS NULL OR source IN ('dca', 'scheduled', 'backfill'));
+
+-- One snapshot per wallet, day and source; re-runs overwrite
+CREATE UNIQUE INDEX IF NOT EXISTS idx_balance_history_wallet_day_source
+ON balance_history (smart_account_address, snapshot_date, source);
+
+CREATE INDEX IF NOT EXISTS idx_balance_history_wallet_recorded
+ON balance_history (smart_account_address, recorded_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_balance_history_user_recorded
+ON balance_history (user_address, recorded_at DESC);
+
+-- The dashboard reads snapshots with the anon key; balances are public on-chain anyway.
+-- Writes stay with the service role.
+ALTER TABLE balance_history ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Public read balance history" ON balance_history;
+CREATE POLICY "Public read balance history"
+ON balance_history FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- Verify columns
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'balance_history';
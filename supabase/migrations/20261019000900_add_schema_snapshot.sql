@@ -0,0 +1,81 @@
+-- Migration: Schema snapshot RPC for drift checks
+-- Date: 2026-10-19
+-- Reason: backend/schema-drift.ts compares the live database against a fresh database
+--         built from supabase/migrations. Both sides describe themselves through this
+--         function, since PostgREST does not expose the catalogs.
+
+-- The cron log table predates RLS everywhere else
+ALTER TABLE IF EXISTS cron_execution_log ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION schema_snapshot()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+  SELECT jsonb_build_object(
+    'columns', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'table', c.table_name,
+        'name', c.column_name,
+        'type', c.data_type,
+        'nullable', c.is_nullable = 'YES',
+        'default', c.column_default
+      ) ORDER BY c.table_name, c.column_name), '[]'::jsonb)
+      FROM information_schema.columns c
+      WHERE c.table_schema = 'public'
+    ),
+    'indexes', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'table', i.tablename,
+        'name', i.indexname,
+        'definition', i.indexdef
+      ) ORDER BY i.tablename, i.indexname), '[]'::jsonb)
+      FROM pg_indexes i
+      WHERE i.schemaname = 'public'
+    ),
+    'constraints', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'table', con.conrelid::regclass::text,
+        'name', con.conname,
+        'definition', pg_get_constraintdef(con.oid)
+      ) ORDER BY con.conrelid::regclass::text, con.conname), '[]'::jsonb)
+      FROM pg_constraint con
+      WHERE con.connamespace = 'public'::regnamespace
+        AND con.contype IN ('p', 'u', 'c', 'f')
+    ),
+    'policies', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'table', p.tablename,
+        'name', p.policyname,
+        'definition', concat_ws(' ', p.cmd, array_to_string(p.roles, ','), p.qual, p.with_check)
+      ) ORDER BY p.tablename, p.policyname), '[]'::jsonb)
+      FROM pg_policies p
+      WHERE p.schemaname = 'public'
+    ),
+    'rls', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'table', cls.relname,
+        'enabled', cls.relrowsecurity
+      ) ORDER BY cls.relname), '[]'::jsonb)
+      FROM pg_class cls
+      WHERE cls.relnamespace = 'public'::regnamespace
+        AND cls.relkind = 'r'
+    ),
+    'functions', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'name', pro.proname,
+        'definition', pro.proname || '(' || pg_get_function_identity_arguments(pro.oid) || ') ' || pg_get_function_result(pro.oid)
+      ) ORDER BY pro.proname), '[]'::jsonb)
+      FROM pg_proc pro
+      WHERE pro.pronamespace = 'public'::regnamespace
+    )
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION schema_snapshot() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION schema_snapshot() TO service_role;
+
+-- Verify
+SELECT jsonb_object_keys(schema_snapshot());
@@ -0,0 +1,64 @@
+-- Migration: Per-wallet execution schedules
+-- Date: 2026-10-19
+-- Reason: Users pick their own cadence (daily, every N hours, weekly) and UTC window
+--         (shared/schedule.ts). The scheduler now ticks hourly; each tick is a dca_runs
+--         row and each run item records which of the wallet's schedule slots it settles.
+
+-- ============ DELEGATION SCHEDULE ============
+-- Existing delegations keep the old single 12:00 UTC run
+ALTER TABLE delegations
+ADD COLUMN IF NOT EXISTS schedule JSONB NOT NULL
+  DEFAULT '{"cadence": "daily", "windowStartHour": 12, "windowEndHour": 13}'::jsonb;
+
+-- ============ RUN LEDGER: ONE RUN PER TICK ============
+ALTER TABLE dca_runs
+ADD COLUMN IF NOT EXISTS run_slot TIMESTAMPTZ; -- Scheduler tick (UTC hour)
+
+-- Runs so far were the 12:00 UTC daily run
+UPDATE dca_runs SET run_slot = run_date + INTERVAL '12 hours' WHERE run_slot IS NULL;
+
+ALTER TABLE dca_runs ALTER COLUMN run_slot SET NOT NULL;
+
+-- At most one open run per tick, so overlapping invocations cannot both start one
+DROP INDEX IF EXISTS idx_dca_runs_open_slot;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dca_runs_open_run_slot
+ON dca_runs (run_slot)
+WHERE state NOT IN ('completed', 'aborted');
+
+CREATE INDEX IF NOT EXISTS idx_dca_runs_run_slot ON dca_runs (run_slot, started_at DESC);
+
+-- ============ RUN ITEMS: WALLET SCHEDULE SLOT ============
+-- A slot can span several ticks (e.g. every 6h); a terminal item for (wallet, slot)
+-- in any run means later ticks skip the wallet until its next slot
+ALTER TABLE dca_run_items
+ADD COLUMN IF NOT EXISTS schedule_slot TEXT; -- e.g. 2026-10-19T12:00Z (shared/schedule.ts formatSlot)
+
+UPDATE dca_run_items AS item
+SET schedule_slot = to_char(run.run_slot AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI"Z"')
+FROM dca_runs AS run
+WHERE item.run_id = run.id AND item.schedule_slot IS NULL;
+
+ALTER TABLE dca_run_items ALTER COLUMN schedule_slot SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_dca_run_items_wallet_slot
+ON dca_run_items (wallet_address, schedule_slot)
+WHERE status <> 'pending';
+
+-- ============ CRON: HOURLY TICK ============
+-- Replaces the 12:00 UTC daily job and its 11:55 pre-flight
+SELECT cron.unschedule(jobname)
+FROM cron.job
+WHERE jobname IN ('daily-dca-execution', 'dca-preflight-check');
+
+SELECT cron.schedule(
+  'dca-scheduler-tick',
+  '0 * * * *',                     -- Top of every hour (UTC)
+  $$SELECT invoke_dca_executor()$$
+);
+
+-- Verify
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'delegations' AND column_name = 'schedule')
+   OR (table_name = 'dca_runs' AND column_name = 'run_slot')
+   OR (table_name = 'dca_run_items' AND column_name = 'schedule_slot');
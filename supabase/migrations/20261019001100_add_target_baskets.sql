@@ -0,0 +1,34 @@
+-- Migration: Multi-asset target baskets
+-- Date: 2026-10-19
+-- Reason: Users can split their DCA across several target assets (e.g. 60% ETH / 40% cbBTC,
+--         see shared/tokens.ts). Buys are split by weight and sells draw every held asset,
+--         so each swap now records which asset it bought or sold.
+
+-- ============ DELEGATION BASKET ============
+-- [{"asset": "ETH", "weight": 60}, {"asset": "cbBTC", "weight": 40}]; NULL = 100% target_asset.
+-- target_asset keeps the largest allocation for readers that predate baskets.
+ALTER TABLE delegations
+ADD COLUMN IF NOT EXISTS target_basket JSONB;
+
+ALTER TABLE delegations DROP CONSTRAINT IF EXISTS delegations_target_basket_check;
+ALTER TABLE delegations
+ADD CONSTRAINT delegations_target_basket_check
+CHECK (target_basket IS NULL OR (jsonb_typeof(target_basket) = 'array' AND jsonb_array_length(target_basket) > 0));
+
+-- ============ EXECUTIONS: ASSET PER SWAP ============
+ALTER TABLE dca_executions
+ADD COLUMN IF NOT EXISTS target_asset TEXT; -- Basket asset bought or sold (NULL for non-swap rows)
+
+-- Swaps so far went to the wallet's single target asset
+UPDATE dca_executions AS e
+SET target_asset = COALESCE(d.target_asset, 'ETH')
+FROM delegations AS d
+WHERE e.target_asset IS NULL
+  AND e.action IN ('buy', 'sell', 'rebalance')
+  AND lower(e.wallet_address) = lower(d.smart_account_address);
+
+-- Verify
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'delegations' AND column_name = 'target_basket')
+   OR (table_name = 'dca_executions' AND column_name = 'target_asset');
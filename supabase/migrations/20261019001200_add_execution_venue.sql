@@ -0,0 +1,14 @@
+-- Migration: Add venue column to dca_executions
+-- Date: 2026-10-19
+-- Reason: Swaps are quoted on several venues and routed to the best output after gas
+--         (see backend/quote-providers.ts); record which one each swap went through.
+
+-- 'uniswap-api' (Trading API / Universal Router), 'uniswap-v3' (QuoterV2 / SwapRouter02)
+-- or 'odos'; NULL for non-swap rows and swaps from before venue selection
+ALTER TABLE dca_executions
+ADD COLUMN IF NOT EXISTS venue TEXT;
+
+-- Verify column was added
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'dca_executions' AND column_name = 'venue';
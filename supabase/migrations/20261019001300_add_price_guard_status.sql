@@ -0,0 +1,15 @@
+-- Migration: Allow the price_guard execution status
+-- Date: 2026-10-19
+-- Reason: Each quote's implied price is now checked against Chainlink and a pool TWAP
+--         (see backend/price-guard.ts); swaps refused for deviating too far are logged
+--         with status 'price_guard' instead of 'failed'.
+
+ALTER TABLE dca_executions DROP CONSTRAINT IF EXISTS dca_executions_status_check;
+ALTER TABLE dca_executions
+ADD CONSTRAINT dca_executions_status_check
+CHECK (status IN ('pending', 'submitted', 'success', 'failed', 'retry_failed', 'price_guard'));
+
+-- Verify constraint was replaced
+SELECT conname, pg_get_constraintdef(oid)
+FROM pg_constraint
+WHERE conname = 'dca_executions_status_check';
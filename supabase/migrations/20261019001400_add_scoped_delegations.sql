@@ -0,0 +1,17 @@
+-- Migration: Store argument-restricted delegations next to the swap delegation
+-- Date: 2026-10-19
+-- Reason: Caveats on one delegation apply to every call it redeems, so approvals and
+--         fee transfers are now signed as separate delegations: approve() only for
+--         Permit2, Permit2 approve() only for the Universal Router, and transfer() only
+--         to the fee collector with a per-day limit per token. delegation_data keeps the
+--         swap delegation (see backend/delegation-scopes.ts).
+
+-- { "approve": <signed>, "permit2Approve": <signed>, "feeTransfer": { "<token address>": <signed> } }
+-- NULL for delegations signed before, whose delegation_data covers every call
+ALTER TABLE delegations
+ADD COLUMN IF NOT EXISTS scoped_delegations JSONB;
+
+-- Verify column was added
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'delegations' AND column_name = 'scoped_delegations';
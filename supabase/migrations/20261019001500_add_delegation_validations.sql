@@ -0,0 +1,28 @@
+-- Migration: Per-run delegation validation reports
+-- Date: 2026-10-19
+-- Reason: Runs only checked Timestamp and LimitedCalls terms before redeeming. Each run
+--         now decodes every caveat, verifies the delegator's signature and reads the
+--         DelegationManager's disabled state and the remaining LimitedCalls calls for
+--         every delegation a wallet redeems, and stores the result here.
+
+CREATE TABLE IF NOT EXISTS delegation_validations (
+  run_id UUID NOT NULL REFERENCES dca_runs(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL, -- Smart account, lowercase
+  delegation_id TEXT NOT NULL,
+  valid BOOLEAN NOT NULL,
+  reason TEXT, -- First issue found; NULL when valid
+  report JSONB NOT NULL, -- Decoded caveats, signature, disabled and call-count results per delegation
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (run_id, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_delegation_validations_wallet
+ON delegation_validations (wallet_address, checked_at DESC);
+
+-- Backend-only table: service role bypasses RLS, nothing else gets access
+ALTER TABLE delegation_validations ENABLE ROW LEVEL SECURITY;
+
+-- Verify table was created
+SELECT table_name
+FROM information_schema.tables
+WHERE table_name = 'delegation_validations';
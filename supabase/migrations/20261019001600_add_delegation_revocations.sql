@@ -0,0 +1,30 @@
+-- Migration: On-chain delegation revocations
+-- Date: 2026-10-19
+-- Reason: Revoking only deleted the row, while the signed delegation stayed redeemable
+--         on-chain. The frontend now disables delegations on the DelegationManager, and
+--         backend/revocation-indexer.ts follows DisabledDelegation / EnabledDelegation
+--         events and marks rows revoked so the executor never loads them.
+
+ALTER TABLE delegations
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ, -- NULL while every delegation in the row is enabled
+ADD COLUMN IF NOT EXISTS revoked_delegation_hash TEXT, -- The disabled delegation (lowercase)
+ADD COLUMN IF NOT EXISTS revoked_tx_hash TEXT; -- Transaction that disabled it
+
+-- Last block each backend indexer has processed
+CREATE TABLE IF NOT EXISTS indexer_cursors (
+  name TEXT PRIMARY KEY,
+  last_block BIGINT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Backend-only table: service role bypasses RLS, nothing else gets access
+ALTER TABLE indexer_cursors ENABLE ROW LEVEL SECURITY;
+
+-- Verify columns and table were created
+SELECT column_name
+FROM information_schema.columns
+WHERE table_name = 'delegations' AND column_name LIKE 'revoked_%';
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_name = 'indexer_cursors';
@@ -0,0 +1,13 @@
+-- Migration: Document the dca_executions.execution_key format
+-- Date: 2026-10-19
+-- Reason: 20261019000500 documented keys as '<wallet>:<YYYY-MM-DD>:<buy|sell>'. Keys are
+--         claimed per schedule slot and basket asset (backend/execution-keys.ts
+--         getExecutionKey), so the column now carries the current format.
+
+COMMENT ON COLUMN dca_executions.execution_key IS
+  '<wallet>:<slot>:<asset>:<buy|sell> - lowercased wallet, schedule slot id (e.g. 2026-10-19T12:00Z) or rebalance plan id, basket asset; NULL once an attempt fails';
+
+-- Verify the comment was set
+SELECT col_description('dca_executions'::regclass, attnum) AS execution_key_comment
+FROM pg_attribute
+WHERE attrelid = 'dca_executions'::regclass AND attname = 'execution_key';
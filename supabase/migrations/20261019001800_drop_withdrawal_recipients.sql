@@ -0,0 +1,13 @@
+-- Migration: Drop the withdrawal recipient whitelist
+-- Date: 2026-10-19
+-- Reason: /api/withdraw redeems the wallet's withdraw delegation, whose AllowedCalldata
+--         caveat pins the transfer recipient to the delegator's EOA (shared/withdrawals.ts).
+--         No whitelisted recipient could be paid, so the whitelist from 20261019000700 is
+--         dropped; other destinations are reached from the user's own smart wallet.
+
+DROP TABLE IF EXISTS withdrawal_recipients;
+
+-- Verify the table is gone (expect no rows)
+SELECT table_name
+FROM information_schema.tables
+WHERE table_name = 'withdrawal_recipients';